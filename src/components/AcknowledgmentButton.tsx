@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileCheck } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import type { ValidationResult } from "@/utils/ediValidator";
+import { generateAcknowledgments, type GroupAcknowledgmentCode } from "@/utils/x12Acknowledgment";
+
+interface AcknowledgmentButtonProps {
+  fileName: string;
+  content: string;
+  validation: ValidationResult;
+}
+
+const statusLabel: Record<GroupAcknowledgmentCode, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  A: { label: 'Accepted', variant: 'outline' },
+  E: { label: 'Accepted with Errors', variant: 'secondary' },
+  P: { label: 'Partially Accepted', variant: 'secondary' },
+  R: { label: 'Rejected', variant: 'destructive' }
+};
+
+export const AcknowledgmentButton = ({ fileName, content, validation }: AcknowledgmentButtonProps) => {
+  const acknowledgments = generateAcknowledgments(content, validation);
+  if (!acknowledgments.length) return null;
+
+  const ta1Rejected = acknowledgments.some(ack => ack.ta1?.acknowledgmentCode === 'R');
+  const groupStatuses = acknowledgments.flatMap(ack => ack.groups.map(group => group.status));
+  const overall: GroupAcknowledgmentCode = ta1Rejected || groupStatuses.includes('R') ? 'R'
+    : groupStatuses.includes('P') ? 'P'
+    : groupStatuses.includes('E') ? 'E' : 'A';
+
+  const download = () => {
+    const blob = new Blob([acknowledgments.map(ack => ack.content).join('')], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/\.[^/.]+$/, "")}_999.edi`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Acknowledgment Generated",
+      description: `${ta1Rejected ? 'TA1 rejection' : '999'} ${a.download} is being downloaded`,
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant={statusLabel[overall].variant} className="text-xs">
+        {ta1Rejected ? 'TA1' : '999'}: {statusLabel[overall].label}
+      </Badge>
+      <Button variant="outline" size="sm" onClick={download} className="text-xs">
+        <FileCheck className="h-3 w-3 mr-1" />
+        999/TA1
+      </Button>
+    </div>
+  );
+};
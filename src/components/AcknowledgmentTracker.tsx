@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { FileCheck, Clock } from "lucide-react";
+import { useAcknowledgments } from "@/hooks/useAcknowledgments";
+
+const statusVariant: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  accepted: 'outline',
+  accepted_with_errors: 'secondary',
+  partially_accepted: 'secondary',
+  rejected: 'destructive'
+};
+
+const statusLabel = (status: string | null) =>
+  status ? status.replace(/_/g, ' ') : 'pending';
+
+export const AcknowledgmentTracker = () => {
+  const [maxAgeHours, setMaxAgeHours] = useState(24);
+  const { data, isLoading, error } = useAcknowledgments(maxAgeHours);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <FileCheck className="h-5 w-5" />
+            999 / TA1 Acknowledgments
+          </span>
+          <span className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+            Outstanding after
+            <Input
+              type="number"
+              min={1}
+              value={maxAgeHours}
+              onChange={(e) => setMaxAgeHours(Math.max(1, Number(e.target.value) || 1))}
+              className="h-8 w-20"
+            />
+            hours
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading acknowledgments...</p>}
+        {error && <p className="text-sm text-destructive">Unable to load acknowledgment status</p>}
+
+        {data && (
+          <>
+            <div className="space-y-2">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Awaiting acknowledgment ({data.outstanding.length})
+              </p>
+              {data.outstanding.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Every outbound file older than {data.maxAgeHours} hours has been acknowledged</p>
+              ) : (
+                data.outstanding.map(file => (
+                  <div key={file.file_id} className="flex items-center justify-between text-sm p-2 bg-secondary/30 rounded">
+                    <span>
+                      {file.file_name}
+                      <span className="text-xs text-muted-foreground"> • {file.file_type} • ISA13 {file.interchange_control_number || '—'}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {file.unacknowledged_sets} set{file.unacknowledged_sets === 1 ? '' : 's'} • {file.hours_outstanding}h
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Recently acknowledged</p>
+              {data.acknowledged.map(file => (
+                <div key={file.id} className="p-2 bg-secondary/30 rounded space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{file.file_name}</span>
+                    <Badge variant={statusVariant[file.acknowledgment_status] || 'outline'} className="text-xs capitalize">
+                      {statusLabel(file.acknowledgment_status)}
+                    </Badge>
+                  </div>
+                  {file.edi_transactions.map((set, index) => (
+                    <div key={index} className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{set.transaction_type} GS06 {set.group_control_number || '—'} / ST02 {set.control_number || '—'}</span>
+                      <span className="capitalize">
+                        {statusLabel(set.acknowledgment_status)}{set.acknowledgment_type && ` (${set.acknowledgment_type})`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,144 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, Clock, Link2, Receipt } from "lucide-react";
+import {
+  REQUEST_CATEGORY_CODES,
+  CERTIFICATION_TYPE_CODES,
+  type AuthorizationDecision,
+  type AuthorizationLink,
+  type AuthorizationParty,
+  type AuthorizationRecord
+} from "@/utils/authorizationExtraction";
+
+interface AuthorizationSummaryProps {
+  record: AuthorizationRecord;
+  // Links across every uploaded 278, so a request can show its response and vice versa,
+  // with the 837 claims and 835 payments billed against the authorization
+  links: AuthorizationLink[];
+}
+
+const partyName = (party?: AuthorizationParty) =>
+  party ? [party.firstName, party.lastName].filter(Boolean).join(' ') || party.id || 'Unnamed' : '—';
+
+const decisionVariant = (decision: AuthorizationDecision): 'default' | 'secondary' | 'destructive' => {
+  if (decision.actionCode === 'A1' || decision.actionCode === 'A2' || decision.actionCode === 'A6') return 'default';
+  if (decision.actionCode === 'A3' || decision.actionCode === 'C') return 'destructive';
+  return 'secondary';
+};
+
+const DecisionBadge = ({ decision }: { decision?: AuthorizationDecision }) => {
+  if (!decision) return null;
+  return (
+    <Badge variant={decisionVariant(decision)} className="text-xs">
+      {decision.action}{decision.certificationNumber && ` • #${decision.certificationNumber}`}
+    </Badge>
+  );
+};
+
+export const AuthorizationSummary = ({ record, links }: AuthorizationSummaryProps) => {
+  const linkFor = (traceNumbers: { number: string; originator: string }[]) =>
+    links.find(link => traceNumbers.some(trace =>
+      trace.number === link.traceNumber && trace.originator === link.originator
+    ));
+
+  return (
+    <Card className="p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-foreground flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4" />
+          Authorization {record.kind === 'request' ? 'Request' : 'Response'}
+        </h4>
+        {record.referenceId && (
+          <span className="text-xs text-muted-foreground">Ref {record.referenceId}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <span className="text-muted-foreground">UMO:</span>
+          <p className="font-medium">{partyName(record.umo)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Requester:</span>
+          <p className="font-medium">{partyName(record.requester)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Subscriber:</span>
+          <p className="font-medium">{partyName(record.subscriber)}</p>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Patient:</span>
+          <p className="font-medium">{partyName(record.patient)}</p>
+        </div>
+      </div>
+
+      {record.events.map((event, index) => {
+        const link = linkFor(event.traceNumbers);
+        const counterpart = record.kind === 'request' ? link?.response : link?.request;
+
+        return (
+          <div key={index} className="p-2 bg-secondary/30 rounded space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-sm">
+                {REQUEST_CATEGORY_CODES[event.requestCategory || ''] || 'Patient Event'}
+                {event.certificationType && (
+                  <span className="text-xs text-muted-foreground">
+                    {' '}• {CERTIFICATION_TYPE_CODES[event.certificationType] || event.certificationType}
+                  </span>
+                )}
+              </span>
+              <DecisionBadge decision={event.decision || (record.kind === 'request' ? link?.decision : undefined)} />
+            </div>
+
+            {event.diagnoses.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Diagnoses: {event.diagnoses.map(diagnosis => diagnosis.code).join(', ')}
+              </p>
+            )}
+
+            {event.services.map((service, serviceIndex) => (
+              <div key={serviceIndex} className="flex items-center justify-between text-xs">
+                <span>
+                  {service.procedureCode || service.serviceType || 'Service'}
+                  {service.modifiers.length > 0 && ` (${service.modifiers.join(', ')})`}
+                  {service.quantity !== undefined && ` × ${service.quantity}`}
+                </span>
+                <DecisionBadge decision={service.decision} />
+              </div>
+            ))}
+
+            {event.traceNumbers.length > 0 && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Link2 className="h-3 w-3" />
+                Trace {event.traceNumbers.map(trace => trace.number).join(', ')}
+                {counterpart
+                  ? ` • matched ${record.kind === 'request' ? 'response' : 'request'} ${counterpart.record.referenceId}`
+                  : record.kind === 'request' ? ' • awaiting response' : ' • request not loaded'}
+              </p>
+            )}
+
+            {link?.turnaroundHours !== undefined && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                Turnaround: {link.turnaroundHours} hours
+              </p>
+            )}
+
+            {link?.claims.map((claim, claimIndex) => (
+              <p key={claimIndex} className="text-xs text-muted-foreground flex items-center gap-1">
+                <Receipt className="h-3 w-3" />
+                {claim.source === '837' ? 'Claim' : 'Payment'} {claim.claimId} • #{claim.authorizationNumber}
+                {' '}• billed ${claim.chargeAmount.toFixed(2)}
+                {claim.paidAmount !== undefined && ` • paid $${claim.paidAmount.toFixed(2)}`}
+              </p>
+            ))}
+
+            {event.messages.map((message, messageIndex) => (
+              <p key={messageIndex} className="text-xs italic text-muted-foreground">{message}</p>
+            ))}
+          </div>
+        );
+      })}
+    </Card>
+  );
+};
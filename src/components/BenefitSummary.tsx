@@ -0,0 +1,156 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, ShieldX, ShieldQuestion, User, Users } from "lucide-react";
+import {
+  summarizeBenefits,
+  COVERAGE_LEVEL_CODES,
+  SERVICE_TYPE_CODES,
+  TIME_PERIOD_CODES,
+  type BenefitSummary as BenefitSummaryRow,
+  type CoverageStatus,
+  type EligibilityBenefit,
+  type EligibilityDocument,
+  type EligibilityPerson
+} from "@/utils/eligibilityExtraction";
+
+interface BenefitSummaryProps {
+  eligibility: EligibilityDocument;
+  searchTerm?: string;
+}
+
+const statusBadge: Record<CoverageStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  active: { label: 'Covered', variant: 'default' },
+  inactive: { label: 'Inactive', variant: 'destructive' },
+  'not-covered': { label: 'Not Covered', variant: 'destructive' },
+  unknown: { label: 'Unknown', variant: 'outline' }
+};
+
+const formatCostShare = (benefit: EligibilityBenefit): string => {
+  const value = benefit.amount !== undefined
+    ? `$${benefit.amount.toLocaleString()}`
+    : benefit.percent !== undefined ? `${Math.round(benefit.percent * 100)}%` : benefit.quantity?.toString() || '';
+  const qualifiers = [
+    COVERAGE_LEVEL_CODES[benefit.coverageLevel || ''],
+    TIME_PERIOD_CODES[benefit.timePeriod || ''],
+    benefit.inNetwork === 'Y' ? 'in network' : benefit.inNetwork === 'N' ? 'out of network' : ''
+  ].filter(Boolean);
+  return qualifiers.length ? `${value} (${qualifiers.join(', ')})` : value;
+};
+
+const personName = (person: EligibilityPerson) =>
+  [person.firstName, person.lastName].filter(Boolean).join(' ') || 'Unnamed';
+
+const CostShareLine = ({ label, benefits }: { label: string; benefits: EligibilityBenefit[] }) => {
+  if (!benefits.length) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      <span className="font-medium text-foreground">{label}:</span> {benefits.map(formatCostShare).join(' • ')}
+    </p>
+  );
+};
+
+const PersonBenefits = ({ person, searchTerm }: { person: EligibilityPerson; searchTerm: string }) => {
+  const rows = summarizeBenefits(person).filter(row =>
+    searchTerm === "" ||
+    row.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    row.serviceType.toLowerCase() === searchTerm.toLowerCase()
+  );
+  const inquiredTypes = person.inquiries.flatMap(inquiry => inquiry.serviceTypes);
+  const Icon = person.level === 'subscriber' ? User : Users;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Icon className="h-4 w-4" />
+          {personName(person)}
+          <span className="text-xs text-muted-foreground capitalize">
+            {person.level}{person.id && ` • ${person.id}`}{person.birthDate && ` • DOB ${person.birthDate}`}
+          </span>
+        </p>
+      </div>
+
+      {person.rejections.map((rejection, index) => (
+        <p key={index} className="text-xs text-destructive">
+          Rejected: {rejection.reason}
+        </p>
+      ))}
+
+      {inquiredTypes.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Inquiry for: {inquiredTypes.map(code => SERVICE_TYPE_CODES[code] || code).join(', ')}
+        </p>
+      )}
+
+      {rows.map((row: BenefitSummaryRow) => (
+        <div key={row.serviceType} className="p-2 bg-secondary/30 rounded space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm flex items-center gap-2">
+              {row.status === 'active' ? (
+                <ShieldCheck className="h-4 w-4 text-green-500" />
+              ) : row.status === 'unknown' ? (
+                <ShieldQuestion className="h-4 w-4 text-muted-foreground" />
+              ) : (
+                <ShieldX className="h-4 w-4 text-destructive" />
+              )}
+              {row.description}
+            </span>
+            <div className="flex items-center gap-1">
+              {row.authorizationRequired && (
+                <Badge variant="secondary" className="text-xs">Auth Required</Badge>
+              )}
+              <Badge variant={statusBadge[row.status].variant} className="text-xs">
+                {statusBadge[row.status].label}
+              </Badge>
+            </div>
+          </div>
+          <CostShareLine label="Co-pay" benefits={row.copays} />
+          <CostShareLine label="Co-insurance" benefits={row.coinsurance} />
+          <CostShareLine label="Deductible" benefits={row.deductibles} />
+          <CostShareLine label="Out of pocket" benefits={row.outOfPocket} />
+          <CostShareLine label="Limitations" benefits={row.limitations} />
+          {row.messages.map((message, index) => (
+            <p key={index} className="text-xs italic text-muted-foreground">{message}</p>
+          ))}
+        </div>
+      ))}
+
+      {rows.length === 0 && person.benefits.length > 0 && (
+        <p className="text-xs text-muted-foreground">No benefits match "{searchTerm}"</p>
+      )}
+    </div>
+  );
+};
+
+export const BenefitSummary = ({ eligibility, searchTerm = "" }: BenefitSummaryProps) => {
+  if (!eligibility.subscribers.length) return null;
+
+  return (
+    <Card className="p-3 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-foreground">
+          {eligibility.type === '271' ? 'Benefit Summary' : 'Eligibility Inquiry'}
+        </h4>
+        {eligibility.referenceId && (
+          <span className="text-xs text-muted-foreground">Ref {eligibility.referenceId}</span>
+        )}
+      </div>
+
+      {eligibility.subscribers.map((subscriber, index) => (
+        <div key={`${subscriber.id}-${index}`} className="space-y-3">
+          {subscriber.informationSource && (
+            <p className="text-xs text-muted-foreground">
+              Source: {subscriber.informationSource.lastName}
+            </p>
+          )}
+          <PersonBenefits person={subscriber} searchTerm={searchTerm} />
+          {subscriber.dependents.map((dependent, dependentIndex) => (
+            <div key={`${dependent.id}-${dependentIndex}`} className="pl-4 border-l border-border">
+              <PersonBenefits person={dependent} searchTerm={searchTerm} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </Card>
+  );
+};
@@ -13,6 +13,7 @@ import {
 import { EDIFile } from "@/pages/Index";
 import { parseEDIContent } from "@/utils/ediParser";
 import { validateEDITransaction } from "@/utils/ediValidator";
+import { AcknowledgmentTracker } from "@/components/AcknowledgmentTracker";
 
 interface BusinessMetrics {
   totalFiles: number;
@@ -482,6 +483,8 @@ export const BusinessDashboard = ({ files }: BusinessDashboardProps) => {
               </CardContent>
             </Card>
           </div>
+
+          <AcknowledgmentTracker />
         </TabsContent>
 
         <TabsContent value="intelligence" className="space-y-6">
@@ -0,0 +1,339 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileSpreadsheet, Upload, AlertCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { parseEDIContent, extract834Members } from '@/utils/universalEDIParser';
+import {
+  CENSUS_COLUMNS,
+  censusToMembers,
+  censusToRows,
+  generateCensus834,
+  membersToCensus,
+  suggestCensusMapping,
+  type Census834Envelope,
+  type CensusField,
+  type CensusIssue,
+  type CensusMapping
+} from '@/utils/census834';
+import { readSpreadsheet, toCSV, toXLSX, type SpreadsheetRows } from '@/utils/spreadsheet';
+import { JSONValidationError } from '@/utils/jsonSchemas';
+import { defaultImplementationGuide } from '@/utils/implementationGuides';
+import type { X12Release } from '@/utils/x12Dictionary';
+import { EDIFile } from '@/pages/Index';
+
+interface CensusManagerProps {
+  files: EDIFile[];
+}
+
+const NOT_MAPPED = 'none';
+
+const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const ENVELOPE_FIELDS: { key: keyof Census834Envelope; label: string }[] = [
+  { key: 'senderId', label: 'Sender ID (ISA06)' },
+  { key: 'receiverId', label: 'Receiver ID (ISA08)' },
+  { key: 'sponsorName', label: 'Sponsor Name' },
+  { key: 'sponsorId', label: 'Sponsor Tax ID' },
+  { key: 'payerName', label: 'Payer Name' },
+  { key: 'payerId', label: 'Payer Tax ID' },
+  { key: 'policyNumber', label: 'Master Policy Number' }
+];
+
+export const CensusManager = ({ files }: CensusManagerProps) => {
+  const enrollmentFiles = files.filter(file => file.type === '834' && file.content);
+  const [exportFileId, setExportFileId] = useState<string>('');
+  const [sheetName, setSheetName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetRows>([]);
+  const [mapping, setMapping] = useState<CensusMapping>({});
+  const [issues, setIssues] = useState<CensusIssue[]>([]);
+  const [envelope, setEnvelope] = useState<Census834Envelope>({
+    senderQualifier: 'ZZ',
+    senderId: '',
+    receiverQualifier: 'ZZ',
+    receiverId: '',
+    sponsorName: '',
+    sponsorId: '',
+    payerName: '',
+    payerId: '',
+    controlNumber: 1,
+    testIndicator: 'T',
+    actionCode: '2',
+    release: '005010'
+  });
+
+  const exportFile = enrollmentFiles.find(file => file.id === exportFileId) || enrollmentFiles[0];
+  const headers = sheet[0] || [];
+
+  const exportCensus = useMemo(() => {
+    if (!exportFile) return [];
+    try {
+      return membersToCensus(extract834Members(parseEDIContent(exportFile.content)));
+    } catch (error) {
+      console.error('Census export error:', error);
+      return [];
+    }
+  }, [exportFile]);
+
+  const downloadCensus = (format: 'csv' | 'xlsx') => {
+    if (!exportFile) return;
+    const rows = censusToRows(exportCensus);
+    const baseName = `${exportFile.name.replace(/\.[^/.]+$/, '')}_census`;
+
+    if (format === 'csv') {
+      downloadFile(toCSV(rows), `${baseName}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(toXLSX(rows, 'Census'), `${baseName}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    }
+
+    toast({
+      title: "Download Started",
+      description: `${exportCensus.length} census rows from ${exportFile.name}`,
+    });
+  };
+
+  const loadSpreadsheet = async (file?: File) => {
+    if (!file) return;
+    try {
+      const rows = await readSpreadsheet(file);
+      setSheet(rows);
+      setSheetName(file.name);
+      setMapping(suggestCensusMapping(rows[0] || []));
+      setIssues([]);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : 'The spreadsheet could not be read',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateMapping = (field: CensusField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const generate834 = () => {
+    const { members, issues: rowIssues } = censusToMembers(sheet.slice(1), mapping);
+    const missingEnvelope = ENVELOPE_FIELDS
+      .filter(field => field.key !== 'policyNumber' && !String(envelope[field.key] || '').trim())
+      .map(field => ({ row: 0, message: `${field.label} is required` }));
+    const allIssues = [...missingEnvelope, ...rowIssues];
+    setIssues(allIssues);
+
+    if (allIssues.length) {
+      toast({
+        title: "Census Has Errors",
+        description: `${allIssues.length} problem${allIssues.length === 1 ? '' : 's'} must be fixed before an 834 can be generated`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const edi = generateCensus834(members, envelope);
+      const name = `${sheetName.replace(/\.[^/.]+$/, '')}_834.edi`;
+      downloadFile(edi, name, 'text/plain');
+      setEnvelope(prev => ({ ...prev, controlNumber: prev.controlNumber + 1 }));
+
+      toast({
+        title: "834 Generated",
+        description: `${members.length} members written to ${name}`,
+      });
+    } catch (error) {
+      if (error instanceof JSONValidationError) {
+        setIssues(error.issues.map(issue => ({ row: 0, message: `${issue.path}: ${issue.message}` })));
+      }
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : 'Error generating the 834',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          834 Enrollment Census
+        </CardTitle>
+        <CardDescription>
+          Export members to a CSV or Excel census, or build an 834 from an HR spreadsheet
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Export</h4>
+          {enrollmentFiles.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Upload an 834 file to export its census</p>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Select value={exportFile?.id} onValueChange={setExportFileId}>
+                <SelectTrigger className="h-9 w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {enrollmentFiles.map(file => (
+                    <SelectItem key={file.id} value={file.id}>{file.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Badge variant="secondary">{exportCensus.length} rows</Badge>
+              <Button size="sm" variant="outline" onClick={() => downloadCensus('csv')} disabled={!exportCensus.length}>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => downloadCensus('xlsx')} disabled={!exportCensus.length}>
+                <Download className="h-4 w-4 mr-2" />
+                XLSX
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Import</h4>
+          <Input
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            onChange={(e) => loadSpreadsheet(e.target.files?.[0])}
+            className="w-80"
+          />
+
+          {sheet.length > 0 && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                {sheetName}: {sheet.length - 1} rows. Map each census field to a spreadsheet column.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {CENSUS_COLUMNS.map(column => (
+                  <div key={column.field} className="flex items-center justify-between gap-2">
+                    <Label className="text-xs">
+                      {column.label}{column.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[column.field] !== undefined ? String(mapping[column.field]) : NOT_MAPPED}
+                      onValueChange={(value) => updateMapping(column.field, value)}
+                    >
+                      <SelectTrigger className="h-8 w-40 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-4 gap-2">
+                {ENVELOPE_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-xs">{field.label}</Label>
+                    <Input
+                      value={String(envelope[field.key] ?? '')}
+                      onChange={(e) => setEnvelope(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-xs">Control Number</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={envelope.controlNumber}
+                    onChange={(e) => setEnvelope(prev => ({ ...prev, controlNumber: Math.max(1, Number(e.target.value) || 1) }))}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Usage</Label>
+                  <Select value={envelope.testIndicator} onValueChange={(value) => setEnvelope(prev => ({ ...prev, testIndicator: value as 'T' | 'P' }))}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="T">Test</SelectItem>
+                      <SelectItem value="P">Production</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">File Type</Label>
+                  <Select value={envelope.actionCode} onValueChange={(value) => setEnvelope(prev => ({ ...prev, actionCode: value as '2' | '4' }))}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="2">Changes only</SelectItem>
+                      <SelectItem value="4">Full file (verify)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Implementation Guide</Label>
+                  <Select value={envelope.release} onValueChange={(value) => setEnvelope(prev => ({ ...prev, release: value as X12Release }))}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(['005010', '004010'] as const).map(release => (
+                        <SelectItem key={release} value={release}>{defaultImplementationGuide('834', release)?.reference}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Button size="sm" onClick={generate834}>
+                <Upload className="h-4 w-4 mr-2" />
+                Generate 834
+              </Button>
+
+              {issues.length > 0 && (
+                <div className="space-y-1">
+                  {issues.slice(0, 20).map((issue, index) => (
+                    <div key={index} className="flex items-start gap-2 text-xs text-destructive">
+                      <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {issue.row > 0 && `Row ${issue.row}: `}{issue.message}
+                      </span>
+                    </div>
+                  ))}
+                  {issues.length > 20 && (
+                    <p className="text-xs text-muted-foreground">+{issues.length - 20} more</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -11,16 +11,18 @@ import { Eye, Code, GitCompare, FileJson } from "lucide-react";
 interface EDIComparisonProps {
   leftFile?: EDIFile;
   rightFile?: EDIFile;
+  files: EDIFile[];
   onFileUpload: (files: EDIFile[]) => void;
+  onFileUpdated: (fileId: string, changes: Partial<EDIFile>) => void;
 }
 
-export const EDIComparison = ({ leftFile, rightFile, onFileUpload }: EDIComparisonProps) => {
+export const EDIComparison = ({ leftFile, rightFile, files, onFileUpload, onFileUpdated }: EDIComparisonProps) => {
   const [activeTab, setActiveTab] = useState("compare");
 
   return (
     <div className="flex-1 flex flex-col">
       <div className="border-b border-border">
-        <FileUploader onFilesUploaded={onFileUpload} compact />
+        <FileUploader onFilesUploaded={onFileUpload} onFileUpdated={onFileUpdated} compact />
         
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-4 h-12 mx-4 mb-4">
@@ -72,7 +74,7 @@ export const EDIComparison = ({ leftFile, rightFile, onFileUpload }: EDIComparis
           </TabsContent>
           
           <TabsContent value="decode" className="h-full m-0">
-            <EDIDecoder leftFile={leftFile} rightFile={rightFile} />
+            <EDIDecoder leftFile={leftFile} rightFile={rightFile} files={files} />
           </TabsContent>
 
           <TabsContent value="convert" className="h-full m-0">
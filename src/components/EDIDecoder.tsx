@@ -1,21 +1,64 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Search, FileText, Info } from "lucide-react";
 import { EDIFile } from "@/pages/Index";
-import { parseEDIContent, decodeEDI834Segment, decodeEDI820Segment, EDISegment } from "@/utils/ediParser";
+import { decodeX12Segment, type X12Release } from "@/utils/x12Dictionary";
+import { parseEDIContent, type EDIFormatType, type EDISegment } from "@/utils/universalEDIParser";
+import { readRelease } from "@/utils/implementationGuides";
+import { validateEDITransaction, validationPartnerId } from "@/utils/ediValidator";
+import { useValidationOverrides } from "@/hooks/useValidationOverrides";
+import { extractEligibility, decodeEligibilitySegment } from "@/utils/eligibilityExtraction";
+import { extract278Authorization, linkAuthorizations, readAuthorizedClaims, decodeAuthorizationSegment, type AuthorizationRecord } from "@/utils/authorizationExtraction";
+import { extract837Claims } from "@/utils/claimExtraction";
+import { extract835Remittances } from "@/utils/remittanceExtraction";
+import { BenefitSummary } from "@/components/BenefitSummary";
+import { AuthorizationSummary } from "@/components/AuthorizationSummary";
+import { AcknowledgmentButton } from "@/components/AcknowledgmentButton";
+import { isEDIFACT } from "@/utils/edifactTokenizer";
+import { decodeEDIFACTSegment } from "@/utils/edifactFormats";
+
+// Transaction types with their own segment wording; the rest decode from the X12 dictionary
+const SEGMENT_DECODERS: Partial<Record<EDIFormatType, (segment: EDISegment) => string>> = {
+  '270': decodeEligibilitySegment,
+  '271': decodeEligibilitySegment,
+  '278': decodeAuthorizationSegment
+};
+
+const segmentDecoder = (content: string, type: EDIFormatType | 'unknown', release: X12Release) =>
+  isEDIFACT(content)
+    ? decodeEDIFACTSegment
+    : (type !== 'unknown' && SEGMENT_DECODERS[type]) || ((segment: EDISegment) => decodeX12Segment(segment, release));
 
 interface EDIDecoderProps {
   leftFile?: EDIFile;
   rightFile?: EDIFile;
+  // Every uploaded file; 278s, 837s and 835s among them feed authorization linking
+  files: EDIFile[];
 }
 
-export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
+export const EDIDecoder = ({ leftFile, rightFile, files }: EDIDecoderProps) => {
   const [searchTerm, setSearchTerm] = useState("");
+  const { data: overridesByPartner = {} } = useValidationOverrides();
 
-  const DecodePanel = ({ file, title }: { file?: EDIFile; title: string }) => {
+  // 278s across every uploaded file are linked so a request shows its response's decision and
+  // turnaround, along with the 837 claims and 835 payments quoting the certification number.
+  // Streamed files carry no content and are left out.
+  const authorizationLinks = useMemo(() => {
+    const loaded = files.filter(file => file.content);
+    const parsed = (type: EDIFile['type']) => loaded.filter(file => file.type === type).map(file => parseEDIContent(file.content));
+    return linkAuthorizations(
+      parsed('278').map(extract278Authorization),
+      readAuthorizedClaims(parsed('837').flatMap(extract837Claims), parsed('835').flatMap(extract835Remittances))
+    );
+  }, [files]);
+  const readAuthorization = (file?: EDIFile): AuthorizationRecord | null =>
+    file?.type === '278' ? extract278Authorization(parseEDIContent(file.content)) : null;
+  const authorizations = [readAuthorization(leftFile), readAuthorization(rightFile)];
+
+  const DecodePanel = ({ file, title, authorization }: { file?: EDIFile; title: string; authorization: AuthorizationRecord | null }) => {
     if (!file) {
       return (
         <div className="flex-1 flex items-center justify-center bg-card border border-border rounded-lg m-2">
@@ -28,20 +71,16 @@ export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
     }
 
     const ediData = parseEDIContent(file.content);
-    
-    const decodeSegment = (segment: EDISegment, type: '834' | '820' | 'unknown'): string => {
-      if (type === '834') {
-        return decodeEDI834Segment(segment);
-      } else if (type === '820') {
-        return decodeEDI820Segment(segment);
-      }
-      return `${segment.tag} - ${segment.elements.slice(1).join(', ')}`;
-    };
+    const format = ediData.type;
+    const eligibility = format === '270' || format === '271'
+      ? extractEligibility({ type: format, segments: ediData.segments })
+      : null;
+    const decodeSegment = segmentDecoder(file.content, format, readRelease(ediData.segments, format));
     
     const filteredSegments = ediData.segments.filter(segment => 
       searchTerm === "" || 
       segment.tag.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      decodeSegment(segment, ediData.type).toLowerCase().includes(searchTerm.toLowerCase())
+      decodeSegment(segment).toLowerCase().includes(searchTerm.toLowerCase())
     );
 
     return (
@@ -51,7 +90,7 @@ export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
             <h3 className="font-medium text-foreground">{title}</h3>
             <div className="flex items-center gap-2">
               <Badge variant="outline">
-                {ediData.type.toUpperCase()}
+                {format.toUpperCase()}
               </Badge>
               <span className="text-sm text-muted-foreground">
                 {filteredSegments.length} segments
@@ -59,6 +98,12 @@ export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
             </div>
           </div>
           
+          {ediData.metadata.controlNumber && (
+            <div className="flex justify-end mb-3">
+              <AcknowledgmentButton fileName={file.name} content={file.content} validation={validateEDITransaction(ediData, { overrides: overridesByPartner[validationPartnerId(ediData.segments) || ''] })} />
+            </div>
+          )}
+
           {ediData.metadata.sender && (
             <div className="grid grid-cols-2 gap-4 text-sm mb-3">
               <div>
@@ -87,6 +132,9 @@ export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
 
         <ScrollArea className="flex-1 bg-card border-x border-b border-border rounded-b-lg">
           <div className="p-4 space-y-3">
+            {eligibility && <BenefitSummary eligibility={eligibility} searchTerm={searchTerm} />}
+            {authorization && <AuthorizationSummary record={authorization} links={authorizationLinks} />}
+
             {filteredSegments.map((segment, index) => (
               <Card key={`${segment.lineNumber}-${index}`} className="p-3">
                 <div className="flex items-start gap-3">
@@ -95,14 +143,14 @@ export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
                       {segment.tag}
                     </Badge>
                     <span className="text-xs text-muted-foreground">
-                      Line {segment.lineNumber}
+                      Segment {segment.lineNumber}
                     </span>
                   </div>
                 </div>
                 
                 <div className="mt-2">
                   <p className="text-sm text-foreground font-medium mb-1">
-                    {decodeSegment(segment, ediData.type)}
+                    {decodeSegment(segment)}
                   </p>
                   <details className="text-xs text-muted-foreground">
                     <summary className="cursor-pointer hover:text-foreground flex items-center gap-1">
@@ -147,8 +195,8 @@ export const EDIDecoder = ({ leftFile, rightFile }: EDIDecoderProps) => {
       </div>
 
       <div className="flex-1 flex overflow-hidden">
-        <DecodePanel file={leftFile} title={leftFile?.name || "Left Panel"} />
-        <DecodePanel file={rightFile} title={rightFile?.name || "Right Panel"} />
+        <DecodePanel file={leftFile} title={leftFile?.name || "Left Panel"} authorization={authorizations[0]} />
+        <DecodePanel file={rightFile} title={rightFile?.name || "Right Panel"} authorization={authorizations[1]} />
       </div>
     </div>
   );
@@ -1,12 +1,17 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ZoomIn, ZoomOut, Search, AlertTriangle, CheckCircle } from "lucide-react";
+import { ZoomIn, ZoomOut, Search, AlertTriangle, CheckCircle, Info } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { EDIFile } from "@/pages/Index";
-import { parseEDIContent, EDISegment } from "@/utils/ediParser";
-import { validateEDITransaction, EDIError } from "@/utils/ediValidator";
+import { parseEDIContent, type EDISegment } from "@/utils/universalEDIParser";
+import { validateEDITransaction, validationPartnerId, EDIError } from "@/utils/ediValidator";
+import { useValidationOverrides } from "@/hooks/useValidationOverrides";
+import { isEDIFACT } from "@/utils/edifactTokenizer";
+import { describeElement, getElementDefinition, getSegmentDefinition } from "@/utils/x12Dictionary";
+import { parseEDIDocument } from "@/utils/x12Envelope";
+import { matchImplementationGuide, readRelease } from "@/utils/implementationGuides";
 import { ErrorSummary } from "./ErrorSummary";
 
 interface EDIViewerProps {
@@ -19,11 +24,25 @@ export const EDIViewer = ({ file }: EDIViewerProps) => {
   const [showValidation, setShowValidation] = useState(true);
   
   const ediData = parseEDIContent(file.content);
-  const validationResult = validateEDITransaction(ediData);
+  const x12 = !isEDIFACT(file.content);
+  const { data: overridesByPartner = {} } = useValidationOverrides();
+  const partnerId = validationPartnerId(ediData.segments);
+  const validationResult = validateEDITransaction(ediData, { overrides: partnerId ? overridesByPartner[partnerId] : undefined });
+  const release = readRelease(ediData.segments, ediData.type);
+  const mixed = (ediData.transactionTypes?.length || 0) > 1;
+
+  // Guide each transaction set claims in GS08/ST03 against the one its content fits, once per pairing.
+  // Matching checks every set against each candidate guide, so it only reruns when the content changes.
+  const guideMatches = useMemo(() => x12
+    ? [...new Map(parseEDIDocument(file.content).transactionSets
+        .map(matchImplementationGuide)
+        .filter(match => match.claimed || match.matched)
+        .map(match => [`${match.claimed}|${match.matched?.reference}`, match] as const)).entries()]
+    : [], [x12, file.content]);
   
   // Create a map of line numbers to errors for quick lookup
   const errorsByLine = new Map<number, EDIError[]>();
-  [...validationResult.errors, ...validationResult.warnings].forEach(error => {
+  [...validationResult.errors, ...validationResult.warnings, ...validationResult.info].forEach(error => {
     const lineNumber = error.segment.lineNumber;
     if (!errorsByLine.has(lineNumber)) {
       errorsByLine.set(lineNumber, []);
@@ -38,18 +57,23 @@ export const EDIViewer = ({ file }: EDIViewerProps) => {
   );
 
   const highlightSegmentHTML = (segment: EDISegment) => {
-    const elements = segment.raw.split(/[\*~]/);
+    const separator = ediData.delimiters?.element || '*';
     
-    return elements.map((element, index) => {
+    return segment.elements.map((element, index) => {
       if (index === 0) {
-        return `<span class="edi-segment">${element}</span>`;
+        return `<span class="edi-segment"${tooltip(getSegmentDefinition(element, release)?.name)}>${element}</span>`;
       } else {
         const cssClass = getElementClass(element);
-        return `<span class="edi-separator">*</span><span class="${cssClass}">${element}</span>`;
+        const description = getElementDefinition(segment.tag, index, release) ? describeElement(segment.tag, index, element, release) : undefined;
+        return `<span class="edi-separator">${separator}</span><span class="${cssClass}"${tooltip(description)}>${element}</span>`;
       }
     }).join('');
   };
 
+  // Element names and code meanings from the X12 dictionary, shown on hover
+  const tooltip = (text?: string): string =>
+    x12 && text ? ` title="${text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')}"` : '';
+
   const getElementClass = (element: string): string => {
     if (/^\d{8}$/.test(element) || /^\d{6}$/.test(element)) {
       return 'edi-date';
@@ -85,9 +109,14 @@ export const EDIViewer = ({ file }: EDIViewerProps) => {
       <div className="p-3 border-b border-border bg-card space-y-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <Badge variant="outline" className="text-xs">
-              {ediData.type.toUpperCase()}
+            <Badge variant="outline" className="text-xs" title={mixed ? 'Mixed interchange: each set is validated against its own type' : undefined}>
+              {(mixed ? ediData.transactionTypes!.join(' + ') : ediData.type).toUpperCase()}
             </Badge>
+            {ediData.payer && (
+              <Badge variant="secondary" className="text-xs" title="Payer companion guide requirements are checked as SNIP 7">
+                {ediData.payer.name}
+              </Badge>
+            )}
             <span className="text-sm text-muted-foreground">
               {filteredSegments.length} segments
             </span>
@@ -103,6 +132,20 @@ export const EDIViewer = ({ file }: EDIViewerProps) => {
                   {validationResult.totalIssues} Issues
                 </Badge>
               )}
+              {guideMatches.map(([key, match]) => {
+                const mismatch = match.matched && match.matched !== match.claimedGuide;
+                return (
+                  <Badge
+                    key={key}
+                    variant="outline"
+                    className={`text-xs ${mismatch ? 'text-yellow-600 border-yellow-600' : ''}`}
+                    title={Object.entries(match.issues).map(([reference, count]) => `${reference}: ${count} issues`).join('\n')}
+                  >
+                    {match.claimed || 'No guide'}
+                    {mismatch && ` → matches ${match.matched?.reference}`}
+                  </Badge>
+                );
+              })}
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -157,8 +200,10 @@ export const EDIViewer = ({ file }: EDIViewerProps) => {
                     <div className="ml-1">
                       {lineErrors.some(e => e.type === 'critical') ? (
                         <AlertTriangle className="h-3 w-3 text-destructive" />
-                      ) : (
+                      ) : lineErrors.some(e => e.type === 'warning') ? (
                         <AlertTriangle className="h-3 w-3 text-yellow-500" />
+                      ) : (
+                        <Info className="h-3 w-3 text-muted-foreground" />
                       )}
                     </div>
                   )}
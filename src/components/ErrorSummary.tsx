@@ -1,20 +1,49 @@
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
 import { AlertTriangle, AlertCircle, Info, CheckCircle, FileText } from "lucide-react";
-import { parseEDIContent } from "@/utils/ediParser";
-import { validateEDITransaction } from "@/utils/ediValidator";
+import { parseEDIContent } from "@/utils/universalEDIParser";
+import { SNIP_LEVELS, validateEDITransaction, validationPartnerId, type EDIError, type SnipLevel } from "@/utils/ediValidator";
+import { AcknowledgmentButton } from "@/components/AcknowledgmentButton";
+import { useSaveValidationOverride, useValidationOverrides } from "@/hooks/useValidationOverrides";
+import { toast } from "@/hooks/use-toast";
+import type { EDIFile } from "@/pages/Index";
 
 interface ErrorSummaryProps {
-  files: Array<{
-    id: string;
-    name: string;
-    content: string;
-    type: '834' | '820' | 'unknown';
-  }>;
+  files: Array<Pick<EDIFile, 'id' | 'name' | 'content' | 'type'>>;
 }
 
+const ALL_LEVELS = Object.keys(SNIP_LEVELS).map(Number) as SnipLevel[];
+
+// Issues per SNIP level, lowest level first
+const groupByLevel = (issues: EDIError[]): [SnipLevel, EDIError[]][] => {
+  const groups = new Map<SnipLevel, EDIError[]>();
+  issues.forEach(issue => groups.set(issue.snipLevel, [...(groups.get(issue.snipLevel) || []), issue]));
+  return [...groups.entries()].sort(([a], [b]) => a - b);
+};
+
 export const ErrorSummary = ({ files }: ErrorSummaryProps) => {
+  const { data: overridesByPartner = {} } = useValidationOverrides();
+  const saveOverride = useSaveValidationOverride();
+  const [levels, setLevels] = useState<SnipLevel[]>(ALL_LEVELS);
+
+  const toggleLevel = (level: SnipLevel) => {
+    setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level].sort((a, b) => a - b));
+  };
+
+  // Turn a rule off, or back on, for everything the partner sends
+  const setRuleEnabled = (partnerId: string, ruleId: string, enabled: boolean) => {
+    saveOverride.mutate({ partnerId, ruleId, enabled }, {
+      onSuccess: () => toast({
+        title: enabled ? 'Rule restored' : 'Rule silenced',
+        description: `${ruleId} is ${enabled ? 'checked again' : 'no longer checked'} for ${partnerId}`
+      }),
+      onError: (error) => toast({ title: 'Could not save override', description: error.message, variant: 'destructive' })
+    });
+  };
+
   if (!files.length) {
     return (
       <div className="p-6">
@@ -34,14 +63,32 @@ export const ErrorSummary = ({ files }: ErrorSummaryProps) => {
           <h2 className="text-2xl font-bold">Error Summary & Data Quality</h2>
           <p className="text-muted-foreground">Comprehensive analysis of EDI file errors and compliance issues</p>
         </div>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">SNIP levels</span>
+          {ALL_LEVELS.map(level => (
+            <Button
+              key={level}
+              variant={levels.includes(level) ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 w-7 p-0 text-xs"
+              title={SNIP_LEVELS[level]}
+              onClick={() => toggleLevel(level)}
+            >
+              {level}
+            </Button>
+          ))}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 gap-6">
         {files.map((file, index) => {
           try {
             const parsed = parseEDIContent(file.content);
-            const validation = validateEDITransaction(parsed);
-            const { isValid, errors, warnings, totalIssues } = validation;
+            const partnerId = validationPartnerId(parsed.segments);
+            const overrides = partnerId ? overridesByPartner[partnerId] : undefined;
+            const validation = validateEDITransaction(parsed, { overrides, levels });
+            const { isValid, errors, warnings, info, totalIssues } = validation;
+            const silencedRules = Object.entries(overrides || {}).filter(([, override]) => override.enabled === false);
 
             return (
               <Card key={file.id} className="p-4">
@@ -55,6 +102,11 @@ export const ErrorSummary = ({ files }: ErrorSummaryProps) => {
                     {file.name}
                   </h3>
                   <div className="flex items-center gap-2">
+                    {parsed.payer && (
+                      <Badge variant="outline" className="text-xs" title="Payer companion guide requirements are checked as SNIP 7">
+                        {parsed.payer.name}
+                      </Badge>
+                    )}
                     {errors.length > 0 && (
                       <Badge variant="destructive" className="text-xs">
                         {errors.length} Error{errors.length > 1 ? 's' : ''}
@@ -65,14 +117,34 @@ export const ErrorSummary = ({ files }: ErrorSummaryProps) => {
                         {warnings.length} Warning{warnings.length > 1 ? 's' : ''}
                       </Badge>
                     )}
+                    {info.length > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        {info.length} Info
+                      </Badge>
+                    )}
                     {isValid && (
                       <Badge variant="outline" className="text-green-600 border-green-600 text-xs">
                         Valid
                       </Badge>
                     )}
+                    <AcknowledgmentButton fileName={file.name} content={file.content} validation={validation} />
                   </div>
                 </div>
 
+                {partnerId && silencedRules.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-muted-foreground">
+                    <span>Silenced for {partnerId}:</span>
+                    {silencedRules.map(([ruleId]) => (
+                      <Badge key={ruleId} variant="secondary" className="text-xs font-mono gap-1">
+                        {ruleId}
+                        <button type="button" className="underline" onClick={() => setRuleEnabled(partnerId, ruleId, true)}>
+                          restore
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
                 {totalIssues === 0 ? (
                   <Alert className="border-green-200 bg-green-50 dark:bg-green-950 dark:border-green-800">
                     <CheckCircle className="h-4 w-4 text-green-600" />
@@ -81,36 +153,59 @@ export const ErrorSummary = ({ files }: ErrorSummaryProps) => {
                     </AlertDescription>
                   </Alert>
                 ) : (
-                  <div className="space-y-3 max-h-64 overflow-y-auto">
-                    {[...errors, ...warnings].slice(0, 5).map((error, errorIndex) => (
-                      <Alert key={error.id || errorIndex} variant={error.type === 'critical' ? 'destructive' : 'default'}>
-                        <div className="flex items-start gap-3">
-                          {error.type === 'critical' ? (
-                            <AlertCircle className="h-4 w-4" />
-                          ) : error.type === 'warning' ? (
-                            <AlertTriangle className="h-4 w-4" />
-                          ) : (
-                            <Info className="h-4 w-4" />
-                          )}
-                          <div className="flex-1 space-y-1">
-                            <div className="flex items-center justify-between">
-                              <p className="font-medium text-sm">{error.message}</p>
-                              <Badge variant="outline" className="text-xs">
-                                Line {error.segment.lineNumber}
-                              </Badge>
+                  <div className="space-y-4 max-h-96 overflow-y-auto">
+                    {groupByLevel([...errors, ...warnings, ...info]).map(([level, issues]) => (
+                      <div key={level} className="space-y-2">
+                        <p className="text-xs font-semibold text-muted-foreground">
+                          SNIP {level} · {SNIP_LEVELS[level]} ({issues.length})
+                        </p>
+                        {issues.slice(0, 5).map((error, errorIndex) => (
+                          <Alert key={error.id || errorIndex} variant={error.type === 'critical' ? 'destructive' : 'default'}>
+                            <div className="flex items-start gap-3">
+                              {error.type === 'critical' ? (
+                                <AlertCircle className="h-4 w-4" />
+                              ) : error.type === 'warning' ? (
+                                <AlertTriangle className="h-4 w-4" />
+                              ) : (
+                                <Info className="h-4 w-4" />
+                              )}
+                              <div className="flex-1 space-y-1">
+                                <div className="flex items-center justify-between">
+                                  <p className="font-medium text-sm">{error.message}</p>
+                                  <div className="flex items-center gap-2">
+                                    <Badge variant="outline" className="text-xs font-mono">
+                                      {error.ruleId}
+                                    </Badge>
+                                    <Badge variant="outline" className="text-xs">
+                                      Segment {error.segment.lineNumber}
+                                    </Badge>
+                                  </div>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                  {error.description}
+                                </p>
+                                {partnerId && (
+                                  <Button
+                                    variant="link"
+                                    size="sm"
+                                    className="h-auto p-0 text-xs"
+                                    disabled={saveOverride.isPending}
+                                    onClick={() => setRuleEnabled(partnerId, error.ruleId, false)}
+                                  >
+                                    Silence {error.ruleId} for {partnerId}
+                                  </Button>
+                                )}
+                              </div>
                             </div>
-                            <p className="text-xs text-muted-foreground">
-                              {error.description}
-                            </p>
-                          </div>
-                        </div>
-                      </Alert>
+                          </Alert>
+                        ))}
+                        {issues.length > 5 && (
+                          <p className="text-sm text-muted-foreground text-center">
+                            ... and {issues.length - 5} more level {level} issues
+                          </p>
+                        )}
+                      </div>
                     ))}
-                    {totalIssues > 5 && (
-                      <p className="text-sm text-muted-foreground text-center">
-                        ... and {totalIssues - 5} more issues
-                      </p>
-                    )}
                   </div>
                 )}
               </Card>
@@ -5,14 +5,21 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { EDIFile } from "@/pages/Index";
-import { detectEDIType } from "@/utils/ediParser";
+import { detectEDIFormat, detectMixedTypes } from "@/utils/universalEDIParser";
+import { readStreamPage } from "@/utils/x12Stream";
+import { summarizeInWorker } from "@/workers/x12StreamClient";
 
 interface FileUploaderProps {
   onFilesUploaded: (files: EDIFile[]) => void;
+  onFileUpdated?: (fileId: string, changes: Partial<EDIFile>) => void;
   compact?: boolean;
 }
 
-export const FileUploader = ({ onFilesUploaded, compact = false }: FileUploaderProps) => {
+// Files above this size are streamed in a worker rather than read into memory
+const LARGE_FILE_BYTES = 20 * 1024 * 1024;
+const TYPE_DETECTION_BYTES = 64 * 1024;
+
+export const FileUploader = ({ onFilesUploaded, onFileUpdated, compact = false }: FileUploaderProps) => {
   const [error, setError] = useState<string | null>(null);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
@@ -20,31 +27,67 @@ export const FileUploader = ({ onFilesUploaded, compact = false }: FileUploaderP
     
     try {
       const ediFiles: EDIFile[] = [];
+      const largeFiles: Array<{ id: string; file: File }> = [];
       
       for (const file of acceptedFiles) {
+        const id = Math.random().toString(36).substr(2, 9);
+        
+        if (file.size > LARGE_FILE_BYTES) {
+          const head = await file.slice(0, TYPE_DETECTION_BYTES).text();
+          ediFiles.push({
+            id,
+            name: file.name,
+            content: '',
+            type: detectEDIFormat(head),
+            uploadedAt: new Date(),
+            size: file.size,
+            source: file,
+            streamProgress: 0
+          });
+          largeFiles.push({ id, file });
+          continue;
+        }
+        
         const content = await file.text();
-        const type = detectEDIType(content);
+        const type = detectEDIFormat(content);
+        const mixedTypes = detectMixedTypes(content);
         
         ediFiles.push({
-          id: Math.random().toString(36).substr(2, 9),
+          id,
           name: file.name,
           content,
           type,
-          uploadedAt: new Date()
+          ...(mixedTypes.length > 0 && { mixedTypes }),
+          uploadedAt: new Date(),
+          size: file.size
         });
       }
       
       onFilesUploaded(ediFiles);
+      
+      // Stream large files in the background; the tabs stay usable meanwhile and
+      // pick the file up once its first page is loaded
+      for (const { id, file } of largeFiles) {
+        summarizeInWorker(file, progress => {
+          const percent = progress.totalBytes ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 0;
+          onFileUpdated?.(id, { streamProgress: percent });
+        })
+          .then(async summary => {
+            const content = summary.pages.length ? await readStreamPage(file, summary.pages[0], summary.delimiters) : '';
+            onFileUpdated?.(id, { streamProgress: 100, streamSummary: summary, content, page: 0 });
+          })
+          .catch(err => onFileUpdated?.(id, { streamProgress: undefined, streamError: err.message }));
+      }
     } catch (err) {
       setError('Failed to process files. Please ensure they are valid text files.');
     }
-  }, [onFilesUploaded]);
+  }, [onFilesUploaded, onFileUpdated]);
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
     accept: {
-      'text/plain': ['.txt', '.edi', '.x12'],
-      'application/octet-stream': ['.edi', '.x12']
+      'text/plain': ['.txt', '.edi', '.x12', '.edifact'],
+      'application/octet-stream': ['.edi', '.x12', '.edifact']
     },
     multiple: true
   });
@@ -105,6 +148,7 @@ export const FileUploader = ({ onFilesUploaded, compact = false }: FileUploaderP
                   <span className="px-2 py-1 bg-secondary rounded text-xs">.txt</span>
                   <span className="px-2 py-1 bg-secondary rounded text-xs">.edi</span>
                   <span className="px-2 py-1 bg-secondary rounded text-xs">.x12</span>
+                  <span className="px-2 py-1 bg-secondary rounded text-xs">.edifact</span>
                 </div>
               </div>
             </div>
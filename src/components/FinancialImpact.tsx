@@ -8,10 +8,12 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { 
   DollarSign, TrendingUp, TrendingDown, AlertTriangle, Clock,
-  Target, BarChart3, PieChart, Activity, CheckCircle, Timer, Download, RefreshCw, Database
+  Target, BarChart3, PieChart, Activity, CheckCircle, Timer, Download, RefreshCw, Database, Receipt
 } from "lucide-react";
 import { EDIFile } from "@/pages/Index";
 import { parseEDIContent } from "@/utils/ediParser";
+import { detectEDIFormat } from "@/utils/universalEDIParser";
+import { extract835Remittances, CLAIM_STATUS_CODES, type Remittance835 } from "@/utils/remittanceExtraction";
 import { useMetrics, fetchCMSData } from "@/hooks/useMetrics";
 
 interface FinancialMetrics {
@@ -151,7 +153,8 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
       return { 
         metrics: {} as FinancialMetrics, 
         flows: [] as PaymentFlow[], 
-        breakdown: [] as CostBreakdown[] 
+        breakdown: [] as CostBreakdown[],
+        remittances: [] as Remittance835[]
       };
     }
 
@@ -161,6 +164,8 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
     let errorCount = 0;
     let memberCount = 0;
     let filesWithDelays = 0;
+    let paymentFileCount = 0;
+    const remittances: Remittance835[] = [];
 
     // Monthly payment flow simulation
     const monthlyFlows: Record<string, { premiums: number; payments: number }> = {};
@@ -207,6 +212,7 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
 
       // Process 820 files for payment information
       if (file.type === '820') {
+        paymentFileCount++;
         parsed.segments.forEach(segment => {
           if (segment.tag === 'BPR') {
             const amount = parseFloat(segment.elements[2] || '0');
@@ -226,6 +232,16 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
         });
       }
 
+      // Process 835 remittances; files stored before detection ran are typed 'unknown'
+      if (file.type === '835' || (file.type === 'unknown' && detectEDIFormat(file.content) === '835')) {
+        paymentFileCount++;
+        extract835Remittances(parsed).forEach(remittance => {
+          remittances.push(remittance);
+          totalPayments += remittance.paymentAmount;
+          monthlyFlows[monthKey].payments += remittance.paymentAmount;
+        });
+      }
+
       // Error detection for cost calculation
       if (parsed.segments.some(s => s.elements.includes('ERROR') || s.elements.includes('REJECT'))) {
         errorCount++;
@@ -249,7 +265,7 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
     const delayCosts = filesWithDelays * delayedPaymentCost;
 
     // Cash flow impact from delays
-    const averagePaymentSize = totalPayments / Math.max(1, files.filter(f => f.type === '820').length);
+    const averagePaymentSize = totalPayments / Math.max(1, paymentFileCount);
     const cashFlowImpact = avgPaymentDelay * averagePaymentSize * 0.001; // 0.1% cost of capital per day
 
     // Compliance savings
@@ -334,7 +350,7 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
       }
     ];
 
-    return { metrics: calculatedMetrics, flows, breakdown };
+    return { metrics: calculatedMetrics, flows, breakdown, remittances };
   }, [files]);
 
   useEffect(() => {
@@ -523,9 +539,10 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
       </Alert>
 
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Financial Overview</TabsTrigger>
           <TabsTrigger value="cashflow">Cash Flow Analysis</TabsTrigger>
+          <TabsTrigger value="remittance">Remittance</TabsTrigger>
           <TabsTrigger value="costs">Cost Breakdown</TabsTrigger>
           <TabsTrigger value="roi">ROI Analysis</TabsTrigger>
         </TabsList>
@@ -718,6 +735,94 @@ export const FinancialImpact = ({ files }: FinancialImpactProps) => {
           </div>
         </TabsContent>
 
+        <TabsContent value="remittance" className="space-y-6">
+          {financialAnalysis.remittances.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Receipt className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No Remittance Advice</h3>
+                <p className="text-muted-foreground">Upload 835 files to review claim payments and adjustments</p>
+              </CardContent>
+            </Card>
+          ) : (
+            financialAnalysis.remittances.map((remittance, index) => (
+              <Card key={`${remittance.traceNumber || 'remittance'}-${index}`}>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Receipt className="h-5 w-5" />
+                      {remittance.payer?.name || 'Unknown Payer'} → {remittance.payee?.name || 'Unknown Payee'}
+                    </span>
+                    <Badge variant={remittance.balance.balanced ? 'default' : 'destructive'}>
+                      {remittance.balance.balanced ? 'Balanced' : `Out of balance by $${remittance.balance.difference.toLocaleString()}`}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Payment (BPR02)</p>
+                      <p className="font-bold">${remittance.paymentAmount.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Claim Payments</p>
+                      <p className="font-bold">${remittance.balance.claimPaymentTotal.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Provider Adjustments</p>
+                      <p className="font-bold">${remittance.balance.providerAdjustmentTotal.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Trace Number</p>
+                      <p className="font-bold">{remittance.traceNumber || '—'}</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {remittance.claims.map((claim, claimIndex) => (
+                      <div key={`${claim.claimId}-${claimIndex}`} className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">Claim {claim.claimId}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {CLAIM_STATUS_CODES[claim.statusCode] || `Status ${claim.statusCode}`}
+                              {claim.patient && ` • ${claim.patient.lastName}, ${claim.patient.firstName || ''}`}
+                              {` • ${claim.serviceLines.length} service lines`}
+                            </p>
+                          </div>
+                          <div className="text-right text-sm">
+                            <p>Billed ${claim.chargeAmount.toLocaleString()} • Paid <span className="font-bold">${claim.paidAmount.toLocaleString()}</span></p>
+                            <p className="text-xs text-muted-foreground">Patient responsibility ${claim.patientResponsibility.toLocaleString()}</p>
+                          </div>
+                        </div>
+                        {Object.keys(claim.adjustmentTotals).length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {Object.entries(claim.adjustmentTotals).map(([groupCode, amount]) => (
+                              <Badge key={groupCode} variant="outline">{groupCode}: ${amount.toLocaleString()}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {remittance.providerAdjustments.length > 0 && (
+                    <div className="space-y-1 text-sm">
+                      <h4 className="font-medium">Provider-Level Adjustments (PLB)</h4>
+                      {remittance.providerAdjustments.map((adjustment, adjustmentIndex) => (
+                        <div key={adjustmentIndex} className="flex justify-between">
+                          <span>{adjustment.reasonCode}{adjustment.reference && ` • ${adjustment.reference}`}</span>
+                          <span className="font-medium">${adjustment.amount.toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
         <TabsContent value="costs" className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
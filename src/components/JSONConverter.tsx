@@ -1,11 +1,28 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Download, Upload, RefreshCw, FileJson, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Download, RefreshCw, FileJson, FileText, FilePen, AlertCircle, CheckCircle } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { parseEDIContent, convertEDIToJSON, convertJSONToEDI, type JSONConversionResult } from '@/utils/universalEDIParser';
+import { LINE_STYLES, type SerializeOptions } from '@/utils/x12Serializer';
+import { DEFAULT_X12_DELIMITERS } from '@/utils/x12Tokenizer';
+import { parseEDIDocument } from '@/utils/x12Envelope';
+import { convertEDIToLosslessJSON } from '@/utils/losslessJSON';
+import { convertEDIToXML, convertLosslessToXML, parseX12XML } from '@/utils/x12XML';
+import {
+  BUSINESS_JSON_SCHEMA,
+  LOSSLESS_JSON_SCHEMA,
+  JSONValidationError,
+  isLosslessJSON,
+  validateConversionJSON,
+  type JSONPathError,
+  type LosslessJSONDocument
+} from '@/utils/jsonSchemas';
 import { EDIFile } from '@/pages/Index';
 
 interface JSONConverterProps {
@@ -13,17 +30,208 @@ interface JSONConverterProps {
   rightFile?: EDIFile;
 }
 
+type ConvertedJSON = JSONConversionResult | LosslessJSONDocument;
+
+const asBusiness = (json?: ConvertedJSON | null): JSONConversionResult | null =>
+  json && !isLosslessJSON(json) ? json as JSONConversionResult : null;
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Lossless JSON has no business fields to summarize, only its envelope and loop structure
+const LosslessOverview = ({ json }: { json: LosslessJSONDocument }) => {
+  const groups = json.interchanges.flatMap(interchange => interchange.groups);
+  const sets = groups.flatMap(group => group.transactionSets);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Lossless JSON Structure</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span>Interchanges:</span>
+            <span>{json.interchanges.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Functional Groups:</span>
+            <span>{groups.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Transaction Sets:</span>
+            <span>{sets.map(set => set.type).join(', ') || '0'}</span>
+          </div>
+        </div>
+        <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
+          {JSON.stringify(json.interchanges, null, 2)}
+        </pre>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface ConversionEditorProps {
+  value: string;
+  name: string;
+  onChange: (value: string, name?: string) => void;
+  options: SerializeOptions;
+}
+
+interface EditorCheck {
+  format: 'json' | 'xml';
+  document?: JSONConversionResult | LosslessJSONDocument;
+  issues: JSONPathError[];
+}
+
+// XML is read through parseX12XML into lossless JSON; JSON is checked against its mode's schema
+function checkEditorText(text: string): EditorCheck {
+  if (text.trimStart().startsWith('<')) {
+    try {
+      return { format: 'xml', document: parseX12XML(text), issues: [] };
+    } catch (error) {
+      return {
+        format: 'xml',
+        issues: error instanceof JSONValidationError
+          ? error.issues
+          : [{ path: '(root)', message: error instanceof Error ? error.message : 'Not valid X12 XML' }]
+      };
+    }
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { format: 'json', issues: [{ path: '(root)', message: error instanceof Error ? error.message : 'Not valid JSON' }] };
+  }
+  const issues = validateConversionJSON(json);
+  return { format: 'json', document: issues.length ? undefined : json as JSONConversionResult | LosslessJSONDocument, issues };
+}
+
+// Paste, load or edit business JSON, lossless JSON or X12 XML and write it back out as EDI
+const ConversionEditor = ({ value, name, onChange, options }: ConversionEditorProps) => {
+  const check = useMemo(() => value.trim() ? checkEditorText(value) : null, [value]);
+
+  const loadFile = async (file?: File) => {
+    if (!file) return;
+    onChange(await file.text(), file.name);
+  };
+
+  const downloadEDI = () => {
+    if (!check?.document) return;
+    try {
+      const ediContent = convertJSONToEDI(check.document, options);
+      const fileName = `${name.replace(/\.[^/.]+$/, "")}_converted.edi`;
+      downloadFile(ediContent, fileName, 'text/plain');
+
+      toast({
+        title: "Download Started",
+        description: `EDI file ${fileName} is being downloaded`,
+      });
+    } catch (error) {
+      toast({
+        title: "Conversion Failed",
+        description: error instanceof Error ? error.message : "Error converting back to EDI format",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span>Edit or Import</span>
+          {check && <Badge variant="outline">{check.format.toUpperCase()}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Paste or load business JSON, lossless JSON or X12 XML, or edit a converted file, then download it as EDI
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Input
+            type="file"
+            accept=".json,.xml"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            className="w-80"
+          />
+          <Button size="sm" variant="outline" onClick={downloadEDI} disabled={!check?.document}>
+            <Download className="h-4 w-4 mr-2" />
+            EDI
+          </Button>
+        </div>
+
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder='{ "mode": "lossless", ... } or <X12>...</X12>'
+          className="font-mono text-xs min-h-[240px]"
+          spellCheck={false}
+        />
+
+        {check && (check.issues.length ? (
+          <div className="space-y-1">
+            <p className="text-sm text-destructive flex items-center gap-1">
+              <AlertCircle className="h-4 w-4" />
+              {check.issues.length} schema {check.issues.length === 1 ? 'error' : 'errors'}
+            </p>
+            <ul className="text-xs font-mono space-y-0.5 max-h-40 overflow-auto">
+              {check.issues.map((issue, index) => (
+                <li key={index}>
+                  <span className="text-muted-foreground">{issue.path}:</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-sm flex items-center gap-1">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            Matches the schema and can be written back to EDI
+          </p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
 export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
   const [activeTab, setActiveTab] = useState<'left' | 'right'>('left');
-  const [leftJSON, setLeftJSON] = useState<JSONConversionResult | null>(null);
-  const [rightJSON, setRightJSON] = useState<JSONConversionResult | null>(null);
+  const [leftJSON, setLeftJSON] = useState<ConvertedJSON | null>(null);
+  const [rightJSON, setRightJSON] = useState<ConvertedJSON | null>(null);
+  const [jsonMode, setJsonMode] = useState<'business' | 'lossless'>('business');
   const [isConverting, setIsConverting] = useState(false);
+  const [lineStyle, setLineStyle] = useState('original');
+  const [delimiterSet, setDelimiterSet] = useState<'original' | 'standard'>('original');
+  const [editorText, setEditorText] = useState('');
+  const [editorName, setEditorName] = useState('edited.json');
+
+  const serializeOptions: SerializeOptions = {
+    delimiters: delimiterSet === 'standard' ? DEFAULT_X12_DELIMITERS : undefined,
+    layout: LINE_STYLES[lineStyle]
+  };
+
+  const editJSON = (jsonData: ConvertedJSON, filename: string) => {
+    setEditorText(JSON.stringify(jsonData, null, 2));
+    setEditorName(filename);
+  };
 
   const convertFileToJSON = async (file: EDIFile, position: 'left' | 'right') => {
     setIsConverting(true);
     try {
-      const transaction = parseEDIContent(file.content);
-      const jsonResult = convertEDIToJSON(transaction);
+      const jsonResult = jsonMode === 'lossless'
+        ? convertEDIToLosslessJSON(parseEDIDocument(file.content))
+        : convertEDIToJSON(parseEDIContent(file.content));
       
       if (position === 'left') {
         setLeftJSON(jsonResult);
@@ -33,13 +241,13 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
 
       toast({
         title: "Conversion Successful",
-        description: `${file.name} converted to JSON format`,
+        description: `${file.name} converted to ${jsonMode} JSON`,
       });
     } catch (error) {
       console.error('Conversion error:', error);
       toast({
         title: "Conversion Failed",
-        description: "Error converting EDI to JSON. Please check the file format.",
+        description: error instanceof Error ? error.message : "Error converting EDI to JSON. Please check the file format.",
         variant: "destructive",
       });
     } finally {
@@ -47,44 +255,69 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
     }
   };
 
-  const downloadJSON = (jsonData: JSONConversionResult, filename: string) => {
-    const blob = new Blob([JSON.stringify(jsonData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${filename.replace(/\.[^/.]+$/, "")}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const downloadJSON = (jsonData: ConvertedJSON, filename: string) => {
+    const name = `${filename.replace(/\.[^/.]+$/, "")}${isLosslessJSON(jsonData) ? '.lossless' : ''}.json`;
+    downloadFile(JSON.stringify(jsonData, null, 2), name, 'application/json');
 
     toast({
       title: "Download Started",
-      description: `JSON file ${a.download} is being downloaded`,
+      description: `JSON file ${name} is being downloaded`,
     });
   };
 
-  const downloadEDI = (jsonData: JSONConversionResult, filename: string) => {
+  // XML carries the full loop tree whichever JSON mode the file was converted in
+  const downloadXML = (jsonData: ConvertedJSON, file: EDIFile) => {
     try {
-      const ediContent = convertJSONToEDI(jsonData);
-      const blob = new Blob([ediContent], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${filename.replace(/\.[^/.]+$/, "")}_converted.edi`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const xml = isLosslessJSON(jsonData)
+        ? convertLosslessToXML(jsonData as LosslessJSONDocument)
+        : convertEDIToXML(parseEDIDocument(file.content));
+      const name = `${file.name.replace(/\.[^/.]+$/, "")}.xml`;
+      downloadFile(xml, name, 'application/xml');
 
       toast({
         title: "Download Started",
-        description: `EDI file ${a.download} is being downloaded`,
+        description: `XML file ${name} is being downloaded`,
       });
     } catch (error) {
+      console.error('XML conversion error:', error);
       toast({
         title: "Conversion Failed",
-        description: "Error converting JSON back to EDI format",
+        description: "Error converting EDI to XML format",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadSchema = (jsonData: ConvertedJSON) => {
+    const lossless = isLosslessJSON(jsonData);
+    const name = lossless ? 'edi-lossless.schema.json' : 'edi-business.schema.json';
+    downloadFile(JSON.stringify(lossless ? LOSSLESS_JSON_SCHEMA : BUSINESS_JSON_SCHEMA, null, 2), name, 'application/schema+json');
+
+    toast({
+      title: "Download Started",
+      description: `JSON Schema ${name} is being downloaded`,
+    });
+  };
+
+  const downloadEDI = (jsonData: ConvertedJSON, filename: string) => {
+    try {
+      const ediContent = convertJSONToEDI(jsonData, serializeOptions);
+      const name = `${filename.replace(/\.[^/.]+$/, "")}_converted.edi`;
+      downloadFile(ediContent, name, 'text/plain');
+
+      toast({
+        title: "Download Started",
+        description: `EDI file ${name} is being downloaded`,
+      });
+    } catch (error) {
+      // Schema violations name the offending JSON paths
+      const description = error instanceof JSONValidationError
+        ? error.issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('\n') +
+          (error.issues.length > 3 ? `\n+${error.issues.length - 3} more` : '')
+        : error instanceof Error ? error.message : "Error converting JSON back to EDI format";
+      toast({
+        title: "Conversion Failed",
+        description,
         variant: "destructive",
       });
     }
@@ -97,10 +330,12 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
     title 
   }: { 
     file?: EDIFile; 
-    jsonData?: JSONConversionResult | null;
+    jsonData?: ConvertedJSON | null;
     position: 'left' | 'right';
     title: string;
   }) => {
+    const business = asBusiness(jsonData);
+
     if (!file) {
       return (
         <Card className="h-full flex items-center justify-center">
@@ -160,106 +395,158 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
                     <Download className="h-4 w-4 mr-2" />
                     JSON
                   </Button>
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => downloadXML(jsonData, file)}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    XML
+                  </Button>
                   <Button 
                     size="sm" 
                     variant="outline"
                     onClick={() => downloadEDI(jsonData, file.name)}
                   >
-                    <Upload className="h-4 w-4 mr-2" />
+                    <Download className="h-4 w-4 mr-2" />
                     EDI
                   </Button>
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => editJSON(jsonData, file.name)}
+                  >
+                    <FilePen className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button 
+                    size="sm" 
+                    variant="ghost"
+                    onClick={() => downloadSchema(jsonData)}
+                  >
+                    <FileJson className="h-4 w-4 mr-2" />
+                    Schema
+                  </Button>
                 </div>
               </div>
 
-              <Tabs defaultValue="structure" className="w-full">
-                <TabsList className="grid w-full grid-cols-4">
-                  <TabsTrigger value="structure">Structure</TabsTrigger>
-                  <TabsTrigger value="header">Header</TabsTrigger>
-                  <TabsTrigger value="data">Data</TabsTrigger>
-                  <TabsTrigger value="metadata">Meta</TabsTrigger>
-                </TabsList>
-
-                <TabsContent value="structure" className="mt-4">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-sm">JSON Structure Overview</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2 text-sm">
-                        <div className="flex justify-between">
-                          <span>Original Format:</span>
-                          <Badge variant="secondary">{jsonData.metadata.originalFormat}</Badge>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Total Entities:</span>
-                          <span>{jsonData.data.entities.length}</span>
-                        </div>
-                        {jsonData.data.members && (
+              {business ? (
+                <Tabs defaultValue="structure" className="w-full">
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="structure">Structure</TabsTrigger>
+                    <TabsTrigger value="header">Header</TabsTrigger>
+                    <TabsTrigger value="data">Data</TabsTrigger>
+                    <TabsTrigger value="metadata">Meta</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="structure" className="mt-4">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-sm">JSON Structure Overview</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-2 text-sm">
                           <div className="flex justify-between">
-                            <span>Members:</span>
-                            <span>{jsonData.data.members.length}</span>
+                            <span>Original Format:</span>
+                            <Badge variant="secondary">{business.metadata.originalFormat}</Badge>
                           </div>
-                        )}
-                        {jsonData.data.payments && (
                           <div className="flex justify-between">
-                            <span>Payments:</span>
-                            <span>{jsonData.data.payments.length}</span>
+                            <span>Total Entities:</span>
+                            <span>{business.data.entities.length}</span>
                           </div>
-                        )}
-                        {jsonData.data.claims && (
+                          {business.data.members && (
+                            <div className="flex justify-between">
+                              <span>Members:</span>
+                              <span>{business.data.members.length}</span>
+                            </div>
+                          )}
+                          {business.data.payments && (
+                            <div className="flex justify-between">
+                              <span>Payments:</span>
+                              <span>{business.data.payments.length}</span>
+                            </div>
+                          )}
+                          {business.data.claims && (
+                            <div className="flex justify-between">
+                              <span>Claims:</span>
+                              <span>{business.data.claims.length}</span>
+                            </div>
+                          )}
+                          {business.data.purchaseOrders && (
+                            <div className="flex justify-between">
+                              <span>Purchase Orders:</span>
+                              <span>{business.data.purchaseOrders.length}</span>
+                            </div>
+                          )}
+                          {business.data.acknowledgments && (
+                            <div className="flex justify-between">
+                              <span>PO Acknowledgments:</span>
+                              <span>{business.data.acknowledgments.length}</span>
+                            </div>
+                          )}
+                          {business.data.shipNotices && (
+                            <div className="flex justify-between">
+                              <span>Ship Notices:</span>
+                              <span>{business.data.shipNotices.length}</span>
+                            </div>
+                          )}
+                          {business.data.invoices && (
+                            <div className="flex justify-between">
+                              <span>Invoices:</span>
+                              <span>{business.data.invoices.length}</span>
+                            </div>
+                          )}
                           <div className="flex justify-between">
-                            <span>Claims:</span>
-                            <span>{jsonData.data.claims.length}</span>
+                            <span>Processing Time:</span>
+                            <span>{business.metadata.statistics.processingTime}ms</span>
                           </div>
-                        )}
-                        <div className="flex justify-between">
-                          <span>Processing Time:</span>
-                          <span>{jsonData.metadata.statistics.processingTime}ms</span>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-
-                <TabsContent value="header" className="mt-4">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-sm">Header Information</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
-                        {JSON.stringify(jsonData.header, null, 2)}
-                      </pre>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-
-                <TabsContent value="data" className="mt-4">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-sm">Business Data</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
-                        {JSON.stringify(jsonData.data, null, 2)}
-                      </pre>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-
-                <TabsContent value="metadata" className="mt-4">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-sm">Conversion Metadata</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
-                        {JSON.stringify(jsonData.metadata, null, 2)}
-                      </pre>
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-              </Tabs>
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="header" className="mt-4">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-sm">Header Information</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
+                          {JSON.stringify(business.header, null, 2)}
+                        </pre>
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="data" className="mt-4">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-sm">Business Data</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
+                          {JSON.stringify(business.data, null, 2)}
+                        </pre>
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+
+                  <TabsContent value="metadata" className="mt-4">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-sm">Conversion Metadata</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <pre className="text-xs bg-muted p-3 rounded overflow-auto max-h-64">
+                          {JSON.stringify(business.metadata, null, 2)}
+                        </pre>
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                </Tabs>
+              ) : (
+                <LosslessOverview json={jsonData as LosslessJSONDocument} />
+              )}
             </div>
           )}
         </CardContent>
@@ -267,16 +554,49 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
     );
   };
 
+  const leftBusiness = asBusiness(leftJSON);
+  const rightBusiness = asBusiness(rightJSON);
+
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between p-4 border-b">
         <div>
           <h2 className="text-lg font-semibold">EDI ↔ JSON Converter</h2>
           <p className="text-sm text-muted-foreground">
-            Convert EDI files to JSON format and back with full business context
+            Convert EDI files to business or lossless JSON and back, validated against a published schema, or download them as XML
           </p>
         </div>
         <div className="flex space-x-2">
+          <Select value={jsonMode} onValueChange={(value) => setJsonMode(value as 'business' | 'lossless')}>
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="business">Business JSON</SelectItem>
+              <SelectItem value="lossless">Lossless JSON</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={delimiterSet} onValueChange={(value) => setDelimiterSet(value as 'original' | 'standard')}>
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="original">Original delimiters</SelectItem>
+              <SelectItem value="standard">Standard (* ~ : ^)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={lineStyle} onValueChange={setLineStyle}>
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="original">Original line style</SelectItem>
+              <SelectItem value="segment">One segment per line</SelectItem>
+              <SelectItem value="crlf">One per line (CRLF)</SelectItem>
+              <SelectItem value="single">Single line</SelectItem>
+              <SelectItem value="wrap80">80-column records</SelectItem>
+            </SelectContent>
+          </Select>
           {(leftJSON || rightJSON) && (
             <Button
               variant="outline"
@@ -312,7 +632,19 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
         />
       </div>
 
-      {(leftJSON && rightJSON) && (
+      <div className="border-t p-4">
+        <ConversionEditor
+          value={editorText}
+          name={editorName}
+          onChange={(value, name) => {
+            setEditorText(value);
+            if (name) setEditorName(name);
+          }}
+          options={serializeOptions}
+        />
+      </div>
+
+      {(leftBusiness && rightBusiness) && (
         <div className="border-t p-4">
           <Card>
             <CardHeader>
@@ -326,19 +658,19 @@ export const JSONConverter = ({ leftFile, rightFile }: JSONConverterProps) => {
                 <div>
                   <h4 className="font-medium mb-2">Left File ({leftFile?.name})</h4>
                   <div className="space-y-1">
-                    <div>Format: <Badge variant="outline">{leftJSON.metadata.originalFormat}</Badge></div>
-                    <div>Entities: {leftJSON.data.entities.length}</div>
-                    {leftJSON.data.members && <div>Members: {leftJSON.data.members.length}</div>}
-                    {leftJSON.data.payments && <div>Payments: {leftJSON.data.payments.length}</div>}
+                    <div>Format: <Badge variant="outline">{leftBusiness.metadata.originalFormat}</Badge></div>
+                    <div>Entities: {leftBusiness.data.entities.length}</div>
+                    {leftBusiness.data.members && <div>Members: {leftBusiness.data.members.length}</div>}
+                    {leftBusiness.data.payments && <div>Payments: {leftBusiness.data.payments.length}</div>}
                   </div>
                 </div>
                 <div>
                   <h4 className="font-medium mb-2">Right File ({rightFile?.name})</h4>
                   <div className="space-y-1">
-                    <div>Format: <Badge variant="outline">{rightJSON.metadata.originalFormat}</Badge></div>
-                    <div>Entities: {rightJSON.data.entities.length}</div>
-                    {rightJSON.data.members && <div>Members: {rightJSON.data.members.length}</div>}
-                    {rightJSON.data.payments && <div>Payments: {rightJSON.data.payments.length}</div>}
+                    <div>Format: <Badge variant="outline">{rightBusiness.metadata.originalFormat}</Badge></div>
+                    <div>Entities: {rightBusiness.data.entities.length}</div>
+                    {rightBusiness.data.members && <div>Members: {rightBusiness.data.members.length}</div>}
+                    {rightBusiness.data.payments && <div>Payments: {rightBusiness.data.payments.length}</div>}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, GitBranch, Play, Save, Trash2, AlertCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useDeleteMappingDefinition, useMappingDefinitions, useSaveMappingDefinition } from '@/hooks/useMappingDefinitions';
+import { parseEDIDocument } from '@/utils/x12Envelope';
+import { convertEDIToLosslessJSON } from '@/utils/losslessJSON';
+import {
+  EXAMPLE_834_MAPPING,
+  loopToText,
+  runMapping,
+  validateMappingDefinition,
+  type MappingDefinition,
+  type MappingResult
+} from '@/utils/mappingEngine';
+import { EDIFile } from '@/pages/Index';
+
+interface MappingPanelProps {
+  files: EDIFile[];
+}
+
+const PREVIEW_RECORDS = 25;
+
+export const MappingPanel = ({ files }: MappingPanelProps) => {
+  const sourceFiles = files.filter(file => file.content);
+  const [fileId, setFileId] = useState('');
+  const [partnerId, setPartnerId] = useState('');
+  const [definitionText, setDefinitionText] = useState(JSON.stringify(EXAMPLE_834_MAPPING, null, 2));
+  const [problems, setProblems] = useState<string[]>([]);
+  const [result, setResult] = useState<MappingResult | null>(null);
+
+  const file = sourceFiles.find(candidate => candidate.id === fileId) || sourceFiles[0];
+  const document = useMemo(() => {
+    if (!file) return null;
+    try {
+      return parseEDIDocument(file.content);
+    } catch (error) {
+      console.error('Mapping source error:', error);
+      return null;
+    }
+  }, [file]);
+
+  // Definitions are kept per partner; start from the file's ISA sender unless one was chosen
+  useEffect(() => {
+    const senderId = document?.interchanges[0]?.header?.elements[6]?.trim();
+    if (senderId) setPartnerId(current => current || senderId);
+  }, [document]);
+
+  const { data: definitions = [], isLoading } = useMappingDefinitions(partnerId || undefined);
+  const saveDefinition = useSaveMappingDefinition();
+  const deleteDefinition = useDeleteMappingDefinition();
+
+  const readDefinition = (): MappingDefinition | null => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(definitionText);
+    } catch (error) {
+      setProblems([`Definition is not valid JSON: ${error instanceof Error ? error.message : error}`]);
+      return null;
+    }
+    const issues = validateMappingDefinition(parsed);
+    setProblems(issues);
+    return issues.length ? null : parsed as MappingDefinition;
+  };
+
+  const run = () => {
+    const definition = readDefinition();
+    if (!definition || !document) return;
+
+    try {
+      setResult(runMapping(definition, convertEDIToLosslessJSON(document)));
+    } catch (error) {
+      setResult(null);
+      setProblems([error instanceof Error ? error.message : 'Mapping failed']);
+    }
+  };
+
+  const save = () => {
+    const definition = readDefinition();
+    if (!definition || !partnerId) return;
+
+    saveDefinition.mutate({ partnerId, definition }, {
+      onSuccess: () => toast({ title: "Mapping Saved", description: `${definition.name} saved for ${partnerId}` }),
+      onError: (error) => toast({ title: "Save Failed", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const remove = (id: string, name: string) => {
+    deleteDefinition.mutate(id, {
+      onSuccess: () => toast({ title: "Mapping Deleted", description: name }),
+      onError: (error) => toast({ title: "Delete Failed", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const downloadResult = () => {
+    if (!result) return;
+    const blob = new Blob([JSON.stringify(result.records.map(record => record.target), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `${(file?.name || 'mapping').replace(/\.[^/.]+$/, '')}_mapped.json`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Custom Mappings
+        </CardTitle>
+        <CardDescription>
+          Map loop, segment and element paths to the record shape a downstream system expects
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Source File</Label>
+            <Select value={file?.id} onValueChange={setFileId}>
+              <SelectTrigger className="h-9 w-56">
+                <SelectValue placeholder="Upload an EDI file" />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceFiles.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Partner ID</Label>
+            <Input value={partnerId} onChange={(e) => setPartnerId(e.target.value.trim())} className="h-9 w-40" />
+          </div>
+          <Button size="sm" onClick={run} disabled={!document}>
+            <Play className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+          <Button size="sm" variant="outline" onClick={save} disabled={!partnerId || saveDefinition.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Saved for {partnerId || 'this partner'}</Label>
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground">Loading mappings...</p>
+          ) : definitions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No saved mappings</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {definitions.map(saved => (
+                <div key={saved.id} className="flex items-center gap-1 rounded border px-2 py-1 text-xs">
+                  <button onClick={() => setDefinitionText(JSON.stringify(saved.definition, null, 2))}>
+                    {saved.name}
+                  </button>
+                  <Badge variant="outline" className="text-[10px]">{saved.transaction_type}</Badge>
+                  <button onClick={() => remove(saved.id, saved.name)} aria-label={`Delete ${saved.name}`}>
+                    <Trash2 className="h-3 w-3 text-muted-foreground" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Textarea
+          value={definitionText}
+          onChange={(e) => setDefinitionText(e.target.value)}
+          className="font-mono text-xs h-64"
+          spellCheck={false}
+        />
+
+        {problems.length > 0 && (
+          <div className="space-y-1">
+            {problems.map((problem, index) => (
+              <div key={index} className="flex items-start gap-2 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                <span>{problem}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                {result.records.length} records
+                {result.issues.length > 0 && <span className="text-destructive"> · {result.issues.length} issues</span>}
+              </span>
+              <Button size="sm" variant="outline" onClick={downloadResult} disabled={!result.records.length}>
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+            </div>
+            {result.issues.slice(0, 10).map((issue, index) => (
+              <p key={index} className="text-xs text-destructive">
+                Record {issue.record + 1}, {issue.target}: {issue.message}
+              </p>
+            ))}
+            <div className="space-y-2 max-h-96 overflow-auto">
+              {result.records.slice(0, PREVIEW_RECORDS).map((record, index) => (
+                <div key={index} className="grid grid-cols-2 gap-2">
+                  <pre className="text-xs bg-muted p-2 rounded overflow-auto">
+                    {document ? loopToText(record.source, document.delimiters).join('\n') : ''}
+                  </pre>
+                  <pre className="text-xs bg-muted p-2 rounded overflow-auto">
+                    {JSON.stringify(record.target, null, 2)}
+                  </pre>
+                </div>
+              ))}
+              {result.records.length > PREVIEW_RECORDS && (
+                <p className="text-xs text-muted-foreground">+{result.records.length - PREVIEW_RECORDS} more records in the download</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,26 +1,69 @@
-import { File, X, FileType, Calendar } from "lucide-react";
+import { useMemo, useRef } from "react";
+import { File, X, FileType, Calendar, Layers, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Progress } from "@/components/ui/progress";
 import { EDIFile } from "@/pages/Index";
 import { formatDistanceToNow } from "date-fns";
+import { parseEDIDocument } from "@/utils/x12Envelope";
+import { X12_FORMATS, type X12FormatType } from "@/utils/x12Formats";
+
+// Badge colour per transaction type; EDIFACT messages and unknown files stay grey
+const FILE_TYPE_COLORS: Record<string, string> = {
+  '834': 'bg-green-500/10 text-green-400 border-green-500/20',
+  '820': 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+  '837': 'bg-purple-500/10 text-purple-400 border-purple-500/20',
+  '835': 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20',
+  '270': 'bg-cyan-500/10 text-cyan-400 border-cyan-500/20',
+  '271': 'bg-teal-500/10 text-teal-400 border-teal-500/20',
+  '278': 'bg-pink-500/10 text-pink-400 border-pink-500/20',
+  '999': 'bg-slate-500/10 text-slate-400 border-slate-500/20',
+  '850': 'bg-orange-500/10 text-orange-400 border-orange-500/20',
+  '855': 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  '856': 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  '810': 'bg-red-500/10 text-red-400 border-red-500/20'
+};
+
+// Large files are summarized by the stream worker and hold one page in `content`
+const isStreamed = (file: EDIFile) => file.streamProgress !== undefined || !!file.streamSummary;
 
 interface SidebarProps {
   files: EDIFile[];
   selectedFiles: {left?: EDIFile, right?: EDIFile};
   onFileSelect: (file: EDIFile, position: 'left' | 'right') => void;
   onFileRemove: (fileId: string) => void;
+  onFileSplit: (file: EDIFile) => void;
+  onFilePage: (file: EDIFile, page: number) => void;
 }
 
-export const Sidebar = ({ files, selectedFiles, onFileSelect, onFileRemove }: SidebarProps) => {
-  const getFileTypeColor = (type: EDIFile['type']) => {
-    switch (type) {
-      case '834': return 'bg-green-500/10 text-green-400 border-green-500/20';
-      case '820': return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
-      default: return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
-    }
-  };
+export const Sidebar = ({ files, selectedFiles, onFileSelect, onFileRemove, onFileSplit, onFilePage }: SidebarProps) => {
+  // Parsed once per file id and content, so streaming progress on one file does not
+  // re-parse every other file. Streamed files are never parsed on the main thread.
+  const parsedCounts = useRef(new Map<string, { content: string; count: number }>());
+  const transactionSetCounts = useMemo(() => {
+    const cache = parsedCounts.current;
+    const counts = new Map<string, number>();
+    files.forEach(file => {
+      if (file.streamSummary) {
+        counts.set(file.id, file.streamSummary.transactionSets.length);
+        return;
+      }
+      if (isStreamed(file)) return;
+      let cached = cache.get(file.id);
+      if (cached?.content !== file.content) {
+        cached = { content: file.content, count: parseEDIDocument(file.content).statistics.transactionSetCount };
+        cache.set(file.id, cached);
+      }
+      counts.set(file.id, cached.count);
+    });
+    cache.forEach((_, id) => counts.has(id) || cache.delete(id));
+    return counts;
+  }, [files]);
+
+  const getFileTypeColor = (type: EDIFile['type']) =>
+    FILE_TYPE_COLORS[type] || 'bg-gray-500/10 text-gray-400 border-gray-500/20';
 
   return (
     <div className="w-80 bg-card border-r border-border flex flex-col">
@@ -43,9 +86,14 @@ export const Sidebar = ({ files, selectedFiles, onFileSelect, onFileRemove }: Si
                       {file.name}
                     </p>
                     <div className="flex items-center gap-2 mt-1">
-                      <Badge variant="outline" className={getFileTypeColor(file.type)}>
+                      <Badge variant="outline" className={getFileTypeColor(file.type)} title={X12_FORMATS[file.type as X12FormatType]?.name}>
                         {file.type.toUpperCase()}
                       </Badge>
+                      {file.mixedTypes && (
+                        <Badge variant="outline" className="text-yellow-600 border-yellow-600" title="Several transaction set types in one interchange; split it to work on each set">
+                          Mixed: {file.mixedTypes.join(', ').toUpperCase()}
+                        </Badge>
+                      )}
                       <span className="text-xs text-muted-foreground flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
                         {formatDistanceToNow(file.uploadedAt, { addSuffix: true })}
@@ -63,6 +111,63 @@ export const Sidebar = ({ files, selectedFiles, onFileSelect, onFileRemove }: Si
                 </Button>
               </div>
               
+              {file.streamProgress !== undefined && !file.streamSummary && (
+                <div className="space-y-1 mb-2">
+                  <Progress value={file.streamProgress} className="h-1.5" />
+                  <p className="text-xs text-muted-foreground">Streaming… {file.streamProgress}%</p>
+                </div>
+              )}
+              
+              {file.streamSummary && (
+                <p className="text-xs text-muted-foreground mb-2">
+                  {file.streamSummary.totalSegments.toLocaleString()} segments
+                  {file.streamSummary.segmentCounts['INS'] ? ` · ${file.streamSummary.segmentCounts['INS'].toLocaleString()} members` : ''}
+                  {` · ${file.streamSummary.transactionSets.length} transaction set${file.streamSummary.transactionSets.length !== 1 ? 's' : ''}`}
+                </p>
+              )}
+              
+              {file.streamSummary && file.streamSummary.pages.length > 1 && (
+                <div className="flex items-center justify-between mb-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onFilePage(file, (file.page || 0) - 1)}
+                    disabled={!file.page}
+                    className="h-6 w-6 p-0"
+                  >
+                    <ChevronLeft className="h-3 w-3" />
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    Page {(file.page || 0) + 1} of {file.streamSummary.pages.length} in every tab
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onFilePage(file, (file.page || 0) + 1)}
+                    disabled={(file.page || 0) >= file.streamSummary.pages.length - 1}
+                    className="h-6 w-6 p-0"
+                  >
+                    <ChevronRight className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+              
+              {file.streamError && (
+                <p className="text-xs text-destructive mb-2">{file.streamError}</p>
+              )}
+              
+              {!file.streamSummary && (transactionSetCounts.get(file.id) || 0) > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onFileSplit(file)}
+                  className="w-full h-7 text-xs justify-start text-muted-foreground"
+                >
+                  <Layers className="h-3 w-3 mr-2" />
+                  Split into {transactionSetCounts.get(file.id)} transaction sets
+                </Button>
+              )}
+              
               <Separator className="my-2" />
               
               <div className="flex gap-2">
@@ -70,6 +175,7 @@ export const Sidebar = ({ files, selectedFiles, onFileSelect, onFileRemove }: Si
                   variant={selectedFiles.left?.id === file.id ? "default" : "outline"}
                   size="sm"
                   onClick={() => onFileSelect(file, 'left')}
+                  disabled={!file.content}
                   className="flex-1 h-7 text-xs"
                 >
                   Left Panel
@@ -78,6 +184,7 @@ export const Sidebar = ({ files, selectedFiles, onFileSelect, onFileRemove }: Si
                   variant={selectedFiles.right?.id === file.id ? "default" : "outline"}
                   size="sm"
                   onClick={() => onFileSelect(file, 'right')}
+                  disabled={!file.content}
                   className="flex-1 h-7 text-xs"
                 >
                   Right Panel
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+export type OutstandingAcknowledgment = Database['public']['Functions']['outstanding_acknowledgments']['Returns'][number];
+
+export interface AcknowledgedSet {
+  transaction_type: string;
+  group_control_number: string | null;
+  control_number: string | null;
+  acknowledgment_status: string | null;
+  acknowledgment_type: string | null;
+  acknowledgment_errors: Json | null;
+}
+
+export interface AcknowledgedFile {
+  id: string;
+  file_name: string;
+  file_type: string;
+  interchange_control_number: string | null;
+  acknowledgment_status: string;
+  acknowledged_at: string | null;
+  edi_transactions: AcknowledgedSet[];
+}
+
+interface AcknowledgmentReport {
+  maxAgeHours: number;
+  outstanding: OutstandingAcknowledgment[];
+  acknowledged: AcknowledgedFile[];
+  statusCounts: Record<string, number>;
+}
+
+// Outbound files awaiting a 999/TA1 after maxAgeHours, plus recently reconciled ones
+export function useAcknowledgments(maxAgeHours = 24) {
+  return useQuery({
+    queryKey: ['acknowledgments', maxAgeHours],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('get-acknowledgments', {
+        body: { max_age_hours: maxAgeHours }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to fetch acknowledgments');
+
+      return data as AcknowledgmentReport;
+    },
+    refetchInterval: 60000,
+  });
+}
@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { MappingDefinition } from '@/utils/mappingEngine';
+
+export type SavedMappingDefinition = Omit<Database['public']['Tables']['edi_mapping_definitions']['Row'], 'definition'> & {
+  definition: MappingDefinition;
+};
+
+async function invokeMappingDefinitions(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('mapping-definitions', { body });
+
+  if (error) throw error;
+  if (!data.success) throw new Error([data.error, ...(data.problems || [])].filter(Boolean).join('; ') || 'Mapping definition request failed');
+
+  return data;
+}
+
+// Mapping definitions saved for a trading partner
+export function useMappingDefinitions(partnerId?: string) {
+  return useQuery({
+    queryKey: ['mapping-definitions', partnerId],
+    queryFn: async () => {
+      const data = await invokeMappingDefinitions({ action: 'list', partner_id: partnerId });
+      return data.definitions as SavedMappingDefinition[];
+    },
+    enabled: Boolean(partnerId),
+  });
+}
+
+export function useSaveMappingDefinition() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ partnerId, definition }: { partnerId: string; definition: MappingDefinition }) => {
+      const data = await invokeMappingDefinitions({ action: 'save', partner_id: partnerId, definition });
+      return data.definition as SavedMappingDefinition;
+    },
+    onSuccess: (_, { partnerId }) => queryClient.invalidateQueries({ queryKey: ['mapping-definitions', partnerId] }),
+  });
+}
+
+export function useDeleteMappingDefinition() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => invokeMappingDefinitions({ action: 'delete', id }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['mapping-definitions'] }),
+  });
+}
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { ValidationRuleOverrides, ValidationSeverity } from '@/utils/ediValidator';
+
+export type SavedValidationOverride = Database['public']['Tables']['edi_validation_overrides']['Row'];
+
+async function invokeValidationOverrides(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('validation-overrides', { body });
+
+  if (error) throw error;
+  if (!data.success) throw new Error([data.error, ...(data.problems || [])].filter(Boolean).join('; ') || 'Validation override request failed');
+
+  return data;
+}
+
+// Every partner's rule overrides, keyed by partner ID then rule ID
+export function useValidationOverrides() {
+  return useQuery({
+    queryKey: ['validation-overrides'],
+    queryFn: async () => {
+      const data = await invokeValidationOverrides({ action: 'list' });
+      return data.overrides as SavedValidationOverride[];
+    },
+    select: (rows): Record<string, ValidationRuleOverrides> => {
+      const byPartner: Record<string, ValidationRuleOverrides> = {};
+      rows.forEach(row => {
+        byPartner[row.partner_id] = {
+          ...byPartner[row.partner_id],
+          [row.rule_id]: { enabled: row.enabled, severity: (row.severity as ValidationSeverity | null) || undefined }
+        };
+      });
+      return byPartner;
+    },
+  });
+}
+
+export function useSaveValidationOverride() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (override: { partnerId: string; ruleId: string; enabled?: boolean; severity?: ValidationSeverity; note?: string }) => {
+      const data = await invokeValidationOverrides({
+        action: 'save',
+        partner_id: override.partnerId,
+        rule_id: override.ruleId,
+        enabled: override.enabled,
+        severity: override.severity,
+        note: override.note
+      });
+      return data.override as SavedValidationOverride;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['validation-overrides'] }),
+  });
+}
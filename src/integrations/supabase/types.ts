@@ -79,43 +79,88 @@ export type Database = {
       }
       edi_files: {
         Row: {
+          acknowledged_at: string | null
+          acknowledgment_status: string | null
           created_at: string | null
+          direction: string
           error_message: string | null
           file_content: string
           file_name: string
           file_size: number | null
           file_type: string
           id: string
+          interchange_control_number: string | null
           processed_at: string | null
           source: string
           status: string
         }
         Insert: {
+          acknowledged_at?: string | null
+          acknowledgment_status?: string | null
           created_at?: string | null
+          direction?: string
           error_message?: string | null
           file_content: string
           file_name: string
           file_size?: number | null
           file_type: string
           id?: string
+          interchange_control_number?: string | null
           processed_at?: string | null
           source: string
           status?: string
         }
         Update: {
+          acknowledged_at?: string | null
+          acknowledgment_status?: string | null
           created_at?: string | null
+          direction?: string
           error_message?: string | null
           file_content?: string
           file_name?: string
           file_size?: number | null
           file_type?: string
           id?: string
+          interchange_control_number?: string | null
           processed_at?: string | null
           source?: string
           status?: string
         }
         Relationships: []
       }
+      edi_mapping_definitions: {
+        Row: {
+          created_at: string | null
+          definition: Json
+          description: string | null
+          id: string
+          name: string
+          partner_id: string
+          transaction_type: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          definition: Json
+          description?: string | null
+          id?: string
+          name: string
+          partner_id: string
+          transaction_type: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          definition?: Json
+          description?: string | null
+          id?: string
+          name?: string
+          partner_id?: string
+          transaction_type?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       edi_members: {
         Row: {
           address_line1: string | null
@@ -260,9 +305,15 @@ export type Database = {
       }
       edi_transactions: {
         Row: {
+          acknowledged_at: string | null
+          acknowledgment_errors: Json | null
+          acknowledgment_file_id: string | null
+          acknowledgment_status: string | null
+          acknowledgment_type: string | null
           control_number: string | null
           created_at: string | null
           file_id: string | null
+          group_control_number: string | null
           id: string
           parsed_data: Json | null
           raw_segments: Json | null
@@ -273,9 +324,15 @@ export type Database = {
           transaction_type: string
         }
         Insert: {
+          acknowledged_at?: string | null
+          acknowledgment_errors?: Json | null
+          acknowledgment_file_id?: string | null
+          acknowledgment_status?: string | null
+          acknowledgment_type?: string | null
           control_number?: string | null
           created_at?: string | null
           file_id?: string | null
+          group_control_number?: string | null
           id?: string
           parsed_data?: Json | null
           raw_segments?: Json | null
@@ -286,9 +343,15 @@ export type Database = {
           transaction_type: string
         }
         Update: {
+          acknowledged_at?: string | null
+          acknowledgment_errors?: Json | null
+          acknowledgment_file_id?: string | null
+          acknowledgment_status?: string | null
+          acknowledgment_type?: string | null
           control_number?: string | null
           created_at?: string | null
           file_id?: string | null
+          group_control_number?: string | null
           id?: string
           parsed_data?: Json | null
           raw_segments?: Json | null
@@ -299,6 +362,13 @@ export type Database = {
           transaction_type?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "edi_transactions_acknowledgment_file_id_fkey"
+            columns: ["acknowledgment_file_id"]
+            isOneToOne: false
+            referencedRelation: "edi_files"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "edi_transactions_file_id_fkey"
             columns: ["file_id"]
@@ -308,6 +378,39 @@ export type Database = {
           },
         ]
       }
+      edi_validation_overrides: {
+        Row: {
+          created_at: string | null
+          enabled: boolean
+          id: string
+          note: string | null
+          partner_id: string
+          rule_id: string
+          severity: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          note?: string | null
+          partner_id: string
+          rule_id: string
+          severity?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          note?: string | null
+          partner_id?: string
+          rule_id?: string
+          severity?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       metrics_cache: {
         Row: {
           computed_at: string | null
@@ -340,7 +443,18 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      outstanding_acknowledgments: {
+        Args: { max_age_hours?: number }
+        Returns: {
+          created_at: string
+          file_id: string
+          file_name: string
+          file_type: string
+          hours_outstanding: number
+          interchange_control_number: string
+          unacknowledged_sets: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -5,6 +5,8 @@ import { BusinessDashboard } from "@/components/BusinessDashboard";
 import { FraudDetection } from "@/components/FraudDetection";
 import { MemberAnalytics } from "@/components/MemberAnalytics";
 import { JSONConverter } from "@/components/JSONConverter";
+import { CensusManager } from "@/components/CensusManager";
+import { MappingPanel } from "@/components/MappingPanel";
 import { ComparisonView } from "@/components/ComparisonView";
 import { ErrorSummary } from "@/components/ErrorSummary";
 import { PayerPerformance } from "@/components/PayerPerformance";
@@ -18,13 +20,25 @@ import { PerformanceOptimization } from "@/components/PerformanceOptimization";
 import { Sidebar } from "@/components/Sidebar";
 import { Header } from "@/components/Header";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { parseEDIDocument, transactionSetToContent } from "@/utils/x12Envelope";
+import { detectEDIFormat, type EDIFormatType } from "@/utils/universalEDIParser";
+import { readStreamPage, type EDIStreamSummary } from "@/utils/x12Stream";
 
 export interface EDIFile {
   id: string;
   name: string;
   content: string;
-  type: '834' | '820' | 'unknown';
+  type: EDIFormatType | 'unknown';
+  // Set when one interchange holds several transaction set types; `type` is the first of them
+  mixedTypes?: (EDIFormatType | 'unknown')[];
   uploadedAt: Date;
+  size?: number;
+  // Large files are streamed in a worker; `content` then holds one page of `source` at a time
+  source?: Blob;
+  page?: number;
+  streamProgress?: number;
+  streamSummary?: EDIStreamSummary;
+  streamError?: string;
 }
 
 const Index = () => {
@@ -35,6 +49,23 @@ const Index = () => {
     setFiles(prev => [...prev, ...newFiles]);
   };
 
+  const handleFileUpdate = (fileId: string, changes: Partial<EDIFile>) => {
+    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, ...changes } : f));
+    setSelectedFiles(prev => ({
+      left: prev.left?.id === fileId ? { ...prev.left, ...changes } : prev.left,
+      right: prev.right?.id === fileId ? { ...prev.right, ...changes } : prev.right
+    }));
+  };
+
+  // Swap the loaded page of a streamed file; every tab then works on that page
+  const handleFilePage = (file: EDIFile, page: number) => {
+    const summary = file.streamSummary;
+    if (!file.source || !summary?.pages[page]) return;
+    readStreamPage(file.source, summary.pages[page], summary.delimiters)
+      .then(content => handleFileUpdate(file.id, { content, page }))
+      .catch(err => handleFileUpdate(file.id, { streamError: err.message }));
+  };
+
   const handleFileSelect = (file: EDIFile, position: 'left' | 'right') => {
     setSelectedFiles(prev => ({
       ...prev,
@@ -42,6 +73,26 @@ const Index = () => {
     }));
   };
 
+  // Add each transaction set of a batch file as its own entry so every tab can drill into it
+  const handleFileSplit = (file: EDIFile) => {
+    const { transactionSets } = parseEDIDocument(file.content);
+    const transactionSetFiles: EDIFile[] = transactionSets.map((set, index) => {
+      const content = transactionSetToContent(set);
+      return {
+        id: `${file.id}-${index + 1}`,
+        name: `${file.name} › ${set.type.toUpperCase()} #${set.controlNumber}`,
+        content,
+        type: detectEDIFormat(content),
+        uploadedAt: file.uploadedAt
+      };
+    });
+
+    setFiles(prev => [
+      ...prev,
+      ...transactionSetFiles.filter(setFile => !prev.some(f => f.id === setFile.id))
+    ]);
+  };
+
   const handleFileRemove = (fileId: string) => {
     setFiles(prev => prev.filter(f => f.id !== fileId));
     setSelectedFiles(prev => {
@@ -52,6 +103,10 @@ const Index = () => {
     });
   };
 
+  // Files still streaming have no content yet; keep them out of the tabs rather than count them as empty
+  const loadedFiles = files.filter(file => file.content);
+  const pagedFiles = files.filter(file => file.source);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -61,11 +116,13 @@ const Index = () => {
           selectedFiles={selectedFiles}
           onFileSelect={handleFileSelect}
           onFileRemove={handleFileRemove}
+          onFileSplit={handleFileSplit}
+          onFilePage={handleFilePage}
         />
         <main className="flex-1 flex flex-col">
           {files.length === 0 ? (
             <div className="flex-1 flex items-center justify-center">
-              <FileUploader onFilesUploaded={handleFileUpload} />
+              <FileUploader onFilesUploaded={handleFileUpload} onFileUpdated={handleFileUpdate} />
             </div>
           ) : (
             <Tabs defaultValue="compare" className="flex-1 flex flex-col">
@@ -84,62 +141,75 @@ const Index = () => {
                   <TabsTrigger value="security" className="text-xs">Security</TabsTrigger>
                   <TabsTrigger value="reports" className="text-xs">Reports</TabsTrigger>
                 </TabsList>
+                {pagedFiles.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Large files are analyzed one page at a time:{' '}
+                    {pagedFiles.map(file => file.content && file.streamSummary
+                      ? `${file.name} (page ${(file.page || 0) + 1} of ${file.streamSummary.pages.length})`
+                      : `${file.name} (${file.streamError ? 'failed' : 'streaming'}, not included)`
+                    ).join(', ')}
+                  </p>
+                )}
               </div>
               
               <TabsContent value="compare" className="flex-1 m-0">
-                <ComparisonView files={files} />
+                <ComparisonView files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="convert" className="flex-1 m-0">
                 <JSONConverter leftFile={selectedFiles.left} rightFile={selectedFiles.right} />
+                <div className="border-t p-4 space-y-4">
+                  <MappingPanel files={loadedFiles} />
+                  <CensusManager files={loadedFiles} />
+                </div>
               </TabsContent>
               
               <TabsContent value="dashboard" className="flex-1 m-0">
-                <BusinessDashboard files={files} />
+                <BusinessDashboard files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="analytics" className="flex-1 m-0">
-                <MemberAnalytics files={files} />
+                <MemberAnalytics files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="fraud" className="flex-1 m-0">
-                <FraudDetection files={files} />
+                <FraudDetection files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="payer" className="flex-1 m-0">
-                <PayerPerformance files={files} />
+                <PayerPerformance files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="financial" className="flex-1 m-0">
-                <FinancialImpact files={files} />
+                <FinancialImpact files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="workflow" className="flex-1 m-0">
-                <WorkflowAutomation files={files} />
+                <WorkflowAutomation files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="predictive" className="flex-1 m-0">
-                <PredictiveAnalytics files={files} />
+                <PredictiveAnalytics files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="api" className="flex-1 m-0">
-                <APIIntegration files={files} />
+                <APIIntegration files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="security" className="flex-1 m-0">
-                <SecurityCompliance files={files} />
+                <SecurityCompliance files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="reports" className="flex-1 m-0">
-                <RegulatoryReporting files={files} />
+                <RegulatoryReporting files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="performance" className="flex-1 m-0">
-                <PerformanceOptimization files={files} />
+                <PerformanceOptimization files={loadedFiles} />
               </TabsContent>
               
               <TabsContent value="errors" className="flex-1 m-0">
-                <ErrorSummary files={files} />
+                <ErrorSummary files={loadedFiles} />
               </TabsContent>
             </Tabs>
           )}
@@ -0,0 +1,381 @@
+import type { EDISegment } from './universalEDIParser';
+import { X12_CODE_LISTS, decodeX12Segment } from './x12Dictionary';
+import { buildLoopTree, childLoops, loopSegment, loopSegments, type EDILoop } from './x12Loops';
+import { getComponent, getComponents } from './x12Elements';
+import type { Claim837, ClaimReference } from './claimExtraction';
+import type { Remittance835 } from './remittanceExtraction';
+
+export interface AuthorizationParty {
+  entityCode: string;
+  lastName: string;
+  firstName?: string;
+  idQualifier?: string;
+  id?: string;
+  taxonomy?: string;
+}
+
+export interface AuthorizationPerson extends AuthorizationParty {
+  birthDate?: string;
+  genderCode?: string;
+  relationshipCode?: string;
+}
+
+export interface AuthorizationTrace {
+  type: string;
+  number: string;
+  originator: string;
+}
+
+export interface AuthorizationDate {
+  qualifier: string;
+  format: string;
+  date: string;
+  endDate?: string;
+}
+
+// HCR: the UMO's decision on an event or service
+export interface AuthorizationDecision {
+  actionCode: string;
+  action: string;
+  certificationNumber?: string;
+  reasonCode?: string;
+  secondSurgicalOpinion?: string;
+}
+
+export interface AuthorizationReview {
+  requestCategory?: string;
+  certificationType?: string;
+  serviceType?: string;
+  facilityCode?: string;
+  levelOfService?: string;
+  traceNumbers: AuthorizationTrace[];
+  decision?: AuthorizationDecision;
+  references: { qualifier: string; value: string }[];
+  dates: AuthorizationDate[];
+  providers: AuthorizationParty[];
+  rejections: { reasonCode: string; followUpCode?: string }[];
+  messages: string[];
+}
+
+export interface AuthorizationService extends AuthorizationReview {
+  procedureQualifier?: string;
+  procedureCode?: string;
+  modifiers: string[];
+  quantity?: number;
+}
+
+export interface AuthorizationEvent extends AuthorizationReview {
+  diagnoses: { qualifier: string; code: string }[];
+  services: AuthorizationService[];
+}
+
+export interface AuthorizationRecord {
+  kind: 'request' | 'response';
+  purposeCode: string;
+  referenceId: string;
+  createdDate: string;
+  createdTime: string;
+  umo?: AuthorizationParty;
+  requester?: AuthorizationParty;
+  subscriber?: AuthorizationPerson;
+  patient?: AuthorizationPerson;
+  events: AuthorizationEvent[];
+}
+
+// A request event paired with its response by trace number
+// An 837 claim or 835 claim payment quoting an authorization number
+export interface AuthorizedClaim {
+  source: '837' | '835';
+  claimId: string;
+  authorizationNumber: string;
+  chargeAmount: number;
+  paidAmount?: number;
+}
+
+export interface AuthorizationLink {
+  traceNumber: string;
+  originator: string;
+  request?: { record: AuthorizationRecord; event: AuthorizationEvent };
+  response?: { record: AuthorizationRecord; event: AuthorizationEvent };
+  decision?: AuthorizationDecision;
+  turnaroundHours?: number;
+  // Claims billed, and payments made, against the certification number the response issued
+  claims: AuthorizedClaim[];
+}
+
+// HCR01 action codes
+export const AUTHORIZATION_ACTION_CODES: Record<string, string> = X12_CODE_LISTS.authorizationAction.codes;
+
+// UM01 request category codes
+export const REQUEST_CATEGORY_CODES: Record<string, string> = X12_CODE_LISTS.requestCategory.codes;
+
+// UM02 certification type codes
+export const CERTIFICATION_TYPE_CODES: Record<string, string> = X12_CODE_LISTS.certificationType.codes;
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function readParty(loop: EDILoop | undefined): AuthorizationParty | undefined {
+  const nm1 = loopSegment(loop, 'NM1');
+  if (!nm1) return undefined;
+
+  return {
+    entityCode: nm1.elements[1] || '',
+    lastName: nm1.elements[3] || '',
+    firstName: nm1.elements[4] || undefined,
+    idQualifier: nm1.elements[8] || undefined,
+    id: nm1.elements[9] || undefined,
+    taxonomy: loopSegment(loop, 'PRV')?.elements[3] || undefined
+  };
+}
+
+function readPerson(loop: EDILoop | undefined): AuthorizationPerson | undefined {
+  const party = readParty(loop);
+  if (!party) return undefined;
+
+  const dmg = loopSegment(loop, 'DMG');
+  return {
+    ...party,
+    birthDate: dmg?.elements[2] || undefined,
+    genderCode: dmg?.elements[3] || undefined,
+    relationshipCode: loopSegment(loop, 'INS')?.elements[2] || undefined
+  };
+}
+
+function readDecision(loop: EDILoop): AuthorizationDecision | undefined {
+  const hcr = loopSegment(loop, 'HCR');
+  if (!hcr) return undefined;
+
+  const actionCode = hcr.elements[1] || '';
+  return {
+    actionCode,
+    action: AUTHORIZATION_ACTION_CODES[actionCode] || actionCode,
+    certificationNumber: hcr.elements[2] || undefined,
+    reasonCode: hcr.elements[3] || undefined,
+    secondSurgicalOpinion: hcr.elements[4] || undefined
+  };
+}
+
+// UM and its neighbours are shared by the patient event and service levels
+function readReview(levelLoop: EDILoop, providerLoopId: string): AuthorizationReview {
+  const um = loopSegment(levelLoop, 'UM');
+  const providerLoops = childLoops(levelLoop, providerLoopId);
+
+  return {
+    requestCategory: um?.elements[1] || undefined,
+    certificationType: um?.elements[2] || undefined,
+    serviceType: um?.elements[3] || undefined,
+    facilityCode: um ? getComponent(um, 4, 1) || undefined : undefined,
+    levelOfService: um?.elements[6] || undefined,
+    traceNumbers: loopSegments(levelLoop, 'TRN').map(trn => ({
+      type: trn.elements[1] || '',
+      number: trn.elements[2] || '',
+      originator: trn.elements[3] || ''
+    })),
+    decision: readDecision(levelLoop),
+    references: loopSegments(levelLoop, 'REF').map(ref => ({
+      qualifier: ref.elements[1] || '',
+      value: ref.elements[2] || ''
+    })),
+    dates: loopSegments(levelLoop, 'DTP').map(dtp => {
+      const format = dtp.elements[2] || '';
+      const [date, endDate] = (dtp.elements[3] || '').split('-');
+      return { qualifier: dtp.elements[1] || '', format, date: date || '', endDate: format === 'RD8' ? endDate : undefined };
+    }),
+    providers: providerLoops
+      .map(readParty)
+      .filter((party): party is AuthorizationParty => Boolean(party)),
+    rejections: [levelLoop, ...providerLoops]
+      .flatMap(loop => loopSegments(loop, 'AAA'))
+      .map(aaa => ({ reasonCode: aaa.elements[3] || '', followUpCode: aaa.elements[4] || undefined })),
+    messages: loopSegments(levelLoop, 'MSG').map(msg => msg.elements[1] || '').filter(Boolean)
+  };
+}
+
+function readService(serviceLoop: EDILoop): AuthorizationService {
+  const service: AuthorizationService = { ...readReview(serviceLoop, '2010F'), modifiers: [] };
+  const sv1 = loopSegment(serviceLoop, 'SV1');
+  const sv2 = loopSegment(serviceLoop, 'SV2');
+  const sv3 = loopSegment(serviceLoop, 'SV3');
+  const procedureSegment = sv1 || sv3 || sv2;
+  // SV2 carries the revenue code in 01 and the procedure composite in 02
+  const procedurePosition = sv2 && !sv1 && !sv3 ? 2 : 1;
+
+  if (procedureSegment) {
+    const components = getComponents(procedureSegment, procedurePosition);
+    service.procedureQualifier = components[0] || undefined;
+    service.procedureCode = components[1] || undefined;
+    service.modifiers = components.slice(2, 6).filter(Boolean);
+  }
+
+  if (sv1) service.quantity = optionalNumber(sv1.elements[4]);
+  else if (sv2) service.quantity = optionalNumber(sv2.elements[5]);
+  else if (sv3) service.quantity = optionalNumber(sv3.elements[6]);
+
+  return service;
+}
+
+function readEvent(eventLoop: EDILoop): AuthorizationEvent {
+  return {
+    ...readReview(eventLoop, '2010E'),
+    diagnoses: loopSegments(eventLoop, 'HI').flatMap(hi =>
+      hi.elements.slice(1).map((_, index) => getComponents(hi, index + 1))
+        .filter(([qualifier, code]) => qualifier && code)
+        .map(([qualifier, code]) => ({ qualifier, code }))
+    ),
+    services: childLoops(eventLoop, '2000F').map(readService)
+  };
+}
+
+// Extract a 278 request or response into one authorization record per transaction
+export function extract278Authorization(transaction: { segments: EDISegment[] }): AuthorizationRecord {
+  const root = buildLoopTree({ type: '278', segments: transaction.segments });
+  const bht = loopSegment(root, 'BHT');
+  const record: AuthorizationRecord = {
+    // BHT02 13 is a request and 11 a response; fall back to whether any decision is present
+    kind: bht?.elements[2] === '13' ? 'request'
+      : bht?.elements[2] === '11' || transaction.segments.some(segment => segment.tag === 'HCR') ? 'response' : 'request',
+    purposeCode: bht?.elements[2] || '',
+    referenceId: bht?.elements[3] || '',
+    createdDate: bht?.elements[4] || '',
+    createdTime: bht?.elements[5] || '',
+    events: []
+  };
+
+  for (const umoLoop of childLoops(root, '2000A')) {
+    record.umo = record.umo || readParty(childLoops(umoLoop, '2010A')[0]);
+
+    for (const requesterLoop of childLoops(umoLoop, '2000B')) {
+      record.requester = record.requester || readParty(childLoops(requesterLoop, '2010B')[0]);
+
+      for (const subscriberLoop of childLoops(requesterLoop, '2000C')) {
+        record.subscriber = record.subscriber || readPerson(childLoops(subscriberLoop, '2010C')[0]);
+        record.events.push(...childLoops(subscriberLoop, '2000E').map(readEvent));
+
+        for (const dependentLoop of childLoops(subscriberLoop, '2000D')) {
+          record.patient = record.patient || readPerson(childLoops(dependentLoop, '2010D')[0]);
+          record.events.push(...childLoops(dependentLoop, '2000E').map(readEvent));
+        }
+      }
+    }
+  }
+
+  // Without a dependent level the subscriber is the patient
+  record.patient = record.patient || record.subscriber;
+  return record;
+}
+
+function toTimestamp(date: string, time: string): number | undefined {
+  if (!/^\d{8}$/.test(date)) return undefined;
+  const hours = time.slice(0, 2) || '00';
+  const minutes = time.slice(2, 4) || '00';
+  const timestamp = Date.parse(`${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${hours}:${minutes}:00Z`);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+// REF qualifiers claims carry authorizations under: G1 prior authorization, 9F referral
+const AUTHORIZATION_REFERENCES = ['G1', '9F'];
+
+const authorizationNumbers = (references: ClaimReference[]) => references
+  .filter(reference => AUTHORIZATION_REFERENCES.includes(reference.qualifier) && reference.value)
+  .map(reference => reference.value);
+
+// Every authorization number quoted by 837 claims (2300 REF) and 835 claim payments (2100 REF)
+export function readAuthorizedClaims(claims: Claim837[], remittances: Remittance835[]): AuthorizedClaim[] {
+  return [
+    ...claims.flatMap(claim => authorizationNumbers(claim.references).map((authorizationNumber): AuthorizedClaim => ({
+      source: '837', claimId: claim.claimId, authorizationNumber, chargeAmount: claim.totalCharge
+    }))),
+    ...remittances.flatMap(remittance => remittance.claims).flatMap(payment =>
+      authorizationNumbers(payment.references).map((authorizationNumber): AuthorizedClaim => ({
+        source: '835', claimId: payment.claimId, authorizationNumber, chargeAmount: payment.chargeAmount, paidAmount: payment.paidAmount
+      }))
+    )
+  ];
+}
+
+// Pair request and response events whose TRN numbers (and originators) match. A response
+// echoes the requester's TRN (TRN01 = 2) alongside any of its own. Claims are attached by
+// the certification numbers (HCR02) of the response's event and service decisions.
+export function linkAuthorizations(records: AuthorizationRecord[], claims: AuthorizedClaim[] = []): AuthorizationLink[] {
+  const links = new Map<string, AuthorizationLink>();
+
+  for (const record of records) {
+    for (const event of record.events) {
+      // A response's own TRN (TRN01 = 1) never matches a request, so prefer the echoed ones
+      const echoed = event.traceNumbers.filter(trace => trace.type === '2');
+      const traces = record.kind === 'response' && echoed.length ? echoed : event.traceNumbers;
+
+      for (const trace of traces) {
+        if (!trace.number) continue;
+        const key = `${trace.number}|${trace.originator}`;
+        const link = links.get(key) || { traceNumber: trace.number, originator: trace.originator, claims: [] };
+        if (record.kind === 'request') link.request = link.request || { record, event };
+        else link.response = link.response || { record, event };
+        links.set(key, link);
+      }
+    }
+  }
+
+  return [...links.values()].map(link => {
+    if (!link.response) return link;
+
+    const { event } = link.response;
+    const decision = event.decision || event.services.find(service => service.decision)?.decision;
+    const certificationNumbers = [event.decision, ...event.services.map(service => service.decision)]
+      .map(serviceDecision => serviceDecision?.certificationNumber)
+      .filter(Boolean);
+    const requested = link.request && toTimestamp(link.request.record.createdDate, link.request.record.createdTime);
+    const responded = toTimestamp(link.response.record.createdDate, link.response.record.createdTime);
+    return {
+      ...link,
+      decision,
+      claims: claims.filter(claim => certificationNumbers.includes(claim.authorizationNumber)),
+      turnaroundHours: requested !== undefined && responded !== undefined
+        ? Math.round(((responded - requested) / 3600000) * 10) / 10
+        : undefined
+    };
+  });
+}
+
+export function decodeAuthorizationSegment(segment: EDISegment): string {
+  const { tag, elements } = segment;
+
+  switch (tag) {
+    case 'BHT':
+      return `Beginning of Hierarchical Transaction - Purpose: ${elements[2] === '13' ? 'Request' : elements[2] === '11' ? 'Response' : elements[2]}, Reference: ${elements[3]}, Date: ${elements[4]}`;
+    case 'HL':
+      return `Hierarchical Level - ID: ${elements[1]}, Parent: ${elements[2] || 'none'}, Level: ${elements[3]}`;
+    case 'TRN':
+      return `Trace Number - Type: ${elements[1]}, Trace: ${elements[2]}, Originator: ${elements[3]}`;
+    case 'NM1':
+      return `Entity Name - Type: ${elements[1]}, Name: ${[elements[4], elements[3]].filter(Boolean).join(' ')}, ID: ${elements[9] || ''}`;
+    case 'UM':
+      return `Health Care Services Review - Category: ${REQUEST_CATEGORY_CODES[elements[1]] || elements[1]}, Certification: ${CERTIFICATION_TYPE_CODES[elements[2]] || elements[2]}, Service Type: ${elements[3] || ''}`;
+    case 'HCR':
+      return `Review Decision - ${AUTHORIZATION_ACTION_CODES[elements[1]] || elements[1]}, Certification Number: ${elements[2] || 'none'}${elements[3] ? `, Reason: ${elements[3]}` : ''}`;
+    case 'HI':
+      return `Diagnosis - ${elements.slice(1).filter(Boolean).join(', ')}`;
+    case 'HSD':
+      return `Health Care Services Delivery - Quantity: ${elements[2]} ${elements[1]}, Period: ${elements[5]} ${elements[6]}`;
+    case 'SV1':
+    case 'SV2':
+    case 'SV3':
+      return `Service - ${tag === 'SV2' ? `Revenue Code: ${elements[1]}, Procedure: ${elements[2]}` : `Procedure: ${elements[1]}`}`;
+    case 'DTP':
+      return `Date/Time - Qualifier: ${elements[1]}, Format: ${elements[2]}, Date: ${elements[3]}`;
+    case 'REF':
+      return `Reference Information - Qualifier: ${elements[1]}, Reference ID: ${elements[2]}`;
+    case 'AAA':
+      return `Request Validation - Reason: ${elements[3]}, Follow-up: ${elements[4]}`;
+    case 'MSG':
+      return `Message - ${elements[1]}`;
+    case 'SE':
+      return `Transaction Set Trailer - Segment Count: ${elements[1]}, Control Number: ${elements[2]}`;
+    default:
+      return decodeX12Segment(segment);
+  }
+}
@@ -0,0 +1,425 @@
+import { convertJSONToEDI, type JSONConversionResult } from './universalEDIParser';
+import type { DateJSON, Member834JSON, ReferenceJSON } from './jsonSchemas';
+import { COVERAGE_LEVEL_CODES } from './eligibilityExtraction';
+import type { SerializeOptions } from './x12Serializer';
+import { DEFAULT_X12_RELEASE, X12_CODE_LISTS, type X12Release } from './x12Dictionary';
+import { defaultImplementationGuide } from './implementationGuides';
+import type { SpreadsheetRows } from './spreadsheet';
+
+// Flat enrollment census for HR spreadsheets: one row per member per coverage.
+// Rows that share a member ID (or name and birth date) import as one member.
+
+export type CensusField =
+  | 'subscriberId' | 'subscriberIndicator' | 'relationshipCode' | 'relationship'
+  | 'maintenanceTypeCode' | 'maintenanceReasonCode' | 'benefitStatusCode' | 'employmentStatusCode'
+  | 'groupNumber' | 'eligibilityBeginDate'
+  | 'lastName' | 'firstName' | 'middleName' | 'suffix' | 'memberIdQualifier' | 'memberId'
+  | 'birthDate' | 'genderCode' | 'maritalStatus'
+  | 'address1' | 'address2' | 'city' | 'state' | 'postalCode' | 'phone' | 'email'
+  | 'coverageMaintenanceTypeCode' | 'insuranceLineCode' | 'planDescription' | 'coverageLevelCode'
+  | 'coverageStartDate' | 'coverageEndDate';
+
+export interface CensusColumn {
+  field: CensusField;
+  label: string;
+  required?: boolean;
+  // Other header names HR spreadsheets use for the column
+  aliases?: string[];
+}
+
+export const CENSUS_COLUMNS: CensusColumn[] = [
+  { field: 'subscriberId', label: 'Subscriber ID', required: true, aliases: ['employee id', 'subscriber number', 'ref 0f'] },
+  { field: 'subscriberIndicator', label: 'Subscriber', aliases: ['is subscriber', 'member level'] },
+  { field: 'relationshipCode', label: 'Relationship Code', aliases: ['rel code', 'ins02'] },
+  { field: 'relationship', label: 'Relationship', aliases: ['relation', 'relationship to subscriber'] },
+  { field: 'maintenanceTypeCode', label: 'Maintenance Type', required: true, aliases: ['transaction type', 'action', 'ins03'] },
+  { field: 'maintenanceReasonCode', label: 'Maintenance Reason', aliases: ['reason', 'ins04'] },
+  { field: 'benefitStatusCode', label: 'Benefit Status', required: true, aliases: ['status', 'ins05'] },
+  { field: 'employmentStatusCode', label: 'Employment Status', aliases: ['employment', 'ins08'] },
+  { field: 'groupNumber', label: 'Group Number', aliases: ['group', 'policy number', 'ref 1l'] },
+  { field: 'eligibilityBeginDate', label: 'Eligibility Begin Date', aliases: ['eligibility date', 'hire date'] },
+  { field: 'lastName', label: 'Last Name', required: true, aliases: ['surname', 'family name'] },
+  { field: 'firstName', label: 'First Name', aliases: ['given name'] },
+  { field: 'middleName', label: 'Middle Name', aliases: ['middle initial', 'mi'] },
+  { field: 'suffix', label: 'Suffix' },
+  { field: 'memberIdQualifier', label: 'Member ID Qualifier', aliases: ['id qualifier', 'nm108'] },
+  { field: 'memberId', label: 'Member ID', aliases: ['ssn', 'social security number', 'nm109'] },
+  { field: 'birthDate', label: 'Birth Date', aliases: ['dob', 'date of birth'] },
+  { field: 'genderCode', label: 'Gender', aliases: ['sex'] },
+  { field: 'maritalStatus', label: 'Marital Status' },
+  { field: 'address1', label: 'Address Line 1', aliases: ['address', 'street', 'street address'] },
+  { field: 'address2', label: 'Address Line 2', aliases: ['apt', 'suite'] },
+  { field: 'city', label: 'City' },
+  { field: 'state', label: 'State' },
+  { field: 'postalCode', label: 'ZIP Code', aliases: ['zip', 'postal code'] },
+  { field: 'phone', label: 'Phone', aliases: ['home phone', 'telephone'] },
+  { field: 'email', label: 'Email', aliases: ['e-mail', 'email address'] },
+  { field: 'coverageMaintenanceTypeCode', label: 'Coverage Maintenance Type', aliases: ['hd01'] },
+  { field: 'insuranceLineCode', label: 'Coverage Type', aliases: ['insurance line', 'line of coverage', 'hd03'] },
+  { field: 'planDescription', label: 'Plan', aliases: ['plan name', 'plan code', 'hd04'] },
+  { field: 'coverageLevelCode', label: 'Coverage Level', aliases: ['tier', 'coverage tier', 'hd05'] },
+  { field: 'coverageStartDate', label: 'Coverage Start Date', aliases: ['effective date', 'coverage begin', 'start date'] },
+  { field: 'coverageEndDate', label: 'Coverage End Date', aliases: ['termination date', 'term date', 'end date'] }
+];
+
+export type CensusRow = Partial<Record<CensusField, string>>;
+
+// Spreadsheet column index for each census field
+export type CensusMapping = Partial<Record<CensusField, number>>;
+
+export interface CensusIssue {
+  // 1-based spreadsheet row, counting the header row
+  row: number;
+  field?: CensusField;
+  message: string;
+}
+
+// INS02 individual relationship codes
+export const RELATIONSHIP_CODES: Record<string, string> = X12_CODE_LISTS.relationship.codes;
+
+// INS03 / HD01 maintenance type codes
+export const MAINTENANCE_TYPE_CODES: Record<string, string> = X12_CODE_LISTS.maintenanceType.codes;
+
+const GENDER_CODES: Record<string, string> = { M: 'M', MALE: 'M', F: 'F', FEMALE: 'F', U: 'U', UNKNOWN: 'U' };
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Match spreadsheet headers to census fields by label, field name or alias
+export function suggestCensusMapping(headers: string[]): CensusMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CensusMapping = {};
+
+  for (const column of CENSUS_COLUMNS) {
+    const names = [column.label, column.field.replace(/([A-Z])/g, ' $1'), ...(column.aliases || [])].map(normalizeHeader);
+    const index = normalized.findIndex((header, position) =>
+      names.includes(header) && !Object.values(mapping).includes(position)
+    );
+    if (index !== -1) mapping[column.field] = index;
+  }
+
+  return mapping;
+}
+
+// Spreadsheets show CCYY-MM-DD; X12 wants CCYYMMDD
+function displayDate(value?: string): string {
+  return value && /^\d{8}$/.test(value) ? `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}` : value || '';
+}
+
+// Accepts CCYYMMDD, CCYY-MM-DD and MM/DD/CCYY; returns null for anything else
+function toX12Date(value: string): string | null {
+  const text = value.trim();
+  let match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(text);
+  if (match) return `${match[1]}${match[2]}${match[3]}`;
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (match) return `${match[3]}${match[1].padStart(2, '0')}${match[2].padStart(2, '0')}`;
+  return null;
+}
+
+function findDate(dates: DateJSON[] = [], qualifier: string): string {
+  return displayDate(dates.find(date => date.qualifier === qualifier)?.value);
+}
+
+function findReference(references: ReferenceJSON[] = [], qualifier: string): string | undefined {
+  return references.find(reference => reference.qualifier === qualifier)?.value;
+}
+
+function findCommunication(member: Member834JSON, qualifiers: string[]): string | undefined {
+  return member.contact?.communications?.find(item => qualifiers.includes(item.qualifier))?.number;
+}
+
+// One census row per member per coverage; members without coverage get one row
+export function membersToCensus(members: Member834JSON[]): CensusRow[] {
+  return members.flatMap(member => {
+    const base: CensusRow = {
+      subscriberId: findReference(member.references, '0F'),
+      subscriberIndicator: member.memberLevelCode,
+      relationshipCode: member.relationshipCode,
+      relationship: RELATIONSHIP_CODES[member.relationshipCode] || '',
+      maintenanceTypeCode: member.maintenanceTypeCode,
+      maintenanceReasonCode: member.maintenanceReasonCode,
+      benefitStatusCode: member.benefitStatusCode,
+      employmentStatusCode: member.employmentStatusCode,
+      groupNumber: findReference(member.references, '1L'),
+      eligibilityBeginDate: findDate(member.dates, '356'),
+      lastName: member.name?.lastName,
+      firstName: member.name?.firstName,
+      middleName: member.name?.middleName,
+      suffix: member.name?.suffix,
+      memberIdQualifier: member.name?.idQualifier,
+      memberId: member.name?.id,
+      birthDate: displayDate(member.demographics?.birthDate),
+      genderCode: member.demographics?.genderCode,
+      maritalStatus: member.demographics?.maritalStatus,
+      address1: member.address?.line1,
+      address2: member.address?.line2,
+      city: member.address?.city,
+      state: member.address?.state,
+      postalCode: member.address?.postalCode,
+      phone: findCommunication(member, ['HP', 'TE', 'WP', 'CP']),
+      email: findCommunication(member, ['EM'])
+    };
+
+    const coverages = member.healthCoverage || [];
+    if (!coverages.length) return [base];
+
+    return coverages.map(coverage => ({
+      ...base,
+      coverageMaintenanceTypeCode: coverage.maintenanceTypeCode,
+      insuranceLineCode: coverage.insuranceLineCode,
+      planDescription: coverage.planCoverageDescription,
+      coverageLevelCode: coverage.coverageLevelCode,
+      coverageStartDate: findDate(coverage.dates, '348'),
+      coverageEndDate: findDate(coverage.dates, '349')
+    }));
+  });
+}
+
+// Header row plus one row per census row, in CENSUS_COLUMNS order
+export function censusToRows(census: CensusRow[]): SpreadsheetRows {
+  return [
+    CENSUS_COLUMNS.map(column => column.label),
+    ...census.map(row => CENSUS_COLUMNS.map(column => row[column.field] || ''))
+  ];
+}
+
+function readRow(cells: string[], mapping: CensusMapping): CensusRow {
+  const row: CensusRow = {};
+  for (const [field, index] of Object.entries(mapping) as [CensusField, number][]) {
+    const value = (cells[index] ?? '').trim();
+    if (value) row[field] = value;
+  }
+  return row;
+}
+
+function relationshipFor(row: CensusRow): string | undefined {
+  if (row.relationshipCode) return row.relationshipCode.padStart(2, '0');
+  const name = row.relationship?.toLowerCase();
+  if (!name) return undefined;
+  if (['employee', 'subscriber', 'self'].includes(name)) return '18';
+  if (['dependent', 'son', 'daughter'].includes(name)) return '19';
+  return Object.entries(RELATIONSHIP_CODES).find(([, label]) => label.toLowerCase() === name)?.[0];
+}
+
+// Build 834 members from census rows (header row excluded). Rows for the same member
+// add coverages; subscribers are written ahead of their dependents.
+export function censusToMembers(rows: SpreadsheetRows, mapping: CensusMapping): { members: Member834JSON[]; issues: CensusIssue[] } {
+  const issues: CensusIssue[] = [];
+  const members = new Map<string, Member834JSON>();
+  const subscriberOrder: string[] = [];
+
+  const dateField = (row: CensusRow, field: CensusField, rowNumber: number): string | undefined => {
+    if (!row[field]) return undefined;
+    const date = toX12Date(row[field] || '');
+    if (!date) issues.push({ row: rowNumber, field, message: `"${row[field]}" is not a date (use CCYY-MM-DD, MM/DD/CCYY or CCYYMMDD)` });
+    return date || undefined;
+  };
+
+  rows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const row = readRow(cells, mapping);
+    if (!Object.keys(row).length) return;
+
+    const missing = CENSUS_COLUMNS.filter(column => column.required && !row[column.field]);
+    missing.forEach(column => issues.push({ row: rowNumber, field: column.field, message: `${column.label} is required` }));
+
+    const relationshipCode = relationshipFor(row);
+    if (!relationshipCode) {
+      issues.push({ row: rowNumber, field: 'relationshipCode', message: row.relationship ? `Unknown relationship "${row.relationship}"` : 'Relationship Code or Relationship is required' });
+    } else if (!RELATIONSHIP_CODES[relationshipCode]) {
+      issues.push({ row: rowNumber, field: 'relationshipCode', message: `Unknown relationship code ${relationshipCode}` });
+    }
+
+    const subscriber = row.subscriberIndicator ? row.subscriberIndicator.toUpperCase().startsWith('Y') : relationshipCode === '18';
+    if (subscriber !== (relationshipCode === '18') && relationshipCode) {
+      issues.push({ row: rowNumber, field: 'subscriberIndicator', message: 'Subscribers have relationship 18 (Self) and dependents any other' });
+    }
+
+    if (row.maintenanceTypeCode && !MAINTENANCE_TYPE_CODES[row.maintenanceTypeCode.padStart(3, '0')]) {
+      issues.push({ row: rowNumber, field: 'maintenanceTypeCode', message: `Unknown maintenance type ${row.maintenanceTypeCode}` });
+    }
+
+    const genderCode = row.genderCode ? GENDER_CODES[row.genderCode.toUpperCase()] : undefined;
+    if (row.genderCode && !genderCode) {
+      issues.push({ row: rowNumber, field: 'genderCode', message: `Gender "${row.genderCode}" should be M, F or U` });
+    }
+    if (row.coverageLevelCode && !COVERAGE_LEVEL_CODES[row.coverageLevelCode.toUpperCase()]) {
+      issues.push({ row: rowNumber, field: 'coverageLevelCode', message: `Unknown coverage level ${row.coverageLevelCode}` });
+    }
+    if (!row.insuranceLineCode && (row.planDescription || row.coverageStartDate)) {
+      issues.push({ row: rowNumber, field: 'insuranceLineCode', message: 'Coverage Type is required for a coverage row' });
+    }
+
+    const birthDate = dateField(row, 'birthDate', rowNumber);
+    const eligibilityBeginDate = dateField(row, 'eligibilityBeginDate', rowNumber);
+    const coverageStartDate = dateField(row, 'coverageStartDate', rowNumber);
+    const coverageEndDate = dateField(row, 'coverageEndDate', rowNumber);
+
+    const maintenanceTypeCode = row.maintenanceTypeCode?.padStart(3, '0') || '';
+    const key = row.memberId || [row.subscriberId, row.lastName, row.firstName, birthDate].join('|');
+    let member = members.get(key);
+
+    if (!member) {
+      member = {
+        memberLevelCode: subscriber ? 'Y' : 'N',
+        relationshipCode: relationshipCode || '',
+        maintenanceTypeCode,
+        maintenanceReasonCode: row.maintenanceReasonCode,
+        benefitStatusCode: row.benefitStatusCode?.toUpperCase() || '',
+        employmentStatusCode: row.employmentStatusCode?.toUpperCase(),
+        references: [
+          { qualifier: '0F', value: row.subscriberId || '' },
+          ...(row.groupNumber ? [{ qualifier: '1L', value: row.groupNumber }] : [])
+        ],
+        dates: eligibilityBeginDate ? [{ qualifier: '356', format: 'D8', value: eligibilityBeginDate }] : [],
+        name: {
+          qualifier: 'IL',
+          entityType: '1',
+          lastName: row.lastName || '',
+          firstName: row.firstName,
+          middleName: row.middleName,
+          suffix: row.suffix,
+          // Census IDs are SSNs unless the sheet says otherwise
+          idQualifier: row.memberId ? row.memberIdQualifier || '34' : undefined,
+          id: row.memberId
+        },
+        demographics: birthDate || genderCode
+          ? { dateQualifier: 'D8', birthDate, genderCode, maritalStatus: row.maritalStatus }
+          : {},
+        healthCoverage: []
+      };
+
+      const communications = [
+        ...(row.phone ? [{ qualifier: 'HP', number: row.phone.replace(/\D/g, '') }] : []),
+        ...(row.email ? [{ qualifier: 'EM', number: row.email }] : [])
+      ];
+      if (communications.length) member.contact = { functionCode: 'IP', communications };
+      if (row.address1 || row.city) {
+        member.address = { line1: row.address1, line2: row.address2, city: row.city, state: row.state?.toUpperCase(), postalCode: row.postalCode };
+      }
+
+      members.set(key, member);
+      if (!subscriberOrder.includes(row.subscriberId || '')) subscriberOrder.push(row.subscriberId || '');
+    }
+
+    if (row.insuranceLineCode) {
+      member.healthCoverage.push({
+        maintenanceTypeCode: row.coverageMaintenanceTypeCode?.padStart(3, '0') || maintenanceTypeCode,
+        insuranceLineCode: row.insuranceLineCode.toUpperCase(),
+        planCoverageDescription: row.planDescription,
+        coverageLevelCode: row.coverageLevelCode?.toUpperCase(),
+        dates: [
+          ...(coverageStartDate ? [{ qualifier: '348', format: 'D8', value: coverageStartDate }] : []),
+          ...(coverageEndDate ? [{ qualifier: '349', format: 'D8', value: coverageEndDate }] : [])
+        ]
+      });
+    }
+  });
+
+  const ordered = subscriberOrder.flatMap(subscriberId => {
+    const family = [...members.values()].filter(member => findReference(member.references, '0F') === subscriberId);
+    return [...family.filter(member => member.memberLevelCode === 'Y'), ...family.filter(member => member.memberLevelCode === 'N')];
+  });
+
+  return { members: ordered, issues };
+}
+
+// Parties and control values for a generated 834
+export interface Census834Envelope {
+  senderQualifier: string;
+  senderId: string;
+  receiverQualifier: string;
+  receiverId: string;
+  sponsorName: string;
+  sponsorId: string;
+  payerName: string;
+  payerId: string;
+  // REF*38 master policy number
+  policyNumber?: string;
+  controlNumber: number;
+  testIndicator: 'T' | 'P';
+  // BGN08: 2 = changes only, 4 = verify (full file)
+  actionCode: '2' | '4';
+  date?: Date;
+  // Release to write; 004010 for partners still on X095A1
+  release?: X12Release;
+}
+
+function formatDateParts(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const ccyymmdd = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  return { ccyymmdd, yymmdd: ccyymmdd.substring(2), hhmm: `${pad(date.getHours())}${pad(date.getMinutes())}` };
+}
+
+// Business JSON for an 834 carrying the given members
+export function buildCensus834JSON(members: Member834JSON[], envelope: Census834Envelope): JSONConversionResult {
+  const { ccyymmdd, yymmdd, hhmm } = formatDateParts(envelope.date || new Date());
+  const controlNumber = String(envelope.controlNumber);
+  const release = envelope.release || DEFAULT_X12_RELEASE;
+  const guide = defaultImplementationGuide('834', release)!;
+
+  return {
+    header: {
+      interchangeControl: {
+        authorizationQualifier: '00',
+        authorizationInformation: '',
+        securityQualifier: '00',
+        securityInformation: '',
+        senderQualifier: envelope.senderQualifier,
+        senderId: envelope.senderId,
+        receiverQualifier: envelope.receiverQualifier,
+        receiverId: envelope.receiverId,
+        interchangeDate: yymmdd,
+        interchangeTime: hhmm,
+        // 4010 has no repetition separator; ISA11 is the U.S. standards identifier
+        ...(release === '004010' ? { controlStandards: 'U' } : {}),
+        controlVersion: release.slice(0, 5),
+        controlNumber: controlNumber.padStart(9, '0'),
+        acknowledgmentRequested: '1',
+        testIndicator: envelope.testIndicator
+      },
+      functionalGroup: {
+        functionalCode: 'BE',
+        applicationSender: envelope.senderId,
+        applicationReceiver: envelope.receiverId,
+        date: ccyymmdd,
+        time: hhmm,
+        groupControlNumber: controlNumber,
+        responsibleAgency: 'X',
+        version: guide.reference
+      },
+      transactionSet: {
+        transactionSetIdentifier: '834',
+        transactionSetControlNumber: controlNumber.padStart(4, '0'),
+        // ST03 arrived with 4020
+        implementationReference: release === '004010' ? undefined : guide.reference,
+        beginningSegment: {
+          purposeCode: '00',
+          referenceId: controlNumber,
+          date: ccyymmdd,
+          time: hhmm,
+          actionCode: envelope.actionCode
+        },
+        references: envelope.policyNumber ? [{ qualifier: '38', value: envelope.policyNumber }] : []
+      }
+    },
+    data: {
+      entities: [
+        { entityQualifier: 'P5', entityName: envelope.sponsorName, idQualifier: 'FI', id: envelope.sponsorId },
+        { entityQualifier: 'IN', entityName: envelope.payerName, idQualifier: 'FI', id: envelope.payerId }
+      ],
+      members
+    },
+    metadata: {
+      originalFormat: '834',
+      conversionTimestamp: new Date().toISOString(),
+      statistics: { memberCount: members.length }
+    }
+  };
+}
+
+// Generate the 834 through the serializer; schema problems throw JSONValidationError
+export function generateCensus834(members: Member834JSON[], envelope: Census834Envelope, options: SerializeOptions = {}): string {
+  return convertJSONToEDI(buildCensus834JSON(members, envelope), options);
+}
@@ -0,0 +1,491 @@
+import type { EDISegment } from './universalEDIParser';
+import { CLAIM_837_VARIANTS, CLAIM_LOOP_SCHEMAS_837, type ClaimVariant } from './x12Formats';
+import { buildLoopTree, childLoops, loopSegment, loopSegments, type EDILoop } from './x12Loops';
+import { getComponent, getComponents, getRepetitions } from './x12Elements';
+
+export interface ClaimAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+export interface ClaimParty {
+  entityCode: string;
+  entityType: string;
+  lastName: string;
+  firstName?: string;
+  middleName?: string;
+  suffix?: string;
+  idQualifier?: string;
+  id?: string;
+  taxonomy?: string;
+  taxId?: string;
+  address?: ClaimAddress;
+}
+
+export interface ClaimPerson extends ClaimParty {
+  birthDate?: string;
+  genderCode?: string;
+}
+
+export interface ClaimSubscriber extends ClaimPerson {
+  payerResponsibility: string;
+  relationshipCode: string;
+  groupNumber?: string;
+  groupName?: string;
+  claimFilingIndicator?: string;
+}
+
+export interface ClaimPatient extends ClaimPerson {
+  relationshipCode: string;
+}
+
+export interface ClaimDate {
+  qualifier: string;
+  format: string;
+  date: string;
+  endDate?: string;
+}
+
+export interface ClaimReference {
+  qualifier: string;
+  value: string;
+}
+
+export interface ClaimDiagnosis {
+  qualifier: string;
+  code: string;
+  // 1-based position referenced by service line diagnosis pointers
+  pointer: number;
+  presentOnAdmission?: string;
+}
+
+export interface ClaimProcedure {
+  qualifier: string;
+  code: string;
+  date?: string;
+}
+
+export interface ClaimAdjustment {
+  groupCode: string;
+  reasonCode: string;
+  amount: number;
+  quantity?: number;
+}
+
+export interface ClaimLineAdjudication {
+  payerId: string;
+  paidAmount: number;
+  procedureCode?: string;
+  paidUnits?: number;
+  adjustments: ClaimAdjustment[];
+  paymentDate?: string;
+}
+
+export interface ClaimServiceLine {
+  lineNumber: string;
+  revenueCode?: string;
+  procedureQualifier?: string;
+  procedureCode?: string;
+  modifiers: string[];
+  description?: string;
+  chargeAmount: number;
+  unitQualifier?: string;
+  units: number;
+  placeOfService?: string;
+  diagnosisPointers: number[];
+  toothNumbers: string[];
+  toothSurfaces: string[];
+  oralCavityAreas: string[];
+  serviceDates: ClaimDate[];
+  lineItemControlNumber?: string;
+  providers: Partial<Record<ClaimProviderRole, ClaimParty>>;
+  adjudications: ClaimLineAdjudication[];
+}
+
+export interface ClaimOtherPayer {
+  payerResponsibility: string;
+  relationshipCode: string;
+  groupNumber?: string;
+  claimFilingIndicator?: string;
+  paidAmount?: number;
+  adjustments: ClaimAdjustment[];
+  subscriber?: ClaimParty;
+  payer?: ClaimParty;
+}
+
+export type ClaimProviderRole =
+  | 'referring'
+  | 'rendering'
+  | 'serviceFacility'
+  | 'supervising'
+  | 'attending'
+  | 'operating'
+  | 'otherOperating'
+  | 'assistantSurgeon'
+  | 'ordering'
+  | 'purchasedService'
+  | 'ambulancePickup'
+  | 'ambulanceDropoff';
+
+export interface Claim837 {
+  variant: ClaimVariant;
+  claimId: string;
+  totalCharge: number;
+  facilityCode: string;
+  facilityQualifier: string;
+  frequencyCode: string;
+  providerSignature?: string;
+  assignmentOfBenefits?: string;
+  benefitsAssignment?: string;
+  releaseOfInformation?: string;
+  billingProvider?: ClaimParty;
+  payToProvider?: ClaimParty;
+  subscriber?: ClaimSubscriber;
+  patient?: ClaimPatient;
+  payer?: ClaimParty;
+  providers: Partial<Record<ClaimProviderRole, ClaimParty>>;
+  diagnoses: ClaimDiagnosis[];
+  procedures: ClaimProcedure[];
+  dates: ClaimDate[];
+  references: ClaimReference[];
+  serviceLines: ClaimServiceLine[];
+  otherPayers: ClaimOtherPayer[];
+}
+
+// NM1-01 entity codes for the 2310/2420 provider loops
+const PROVIDER_ROLES: Record<string, ClaimProviderRole> = {
+  DN: 'referring',
+  P3: 'referring',
+  '82': 'rendering',
+  '77': 'serviceFacility',
+  DQ: 'supervising',
+  '71': 'attending',
+  '72': 'operating',
+  ZZ: 'otherOperating',
+  DD: 'assistantSurgeon',
+  DK: 'ordering',
+  QB: 'purchasedService',
+  PW: 'ambulancePickup',
+  '45': 'ambulanceDropoff'
+};
+
+// HI qualifiers carrying diagnosis codes (ICD-10 first, then ICD-9)
+const DIAGNOSIS_QUALIFIERS = new Set(['ABK', 'ABF', 'ABJ', 'APR', 'ABN', 'BK', 'BF', 'BJ', 'PR', 'BN']);
+// HI qualifiers carrying institutional procedure codes
+const PROCEDURE_QUALIFIERS = new Set(['BBR', 'BBQ', 'BR', 'BQ', 'CAH']);
+
+// Read the claim variant from ST03, then GS08, then fall back to the service line segments present
+export function detect837Variant(transaction: { segments: EDISegment[] }): ClaimVariant {
+  const st = transaction.segments.find(segment => segment.tag === 'ST');
+  const gs = transaction.segments.find(segment => segment.tag === 'GS');
+  const reference = st?.elements[3] || gs?.elements[8];
+  if (reference && CLAIM_837_VARIANTS[reference]) return CLAIM_837_VARIANTS[reference];
+
+  if (transaction.segments.some(segment => segment.tag === 'SV2')) return 'institutional';
+  if (transaction.segments.some(segment => segment.tag === 'SV3')) return 'dental';
+  return 'professional';
+}
+
+function toNumber(value: string | undefined): number {
+  return parseFloat(value || '0') || 0;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? toNumber(value) : undefined;
+}
+
+function readParty(loop: EDILoop | undefined): ClaimParty | undefined {
+  const nm1 = loopSegment(loop, 'NM1');
+  if (!nm1) return undefined;
+
+  const n3 = loopSegment(loop, 'N3');
+  const n4 = loopSegment(loop, 'N4');
+  const taxId = loopSegment(loop, 'REF', 'EI') || loopSegment(loop, 'REF', 'SY');
+
+  return {
+    entityCode: nm1.elements[1] || '',
+    entityType: nm1.elements[2] || '',
+    lastName: nm1.elements[3] || '',
+    firstName: nm1.elements[4] || undefined,
+    middleName: nm1.elements[5] || undefined,
+    suffix: nm1.elements[7] || undefined,
+    idQualifier: nm1.elements[8] || undefined,
+    id: nm1.elements[9] || undefined,
+    taxonomy: loopSegment(loop, 'PRV')?.elements[3] || undefined,
+    taxId: taxId?.elements[2] || undefined,
+    address: n3 || n4 ? {
+      line1: n3?.elements[1] || '',
+      line2: n3?.elements[2] || undefined,
+      city: n4?.elements[1] || '',
+      state: n4?.elements[2] || '',
+      postalCode: n4?.elements[3] || ''
+    } : undefined
+  };
+}
+
+function readPerson(loop: EDILoop | undefined): ClaimPerson | undefined {
+  const party = readParty(loop);
+  if (!party) return undefined;
+
+  const dmg = loopSegment(loop, 'DMG');
+  return {
+    ...party,
+    birthDate: dmg?.elements[2] || undefined,
+    genderCode: dmg?.elements[3] || undefined
+  };
+}
+
+function readProviders(loops: EDILoop[]): Partial<Record<ClaimProviderRole, ClaimParty>> {
+  const providers: Partial<Record<ClaimProviderRole, ClaimParty>> = {};
+  for (const loop of loops) {
+    const party = readParty(loop);
+    const role = party && PROVIDER_ROLES[party.entityCode];
+    if (role && !providers[role]) providers[role] = party;
+  }
+  return providers;
+}
+
+function readDate(dtp: EDISegment): ClaimDate {
+  const format = dtp.elements[2] || '';
+  const [date, endDate] = (dtp.elements[3] || '').split('-');
+  return {
+    qualifier: dtp.elements[1] || '',
+    format,
+    date: date || '',
+    endDate: format === 'RD8' ? endDate : undefined
+  };
+}
+
+// CAS repeats reason/amount/quantity triplets after the group code
+export function readAdjustments(segments: EDISegment[]): ClaimAdjustment[] {
+  const adjustments: ClaimAdjustment[] = [];
+  for (const cas of segments) {
+    for (let position = 2; position <= 17; position += 3) {
+      const reasonCode = cas.elements[position];
+      if (!reasonCode) continue;
+      adjustments.push({
+        groupCode: cas.elements[1] || '',
+        reasonCode,
+        amount: toNumber(cas.elements[position + 1]),
+        quantity: optionalNumber(cas.elements[position + 2])
+      });
+    }
+  }
+  return adjustments;
+}
+
+function readDiagnoses(claimLoop: EDILoop): { diagnoses: ClaimDiagnosis[]; procedures: ClaimProcedure[] } {
+  const diagnoses: ClaimDiagnosis[] = [];
+  const procedures: ClaimProcedure[] = [];
+
+  for (const hi of loopSegments(claimLoop, 'HI')) {
+    for (let position = 1; position < hi.elements.length; position++) {
+      const [qualifier, code, , date, , , , , presentOnAdmission] = getComponents(hi, position);
+      if (!qualifier || !code) continue;
+
+      if (DIAGNOSIS_QUALIFIERS.has(qualifier)) {
+        diagnoses.push({
+          qualifier,
+          code,
+          pointer: diagnoses.length + 1,
+          presentOnAdmission: presentOnAdmission || undefined
+        });
+      } else if (PROCEDURE_QUALIFIERS.has(qualifier)) {
+        procedures.push({ qualifier, code, date: date || undefined });
+      }
+    }
+  }
+
+  return { diagnoses, procedures };
+}
+
+// Procedure composite: qualifier, code, modifiers 1-4, then description in component 7
+function readProcedure(segment: EDISegment, position: number): Pick<ClaimServiceLine, 'procedureQualifier' | 'procedureCode' | 'modifiers' | 'description'> {
+  const components = getComponents(segment, position);
+  return {
+    procedureQualifier: components[0] || undefined,
+    procedureCode: components[1] || undefined,
+    modifiers: components.slice(2, 6).filter(Boolean),
+    description: components[6] || undefined
+  };
+}
+
+function readPointers(segment: EDISegment, position: number): number[] {
+  return getComponents(segment, position)
+    .map(pointer => parseInt(pointer, 10))
+    .filter(pointer => !Number.isNaN(pointer));
+}
+
+function readServiceLine(lineLoop: EDILoop): ClaimServiceLine {
+  const line: ClaimServiceLine = {
+    lineNumber: lineLoop.segments[0].elements[1] || '',
+    modifiers: [],
+    chargeAmount: 0,
+    units: 0,
+    diagnosisPointers: [],
+    toothNumbers: [],
+    toothSurfaces: [],
+    oralCavityAreas: [],
+    serviceDates: loopSegments(lineLoop, 'DTP', '472').map(readDate),
+    lineItemControlNumber: loopSegment(lineLoop, 'REF', '6R')?.elements[2] || undefined,
+    providers: readProviders(lineLoop.loops),
+    adjudications: childLoops(lineLoop, '2430').map(adjudicationLoop => {
+      const svd = adjudicationLoop.segments[0];
+      return {
+        payerId: svd.elements[1] || '',
+        paidAmount: toNumber(svd.elements[2]),
+        procedureCode: getComponent(svd, 3, 2) || undefined,
+        paidUnits: optionalNumber(svd.elements[5]),
+        adjustments: readAdjustments(loopSegments(adjudicationLoop, 'CAS')),
+        paymentDate: loopSegment(adjudicationLoop, 'DTP', '573')?.elements[3] || undefined
+      };
+    })
+  };
+
+  const sv1 = loopSegment(lineLoop, 'SV1');
+  const sv2 = loopSegment(lineLoop, 'SV2');
+  const sv3 = loopSegment(lineLoop, 'SV3');
+
+  if (sv1) {
+    Object.assign(line, readProcedure(sv1, 1), {
+      chargeAmount: toNumber(sv1.elements[2]),
+      unitQualifier: sv1.elements[3] || undefined,
+      units: toNumber(sv1.elements[4]),
+      placeOfService: sv1.elements[5] || undefined,
+      diagnosisPointers: readPointers(sv1, 7)
+    });
+  } else if (sv2) {
+    Object.assign(line, readProcedure(sv2, 2), {
+      revenueCode: sv2.elements[1] || undefined,
+      chargeAmount: toNumber(sv2.elements[3]),
+      unitQualifier: sv2.elements[4] || undefined,
+      units: toNumber(sv2.elements[5])
+    });
+  } else if (sv3) {
+    Object.assign(line, readProcedure(sv3, 1), {
+      chargeAmount: toNumber(sv3.elements[2]),
+      placeOfService: sv3.elements[3] || undefined,
+      oralCavityAreas: getComponents(sv3, 4).filter(Boolean),
+      units: toNumber(sv3.elements[6]) || 1,
+      diagnosisPointers: readPointers(sv3, 11)
+    });
+  }
+
+  for (const too of loopSegments(lineLoop, 'TOO')) {
+    if (too.elements[2]) line.toothNumbers.push(too.elements[2]);
+    line.toothSurfaces.push(...getRepetitions(too, 3).flat().filter(Boolean));
+  }
+
+  return line;
+}
+
+function readOtherPayer(otherLoop: EDILoop): ClaimOtherPayer {
+  const sbr = otherLoop.segments[0];
+  const paid = loopSegment(otherLoop, 'AMT', 'D');
+
+  return {
+    payerResponsibility: sbr.elements[1] || '',
+    relationshipCode: sbr.elements[2] || '',
+    groupNumber: sbr.elements[3] || undefined,
+    claimFilingIndicator: sbr.elements[9] || undefined,
+    paidAmount: paid ? toNumber(paid.elements[2]) : undefined,
+    adjustments: readAdjustments(loopSegments(otherLoop, 'CAS')),
+    subscriber: readParty(childLoops(otherLoop, '2330A')[0]),
+    payer: readParty(childLoops(otherLoop, '2330B')[0])
+  };
+}
+
+interface ClaimContext {
+  variant: ClaimVariant;
+  billingProvider?: ClaimParty;
+  payToProvider?: ClaimParty;
+  subscriber?: ClaimSubscriber;
+  patient?: ClaimPatient;
+  payer?: ClaimParty;
+}
+
+function readClaim(claimLoop: EDILoop, context: ClaimContext): Claim837 {
+  const clm = claimLoop.segments[0];
+  const { diagnoses, procedures } = readDiagnoses(claimLoop);
+
+  return {
+    ...context,
+    claimId: clm.elements[1] || '',
+    totalCharge: toNumber(clm.elements[2]),
+    // CLM05 composite: facility code, qualifier, frequency
+    facilityCode: getComponent(clm, 5, 1) || '',
+    facilityQualifier: getComponent(clm, 5, 2) || '',
+    frequencyCode: getComponent(clm, 5, 3) || '',
+    providerSignature: clm.elements[6] || undefined,
+    assignmentOfBenefits: clm.elements[7] || undefined,
+    benefitsAssignment: clm.elements[8] || undefined,
+    releaseOfInformation: clm.elements[9] || undefined,
+    providers: readProviders(claimLoop.loops.filter(loop => loop.id.startsWith('2310'))),
+    diagnoses,
+    procedures,
+    dates: loopSegments(claimLoop, 'DTP').map(readDate),
+    references: loopSegments(claimLoop, 'REF').map(ref => ({
+      qualifier: ref.elements[1] || '',
+      value: ref.elements[2] || ''
+    })),
+    serviceLines: childLoops(claimLoop, '2400').map(readServiceLine),
+    otherPayers: childLoops(claimLoop, '2320').map(readOtherPayer)
+  };
+}
+
+function readSubscriber(subscriberLoop: EDILoop, person: ClaimPerson | undefined): ClaimSubscriber | undefined {
+  const sbr = loopSegment(subscriberLoop, 'SBR');
+  if (!person) return undefined;
+
+  return {
+    ...person,
+    payerResponsibility: sbr?.elements[1] || '',
+    relationshipCode: sbr?.elements[2] || '',
+    groupNumber: sbr?.elements[3] || undefined,
+    groupName: sbr?.elements[4] || undefined,
+    claimFilingIndicator: sbr?.elements[9] || undefined
+  };
+}
+
+// Extract every claim in an 837 transaction, walking billing provider → subscriber → patient levels
+export function extract837Claims(transaction: { segments: EDISegment[] }): Claim837[] {
+  const variant = detect837Variant(transaction);
+  const root = buildLoopTree({ type: '837', segments: transaction.segments }, CLAIM_LOOP_SCHEMAS_837[variant]);
+  const claims: Claim837[] = [];
+
+  for (const billingLoop of childLoops(root, '2000A')) {
+    const billingProvider = readParty(childLoops(billingLoop, '2010AA')[0]);
+    const payToProvider = readParty(childLoops(billingLoop, '2010AB')[0])
+      || readParty(childLoops(billingLoop, '2010AC')[0]);
+
+    for (const subscriberLoop of childLoops(billingLoop, '2000B')) {
+      const subscriberPerson = readPerson(childLoops(subscriberLoop, '2010BA')[0]);
+      const subscriber = readSubscriber(subscriberLoop, subscriberPerson);
+      const payer = readParty(childLoops(subscriberLoop, '2010BB')[0]);
+      const context: ClaimContext = { variant, billingProvider, payToProvider, subscriber, payer };
+
+      // Subscriber is the patient when the claim sits directly under 2000B
+      const selfPatient = subscriberPerson ? { ...subscriberPerson, relationshipCode: '18' } : undefined;
+      for (const claimLoop of childLoops(subscriberLoop, '2300')) {
+        claims.push(readClaim(claimLoop, { ...context, patient: selfPatient }));
+      }
+
+      for (const patientLoop of childLoops(subscriberLoop, '2000C')) {
+        const person = readPerson(childLoops(patientLoop, '2010CA')[0]);
+        const patient = person ? {
+          ...person,
+          relationshipCode: loopSegment(patientLoop, 'PAT')?.elements[1] || ''
+        } : undefined;
+
+        for (const claimLoop of childLoops(patientLoop, '2300')) {
+          claims.push(readClaim(claimLoop, { ...context, patient }));
+        }
+      }
+    }
+  }
+
+  return claims;
+}
@@ -1,8 +1,42 @@
-import { EDISegment, EDITransaction } from './ediParser';
+import { identifyPayer, readTransactionTypes, type EDISegment, type EDITransaction } from './universalEDIParser';
+import {
+  CLAIM_LOOP_SCHEMAS_837,
+  PAYER_DATABASE,
+  X12_FORMATS,
+  getPayerRequirements,
+  type ClaimVariant,
+  type PayerRequirements,
+  type PayerType,
+  type X12FormatType
+} from './x12Formats';
+import { buildLoopTree, findLoops, flattenLoop, loopSegments } from './x12Loops';
+import { detect837Variant } from './claimExtraction';
+import { extract835Remittances } from './remittanceExtraction';
+import { checkSegmentElements, getSegmentDefinition, releaseOf, type X12ElementIssue, type X12ElementIssueKind } from './x12Dictionary';
+import { getComponent } from './x12Elements';
+import { getImplementationGuide, readImplementationReference, readRelease } from './implementationGuides';
+
+export type ValidationSeverity = 'critical' | 'warning' | 'info';
+
+// WEDI SNIP test types, as payer contracts name them
+export type SnipLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export const SNIP_LEVELS: Record<SnipLevel, string> = {
+  1: 'EDI syntax integrity',
+  2: 'Implementation guide requirements',
+  3: 'Balancing',
+  4: 'Situational inter-segment rules',
+  5: 'External code sets',
+  6: 'Product and service specific',
+  7: 'Trading partner specific'
+};
 
 export type EDIError = {
   id: string;
-  type: 'critical' | 'warning' | 'info';
+  // ID of the validation rule that reported it, and the SNIP type it tests
+  ruleId: string;
+  snipLevel: SnipLevel;
+  type: ValidationSeverity;
   segment: EDISegment;
   message: string;
   description: string;
@@ -13,58 +47,221 @@ export type ValidationResult = {
   isValid: boolean;
   errors: EDIError[];
   warnings: EDIError[];
+  // Findings a partner override re-graded to informational
+  info: EDIError[];
   totalIssues: number;
 };
 
-// Required segments for 834 transactions
-const REQUIRED_834_SEGMENTS = ['ISA', 'GS', 'ST', 'BGN', 'N1', 'INS', 'NM1', 'SE', 'GE', 'IEA'];
+// Validation reads only the type, segments and identified payer, so any parsed transaction can be passed in
+type ValidatedTransaction = Pick<EDITransaction, 'type' | 'segments'> & Partial<Pick<EDITransaction, 'payer'>>;
 
-// Required segments for 820 transactions  
-const REQUIRED_820_SEGMENTS = ['ISA', 'GS', 'ST', 'BPR', 'N1', 'SE', 'GE', 'IEA'];
+// What a rule reports; severity and SNIP level fall back to the rule's defaults
+export type RuleFinding = Omit<EDIError, 'ruleId' | 'snipLevel' | 'type'> & { type?: ValidationSeverity; snipLevel?: SnipLevel };
+type ReportFinding = (finding: RuleFinding) => void;
 
-export function validateEDITransaction(transaction: EDITransaction): ValidationResult {
-  const errors: EDIError[] = [];
-  const segments = transaction.segments;
-  
-  // Check for required segments
-  validateRequiredSegments(transaction, errors);
-  
-  // Check segment sequence
-  validateSegmentSequence(transaction, errors);
-  
-  // Check control numbers
-  validateControlNumbers(transaction, errors);
-  
-  // Check data formats
-  validateDataFormats(transaction, errors);
-  
-  // Check specific business rules
-  if (transaction.type === '834') {
-    validate834BusinessRules(transaction, errors);
-  } else if (transaction.type === '820') {
-    validate820BusinessRules(transaction, errors);
+export interface ValidationRule {
+  id: string;
+  name: string;
+  standard: 'x12' | 'edifact';
+  // Transaction types the rule applies to; every type when omitted
+  transactionTypes?: readonly string[];
+  // Reads the transaction type, so a mixed interchange runs it on each set rather than
+  // the whole file (rules with transactionTypes always are)
+  perSet?: boolean;
+  snipLevel: SnipLevel;
+  severity: ValidationSeverity;
+  check: (transaction: ValidatedTransaction, report: (finding: RuleFinding) => void) => void;
+}
+
+// Per-partner changes to the registry: turn a rule off or re-grade everything it reports
+export interface ValidationRuleOverride {
+  enabled?: boolean;
+  severity?: ValidationSeverity;
+}
+
+export type ValidationRuleOverrides = Record<string, ValidationRuleOverride>;
+
+export interface ValidationOptions {
+  overrides?: ValidationRuleOverrides;
+  // Report only these SNIP levels; all of them when omitted
+  levels?: readonly SnipLevel[];
+}
+
+// Envelope segments every X12 file needs, whatever its transaction type
+const REQUIRED_ENVELOPE_SEGMENTS = ['ISA', 'GS', 'ST', 'SE', 'GE', 'IEA'];
+
+const VALIDATION_RULES: ValidationRule[] = [
+  { id: 'edifact-envelope', name: 'EDIFACT envelope', standard: 'edifact', snipLevel: 1, severity: 'critical', check: validateEDIFACTEnvelope },
+  { id: 'segment-sequence', name: 'Interchange segment order', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateSegmentSequence },
+  { id: 'interchange-control-number', name: 'ISA/IEA control numbers', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateControlNumbers },
+  { id: 'interchange-group-count', name: 'IEA01 group count', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateGroupCounts },
+  { id: 'functional-group-trailer', name: 'GE count and control number', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateGroupTrailers },
+  { id: 'transaction-set-trailer', name: 'SE count and control number', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateSetTrailers },
+  { id: 'duplicate-set-control-number', name: 'Unique ST control numbers', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateUniqueSetControlNumbers },
+  { id: 'functional-identifier', name: 'GS01 functional identifier', standard: 'x12', snipLevel: 1, severity: 'critical', check: validateFunctionalIdentifiers },
+  { id: 'isa-field-widths', name: 'ISA field widths', standard: 'x12', snipLevel: 1, severity: 'critical', check: forSegments('ISA', validateISAWidths) },
+  { id: 'element-required', name: 'Required elements', standard: 'x12', snipLevel: 1, severity: 'critical', check: elementChecks('required') },
+  { id: 'element-count', name: 'Element, repetition and component counts', standard: 'x12', snipLevel: 1, severity: 'warning', check: elementChecks('too-many', 'too-many-repetitions', 'too-many-components') },
+  { id: 'element-length', name: 'Element lengths', standard: 'x12', snipLevel: 1, severity: 'warning', check: elementChecks('too-short', 'too-long') },
+  { id: 'element-type', name: 'Element data types', standard: 'x12', snipLevel: 1, severity: 'warning', check: elementChecks('invalid-character', 'invalid-date', 'invalid-time') },
+  // A value outside the guide's code list is a guide requirement, not a syntax error
+  { id: 'element-code', name: 'Element code values', standard: 'x12', snipLevel: 2, severity: 'warning', check: elementChecks('invalid-code') },
+  { id: 'isa-format', name: 'ISA format', standard: 'x12', snipLevel: 1, severity: 'critical', check: forSegments('ISA', validateISAFormat) },
+  { id: 'dtp-date-format', name: 'DTP date format', standard: 'x12', snipLevel: 1, severity: 'warning', check: forSegments('DTP', validateDTPFormat) },
+  { id: 'dmg-birth-date-format', name: 'DMG birth date format', standard: 'x12', snipLevel: 1, severity: 'warning', check: forSegments('DMG', validateDMGFormat) },
+  { id: 'required-segments', name: 'Required segments', standard: 'x12', snipLevel: 2, severity: 'critical', perSet: true, check: validateRequiredSegments },
+  { id: 'implementation-guide', name: 'Implementation guide', standard: 'x12', snipLevel: 2, severity: 'warning', perSet: true, check: validateImplementationGuide },
+  { id: 'member-names', name: 'Member name loops', standard: 'x12', transactionTypes: ['834'], snipLevel: 2, severity: 'warning', check: validate834BusinessRules },
+  { id: 'payment-information', name: 'Payment information', standard: 'x12', transactionTypes: ['820'], snipLevel: 2, severity: 'critical', check: validate820BusinessRules },
+  { id: 'claim-charge-balance', name: 'Claim charge balancing', standard: 'x12', transactionTypes: ['837'], snipLevel: 3, severity: 'critical', check: validateClaimBalance },
+  { id: 'remittance-balance', name: 'Remittance balancing', standard: 'x12', transactionTypes: ['835'], snipLevel: 3, severity: 'critical', check: validateRemittanceBalance },
+  { id: 'termination-date', name: 'Termination dates', standard: 'x12', transactionTypes: ['834'], snipLevel: 4, severity: 'warning', check: validateTerminationDates },
+  { id: 'npi-check-digit', name: 'NPI check digit', standard: 'x12', snipLevel: 5, severity: 'critical', check: forSegments('NM1', validateNPI) },
+  { id: 'claim-service-lines', name: 'Service lines for claim type', standard: 'x12', transactionTypes: ['837'], snipLevel: 6, severity: 'critical', check: validateServiceLineTypes },
+  { id: 'payer-member-id', name: 'Payer member ID format', standard: 'x12', transactionTypes: ['834'], snipLevel: 7, severity: 'critical', check: forPayer(validatePayerMemberIds) },
+  { id: 'payer-required-elements', name: 'Payer required segments', standard: 'x12', transactionTypes: ['834'], snipLevel: 7, severity: 'critical', check: forPayer(validatePayerRequiredElements) },
+  { id: 'payer-payment-format', name: 'Payer payment amount format', standard: 'x12', transactionTypes: ['820'], snipLevel: 7, severity: 'critical', check: forPayer(validatePayerPaymentFormat) },
+  { id: 'payer-bank-details', name: 'Payer bank and EFT details', standard: 'x12', transactionTypes: ['820'], snipLevel: 7, severity: 'critical', check: forPayer(validatePayerBankDetails) },
+  { id: 'payer-trace-number', name: 'Payer trace number', standard: 'x12', transactionTypes: ['820'], snipLevel: 7, severity: 'critical', check: forPayer(validatePayerTraceNumber) },
+  { id: 'payer-reconciliation', name: 'Payer remittance reconciliation', standard: 'x12', transactionTypes: ['820'], snipLevel: 7, severity: 'critical', check: forPayer(validatePayerReconciliation) }
+];
+
+export function getValidationRules(): readonly ValidationRule[] {
+  return VALIDATION_RULES;
+}
+
+// Add a rule, or replace the registered rule with the same ID
+export function registerValidationRule(rule: ValidationRule): void {
+  const index = VALIDATION_RULES.findIndex(existing => existing.id === rule.id);
+  if (index >= 0) VALIDATION_RULES[index] = rule;
+  else VALIDATION_RULES.push(rule);
+}
+
+// Rules that apply to a transaction, before partner overrides. A mixed interchange
+// gets the rules of every transaction set type it holds.
+export function rulesForTransaction(transaction: ValidatedTransaction): ValidationRule[] {
+  const standard = transaction.segments.some(s => s.tag === 'UNB' || s.tag === 'UNH') ? 'edifact' : 'x12';
+  const types: string[] = [transaction.type, ...readTransactionTypes(transaction.segments)];
+  return VALIDATION_RULES.filter(rule =>
+    rule.standard === standard && (!rule.transactionTypes || rule.transactionTypes.some(type => types.includes(type)))
+  );
+}
+
+// Each ST..SE set of an X12 file with its ISA, GS, GE and IEA, typed by its own ST01
+function transactionSetScopes(segments: EDISegment[]): ValidatedTransaction[] {
+  const scopes: ValidatedTransaction[] = [];
+  let isa: EDISegment | undefined;
+  let gs: EDISegment | undefined;
+  let current: EDISegment[] | undefined;
+  let groupScopes: EDISegment[][] = [];
+  let interchangeScopes: EDISegment[][] = [];
+
+  for (const segment of segments) {
+    switch (segment.tag) {
+      case 'ISA':
+        isa = segment;
+        gs = undefined;
+        interchangeScopes = [];
+        break;
+      case 'GS':
+        gs = segment;
+        groupScopes = [];
+        break;
+      case 'ST':
+        current = [isa, gs, segment].filter((s): s is EDISegment => Boolean(s));
+        groupScopes.push(current);
+        interchangeScopes.push(current);
+        scopes.push({ type: readTransactionTypes([segment])[0], segments: current });
+        break;
+      case 'SE':
+        current?.push(segment);
+        current = undefined;
+        break;
+      case 'GE':
+        groupScopes.forEach(scope => scope.push(segment));
+        break;
+      case 'IEA':
+        interchangeScopes.forEach(scope => scope.push(segment));
+        break;
+      default:
+        current?.push(segment);
+        break;
+    }
   }
-  
+  return scopes;
+}
+
+// The trading partner whose overrides apply: the interchange sender (ISA06 or UNB02)
+export function validationPartnerId(segments: EDISegment[]): string | undefined {
+  const isa = segments.find(s => s.tag === 'ISA');
+  const unb = segments.find(s => s.tag === 'UNB');
+  return (isa?.elements[6] || (unb && getComponent(unb, 2)) || '').trim() || undefined;
+}
+
+export function validateEDITransaction(transaction: ValidatedTransaction, options: ValidationOptions = {}): ValidationResult {
+  const errors: EDIError[] = [];
+  // Segments may have been edited since the last run
+  elementIssueCache.delete(transaction.segments);
+
+  // A mixed interchange (e.g. an 834 and an 820 under one ISA) checks each set against its own type
+  const mixed = readTransactionTypes(transaction.segments).length > 1;
+  const scopes = mixed ? transactionSetScopes(transaction.segments) : [];
+
+  rulesForTransaction(transaction).forEach(rule => {
+    const override = options.overrides?.[rule.id];
+    if (override?.enabled === false) return;
+
+    const targets = mixed && (rule.transactionTypes || rule.perSet)
+      ? scopes.filter(scope => !rule.transactionTypes || rule.transactionTypes.includes(scope.type))
+      : [transaction];
+    targets.forEach(target => rule.check(target, finding => {
+      const snipLevel = finding.snipLevel || rule.snipLevel;
+      if (options.levels && !options.levels.includes(snipLevel)) return;
+      errors.push({ ...finding, ruleId: rule.id, snipLevel, type: override?.severity || finding.type || rule.severity });
+    }));
+  });
+
+  return summarize(errors);
+}
+
+// Payer companion guide checks run only when the transaction's payer is one we know
+type PayerCheck = (transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding) => void;
+
+function forPayer(check: PayerCheck): ValidationRule['check'] {
+  return (transaction, report) => {
+    const payerId = transaction.payer?.id || identifyPayer(transaction) || undefined;
+    const requirements = getPayerRequirements(payerId, transaction.type);
+    if (requirements) check(transaction, requirements, PAYER_DATABASE[payerId as PayerType].name, report);
+  };
+}
+
+function forSegments(tag: string, check: (segment: EDISegment, report: ReportFinding) => void): ValidationRule['check'] {
+  return (transaction, report) => transaction.segments.filter(s => s.tag === tag).forEach(segment => check(segment, report));
+}
+
+function summarize(errors: EDIError[]): ValidationResult {
   const warnings = errors.filter(e => e.type === 'warning');
   const criticalErrors = errors.filter(e => e.type === 'critical');
+  const info = errors.filter(e => e.type === 'info');
   
   return {
     isValid: criticalErrors.length === 0,
     errors: criticalErrors,
     warnings,
+    info,
     totalIssues: errors.length
   };
 }
 
-function validateRequiredSegments(transaction: EDITransaction, errors: EDIError[]): void {
-  const requiredSegments = transaction.type === '834' ? REQUIRED_834_SEGMENTS : REQUIRED_820_SEGMENTS;
+function validateRequiredSegments(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const format = X12_FORMATS[transaction.type as X12FormatType];
+  const requiredSegments: readonly string[] = format?.requiredSegments || REQUIRED_ENVELOPE_SEGMENTS;
   const presentSegments = new Set(transaction.segments.map(s => s.tag));
   
   requiredSegments.forEach(required => {
     if (!presentSegments.has(required)) {
-      errors.push({
+      report({
         id: `missing-${required}`,
-        type: 'critical',
         segment: transaction.segments[0], // Reference first segment
         message: `Missing required segment: ${required}`,
         description: `EDI ${transaction.type} transactions must include a ${required} segment`,
@@ -74,14 +271,13 @@ function validateRequiredSegments(transaction: EDITransaction, errors: EDIError[
   });
 }
 
-function validateSegmentSequence(transaction: EDITransaction, errors: EDIError[]): void {
+function validateSegmentSequence(transaction: ValidatedTransaction, report: ReportFinding): void {
   const segments = transaction.segments;
   
   // ISA must be first
   if (segments.length > 0 && segments[0].tag !== 'ISA') {
-    errors.push({
+    report({
       id: 'isa-not-first',
-      type: 'critical',
       segment: segments[0],
       message: 'ISA segment must be first',
       description: 'The Interchange Control Header (ISA) must be the first segment',
@@ -91,9 +287,8 @@ function validateSegmentSequence(transaction: EDITransaction, errors: EDIError[]
   
   // IEA must be last
   if (segments.length > 0 && segments[segments.length - 1].tag !== 'IEA') {
-    errors.push({
+    report({
       id: 'iea-not-last',
-      type: 'critical',
       segment: segments[segments.length - 1],
       message: 'IEA segment must be last',
       description: 'The Interchange Control Trailer (IEA) must be the last segment',
@@ -102,48 +297,362 @@ function validateSegmentSequence(transaction: EDITransaction, errors: EDIError[]
   }
 }
 
-function validateControlNumbers(transaction: EDITransaction, errors: EDIError[]): void {
-  const isaSegment = transaction.segments.find(s => s.tag === 'ISA');
-  const ieaSegment = transaction.segments.find(s => s.tag === 'IEA');
-  
-  if (isaSegment && ieaSegment) {
-    const isaControlNumber = isaSegment.elements[13];
-    const ieaControlNumber = ieaSegment.elements[2];
+interface EnvelopeSet {
+  st: EDISegment;
+  se?: EDISegment;
+  // Segments from ST through SE, both included
+  segmentCount: number;
+}
+
+interface EnvelopeGroup {
+  gs: EDISegment;
+  ge?: EDISegment;
+  sets: EnvelopeSet[];
+}
+
+interface EnvelopeInterchange {
+  isa: EDISegment;
+  iea?: EDISegment;
+  groups: EnvelopeGroup[];
+}
+
+// ISA/IEA, GS/GE and ST/SE pairs as written, so each trailer can be checked against what it closes
+function readEnvelopes(segments: EDISegment[]): EnvelopeInterchange[] {
+  const interchanges: EnvelopeInterchange[] = [];
+  let interchange: EnvelopeInterchange | undefined;
+  let group: EnvelopeGroup | undefined;
+  let set: EnvelopeSet | undefined;
+
+  for (const segment of segments) {
+    switch (segment.tag) {
+      case 'ISA':
+        interchange = { isa: segment, groups: [] };
+        interchanges.push(interchange);
+        group = set = undefined;
+        break;
+      case 'GS':
+        group = { gs: segment, sets: [] };
+        interchange?.groups.push(group);
+        set = undefined;
+        break;
+      case 'ST':
+        set = { st: segment, segmentCount: 0 };
+        group?.sets.push(set);
+        break;
+      case 'GE':
+        if (group) group.ge = segment;
+        group = set = undefined;
+        break;
+      case 'IEA':
+        if (interchange) interchange.iea = segment;
+        interchange = group = set = undefined;
+        break;
+    }
+
+    if (set) {
+      set.segmentCount++;
+      if (segment.tag === 'SE') {
+        set.se = segment;
+        set = undefined;
+      }
+    }
+  }
+  return interchanges;
+}
+
+const envelopeGroups = (transaction: ValidatedTransaction) => readEnvelopes(transaction.segments).flatMap(interchange => interchange.groups);
+
+function validateControlNumbers(transaction: ValidatedTransaction, report: ReportFinding): void {
+  readEnvelopes(transaction.segments).forEach(({ isa, iea }) => {
+    if (!iea) return;
+    const isaControlNumber = isa.elements[13];
+    const ieaControlNumber = iea.elements[2];
     
     if (isaControlNumber !== ieaControlNumber) {
-      errors.push({
-        id: 'control-number-mismatch',
-        type: 'critical',
-        segment: ieaSegment,
+      report({
+        id: `control-number-mismatch-${iea.lineNumber}`,
+        segment: iea,
         message: 'Control number mismatch',
         description: `ISA control number (${isaControlNumber}) doesn't match IEA control number (${ieaControlNumber})`,
         suggestion: 'Ensure both ISA and IEA segments have the same control number'
       });
     }
-  }
+  });
 }
 
-function validateDataFormats(transaction: EDITransaction, errors: EDIError[]): void {
-  transaction.segments.forEach(segment => {
-    switch (segment.tag) {
-      case 'ISA':
-        validateISAFormat(segment, errors);
-        break;
-      case 'DTP':
-        validateDTPFormat(segment, errors);
-        break;
-      case 'DMG':
-        validateDMGFormat(segment, errors);
-        break;
+// Counts may be zero-padded ("0001"), so compare them as numbers
+const countMatches = (value: string | undefined, count: number) =>
+  !!value?.trim() && Number(value) === count;
+
+function validateGroupCounts(transaction: ValidatedTransaction, report: ReportFinding): void {
+  readEnvelopes(transaction.segments).forEach(({ iea, groups }) => {
+    if (!iea || countMatches(iea.elements[1], groups.length)) return;
+    report({
+      id: `iea-group-count-${iea.lineNumber}`,
+      segment: iea,
+      message: 'Incorrect functional group count',
+      description: `IEA01 reports ${iea.elements[1]} functional groups but the interchange contains ${groups.length}`,
+      suggestion: `Set IEA01 to ${groups.length}`
+    });
+  });
+}
+
+function validateGroupTrailers(transaction: ValidatedTransaction, report: ReportFinding): void {
+  envelopeGroups(transaction).forEach(({ gs, ge, sets }) => {
+    if (!ge) {
+      report({
+        id: `gs-without-ge-${gs.lineNumber}`,
+        segment: gs,
+        message: 'Functional group is not closed',
+        description: `The functional group opened by GS ${gs.elements[6]} has no GE trailer`,
+        suggestion: 'Close the group with a GE segment before the next GS or IEA'
+      });
+      return;
+    }
+    if (!countMatches(ge.elements[1], sets.length)) {
+      report({
+        id: `ge-set-count-${ge.lineNumber}`,
+        segment: ge,
+        message: 'Incorrect transaction set count',
+        description: `GE01 reports ${ge.elements[1]} transaction sets but the group contains ${sets.length}`,
+        suggestion: `Set GE01 to ${sets.length}`
+      });
+    }
+    if (ge.elements[2] !== gs.elements[6]) {
+      report({
+        id: `group-control-number-mismatch-${ge.lineNumber}`,
+        segment: ge,
+        message: 'Group control number mismatch',
+        description: `GS06 (${gs.elements[6]}) doesn't match GE02 (${ge.elements[2]})`,
+        suggestion: 'Ensure GS06 and GE02 carry the same group control number'
+      });
+    }
+  });
+}
+
+function validateSetTrailers(transaction: ValidatedTransaction, report: ReportFinding): void {
+  envelopeGroups(transaction).flatMap(group => group.sets).forEach(({ st, se, segmentCount }) => {
+    if (!se) {
+      report({
+        id: `st-without-se-${st.lineNumber}`,
+        segment: st,
+        message: 'Transaction set is not closed',
+        description: `Transaction set ${st.elements[2]} has no SE trailer`,
+        suggestion: 'Close the transaction set with an SE segment before the GE'
+      });
+      return;
+    }
+    if (!countMatches(se.elements[1], segmentCount)) {
+      report({
+        id: `se-segment-count-${se.lineNumber}`,
+        segment: se,
+        message: 'Incorrect transaction set segment count',
+        description: `SE01 reports ${se.elements[1]} segments but the transaction set contains ${segmentCount}`,
+        suggestion: `Set SE01 to ${segmentCount}, counting ST and SE`
+      });
+    }
+    if (se.elements[2] !== st.elements[2]) {
+      report({
+        id: `set-control-number-mismatch-${se.lineNumber}`,
+        segment: se,
+        message: 'Transaction set control number mismatch',
+        description: `ST02 (${st.elements[2]}) doesn't match SE02 (${se.elements[2]})`,
+        suggestion: 'Ensure ST02 and SE02 carry the same transaction set control number'
+      });
+    }
+  });
+}
+
+function validateUniqueSetControlNumbers(transaction: ValidatedTransaction, report: ReportFinding): void {
+  envelopeGroups(transaction).forEach(({ gs, sets }) => {
+    const seen = new Set<string>();
+    sets.forEach(({ st }) => {
+      const controlNumber = st.elements[2] || '';
+      if (seen.has(controlNumber)) {
+        report({
+          id: `duplicate-st-control-number-${st.lineNumber}`,
+          segment: st,
+          message: 'Duplicate transaction set control number',
+          description: `ST02 ${controlNumber} is used more than once in functional group ${gs.elements[6]}`,
+          suggestion: 'Give every transaction set in the group its own control number'
+        });
+      }
+      seen.add(controlNumber);
+    });
+  });
+}
+
+// GS01 must be the functional identifier of the sets it holds (BE for 834, RA for 820, ...)
+function validateFunctionalIdentifiers(transaction: ValidatedTransaction, report: ReportFinding): void {
+  envelopeGroups(transaction).forEach(({ gs, sets }) => {
+    sets.forEach(({ st }) => {
+      const expected = X12_FORMATS[st.elements[1] as X12FormatType]?.functionalGroup;
+      if (!expected || gs.elements[1] === expected) return;
+      report({
+        id: `functional-identifier-mismatch-${st.lineNumber}`,
+        segment: st,
+        message: 'Functional identifier does not match transaction type',
+        description: `GS01 is ${gs.elements[1]} but ${st.elements[1]} transaction sets belong in ${expected} groups`,
+        suggestion: `Set GS01 to ${expected} or move the ${st.elements[1]} into its own functional group`
+      });
+    });
+  });
+}
+
+// UNB/UNZ and UNH/UNT pairing, control references and UNT01 segment counts
+function validateEDIFACTEnvelope(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const segments = transaction.segments;
+  const envelope = segments.filter(s => s.tag !== 'UNA');
+  const unb = segments.find(s => s.tag === 'UNB');
+  const unz = segments.find(s => s.tag === 'UNZ');
+
+  ['UNB', 'UNH', 'UNT', 'UNZ'].forEach(required => {
+    if (!segments.some(s => s.tag === required)) {
+      report({
+        id: `missing-${required}`,
+        segment: segments[0],
+        message: `Missing required segment: ${required}`,
+        description: `EDIFACT interchanges must include a ${required} segment`,
+        suggestion: `Add the ${required} segment in the correct position`
+      });
+    }
+  });
+
+  if (envelope.length > 0 && envelope[0].tag !== 'UNB') {
+    report({
+      id: 'unb-not-first',
+      segment: envelope[0],
+      message: 'UNB segment must be first',
+      description: 'The Interchange Header (UNB) must be the first segment after any UNA',
+      suggestion: 'Move the UNB segment to the beginning of the file'
+    });
+  }
+
+  if (envelope.length > 0 && envelope[envelope.length - 1].tag !== 'UNZ') {
+    report({
+      id: 'unz-not-last',
+      segment: envelope[envelope.length - 1],
+      message: 'UNZ segment must be last',
+      description: 'The Interchange Trailer (UNZ) must be the last segment',
+      suggestion: 'Move the UNZ segment to the end of the file'
+    });
+  }
+
+  if (unb && unz && unb.elements[5] !== unz.elements[2]) {
+    report({
+      id: 'control-number-mismatch',
+      segment: unz,
+      message: 'Control reference mismatch',
+      description: `UNB control reference (${unb.elements[5]}) doesn't match UNZ control reference (${unz.elements[2]})`,
+      suggestion: 'Ensure both UNB and UNZ segments carry the same interchange control reference'
+    });
+  }
+
+  let unh: EDISegment | null = null;
+  let count = 0;
+  segments.forEach(segment => {
+    if (segment.tag === 'UNH') {
+      unh = segment;
+      count = 0;
     }
+    if (!unh) return;
+    count++;
+    if (segment.tag !== 'UNT') return;
+
+    const reference = (unh as EDISegment).elements[1];
+    if (segment.elements[2] !== reference) {
+      report({
+        id: 'message-reference-mismatch',
+        segment,
+        message: 'Message reference mismatch',
+        description: `UNH message reference (${reference}) doesn't match UNT message reference (${segment.elements[2]})`,
+        suggestion: 'Ensure UNH01 and UNT02 carry the same message reference number'
+      });
+    }
+    if (!countMatches(segment.elements[1], count)) {
+      report({
+        id: 'message-segment-count',
+        segment,
+        message: 'Incorrect message segment count',
+        description: `UNT01 reports ${segment.elements[1]} segments but the message contains ${count}`,
+        suggestion: `Set UNT01 to ${count}, counting UNH and UNT`
+      });
+    }
+    unh = null;
   });
 }
 
-function validateISAFormat(segment: EDISegment, errors: EDIError[]): void {
+// GS08 (or ST03) should name a guide we know for the set type, in the release ISA12 declares
+function validateImplementationGuide(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const gs = transaction.segments.find(s => s.tag === 'GS');
+  const isa = transaction.segments.find(s => s.tag === 'ISA');
+  const reference = readImplementationReference(transaction.segments);
+  if (!gs || !reference || transaction.type === 'unknown') return;
+
+  const guide = getImplementationGuide(reference, transaction.type);
+  if (!guide) {
+    report({
+      id: 'unknown-implementation-guide',
+      segment: gs,
+      message: `Unknown implementation guide ${reference}`,
+      description: `${reference} is not an implementation guide for ${transaction.type} transactions, so the ${readRelease(transaction.segments, transaction.type)} dictionary is used`,
+      suggestion: 'Check GS08 against the implementation guide the trading partner agreed to'
+    });
+    return;
+  }
+
+  const interchangeRelease = releaseOf(isa?.elements[12]);
+  if (isa && interchangeRelease && interchangeRelease !== guide.release) {
+    report({
+      id: 'implementation-guide-release-mismatch',
+      segment: isa,
+      message: 'Interchange and implementation guide releases differ',
+      description: `ISA12 is ${isa.elements[12]} but ${reference} is a ${guide.release} guide`,
+      suggestion: `Set ISA12 to ${guide.release === '004010' ? '00401' : '00501'}`
+    });
+  }
+}
+
+// Dictionary issues per segment list, so the element rules of one run share a single pass
+const elementIssueCache = new WeakMap<EDISegment[], { segment: EDISegment; issue: X12ElementIssue }[]>();
+
+function elementIssues(transaction: ValidatedTransaction) {
+  let issues = elementIssueCache.get(transaction.segments);
+  if (!issues) {
+    const release = readRelease(transaction.segments, transaction.type);
+    issues = transaction.segments
+      .filter(segment => segment.tag !== 'ISA')
+      .flatMap(segment => checkSegmentElements(segment, release).map(issue => ({ segment, issue })));
+    elementIssueCache.set(transaction.segments, issues);
+  }
+  return issues;
+}
+
+// Element checks from the X12 dictionary of the transaction's release, one rule per group of
+// issue kinds so a partner can relax one without losing the rest. ISA is fixed width and holds
+// the delimiters, so isa-format checks it instead. IDs are element-<kind>-<position>-<line> so
+// acknowledgments can place them.
+function elementChecks(...kinds: X12ElementIssueKind[]): ValidationRule['check'] {
+  return (transaction, report) => {
+    elementIssues(transaction)
+      .filter(({ issue }) => kinds.includes(issue.kind))
+      .forEach(({ segment, issue }) => {
+        report({
+          id: `element-${issue.kind}-${issue.position}-${segment.lineNumber}`,
+          type: issue.severity,
+          segment,
+          message: issue.message,
+          description: issue.description,
+          suggestion: issue.suggestion
+        });
+      });
+  };
+}
+
+function validateISAFormat(segment: EDISegment, report: ReportFinding): void {
   if (segment.elements.length < 16) {
-    errors.push({
+    report({
       id: `isa-insufficient-elements-${segment.lineNumber}`,
-      type: 'critical',
       segment,
       message: 'ISA segment has insufficient elements',
       description: 'ISA segment must have at least 16 elements',
@@ -154,7 +663,7 @@ function validateISAFormat(segment: EDISegment, errors: EDIError[]): void {
   // Validate date format (element 9)
   const date = segment.elements[9];
   if (date && !/^\d{6}$/.test(date)) {
-    errors.push({
+    report({
       id: `isa-invalid-date-${segment.lineNumber}`,
       type: 'warning',
       segment,
@@ -165,26 +674,29 @@ function validateISAFormat(segment: EDISegment, errors: EDIError[]): void {
   }
 }
 
-function validateDTPFormat(segment: EDISegment, errors: EDIError[]): void {
-  if (segment.elements.length < 4) {
-    errors.push({
-      id: `dtp-insufficient-elements-${segment.lineNumber}`,
-      type: 'warning',
+// ISA elements are fixed width; receivers reject the interchange before reading further
+function validateISAWidths(segment: EDISegment, report: ReportFinding): void {
+  getSegmentDefinition('ISA')?.elements.forEach((definition, index) => {
+    const position = index + 1;
+    const value = segment.elements[position];
+    if (value === undefined || value.length === definition.max) return;
+    report({
+      id: `isa-width-${position}-${segment.lineNumber}`,
       segment,
-      message: 'DTP segment has insufficient elements',
-      description: 'DTP segment should have at least 3 elements',
-      suggestion: 'Ensure qualifier, format, and date are provided'
+      message: `ISA${String(position).padStart(2, '0')} is not ${definition.max} characters`,
+      description: `${definition.name} "${value}" is ${value.length} characters; ISA${String(position).padStart(2, '0')} is fixed at ${definition.max}`,
+      suggestion: definition.type === 'AN' ? 'Pad the value with trailing spaces' : `Write exactly ${definition.max} characters`
     });
-    return;
-  }
-  
+  });
+}
+
+function validateDTPFormat(segment: EDISegment, report: ReportFinding): void {
   const format = segment.elements[2];
   const date = segment.elements[3];
   
   if (format === 'D8' && date && !/^\d{8}$/.test(date)) {
-    errors.push({
+    report({
       id: `dtp-invalid-date-${segment.lineNumber}`,
-      type: 'warning',
       segment,
       message: 'Invalid date format in DTP segment',
       description: `Date "${date}" should be in CCYYMMDD format when format is D8`,
@@ -193,63 +705,59 @@ function validateDTPFormat(segment: EDISegment, errors: EDIError[]): void {
   }
 }
 
-function validateDMGFormat(segment: EDISegment, errors: EDIError[]): void {
-  if (segment.elements.length < 4) return;
-  
+function validateDMGFormat(segment: EDISegment, report: ReportFinding): void {
   const birthDate = segment.elements[2];
-  const gender = segment.elements[3];
   
   if (birthDate && !/^\d{8}$/.test(birthDate)) {
-    errors.push({
+    report({
       id: `dmg-invalid-birthdate-${segment.lineNumber}`,
-      type: 'warning',
       segment,
       message: 'Invalid birth date format',
       description: `Birth date "${birthDate}" should be in CCYYMMDD format`,
       suggestion: 'Use CCYYMMDD format for birth dates'
     });
   }
-  
-  if (gender && !['M', 'F', 'U'].includes(gender)) {
-    errors.push({
-      id: `dmg-invalid-gender-${segment.lineNumber}`,
-      type: 'warning',
-      segment,
-      message: 'Invalid gender code',
-      description: `Gender code "${gender}" should be M, F, or U`,
-      suggestion: 'Use M (Male), F (Female), or U (Unknown) for gender codes'
-    });
-  }
 }
 
-function validate834BusinessRules(transaction: EDITransaction, errors: EDIError[]): void {
-  // Check for orphaned NM1 segments (should follow INS)
-  let lastINS = -1;
-  transaction.segments.forEach((segment, index) => {
-    if (segment.tag === 'INS') {
-      lastINS = index;
-    } else if (segment.tag === 'NM1' && segment.elements[1] === 'IL') {
-      if (lastINS === -1 || index - lastINS > 10) {
-        errors.push({
-          id: `orphaned-nm1-${segment.lineNumber}`,
-          type: 'warning',
-          segment,
-          message: 'NM1 segment may be orphaned',
-          description: 'Individual NM1 segments should closely follow their corresponding INS segment',
-          suggestion: 'Ensure NM1*IL segments are properly associated with INS segments'
-        });
-      }
+function validate834BusinessRules(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const root = buildLoopTree(transaction);
+  
+  // Member names belong in a 2100A loop under an INS (2000) member loop
+  const memberNames = new Set(findLoops(root, '2100A').map(loop => loop.segments[0]));
+  
+  transaction.segments.forEach(segment => {
+    if (segment.tag === 'NM1' && segment.elements[1] === 'IL' && !memberNames.has(segment)) {
+      report({
+        id: `orphaned-nm1-${segment.lineNumber}`,
+        segment,
+        message: 'NM1 segment is orphaned',
+        description: 'Member NM1*IL segments must open the 2100A Member Name loop of an INS member loop',
+        suggestion: 'Place each NM1*IL segment after the INS segment of the member it names'
+      });
+    }
+  });
+  
+  // Every member loop needs its member name
+  findLoops(root, '2000').forEach(memberLoop => {
+    if (!memberLoop.loops.some(loop => loop.id === '2100A')) {
+      const ins = memberLoop.segments[0];
+      report({
+        id: `missing-member-name-${ins.lineNumber}`,
+        segment: ins,
+        message: 'Member loop has no member name',
+        description: 'Each INS member loop (2000) should contain a 2100A NM1*IL Member Name loop',
+        suggestion: 'Add an NM1*IL segment for this member'
+      });
     }
   });
 }
 
-function validate820BusinessRules(transaction: EDITransaction, errors: EDIError[]): void {
+function validate820BusinessRules(transaction: ValidatedTransaction, report: ReportFinding): void {
   const bprSegments = transaction.segments.filter(s => s.tag === 'BPR');
   
   if (bprSegments.length === 0) {
-    errors.push({
+    report({
       id: 'missing-bpr',
-      type: 'critical',
       segment: transaction.segments[0],
       message: 'Missing BPR segment',
       description: 'EDI 820 transactions must include at least one BPR (Financial Information) segment',
@@ -261,9 +769,10 @@ function validate820BusinessRules(transaction: EDITransaction, errors: EDIError[
   bprSegments.forEach(segment => {
     const amount = segment.elements[2];
     if (amount && !/^\d+(\.\d{2})?$/.test(amount)) {
-      errors.push({
+      report({
         id: `bpr-invalid-amount-${segment.lineNumber}`,
         type: 'warning',
+        snipLevel: 1,
         segment,
         message: 'Invalid payment amount format',
         description: `Amount "${amount}" should be in decimal format with up to 2 decimal places`,
@@ -271,4 +780,264 @@ function validate820BusinessRules(transaction: EDITransaction, errors: EDIError[
       });
     }
   });
-}
\ No newline at end of file
+}
+
+// Service line segment and the element holding its charge, per 837 claim type
+const SERVICE_LINES_837: Record<ClaimVariant, { tag: string; charge: number }> = {
+  professional: { tag: 'SV1', charge: 2 },
+  institutional: { tag: 'SV2', charge: 3 },
+  dental: { tag: 'SV3', charge: 2 }
+};
+
+const toCents = (value: string | undefined): number => Math.round((parseFloat(value || '') || 0) * 100);
+
+// CLM02 must equal the sum of the claim's service line charges
+function validateClaimBalance(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const variant = detect837Variant(transaction);
+  const { tag, charge } = SERVICE_LINES_837[variant];
+  const root = buildLoopTree(transaction, CLAIM_LOOP_SCHEMAS_837[variant]);
+
+  findLoops(root, '2300').forEach(claimLoop => {
+    const clm = claimLoop.segments[0];
+    const lines = flattenLoop(claimLoop).filter(segment => segment.tag === tag);
+    if (!lines.length) return;
+
+    const lineTotal = lines.reduce((sum, line) => sum + toCents(line.elements[charge]), 0);
+    if (lineTotal !== toCents(clm.elements[2])) {
+      report({
+        id: `claim-charge-unbalanced-${clm.lineNumber}`,
+        segment: clm,
+        message: 'Claim charge does not balance',
+        description: `CLM02 is ${clm.elements[2]} but the service lines total ${(lineTotal / 100).toFixed(2)}`,
+        suggestion: 'Make CLM02 the sum of the claim\'s service line charges'
+      });
+    }
+  });
+}
+
+// BPR02 must equal the claim payments less provider-level adjustments
+function validateRemittanceBalance(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const payments = transaction.segments.filter(segment => segment.tag === 'BPR');
+  extract835Remittances(transaction).forEach(({ balance }, index) => {
+    if (balance.balanced || !payments[index]) return;
+    report({
+      id: `remittance-unbalanced-${payments[index].lineNumber}`,
+      segment: payments[index],
+      message: 'Remittance does not balance',
+      description: `BPR02 is ${balance.paymentAmount.toFixed(2)} but claim payments less provider adjustments come to ${balance.expectedPayment.toFixed(2)}`,
+      suggestion: 'Check CLP04 claim payments and PLB adjustments against the BPR02 total'
+    });
+  });
+}
+
+// A termination needs its end date: INS03 024 needs DTP*357 on the member, HD01 024 needs DTP*349 on the coverage
+function validateTerminationDates(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const root = buildLoopTree(transaction);
+  const check = (loopId: string, position: number, dateQualifier: string, label: string) => {
+    findLoops(root, loopId).forEach(loop => {
+      const header = loop.segments[0];
+      if (header.elements[position] !== '024' || loopSegments(loop, 'DTP', dateQualifier).length) return;
+      report({
+        id: `missing-termination-date-${header.lineNumber}`,
+        segment: header,
+        message: `${label} termination has no end date`,
+        description: `${header.tag}${String(position).padStart(2, '0')} is 024 (cancellation or termination) but the loop has no DTP*${dateQualifier}`,
+        suggestion: `Add a DTP*${dateQualifier} segment with the termination date`
+      });
+    });
+  };
+  check('2000', 3, '357', 'Member');
+  check('2300', 1, '349', 'Coverage');
+}
+
+// NM109 under qualifier XX is an NPI: Luhn check digit over the 80840 card issuer prefix
+function validateNPI(segment: EDISegment, report: ReportFinding): void {
+  const npi = segment.elements[9]?.trim();
+  if (segment.elements[8] !== 'XX' || !npi) return;
+
+  const digits = `80840${npi}`;
+  const sum = /^\d{10}$/.test(npi)
+    ? [...digits].reverse().reduce((total, digit, index) => {
+        const value = Number(digit) * (index % 2 ? 2 : 1);
+        return total + (value > 9 ? value - 9 : value);
+      }, 0)
+    : 1;
+  if (sum % 10 !== 0) {
+    report({
+      id: `invalid-npi-${segment.lineNumber}`,
+      segment,
+      message: 'Invalid NPI',
+      description: `"${npi}" is not a valid National Provider Identifier; NPIs are 10 digits ending in a Luhn check digit`,
+      suggestion: 'Check the provider NPI against NPPES'
+    });
+  }
+}
+
+// Each 837 claim type has its own service line segment
+function validateServiceLineTypes(transaction: ValidatedTransaction, report: ReportFinding): void {
+  const variant = detect837Variant(transaction);
+  const expected = SERVICE_LINES_837[variant].tag;
+  const foreign = new Set(Object.values(SERVICE_LINES_837).map(line => line.tag).filter(tag => tag !== expected));
+
+  transaction.segments.filter(segment => foreign.has(segment.tag)).forEach(segment => {
+    report({
+      id: `service-line-type-${segment.lineNumber}`,
+      segment,
+      message: `${segment.tag} service line in a ${variant} claim`,
+      description: `${variant[0].toUpperCase()}${variant.slice(1)} claims report service lines in ${expected}, not ${segment.tag}`,
+      suggestion: 'Check GS08 names the right 837 implementation guide for these claims'
+    });
+  });
+}
+
+function validatePayerMemberIds(transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding): void {
+  const format = requirements.memberIdFormat;
+  if (!format) return;
+
+  transaction.segments.forEach(segment => {
+    const memberId = segment.tag === 'REF' && segment.elements[1] === '0F' ? segment.elements[2]
+      : segment.tag === 'NM1' && segment.elements[1] === 'IL' && segment.elements[8] === 'ZZ' ? segment.elements[9]
+      : undefined;
+    if (memberId === undefined || format.test(memberId.trim())) return;
+    report({
+      id: `payer-member-id-${segment.lineNumber}`,
+      segment,
+      message: `Member ID does not match ${payerName} format`,
+      description: `"${memberId}" does not match the ${payerName} member ID pattern ${format.source}`,
+      suggestion: `Use the member ID ${payerName} issued`
+    });
+  });
+}
+
+// INS*Y needs one subscriber in the file; every other entry is checked in each subscriber's member loop
+function validatePayerRequiredElements(transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding): void {
+  const required = requirements.requiredElements || [];
+  const has = (segments: EDISegment[], entry: string) => {
+    const [tag, qualifier] = entry.split('*');
+    return segments.some(segment => segment.tag === tag && (qualifier === undefined || segment.elements[1] === qualifier));
+  };
+
+  const members = findLoops(buildLoopTree(transaction), '2000');
+  const subscribers = members.filter(loop => loop.segments[0].elements[1] === 'Y');
+  if (required.includes('INS*Y') && !subscribers.length) {
+    report({
+      id: 'payer-missing-subscriber',
+      segment: members[0]?.segments[0] || transaction.segments[0],
+      message: `${payerName} requires a subscriber`,
+      description: `${payerName} requires at least one INS*Y subscriber member loop`,
+      suggestion: 'Add the subscriber\'s member loop with INS01 set to Y'
+    });
+  }
+
+  subscribers.forEach(loop => {
+    const ins = loop.segments[0];
+    const segments = flattenLoop(loop);
+    required.filter(entry => entry !== 'INS*Y' && !has(segments, entry)).forEach(entry => {
+      report({
+        id: `payer-missing-${entry.replace('*', '-')}-${ins.lineNumber}`,
+        segment: ins,
+        message: `${payerName} requires ${entry}`,
+        description: `${payerName} requires ${entry} for every subscriber, and this member loop has none`,
+        suggestion: `Add the ${entry} segment to this subscriber's member loop`
+      });
+    });
+  });
+}
+
+function validatePayerPaymentFormat(transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding): void {
+  const format = requirements.paymentFormat;
+  if (!format) return;
+
+  transaction.segments.filter(s => s.tag === 'BPR').forEach(segment => {
+    const amount = segment.elements[2] || '';
+    if (format.test(amount)) return;
+    report({
+      id: `payer-payment-format-${segment.lineNumber}`,
+      segment,
+      message: `Payment amount does not match ${payerName} format`,
+      description: `BPR02 "${amount}" does not match the ${payerName} amount pattern ${format.source}`,
+      suggestion: 'Write the amount with exactly two decimal places, like 1234.50'
+    });
+  });
+}
+
+// BPR06-09 identify the originating bank account, BPR12-15 the receiving one
+function validatePayerBankDetails(transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding): void {
+  transaction.segments.filter(s => s.tag === 'BPR').forEach(segment => {
+    const missing: string[] = [];
+    if (requirements.routingNumberRequired && !segment.elements[7]) missing.push('BPR07 routing number');
+    if (requirements.eftDetailsRequired) {
+      [6, 7, 8, 9, 12, 13, 14, 15]
+        .filter(position => !segment.elements[position])
+        .forEach(position => missing.push(`BPR${String(position).padStart(2, '0')}`));
+    }
+    if (missing.length) {
+      report({
+        id: `payer-bank-details-${segment.lineNumber}`,
+        segment,
+        message: `${payerName} requires bank details`,
+        description: `${payerName} requires ${[...new Set(missing)].join(', ')} on every payment`,
+        suggestion: 'Fill in the originating and receiving bank account details of the BPR segment'
+      });
+    }
+
+    const accounts = [segment.elements[9], segment.elements[15]].filter(Boolean);
+    if (requirements.bankAccountValidation && accounts.some(account => !/^\d{4,17}$/.test(account))) {
+      report({
+        id: `payer-bank-account-${segment.lineNumber}`,
+        segment,
+        message: `Bank account number rejected by ${payerName}`,
+        description: `${payerName} validates BPR09 and BPR15 as 4 to 17 digit account numbers`,
+        suggestion: 'Remove spaces and punctuation from the account numbers'
+      });
+    }
+  });
+}
+
+function validatePayerTraceNumber(transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding): void {
+  const trn = transaction.segments.find(s => s.tag === 'TRN');
+  if (requirements.traceNumberRequired && !trn) {
+    report({
+      id: 'payer-missing-trn',
+      segment: transaction.segments.find(s => s.tag === 'BPR') || transaction.segments[0],
+      message: `${payerName} requires a trace number`,
+      description: `${payerName} requires a TRN reassociation trace number on every 820`,
+      suggestion: 'Add a TRN segment after BPR carrying the EFT trace number'
+    });
+  }
+
+  // AETNA-YYYYMMDD-NNNN: parts made only of Y, M, D or N stand for that many digits
+  const sequence = requirements.controlNumberSequence;
+  if (sequence && trn) {
+    const parts = sequence.split('-').map(part => (/^[YMDN]+$/.test(part) ? `\\d{${part.length}}` : part));
+    const pattern = new RegExp(`^${parts.join('-')}$`);
+    if (!pattern.test(trn.elements[2] || '')) {
+      report({
+        id: `payer-trace-sequence-${trn.lineNumber}`,
+        segment: trn,
+        message: `Trace number does not follow ${payerName} sequence`,
+        description: `TRN02 "${trn.elements[2] || ''}" should follow ${sequence}`,
+        suggestion: `Number payments as ${sequence}`
+      });
+    }
+  }
+}
+
+// BPR02 must equal the RMR04 amounts paid across the remittance detail
+function validatePayerReconciliation(transaction: ValidatedTransaction, requirements: PayerRequirements, payerName: string, report: ReportFinding): void {
+  if (!requirements.reconciliationRequired) return;
+  const bpr = transaction.segments.find(s => s.tag === 'BPR');
+  const remittances = transaction.segments.filter(s => s.tag === 'RMR');
+  if (!bpr || !remittances.length) return;
+
+  const paid = remittances.reduce((sum, rmr) => sum + toCents(rmr.elements[4]), 0);
+  if (paid !== toCents(bpr.elements[2])) {
+    report({
+      id: `payer-unreconciled-${bpr.lineNumber}`,
+      segment: bpr,
+      message: `Payment does not reconcile for ${payerName}`,
+      description: `BPR02 is ${bpr.elements[2]} but the RMR04 amounts total ${(paid / 100).toFixed(2)}`,
+      suggestion: 'Make BPR02 the sum of the remittance detail amounts'
+    });
+  }
+}
@@ -0,0 +1,217 @@
+import type { EDISegment } from './universalEDIParser';
+import { getComponent, getComponents } from './x12Elements';
+
+// UN/EDIFACT message types exchanged with international partners
+export const EDIFACT_FORMATS = {
+  ORDERS: {
+    name: 'Purchase Order Message',
+    description: 'Orders for goods or services',
+    category: 'supply_chain',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'DTM', 'NAD', 'LIN', 'UNS', 'UNT', 'UNZ'],
+    businessContext: 'procurement'
+  },
+  ORDRSP: {
+    name: 'Purchase Order Response Message',
+    description: 'Seller response to an order',
+    category: 'supply_chain',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'DTM', 'UNT', 'UNZ'],
+    businessContext: 'procurement'
+  },
+  DESADV: {
+    name: 'Despatch Advice Message',
+    description: 'Advance notice of goods despatched',
+    category: 'supply_chain',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'DTM', 'CPS', 'UNT', 'UNZ'],
+    businessContext: 'shipping'
+  },
+  INVOIC: {
+    name: 'Invoice Message',
+    description: 'Invoices and credit notes',
+    category: 'financial',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'DTM', 'NAD', 'UNS', 'MOA', 'UNT', 'UNZ'],
+    businessContext: 'billing'
+  },
+  REMADV: {
+    name: 'Remittance Advice Message',
+    description: 'Details of payments made',
+    category: 'financial',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'DTM', 'MOA', 'UNT', 'UNZ'],
+    businessContext: 'payment'
+  },
+  IFTMIN: {
+    name: 'Instruction Message',
+    description: 'Transport and forwarding instructions',
+    category: 'logistics',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'TDT', 'UNT', 'UNZ'],
+    businessContext: 'shipping'
+  },
+  IFTSTA: {
+    name: 'International Multimodal Status Report',
+    description: 'Consignment status updates',
+    category: 'logistics',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'UNT', 'UNZ'],
+    businessContext: 'shipping'
+  },
+  CONTRL: {
+    name: 'Syntax and Service Report Message',
+    description: 'Acknowledgment or rejection of a received interchange',
+    category: 'acknowledgment',
+    requiredSegments: ['UNB', 'UNH', 'UCI', 'UNT', 'UNZ'],
+    businessContext: 'acknowledgment'
+  },
+  APERAK: {
+    name: 'Application Error and Acknowledgement Message',
+    description: 'Application-level acknowledgment of a message',
+    category: 'acknowledgment',
+    requiredSegments: ['UNB', 'UNH', 'BGM', 'UNT', 'UNZ'],
+    businessContext: 'acknowledgment'
+  }
+} as const;
+
+export type EDIFACTMessageType = keyof typeof EDIFACT_FORMATS;
+
+export const EDIFACT_SEGMENT_DEFINITIONS: Record<string, string> = {
+  // Service segments
+  'UNA': 'Service String Advice',
+  'UNB': 'Interchange Header',
+  'UNZ': 'Interchange Trailer',
+  'UNG': 'Functional Group Header',
+  'UNE': 'Functional Group Trailer',
+  'UNH': 'Message Header',
+  'UNT': 'Message Trailer',
+  'UNS': 'Section Control',
+  'UCI': 'Interchange Response',
+  'UCM': 'Message Response',
+
+  // Message segments
+  'BGM': 'Beginning of Message',
+  'DTM': 'Date/Time/Period',
+  'RFF': 'Reference',
+  'NAD': 'Name and Address',
+  'CTA': 'Contact Information',
+  'COM': 'Communication Contact',
+  'CUX': 'Currencies',
+  'PAT': 'Payment Terms Basis',
+  'PAI': 'Payment Instructions',
+  'TAX': 'Duty/Tax/Fee Details',
+  'ALC': 'Allowance or Charge',
+  'TOD': 'Terms of Delivery',
+  'TDT': 'Details of Transport',
+  'LOC': 'Place/Location Identification',
+  'CPS': 'Consignment Packing Sequence',
+  'PAC': 'Package',
+  'PCI': 'Package Identification',
+  'GIN': 'Goods Identity Number',
+  'MEA': 'Measurements',
+  'EQD': 'Equipment Details',
+  'LIN': 'Line Item',
+  'PIA': 'Additional Product ID',
+  'IMD': 'Item Description',
+  'QTY': 'Quantity',
+  'PRI': 'Price Details',
+  'MOA': 'Monetary Amount',
+  'CNT': 'Control Total',
+  'FTX': 'Free Text',
+  'STS': 'Status',
+  'DOC': 'Document/Message Details',
+  'ERC': 'Application Error Information'
+};
+
+// BGM01-1 document name codes
+export const DOCUMENT_NAME_CODES: Record<string, string> = {
+  '220': 'Order',
+  '231': 'Purchase Order Response',
+  '351': 'Despatch Advice',
+  '380': 'Commercial Invoice',
+  '381': 'Credit Note',
+  '383': 'Debit Note',
+  '481': 'Remittance Advice'
+};
+
+// NAD01 party function qualifiers
+export const PARTY_QUALIFIERS: Record<string, string> = {
+  BY: 'Buyer',
+  SU: 'Supplier',
+  SE: 'Seller',
+  IV: 'Invoicee',
+  DP: 'Delivery Party',
+  ST: 'Ship To',
+  CA: 'Carrier',
+  CZ: 'Consignor',
+  CN: 'Consignee',
+  PE: 'Payee',
+  PR: 'Payer'
+};
+
+// DTM01-1 date/time qualifiers
+export const DATE_QUALIFIERS: Record<string, string> = {
+  '2': 'Delivery date requested',
+  '4': 'Order date',
+  '11': 'Despatch date',
+  '13': 'Terms net due date',
+  '17': 'Delivery date estimated',
+  '35': 'Delivery date actual',
+  '137': 'Document date',
+  '171': 'Reference date'
+};
+
+// MOA01-1 monetary amount qualifiers
+export const AMOUNT_QUALIFIERS: Record<string, string> = {
+  '9': 'Amount due',
+  '77': 'Invoice amount',
+  '79': 'Total line items amount',
+  '86': 'Message total',
+  '124': 'Tax amount',
+  '125': 'Taxable amount',
+  '203': 'Line item amount'
+};
+
+// QTY01-1 quantity qualifiers
+export const QUANTITY_QUALIFIERS: Record<string, string> = {
+  '12': 'Despatch quantity',
+  '21': 'Ordered quantity',
+  '47': 'Invoiced quantity',
+  '113': 'Quantity to be delivered'
+};
+
+// DTM periods carry a format code: 102 = CCYYMMDD, 203 = CCYYMMDDHHMM
+function formatDate(value: string, format?: string): string {
+  if ((format === '102' || format === '203') && value.length >= 8) {
+    const date = `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}`;
+    return format === '203' && value.length >= 12 ? `${date} ${value.substring(8, 10)}:${value.substring(10, 12)}` : date;
+  }
+  return value;
+}
+
+// Human-readable description of an EDIFACT segment for the decoder
+export function decodeEDIFACTSegment(segment: EDISegment): string {
+  const name = EDIFACT_SEGMENT_DEFINITIONS[segment.tag] || segment.tag;
+  const qualifier = getComponent(segment, 1) || '';
+
+  switch (segment.tag) {
+    case 'UNB':
+      return `${name}: ${getComponent(segment, 2)} → ${getComponent(segment, 3)}, reference ${segment.elements[5] || ''}`;
+    case 'UNH': {
+      const [type, version, release] = getComponents(segment, 2);
+      return `${name}: ${type} ${version || ''}${release || ''} #${segment.elements[1] || ''}`;
+    }
+    case 'UNT':
+      return `${name}: ${segment.elements[1] || ''} segments in message #${segment.elements[2] || ''}`;
+    case 'BGM':
+      return `${DOCUMENT_NAME_CODES[qualifier] || name} ${segment.elements[2] || ''}`.trim();
+    case 'DTM':
+      return `${DATE_QUALIFIERS[qualifier] || name}: ${formatDate(getComponent(segment, 1, 2) || '', getComponent(segment, 1, 3))}`;
+    case 'NAD': {
+      const partyName = getComponents(segment, 4).filter(Boolean).join(' ') || getComponent(segment, 2) || '';
+      return `${PARTY_QUALIFIERS[qualifier] || name}: ${partyName}`;
+    }
+    case 'MOA':
+      return `${AMOUNT_QUALIFIERS[qualifier] || name}: ${getComponent(segment, 1, 2) || ''}${getComponent(segment, 1, 3) ? ` ${getComponent(segment, 1, 3)}` : ''}`;
+    case 'QTY':
+      return `${QUANTITY_QUALIFIERS[qualifier] || name}: ${getComponent(segment, 1, 2) || ''}${getComponent(segment, 1, 3) ? ` ${getComponent(segment, 1, 3)}` : ''}`;
+    case 'LIN':
+      return `${name} ${segment.elements[1] || ''}: ${getComponent(segment, 3) || ''}`.trim();
+    default:
+      return `${name} - ${segment.elements.slice(1).filter(Boolean).join(', ')}`;
+  }
+}
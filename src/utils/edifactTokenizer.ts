@@ -0,0 +1,162 @@
+import type { EDISegment } from './universalEDIParser';
+import type { EDIElement } from './x12Elements';
+import type { X12Delimiters } from './x12Tokenizer';
+
+// EDIFACT adds a release (escape) character and a decimal mark to the X12 delimiter set
+export interface EDIFACTDelimiters extends X12Delimiters {
+  release: string | null;
+  decimal: string;
+}
+
+export interface EDIFACTTokenizeResult {
+  delimiters: EDIFACTDelimiters;
+  segments: EDISegment[];
+}
+
+// Used when there is no UNA. Syntax versions before 4 define no repetition separator.
+export const DEFAULT_EDIFACT_DELIMITERS: EDIFACTDelimiters = {
+  element: '+',
+  repetition: '*',
+  component: ':',
+  segment: "'",
+  release: '?',
+  decimal: '.'
+};
+
+const UNA_LENGTH = 9;
+
+function firstTag(content: string): string {
+  const start = content.search(/\S/);
+  return start === -1 ? '' : content.substring(start, start + 3);
+}
+
+export function isEDIFACT(content: string): boolean {
+  const tag = firstTag(content);
+  return tag === 'UNA' || tag === 'UNB';
+}
+
+// UNA declares, in order: component separator, element separator, decimal mark,
+// release character, repetition separator (reserved before syntax 4) and segment terminator
+export function readServiceStringAdvice(content: string): EDIFACTDelimiters | null {
+  const start = content.search(/\S/);
+  if (start === -1 || content.substring(start, start + 3) !== 'UNA') return null;
+
+  const advice = content.substring(start + 3, start + UNA_LENGTH);
+  if (advice.length < 6) return null;
+
+  const [component, element, decimal, release, repetition, segment] = advice;
+  return {
+    component,
+    element,
+    decimal,
+    release: release === ' ' ? null : release,
+    repetition: repetition === ' ' ? null : repetition,
+    segment
+  };
+}
+
+function defaultDelimiters(content: string): EDIFACTDelimiters {
+  // UNB01-2 is the syntax version, e.g. UNB+UNOC:3
+  const version = /UNB\+UN[O-Z][A-Z]:(\d)/.exec(content)?.[1];
+  return {
+    ...DEFAULT_EDIFACT_DELIMITERS,
+    repetition: version && Number(version) >= 4 ? DEFAULT_EDIFACT_DELIMITERS.repetition : null
+  };
+}
+
+// Split on a separator, skipping separators escaped by the release character.
+// Pieces keep their release characters so they can be split further.
+function splitEscaped(text: string, separator: string | null, release: string | null): string[] {
+  if (!separator) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === release && i + 1 < text.length) {
+      current += char + text[i + 1];
+      i++;
+    } else if (char === separator) {
+      pieces.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  pieces.push(current);
+  return pieces;
+}
+
+function unescape(text: string, release: string | null): string {
+  if (!release) return text;
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === release && i + 1 < text.length) i++;
+    result += text[i];
+  }
+  return result;
+}
+
+function buildEDIFACTElement(text: string, delimiters: EDIFACTDelimiters): EDIElement {
+  const repetitions = splitEscaped(text, delimiters.repetition, delimiters.release)
+    .map(repetition => splitEscaped(repetition, delimiters.component, delimiters.release)
+      .map(component => unescape(component, delimiters.release)));
+  return { value: unescape(text, delimiters.release), repetitions };
+}
+
+// Build one segment from the text between two terminators. `elements` holds each
+// element with release characters removed; `parsedElements` keeps exact components,
+// so an escaped ":" inside a component stays distinguishable from a separator.
+function tokenizeEDIFACTSegment(piece: string, delimiters: EDIFACTDelimiters, ordinal: number): EDISegment | null {
+  const raw = piece.replace(/^\s+|[\r\n]+$/g, '');
+  if (!raw.trim()) return null;
+
+  const pieces = splitEscaped(raw, delimiters.element, delimiters.release);
+  const tag = pieces[0].trim();
+  const parsedElements = [
+    { value: tag, repetitions: [[tag]] },
+    ...pieces.slice(1).map(text => buildEDIFACTElement(text, delimiters))
+  ];
+
+  return {
+    tag,
+    elements: parsedElements.map(element => element.value),
+    parsedElements,
+    raw,
+    lineNumber: ordinal
+  };
+}
+
+// Tokenize a UN/EDIFACT interchange, honouring the UNA service string advice and
+// release character. lineNumber holds the 1-based segment ordinal, as for X12.
+export function tokenizeEDIFACT(content: string, delimiters?: EDIFACTDelimiters): EDIFACTTokenizeResult {
+  const resolved = delimiters || readServiceStringAdvice(content) || defaultDelimiters(content);
+  const segments: EDISegment[] = [];
+  let body = content;
+
+  // UNA is fixed-width and would otherwise be split on the separators it declares.
+  // Like every other segment, its raw text stops before the terminator.
+  const start = content.search(/\S/);
+  if (start !== -1 && content.substring(start, start + 3) === 'UNA') {
+    const raw = content.substring(start, start + UNA_LENGTH - 1);
+    const advice = raw.substring(3);
+    segments.push({
+      tag: 'UNA',
+      elements: ['UNA', advice],
+      parsedElements: [
+        { value: 'UNA', repetitions: [['UNA']] },
+        { value: advice, repetitions: [[advice]] }
+      ],
+      raw,
+      lineNumber: 1
+    });
+    body = content.substring(start + UNA_LENGTH);
+  }
+
+  for (const piece of splitEscaped(body, resolved.segment, resolved.release)) {
+    const segment = tokenizeEDIFACTSegment(piece, resolved, segments.length + 1);
+    if (segment) segments.push(segment);
+  }
+
+  return { delimiters: resolved, segments };
+}
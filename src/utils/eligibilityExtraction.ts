@@ -0,0 +1,373 @@
+import type { EDISegment } from './universalEDIParser';
+import { X12_CODE_LISTS, decodeX12Segment } from './x12Dictionary';
+import { buildLoopTree, childLoops, loopSegment, loopSegments, type EDILoop } from './x12Loops';
+import { getComponents, getRepetitions } from './x12Elements';
+
+export interface EligibilityParty {
+  entityCode: string;
+  lastName: string;
+  firstName?: string;
+  middleName?: string;
+  idQualifier?: string;
+  id?: string;
+}
+
+export interface EligibilityDate {
+  qualifier: string;
+  format: string;
+  date: string;
+  endDate?: string;
+}
+
+// AAA request validation: why the source could not answer
+export interface EligibilityRejection {
+  validRequest: string;
+  reasonCode: string;
+  reason: string;
+  followUpCode?: string;
+}
+
+export interface EligibilityInquiry {
+  serviceTypes: string[];
+  procedure?: string;
+  coverageLevel?: string;
+  insuranceType?: string;
+}
+
+export interface EligibilityBenefit {
+  code: string;
+  description: string;
+  coverageLevel?: string;
+  serviceTypes: string[];
+  insuranceType?: string;
+  planDescription?: string;
+  timePeriod?: string;
+  amount?: number;
+  percent?: number;
+  quantityQualifier?: string;
+  quantity?: number;
+  authorizationRequired?: string;
+  inNetwork?: string;
+  procedure?: string;
+  dates: EligibilityDate[];
+  references: { qualifier: string; value: string }[];
+  messages: string[];
+  relatedEntities: EligibilityParty[];
+}
+
+export interface EligibilityPerson extends EligibilityParty {
+  level: 'subscriber' | 'dependent';
+  birthDate?: string;
+  genderCode?: string;
+  relationshipCode?: string;
+  traceNumbers: string[];
+  dates: EligibilityDate[];
+  rejections: EligibilityRejection[];
+  inquiries: EligibilityInquiry[];
+  benefits: EligibilityBenefit[];
+}
+
+export interface EligibilitySubscriber extends EligibilityPerson {
+  informationSource?: EligibilityParty;
+  informationReceiver?: EligibilityParty;
+  dependents: EligibilityPerson[];
+}
+
+export interface EligibilityDocument {
+  type: '270' | '271';
+  purposeCode: string;
+  referenceId: string;
+  subscribers: EligibilitySubscriber[];
+}
+
+export type CoverageStatus = 'active' | 'inactive' | 'not-covered' | 'unknown';
+
+// One row of the "is this member covered for X" view
+export interface BenefitSummary {
+  serviceType: string;
+  description: string;
+  status: CoverageStatus;
+  copays: EligibilityBenefit[];
+  coinsurance: EligibilityBenefit[];
+  deductibles: EligibilityBenefit[];
+  outOfPocket: EligibilityBenefit[];
+  limitations: EligibilityBenefit[];
+  authorizationRequired: boolean;
+  messages: string[];
+}
+
+// EB01 eligibility or benefit information codes
+export const ELIGIBILITY_CODES: Record<string, string> = X12_CODE_LISTS.eligibilityBenefit.codes;
+
+// EB02 coverage level codes
+export const COVERAGE_LEVEL_CODES: Record<string, string> = X12_CODE_LISTS.coverageLevel.codes;
+
+// EB03/EQ01 service type codes in common use
+export const SERVICE_TYPE_CODES: Record<string, string> = X12_CODE_LISTS.serviceType.codes;
+
+// EB06 time period qualifiers
+export const TIME_PERIOD_CODES: Record<string, string> = X12_CODE_LISTS.timePeriod.codes;
+
+// AAA03 reject reason codes
+export const REJECT_REASON_CODES: Record<string, string> = X12_CODE_LISTS.rejectReason.codes;
+
+const ACTIVE_CODES = new Set(['1', '2', '3', '4', '5']);
+const INACTIVE_CODES = new Set(['6', '7', '8']);
+// An EB with no EB03 applies to the plan as a whole
+const PLAN_SERVICE_TYPE = '30';
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function readParty(nm1: EDISegment | undefined): EligibilityParty | undefined {
+  if (!nm1) return undefined;
+  return {
+    entityCode: nm1.elements[1] || '',
+    lastName: nm1.elements[3] || '',
+    firstName: nm1.elements[4] || undefined,
+    middleName: nm1.elements[5] || undefined,
+    idQualifier: nm1.elements[8] || undefined,
+    id: nm1.elements[9] || undefined
+  };
+}
+
+function readDates(segments: EDISegment[]): EligibilityDate[] {
+  return segments.map(dtp => {
+    const format = dtp.elements[2] || '';
+    const [date, endDate] = (dtp.elements[3] || '').split('-');
+    return {
+      qualifier: dtp.elements[1] || '',
+      format,
+      date: date || '',
+      endDate: format === 'RD8' ? endDate : undefined
+    };
+  });
+}
+
+function readRejections(segments: EDISegment[]): EligibilityRejection[] {
+  return segments.map(aaa => ({
+    validRequest: aaa.elements[1] || '',
+    reasonCode: aaa.elements[3] || '',
+    reason: REJECT_REASON_CODES[aaa.elements[3]] || aaa.elements[3] || '',
+    followUpCode: aaa.elements[4] || undefined
+  }));
+}
+
+// EB03/EQ01 may repeat (5010), so read every repetition's first component
+function readServiceTypes(segment: EDISegment, position: number): string[] {
+  return getRepetitions(segment, position).map(repetition => repetition[0]).filter(Boolean);
+}
+
+function readProcedure(segment: EDISegment, position: number): string | undefined {
+  const [qualifier, code, ...modifiers] = getComponents(segment, position);
+  if (!code) return undefined;
+  return [`${qualifier}:${code}`, ...modifiers.slice(0, 4).filter(Boolean)].join(' ');
+}
+
+function readInquiry(inquiryLoop: EDILoop): EligibilityInquiry {
+  const eq = inquiryLoop.segments[0];
+  return {
+    serviceTypes: readServiceTypes(eq, 1),
+    procedure: readProcedure(eq, 2),
+    coverageLevel: eq.elements[3] || undefined,
+    insuranceType: eq.elements[4] || undefined
+  };
+}
+
+function readBenefit(benefitLoop: EDILoop): EligibilityBenefit {
+  const eb = benefitLoop.segments[0];
+  const code = eb.elements[1] || '';
+
+  return {
+    code,
+    description: ELIGIBILITY_CODES[code] || code,
+    coverageLevel: eb.elements[2] || undefined,
+    serviceTypes: readServiceTypes(eb, 3),
+    insuranceType: eb.elements[4] || undefined,
+    planDescription: eb.elements[5] || undefined,
+    timePeriod: eb.elements[6] || undefined,
+    amount: optionalNumber(eb.elements[7]),
+    percent: optionalNumber(eb.elements[8]),
+    quantityQualifier: eb.elements[9] || undefined,
+    quantity: optionalNumber(eb.elements[10]),
+    authorizationRequired: eb.elements[11] || undefined,
+    inNetwork: eb.elements[12] || undefined,
+    procedure: readProcedure(eb, 13),
+    dates: readDates(loopSegments(benefitLoop, 'DTP')),
+    references: loopSegments(benefitLoop, 'REF').map(ref => ({
+      qualifier: ref.elements[1] || '',
+      value: ref.elements[2] || ''
+    })),
+    messages: loopSegments(benefitLoop, 'MSG').map(msg => msg.elements[1] || '').filter(Boolean),
+    relatedEntities: benefitLoop.loops
+      .map(entityLoop => readParty(loopSegment(entityLoop, 'NM1')))
+      .filter((party): party is EligibilityParty => Boolean(party))
+  };
+}
+
+// Person-level data lives in the HL loop (TRN) and its 2100 name loop (NM1, DMG, INS, DTP, AAA)
+function readPerson(levelLoop: EDILoop, level: 'C' | 'D'): EligibilityPerson {
+  const nameLoop = childLoops(levelLoop, `2100${level}`)[0];
+  const party = readParty(loopSegment(nameLoop, 'NM1'));
+  const dmg = loopSegment(nameLoop, 'DMG');
+  const ins = loopSegment(nameLoop, 'INS');
+  const benefitLoops = nameLoop ? childLoops(nameLoop, `2110${level}`) : [];
+
+  return {
+    entityCode: party?.entityCode || '',
+    lastName: party?.lastName || '',
+    firstName: party?.firstName,
+    middleName: party?.middleName,
+    idQualifier: party?.idQualifier,
+    id: party?.id,
+    level: level === 'C' ? 'subscriber' : 'dependent',
+    birthDate: dmg?.elements[2] || undefined,
+    genderCode: dmg?.elements[3] || undefined,
+    relationshipCode: ins?.elements[2] || undefined,
+    traceNumbers: loopSegments(levelLoop, 'TRN').map(trn => trn.elements[2] || '').filter(Boolean),
+    dates: readDates(loopSegments(nameLoop, 'DTP')),
+    rejections: readRejections([
+      ...loopSegments(levelLoop, 'AAA'),
+      ...loopSegments(nameLoop, 'AAA'),
+      ...benefitLoops.flatMap(loop => loopSegments(loop, 'AAA'))
+    ]),
+    inquiries: benefitLoops.filter(loop => loop.segments[0].tag === 'EQ').map(readInquiry),
+    benefits: benefitLoops.filter(loop => loop.segments[0].tag === 'EB').map(readBenefit)
+  };
+}
+
+// Extract a 270 inquiry or 271 response into subscribers with their dependents
+export function extractEligibility(transaction: { type: string; segments: EDISegment[] }): EligibilityDocument {
+  const type = transaction.type === '270' ? '270' : '271';
+  const root = buildLoopTree({ type, segments: transaction.segments });
+  const bht = loopSegment(root, 'BHT');
+  const subscribers: EligibilitySubscriber[] = [];
+
+  for (const sourceLoop of childLoops(root, '2000A')) {
+    const informationSource = readParty(loopSegment(childLoops(sourceLoop, '2100A')[0], 'NM1'));
+
+    for (const receiverLoop of childLoops(sourceLoop, '2000B')) {
+      const informationReceiver = readParty(loopSegment(childLoops(receiverLoop, '2100B')[0], 'NM1'));
+
+      for (const subscriberLoop of childLoops(receiverLoop, '2000C')) {
+        subscribers.push({
+          ...readPerson(subscriberLoop, 'C'),
+          informationSource,
+          informationReceiver,
+          dependents: childLoops(subscriberLoop, '2000D').map(dependentLoop => readPerson(dependentLoop, 'D'))
+        });
+      }
+    }
+  }
+
+  return {
+    type,
+    purposeCode: bht?.elements[2] || '',
+    referenceId: bht?.elements[3] || '',
+    subscribers
+  };
+}
+
+// Roll EB lines up per service type. Active/inactive/non-covered lines set the status;
+// cost-sharing and limitation lines are attached to the service types they name.
+export function summarizeBenefits(person: EligibilityPerson): BenefitSummary[] {
+  const summaries = new Map<string, BenefitSummary>();
+  const summaryFor = (serviceType: string): BenefitSummary => {
+    let summary = summaries.get(serviceType);
+    if (!summary) {
+      summary = {
+        serviceType,
+        description: SERVICE_TYPE_CODES[serviceType] || `Service Type ${serviceType}`,
+        status: 'unknown',
+        copays: [],
+        coinsurance: [],
+        deductibles: [],
+        outOfPocket: [],
+        limitations: [],
+        authorizationRequired: false,
+        messages: []
+      };
+      summaries.set(serviceType, summary);
+    }
+    return summary;
+  };
+
+  for (const benefit of person.benefits) {
+    const serviceTypes = benefit.serviceTypes.length ? benefit.serviceTypes : [PLAN_SERVICE_TYPE];
+
+    for (const serviceType of serviceTypes) {
+      const summary = summaryFor(serviceType);
+
+      if (ACTIVE_CODES.has(benefit.code)) summary.status = 'active';
+      else if (INACTIVE_CODES.has(benefit.code) && summary.status !== 'active') summary.status = 'inactive';
+      else if (benefit.code === 'I') summary.status = 'not-covered';
+      else if (benefit.code === 'B') summary.copays.push(benefit);
+      else if (benefit.code === 'A') summary.coinsurance.push(benefit);
+      else if (benefit.code === 'C') summary.deductibles.push(benefit);
+      else if (benefit.code === 'G') summary.outOfPocket.push(benefit);
+      else if (benefit.code === 'F') summary.limitations.push(benefit);
+
+      if (benefit.authorizationRequired === 'Y') summary.authorizationRequired = true;
+      summary.messages.push(...benefit.messages);
+    }
+  }
+
+  // Service types without their own status inherit the plan-level one
+  const planStatus = summaries.get(PLAN_SERVICE_TYPE)?.status || 'unknown';
+  for (const summary of summaries.values()) {
+    if (summary.status === 'unknown') summary.status = planStatus;
+  }
+
+  return [...summaries.values()];
+}
+
+export function decodeEligibilitySegment(segment: EDISegment): string {
+  const { tag, elements } = segment;
+
+  switch (tag) {
+    case 'BHT':
+      return `Beginning of Hierarchical Transaction - Purpose: ${elements[2]}, Reference: ${elements[3]}, Date: ${elements[4]}`;
+    case 'HL':
+      return `Hierarchical Level - ID: ${elements[1]}, Parent: ${elements[2] || 'none'}, Level: ${elements[3]}`;
+    case 'TRN':
+      return `Trace Number - Type: ${elements[1]}, Trace: ${elements[2]}, Originator: ${elements[3]}`;
+    case 'NM1':
+      return `Entity Name - Type: ${elements[1]}, Name: ${[elements[4], elements[3]].filter(Boolean).join(' ')}, ID: ${elements[9] || ''}`;
+    case 'DMG':
+      return `Demographic Information - Birth Date: ${elements[2]}, Gender: ${elements[3]}`;
+    case 'DTP':
+      return `Date/Time - Qualifier: ${elements[1]}, Format: ${elements[2]}, Date: ${elements[3]}`;
+    case 'EQ':
+      return `Eligibility Inquiry - Service Types: ${readServiceTypes(segment, 1).map(code => SERVICE_TYPE_CODES[code] || code).join(', ')}`;
+    case 'EB': {
+      const serviceTypes = readServiceTypes(segment, 3).map(code => SERVICE_TYPE_CODES[code] || code);
+      const details = [
+        COVERAGE_LEVEL_CODES[elements[2]] || elements[2],
+        serviceTypes.join(', '),
+        elements[5],
+        TIME_PERIOD_CODES[elements[6]] || elements[6],
+        elements[7] && `$${elements[7]}`,
+        elements[8] && `${parseFloat(elements[8]) * 100}%`,
+        elements[12] === 'Y' ? 'In Network' : elements[12] === 'N' ? 'Out of Network' : ''
+      ].filter(Boolean);
+      return `${ELIGIBILITY_CODES[elements[1]] || `Benefit ${elements[1]}`} - ${details.join(', ')}`;
+    }
+    case 'AAA':
+      return `Request Validation - ${REJECT_REASON_CODES[elements[3]] || elements[3]}, Follow-up: ${elements[4]}`;
+    case 'MSG':
+      return `Message - ${elements[1]}`;
+    case 'III':
+      return `Additional Inquiry Information - Qualifier: ${elements[1]}, Code: ${elements[2]}`;
+    case 'LS':
+      return `Loop Header - ${elements[1]}`;
+    case 'LE':
+      return `Loop Trailer - ${elements[1]}`;
+    case 'SE':
+      return `Transaction Set Trailer - Segment Count: ${elements[1]}, Control Number: ${elements[2]}`;
+    default:
+      return decodeX12Segment(segment);
+  }
+}
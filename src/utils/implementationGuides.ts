@@ -0,0 +1,185 @@
+import type { EDISegment } from './universalEDIParser';
+import {
+  CLAIM_837_VARIANTS,
+  CLAIM_LOOP_SCHEMAS_837,
+  LOOP_SCHEMAS,
+  type ClaimVariant,
+  type LoopSchema,
+  type TransactionLoopSchema,
+  type X12FormatType
+} from './x12Formats';
+import { DEFAULT_X12_RELEASE, checkSegmentElements, releaseOf, type X12Release } from './x12Dictionary';
+
+// An implementation guide as named in GS08 (and ST03 from 4020 on). Each guide picks the
+// dictionary release and the loop schema used to read and validate its transaction sets.
+export interface ImplementationGuide {
+  reference: string;
+  type: X12FormatType;
+  release: X12Release;
+  name: string;
+  // Loop schema when it differs from LOOP_SCHEMAS[type]
+  loops?: TransactionLoopSchema;
+  // Segments only this guide's sets carry, e.g. SV2 for 837 institutional claims
+  markers?: readonly string[];
+}
+
+function withoutLoops(schema: TransactionLoopSchema, ...ids: string[]): TransactionLoopSchema {
+  const strip = (loops: readonly LoopSchema[]): LoopSchema[] => loops
+    .filter(loop => !ids.includes(loop.id))
+    .map(loop => (loop.loops ? { ...loop, loops: strip(loop.loops) } : loop));
+  return { ...schema, loops: strip(schema.loops) };
+}
+
+const CLAIM_GUIDE_NAMES: Record<ClaimVariant, string> = {
+  professional: 'Health Care Claim: Professional',
+  institutional: 'Health Care Claim: Institutional',
+  dental: 'Health Care Claim: Dental'
+};
+
+const CLAIM_MARKERS: Record<ClaimVariant, readonly string[]> = {
+  professional: ['SV1'],
+  institutional: ['SV2', 'CL1'],
+  dental: ['SV3', 'TOO']
+};
+
+const claimGuides: ImplementationGuide[] = Object.entries(CLAIM_837_VARIANTS).map(([reference, variant]) => ({
+  reference,
+  type: '837',
+  release: releaseOf(reference) || DEFAULT_X12_RELEASE,
+  name: CLAIM_GUIDE_NAMES[variant],
+  loops: CLAIM_LOOP_SCHEMAS_837[variant],
+  markers: CLAIM_MARKERS[variant]
+}));
+
+// Supply chain sets name only the release in GS08
+const supplyChainGuides = (['850', '855', '856', '810'] as const).flatMap(type =>
+  (['004010', '005010'] as const).map((release): ImplementationGuide => ({
+    reference: release, type, release, name: `${type} ${release}`
+  }))
+);
+
+export const IMPLEMENTATION_GUIDES: readonly ImplementationGuide[] = [
+  // 4010 834s had no 2700 reporting category loops
+  { reference: '004010X095A1', type: '834', release: '004010', name: 'Benefit Enrollment and Maintenance', loops: withoutLoops(LOOP_SCHEMAS['834']!, '2700') },
+  { reference: '005010X220A1', type: '834', release: '005010', name: 'Benefit Enrollment and Maintenance' },
+  { reference: '004010X061A1', type: '820', release: '004010', name: 'Payroll Deducted and Other Group Premium Payment' },
+  { reference: '005010X218', type: '820', release: '005010', name: 'Payroll Deducted and Other Group Premium Payment' },
+  ...claimGuides,
+  { reference: '004010X091A1', type: '835', release: '004010', name: 'Health Care Claim Payment/Advice' },
+  { reference: '005010X221A1', type: '835', release: '005010', name: 'Health Care Claim Payment/Advice' },
+  { reference: '004010X092A1', type: '270', release: '004010', name: 'Health Care Eligibility Benefit Inquiry' },
+  { reference: '005010X279A1', type: '270', release: '005010', name: 'Health Care Eligibility Benefit Inquiry' },
+  { reference: '004010X092A1', type: '271', release: '004010', name: 'Health Care Eligibility Benefit Response' },
+  { reference: '005010X279A1', type: '271', release: '005010', name: 'Health Care Eligibility Benefit Response' },
+  { reference: '004010X094A1', type: '278', release: '004010', name: 'Health Care Services Review' },
+  { reference: '005010X217', type: '278', release: '005010', name: 'Health Care Services Review' },
+  { reference: '005010X231A1', type: '999', release: '005010', name: 'Implementation Acknowledgment' },
+  ...supplyChainGuides
+];
+
+// Guide written into new files of each type when nothing else is known
+const DEFAULT_GUIDES: Partial<Record<X12FormatType, Partial<Record<X12Release, string>>>> = {
+  '834': { '004010': '004010X095A1', '005010': '005010X220A1' },
+  '820': { '004010': '004010X061A1', '005010': '005010X218' },
+  '837': { '004010': '004010X098A1', '005010': '005010X222A1' },
+  '835': { '004010': '004010X091A1', '005010': '005010X221A1' },
+  '270': { '004010': '004010X092A1', '005010': '005010X279A1' },
+  '271': { '004010': '004010X092A1', '005010': '005010X279A1' },
+  '278': { '004010': '004010X094A1', '005010': '005010X217' },
+  '999': { '005010': '005010X231A1' }
+};
+
+export function getImplementationGuide(reference: string | undefined, type?: string): ImplementationGuide | undefined {
+  const trimmed = reference?.trim();
+  if (!trimmed) return undefined;
+  return IMPLEMENTATION_GUIDES.find(guide => guide.reference === trimmed && (!type || guide.type === type));
+}
+
+export function guidesForType(type: string): ImplementationGuide[] {
+  return IMPLEMENTATION_GUIDES.filter(guide => guide.type === type);
+}
+
+export function defaultImplementationGuide(type: string, release: X12Release = DEFAULT_X12_RELEASE): ImplementationGuide | undefined {
+  const reference = DEFAULT_GUIDES[type as X12FormatType]?.[release] || release;
+  return getImplementationGuide(reference, type);
+}
+
+// The guide a transaction claims: ST03, then GS08, as written
+export function readImplementationReference(segments: EDISegment[]): string | undefined {
+  const st = segments.find(segment => segment.tag === 'ST');
+  const gs = segments.find(segment => segment.tag === 'GS');
+  return st?.elements[3]?.trim() || gs?.elements[8]?.trim() || undefined;
+}
+
+// Release the transaction is written in: its guide's, else GS08 or ISA12 read as a version
+export function readRelease(segments: EDISegment[], type?: string): X12Release {
+  const reference = readImplementationReference(segments);
+  const isa = segments.find(segment => segment.tag === 'ISA');
+  return getImplementationGuide(reference, type)?.release || releaseOf(reference) || releaseOf(isa?.elements[12]) || DEFAULT_X12_RELEASE;
+}
+
+// Loop schema for a transaction type under its claimed guide
+export function getGuideLoopSchema(type: string, reference?: string): TransactionLoopSchema | undefined {
+  return getImplementationGuide(reference, type)?.loops || LOOP_SCHEMAS[type as X12FormatType];
+}
+
+export interface GuideMatch {
+  transactionType: string;
+  controlNumber: string;
+  // ST03 or GS08 as written, and the guide it names if it is one we know
+  claimed?: string;
+  claimedGuide?: ImplementationGuide;
+  // The candidate guide the content fits best
+  matched?: ImplementationGuide;
+  // Issues found checking the set against each candidate, by guide reference
+  issues: Record<string, number>;
+}
+
+// Count what would be wrong with a set under a guide: element issues in the guide's release,
+// an ISA12 from another release, and segments that only other guides of the type use
+function scoreGuide(segments: EDISegment[], guide: ImplementationGuide, candidates: ImplementationGuide[]): number {
+  const isa = segments.find(segment => segment.tag === 'ISA');
+  const interchangeRelease = releaseOf(isa?.elements[12]);
+  const foreignMarkers = new Set(
+    candidates.filter(candidate => candidate !== guide).flatMap(candidate => candidate.markers || [])
+  );
+  (guide.markers || []).forEach(marker => foreignMarkers.delete(marker));
+
+  let issues = interchangeRelease && interchangeRelease !== guide.release ? 1 : 0;
+  for (const segment of segments) {
+    if (segment.tag === 'ISA') continue;
+    issues += checkSegmentElements(segment, guide.release).length;
+    if (foreignMarkers.has(segment.tag)) issues++;
+  }
+  return issues;
+}
+
+// Which guide a transaction set claims against the one its content matches. Ties go to the
+// claimed guide, then the type's default.
+export function matchImplementationGuide(set: { type: string; segments: EDISegment[] }): GuideMatch {
+  const st = set.segments.find(segment => segment.tag === 'ST');
+  const claimed = readImplementationReference(set.segments);
+  const claimedGuide = getImplementationGuide(claimed, set.type);
+  const candidates = guidesForType(set.type);
+
+  const issues: Record<string, number> = {};
+  for (const guide of candidates) {
+    issues[guide.reference] = scoreGuide(set.segments, guide, candidates);
+  }
+
+  const preferred = [claimedGuide, defaultImplementationGuide(set.type)];
+  const matched = [...candidates].sort((a, b) =>
+    issues[a.reference] - issues[b.reference] ||
+    Number(!preferred.includes(a)) - Number(!preferred.includes(b)) ||
+    preferred.indexOf(a) - preferred.indexOf(b)
+  )[0];
+
+  return {
+    transactionType: set.type,
+    controlNumber: st?.elements[2] || '',
+    claimed,
+    claimedGuide,
+    matched,
+    issues
+  };
+}
@@ -0,0 +1,313 @@
+import { z } from 'zod/v4';
+
+// Schemas for the two JSON modes of the Convert tab. Business JSON names the fields
+// of 834 and 820 documents; lossless JSON keeps every loop, segment and element.
+// Both are validated before any JSON is turned back into X12.
+
+export interface JSONPathError {
+  path: string;
+  message: string;
+}
+
+export class JSONValidationError extends Error {
+  issues: JSONPathError[];
+
+  constructor(issues: JSONPathError[]) {
+    super(`JSON does not match the schema: ${issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'JSONValidationError';
+    this.issues = issues;
+  }
+}
+
+const code = z.string().min(1, 'Required');
+const text = z.string().optional();
+
+const delimitersSchema = z.object({
+  element: z.string().length(1),
+  repetition: z.string().length(1).nullable(),
+  component: z.string().length(1),
+  segment: z.string().length(1)
+});
+
+const layoutSchema = z.object({
+  leading: z.string(),
+  lineBreak: z.string(),
+  newlineTerminator: z.string().optional(),
+  terminateLast: z.boolean(),
+  trailing: z.string(),
+  wrap: z.object({ width: z.number().int().positive(), lineBreak: z.string() }).optional()
+});
+
+// Business mode
+
+const referenceSchema = z.looseObject({ qualifier: code, value: code });
+const dateSchema = z.looseObject({ qualifier: code, format: code, value: code });
+
+const addressSchema = z.looseObject({
+  line1: text,
+  line2: text,
+  city: text,
+  state: text,
+  postalCode: text,
+  countryCode: text
+});
+
+const contactSchema = z.looseObject({
+  functionCode: code,
+  name: text,
+  communications: z.array(z.object({ qualifier: code, number: code })).optional()
+});
+
+const entitySchema = z.looseObject({
+  entityQualifier: code,
+  entityName: text,
+  idQualifier: text,
+  id: text,
+  address: addressSchema.nullable().optional(),
+  contacts: z.array(contactSchema).optional()
+});
+
+const coverageSchema = z.looseObject({
+  maintenanceTypeCode: code,
+  maintenanceReasonCode: text,
+  insuranceLineCode: code,
+  planCoverageDescription: text,
+  coverageLevelCode: text,
+  dates: z.array(dateSchema).optional(),
+  references: z.array(referenceSchema).optional()
+});
+
+const memberSchema = z.looseObject({
+  memberLevelCode: z.enum(['Y', 'N']),
+  relationshipCode: code,
+  maintenanceTypeCode: code,
+  maintenanceReasonCode: text,
+  benefitStatusCode: code,
+  employmentStatusCode: text,
+  name: z.looseObject({
+    qualifier: code,
+    entityType: code,
+    lastName: code,
+    firstName: text,
+    middleName: text,
+    suffix: text,
+    idQualifier: text,
+    id: text
+  }).refine(name => !name.id || Boolean(name.idQualifier), { message: 'Required when id is set', path: ['idQualifier'] }).optional(),
+  demographics: z.looseObject({
+    dateQualifier: text,
+    birthDate: text,
+    genderCode: text,
+    maritalStatus: text,
+    raceEthnicity: text
+  }).refine(demographics => !(demographics.birthDate || demographics.genderCode) || Boolean(demographics.dateQualifier), {
+    message: 'Required when birthDate or genderCode is set',
+    path: ['dateQualifier']
+  }).optional(),
+  contact: contactSchema.optional(),
+  address: addressSchema.optional(),
+  references: z.array(referenceSchema).optional(),
+  dates: z.array(dateSchema).optional(),
+  healthCoverage: z.array(coverageSchema).optional()
+});
+
+// ENT01-04: the organization or individual the following RMRs pay for
+const remittanceEntitySchema = z.looseObject({
+  assignedNumber: code,
+  entityIdentifierCode: text,
+  idQualifier: text,
+  id: text
+});
+
+// RMR01-05
+const remittanceSchema = z.looseObject({
+  referenceQualifier: code,
+  memberGroupNumber: code,
+  paymentActionCode: text,
+  remittanceAmount: z.number(),
+  billedAmount: z.number().optional(),
+  entity: remittanceEntitySchema.optional()
+});
+
+const paymentSchema = z.looseObject({
+  transactionHandlingCode: code,
+  monetaryAmount: z.number(),
+  creditDebitFlag: z.enum(['C', 'D']),
+  paymentMethodCode: code,
+  paymentFormatCode: text,
+  // BPR06-09: originating bank qualifier, DFI number, account qualifier and account number
+  originatingDfiQualifier: text,
+  originatingDfiId: text,
+  originatingAccountQualifier: text,
+  originatingAccountNumber: text,
+  // BPR10-11: originating company identifier and supplemental code
+  originatingCompanyId: text,
+  originatingCompanySupplementalCode: text,
+  // BPR12-15: receiving bank qualifier, DFI number, account qualifier and account number
+  receivingDfiQualifier: text,
+  receivingDfiId: text,
+  receivingAccountQualifier: text,
+  receivingAccountNumber: text,
+  effectiveEntryDate: z.string().regex(/^\d{8}$/, 'Expected CCYYMMDD'),
+  businessFunctionCode: text,
+  trace: z.looseObject({ traceTypeCode: code, referenceId: code, originatingCompanyId: text }).optional(),
+  remittanceDetails: z.array(remittanceSchema)
+});
+
+const interchangeControlSchema = z.looseObject({
+  authorizationQualifier: z.string().length(2),
+  authorizationInformation: z.string().max(10),
+  securityQualifier: z.string().length(2),
+  securityInformation: z.string().max(10),
+  senderQualifier: z.string().length(2),
+  senderId: z.string().min(1).max(15),
+  receiverQualifier: z.string().length(2),
+  receiverId: z.string().min(1).max(15),
+  interchangeDate: z.string().regex(/^\d{6}$/, 'Expected YYMMDD'),
+  interchangeTime: z.string().regex(/^\d{4}$/, 'Expected HHMM'),
+  controlStandards: text,
+  controlVersion: z.string().regex(/^\d{5}$/, 'Expected a 5-digit version'),
+  controlNumber: z.string().regex(/^\d{9}$/, 'Expected 9 digits'),
+  acknowledgmentRequested: z.enum(['0', '1']),
+  testIndicator: z.enum(['T', 'P'])
+});
+
+const functionalGroupSchema = z.looseObject({
+  functionalCode: code,
+  applicationSender: code,
+  applicationReceiver: code,
+  date: z.string().regex(/^\d{8}$/, 'Expected CCYYMMDD'),
+  time: z.string().regex(/^\d{4,8}$/, 'Expected HHMM'),
+  groupControlNumber: z.string().regex(/^\d{1,9}$/, 'Expected up to 9 digits'),
+  responsibleAgency: code,
+  version: code
+});
+
+const transactionSetSchema = z.looseObject({
+  transactionSetIdentifier: code,
+  transactionSetControlNumber: z.string().min(4).max(9),
+  implementationReference: text,
+  beginningSegment: z.looseObject({
+    purposeCode: code,
+    referenceId: code,
+    date: z.string().regex(/^\d{8}$/, 'Expected CCYYMMDD'),
+    time: text,
+    timeZoneCode: text,
+    originalReferenceId: text,
+    transactionTypeCode: text,
+    actionCode: text
+  }).optional(),
+  references: z.array(referenceSchema).optional(),
+  dates: z.array(dateSchema).optional()
+});
+
+export const businessJSONSchema = z.looseObject({
+  header: z.looseObject({
+    interchangeControl: interchangeControlSchema,
+    functionalGroup: functionalGroupSchema,
+    transactionSet: transactionSetSchema
+  }),
+  data: z.looseObject({
+    entities: z.array(entitySchema),
+    members: z.array(memberSchema).optional(),
+    payments: z.array(paymentSchema).optional()
+  }),
+  metadata: z.looseObject({
+    // Only these formats have business fields that map back to segments; use lossless JSON for the rest
+    originalFormat: z.enum(['834', '820'], { error: 'Only 834 and 820 business JSON converts back to X12; use lossless JSON for other formats' }),
+    conversionTimestamp: text,
+    delimiters: delimitersSchema.optional(),
+    layout: layoutSchema.optional()
+  })
+}).superRefine((value, context) => {
+  if (value.header.transactionSet.transactionSetIdentifier !== value.metadata.originalFormat) {
+    context.addIssue({ code: 'custom', path: ['header', 'transactionSet', 'transactionSetIdentifier'], message: `Must match metadata.originalFormat (${value.metadata.originalFormat})` });
+  }
+  if (value.metadata.originalFormat === '834' && !value.header.transactionSet.beginningSegment) {
+    context.addIssue({ code: 'custom', path: ['header', 'transactionSet', 'beginningSegment'], message: 'An 834 needs its BGN beginning segment' });
+  }
+}).meta({ title: 'EDI business JSON', description: 'Named 834 and 820 fields produced by convertEDIToJSON' });
+
+export type ReferenceJSON = z.infer<typeof referenceSchema>;
+export type DateJSON = z.infer<typeof dateSchema>;
+export type AddressJSON = z.infer<typeof addressSchema>;
+export type ContactJSON = z.infer<typeof contactSchema>;
+export type EntityJSON = z.infer<typeof entitySchema>;
+export type Member834JSON = z.infer<typeof memberSchema>;
+export type Payment820JSON = z.infer<typeof paymentSchema>;
+export type TransactionSetHeaderJSON = z.infer<typeof transactionSetSchema>;
+
+// Lossless mode
+
+// A simple element is a string, a composite its components, a repeated element
+// one array of components per repetition
+const losslessElementSchema = z.union([z.string(), z.array(z.string()), z.array(z.array(z.string()))]);
+
+const losslessSegmentSchema = z.strictObject({
+  tag: z.string().regex(/^[A-Z][A-Z0-9]{1,2}$/, 'Expected a 2-3 character segment ID'),
+  elements: z.array(losslessElementSchema)
+});
+
+const envelopeSegment = (tag: string) => losslessSegmentSchema.extend({ tag: z.literal(tag) });
+
+const losslessLoopSchema = z.strictObject({
+  id: z.string(),
+  name: z.string(),
+  segments: z.array(losslessSegmentSchema),
+  get loops() {
+    return z.array(losslessLoopSchema);
+  }
+}).meta({ id: 'Loop' });
+
+const losslessTransactionSetSchema = z.strictObject({
+  type: z.string(),
+  // ST and the heading segments, then the detail loops
+  loop: losslessLoopSchema,
+  // Segments after the last loop: summary segments and SE
+  summary: z.array(losslessSegmentSchema)
+});
+
+export const losslessJSONSchema = z.strictObject({
+  mode: z.literal('lossless'),
+  delimiters: delimitersSchema,
+  layout: layoutSchema.optional(),
+  interchanges: z.array(z.strictObject({
+    header: envelopeSegment('ISA').optional(),
+    groups: z.array(z.strictObject({
+      header: envelopeSegment('GS').optional(),
+      transactionSets: z.array(losslessTransactionSetSchema),
+      trailer: envelopeSegment('GE').optional()
+    })),
+    trailer: envelopeSegment('IEA').optional()
+  }))
+}).meta({ title: 'EDI lossless JSON', description: 'Every loop, segment and element of an X12 file' });
+
+export type LosslessElement = z.infer<typeof losslessElementSchema>;
+export type LosslessSegment = z.infer<typeof losslessSegmentSchema>;
+export type LosslessLoop = z.infer<typeof losslessLoopSchema>;
+export type LosslessTransactionSet = z.infer<typeof losslessTransactionSetSchema>;
+export type LosslessJSONDocument = z.infer<typeof losslessJSONSchema>;
+
+// Published JSON Schema documents for both modes
+export const BUSINESS_JSON_SCHEMA = z.toJSONSchema(businessJSONSchema, { io: 'input', unrepresentable: 'any' });
+export const LOSSLESS_JSON_SCHEMA = z.toJSONSchema(losslessJSONSchema, { io: 'input' });
+
+// "data.members[0].name.lastName"
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) =>
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${String(key)}` : String(key), '') || '(root)';
+}
+
+function validate(schema: z.ZodType, json: unknown): JSONPathError[] {
+  const result = schema.safeParse(json);
+  return result.success ? [] : result.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+}
+
+export function isLosslessJSON(json: unknown): boolean {
+  return typeof json === 'object' && json !== null && (json as { mode?: unknown }).mode === 'lossless';
+}
+
+// Check JSON in either mode; an empty list means it can be converted back to X12
+export function validateConversionJSON(json: unknown): JSONPathError[] {
+  return validate(isLosslessJSON(json) ? losslessJSONSchema : businessJSONSchema, json);
+}
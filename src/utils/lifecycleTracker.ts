@@ -1,4 +1,5 @@
 import { EDITransaction, EDISegment } from './universalEDIParser';
+import { buildLoopTree, childLoops, flattenLoop, loopSegment, type EDILoop } from './x12Loops';
 
 export interface MemberRecord {
   id: string;
@@ -73,80 +74,75 @@ export class MemberLifecycleTracker {
       affectedMembers: []
     };
 
-    let currentMember: Partial<MemberRecord> | null = null;
-    let insSegment: EDISegment | null = null;
+    const root = buildLoopTree(transaction);
+
+    for (const memberLoop of childLoops(root, '2000')) {
+      const insSegment = memberLoop.segments[0];
 
-    for (const segment of transaction.segments) {
       try {
-        switch (segment.tag) {
-          case 'INS':
-            // Start new member record
-            if (currentMember && insSegment) {
-              this.processMemberRecord(currentMember, insSegment, transaction, result);
-            }
-            currentMember = { lifecycle: [], healthCoverage: [], alerts: [] };
-            insSegment = segment;
-            break;
-
-          case 'NM1':
-            if (currentMember && segment.elements[1] === 'IL') {
-              currentMember.firstName = segment.elements[4] || '';
-              currentMember.lastName = segment.elements[3] || '';
-              currentMember.memberId = segment.elements[9] || '';
-            }
-            break;
-
-          case 'DMG':
-            if (currentMember) {
-              currentMember.dateOfBirth = this.formatDate(segment.elements[2] || '');
-              currentMember.gender = segment.elements[3] || '';
-            }
-            break;
-
-          case 'HD':
-            if (currentMember) {
-              const coverage: CoverageRecord = {
-                id: this.generateId(),
-                insuranceLineCode: segment.elements[3] || '',
-                planCode: segment.elements[4] || '',
-                coverageLevel: segment.elements[5] || '',
-                effectiveDate: new Date(),
-                status: 'active',
-                beneficiaryCount: 1
-              };
-              currentMember.healthCoverage = currentMember.healthCoverage || [];
-              currentMember.healthCoverage.push(coverage);
-            }
-            break;
-
-          case 'REF':
-            if (currentMember && segment.elements[1] === '0F') {
-              currentMember.ssn = segment.elements[2];
-            }
-            break;
-        }
+        const memberData = this.readMemberLoop(memberLoop);
+        this.processMemberRecord(memberData, insSegment, memberLoop, transaction, result);
       } catch (error) {
         result.errors++;
         result.alerts.push({
           type: 'processing_error',
           severity: 'high',
-          message: `Error processing segment ${segment.tag} at line ${segment.lineNumber}`,
-          memberId: currentMember?.memberId || 'unknown'
+          message: `Error processing member loop at segment ${insSegment.lineNumber}`,
+          memberId: 'unknown'
         });
       }
     }
 
-    // Process the last member
-    if (currentMember && insSegment) {
-      this.processMemberRecord(currentMember, insSegment, transaction, result);
+    return result;
+  }
+
+  // Read one 2000 Member Level Detail loop into a partial member record
+  private readMemberLoop(memberLoop: EDILoop): Partial<MemberRecord> {
+    const member: Partial<MemberRecord> = { lifecycle: [], healthCoverage: [], alerts: [] };
+    const nameLoop = childLoops(memberLoop, '2100A')[0];
+
+    const nm1 = loopSegment(nameLoop, 'NM1', 'IL');
+    if (nm1) {
+      member.firstName = nm1.elements[4] || '';
+      member.lastName = nm1.elements[3] || '';
+      member.memberId = nm1.elements[9] || '';
     }
 
-    return result;
+    const dmg = loopSegment(nameLoop, 'DMG');
+    if (dmg) {
+      member.dateOfBirth = this.formatDate(dmg.elements[2] || '');
+      member.gender = dmg.elements[3] || '';
+    }
+
+    const ssn = loopSegment(memberLoop, 'REF', '0F');
+    if (ssn) {
+      member.ssn = ssn.elements[2];
+    }
+
+    for (const coverageLoop of childLoops(memberLoop, '2300')) {
+      const hd = coverageLoop.segments[0];
+      const effective = loopSegment(coverageLoop, 'DTP', '348');
+      const termination = loopSegment(coverageLoop, 'DTP', '349');
+
+      member.healthCoverage.push({
+        id: this.generateId(),
+        insuranceLineCode: hd.elements[3] || '',
+        planCode: hd.elements[4] || '',
+        coverageLevel: hd.elements[5] || '',
+        effectiveDate: effective?.elements[3] ? this.parseDate(effective.elements[3]) : new Date(),
+        terminationDate: termination?.elements[3] ? this.parseDate(termination.elements[3]) : undefined,
+        status: termination ? 'terminated' : 'active',
+        beneficiaryCount: 1
+      });
+    }
+
+    return member;
   }
 
   private processMemberRecord(
     memberData: Partial<MemberRecord>,
     insSegment: EDISegment,
+    memberLoop: EDILoop,
     transaction: EDITransaction,
     result: ProcessingResult
   ): void {
@@ -159,7 +155,7 @@ export class MemberLifecycleTracker {
       id: this.generateId(),
       eventType: this.determineEventType(maintenanceType, maintenanceReason),
       eventDate: new Date(),
-      effectiveDate: this.extractEffectiveDate(transaction.segments) || new Date(),
+      effectiveDate: this.extractEffectiveDate(flattenLoop(memberLoop)) || new Date(),
       maintenanceType,
       maintenanceReason,
       sourceTransaction: transaction.metadata.controlNumber,
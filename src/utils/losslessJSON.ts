@@ -0,0 +1,113 @@
+import type { EDISegment } from './universalEDIParser';
+import type { EDIDocument, EDITransactionSet } from './x12Envelope';
+import { buildLoopTree, flattenLoop, type EDILoop } from './x12Loops';
+import type { EDIElement } from './x12Elements';
+import type { X12Delimiters } from './x12Tokenizer';
+import type { LosslessElement, LosslessJSONDocument, LosslessLoop, LosslessSegment, LosslessTransactionSet } from './jsonSchemas';
+
+function toLosslessElement(element: EDIElement): LosslessElement {
+  if (element.repetitions.length > 1) return element.repetitions;
+  if (element.repetitions[0]?.length > 1) return element.repetitions[0];
+  return element.value;
+}
+
+function toLosslessSegment(segment: EDISegment): LosslessSegment {
+  return {
+    tag: segment.tag,
+    elements: segment.elements.slice(1).map((value, index) => {
+      const parsed = segment.parsedElements?.[index + 1];
+      return parsed ? toLosslessElement(parsed) : value;
+    })
+  };
+}
+
+function toLosslessLoop(loop: EDILoop, segments = loop.segments): LosslessLoop {
+  return {
+    id: loop.id,
+    name: loop.name,
+    segments: segments.map(toLosslessSegment),
+    loops: loop.loops.map(child => toLosslessLoop(child))
+  };
+}
+
+// ST..SE of a set whose `segments` also carry the enclosing envelope
+function setSegments(set: EDITransactionSet): EDISegment[] {
+  const first = set.header.lineNumber;
+  const last = set.trailer?.lineNumber ?? Infinity;
+  return set.segments.filter(segment =>
+    segment.lineNumber >= first && segment.lineNumber <= last && !['GE', 'IEA'].includes(segment.tag)
+  );
+}
+
+function toLosslessTransactionSet(set: EDITransactionSet): LosslessTransactionSet {
+  const root = buildLoopTree({ type: set.type, segments: setSegments(set) });
+
+  // Root segments after the first detail loop (summary segments and SE) are kept apart
+  const firstLoopLine = root.loops.length ? flattenLoop(root.loops[0])[0].lineNumber : Infinity;
+  return {
+    type: set.type,
+    loop: toLosslessLoop(root, root.segments.filter(segment => segment.lineNumber < firstLoopLine)),
+    summary: root.segments.filter(segment => segment.lineNumber > firstLoopLine).map(toLosslessSegment)
+  };
+}
+
+// Convert a parsed X12 document to lossless JSON: the envelope tree with a loop tree
+// per transaction set, every element kept, plus the delimiters and layout to write it back
+export function convertEDIToLosslessJSON(document: EDIDocument): LosslessJSONDocument {
+  return {
+    mode: 'lossless',
+    delimiters: document.delimiters,
+    layout: document.layout,
+    interchanges: document.interchanges.map(interchange => ({
+      header: interchange.header && toLosslessSegment(interchange.header),
+      groups: interchange.groups.map(group => ({
+        header: group.header && toLosslessSegment(group.header),
+        transactionSets: group.transactionSets.map(toLosslessTransactionSet),
+        trailer: group.trailer && toLosslessSegment(group.trailer)
+      })),
+      trailer: interchange.trailer && toLosslessSegment(interchange.trailer)
+    }))
+  };
+}
+
+function fromLosslessElement(element: LosslessElement, delimiters: X12Delimiters): EDIElement {
+  if (typeof element === 'string') return { value: element, repetitions: [[element]] };
+  const repetitions = element.every(item => Array.isArray(item)) ? element as string[][] : [element as string[]];
+  return {
+    value: repetitions.map(components => components.join(delimiters.component)).join(delimiters.repetition || ''),
+    repetitions
+  };
+}
+
+// Rebuild a segment; composite and repeated elements are joined with the document's delimiters
+function fromLosslessSegment(segment: LosslessSegment, delimiters: X12Delimiters, ordinal: number): EDISegment {
+  const parsedElements = [
+    { value: segment.tag, repetitions: [[segment.tag]] },
+    ...segment.elements.map(element => fromLosslessElement(element, delimiters))
+  ];
+  const elements = parsedElements.map(element => element.value);
+  return { tag: segment.tag, elements, parsedElements, raw: elements.join(delimiters.element), lineNumber: ordinal };
+}
+
+function flattenLosslessLoop(loop: LosslessLoop): LosslessSegment[] {
+  return [...loop.segments, ...loop.loops.flatMap(flattenLosslessLoop)];
+}
+
+// Segments of a lossless document in file order
+export function losslessJSONToSegments(json: LosslessJSONDocument): EDISegment[] {
+  const ordered: LosslessSegment[] = [];
+
+  for (const interchange of json.interchanges) {
+    if (interchange.header) ordered.push(interchange.header);
+    for (const group of interchange.groups) {
+      if (group.header) ordered.push(group.header);
+      for (const set of group.transactionSets) {
+        ordered.push(...flattenLosslessLoop(set.loop), ...set.summary);
+      }
+      if (group.trailer) ordered.push(group.trailer);
+    }
+    if (interchange.trailer) ordered.push(interchange.trailer);
+  }
+
+  return ordered.map((segment, index) => fromLosslessSegment(segment, json.delimiters as X12Delimiters, index + 1));
+}
@@ -0,0 +1,425 @@
+import { z } from 'zod/v4';
+import type { LosslessElement, LosslessJSONDocument, LosslessLoop, LosslessSegment } from './jsonSchemas';
+
+// Declarative mappings from X12 loop/segment/element paths to the record shapes
+// downstream systems want. Definitions are plain JSON so they can be saved per
+// partner and run here or in the run-mapping edge function, which imports this
+// module through supabase/functions/_shared/mapping.ts. The source is lossless JSON.
+
+// Source paths are resolved from the current loop: loop IDs separated by "/", then a
+// segment with optional qualifier filters and an element reference, e.g.
+//   "2100A/NM1-03"         NM103 of the member name loop
+//   "REF[01=0F]-02"        REF02 of the REF whose REF01 is 0F
+//   "2300/DTP[01=348|349]-03"
+//   "/1000A/N1-02"         a leading "/" starts at the transaction set, ".." goes up a loop
+//   "HI-01-2[3]"           component 2 of the third repetition of HI01
+export interface SourcePath {
+  absolute: boolean;
+  loops: string[];
+  tag: string;
+  filters: { position: number; values: string[] }[];
+  position: number;
+  component?: number;
+  repetition?: number;
+}
+
+export type MappingTransform =
+  // Output pattern using CCYY, YY, MM, DD, HH and mm; RD8 ranges use `part` (default start)
+  | { type: 'date'; format: string; part?: 'start' | 'end' }
+  // Code lookup; values missing from the table keep their code unless `fallback` is set
+  | { type: 'lookup'; table: Record<string, string>; fallback?: string }
+  | { type: 'upper' }
+  | { type: 'lower' }
+  | { type: 'trim' }
+  | { type: 'number' }
+  | { type: 'substring'; start: number; end?: number }
+  | { type: 'replace'; pattern: string; replacement: string };
+
+export interface MappingCondition {
+  source: string;
+  equals?: string | string[];
+  notEquals?: string | string[];
+  exists?: boolean;
+}
+
+export interface FieldMapping {
+  // Dotted path in the target record, e.g. "employee.lastName"
+  target: string;
+  // Several sources are concatenated with `separator` (default a space)
+  source?: string | string[];
+  separator?: string;
+  // Constant value instead of a source
+  value?: string;
+  // The field is skipped unless the condition holds. For alternatives, map the same
+  // target several times with different conditions; the first that holds wins.
+  when?: MappingCondition;
+  transforms?: MappingTransform[];
+  default?: string;
+  // Collect every match as an array instead of the first
+  all?: boolean;
+  // Map `fields` once per loop matching this path, into an array of records
+  each?: string;
+  fields?: FieldMapping[];
+}
+
+export interface MappingDefinition {
+  name: string;
+  transactionType: string;
+  description?: string;
+  // Loop whose instances become records, e.g. "2000" for one record per 834 member.
+  // Without it each transaction set is one record.
+  recordLoop?: string;
+  fields: FieldMapping[];
+}
+
+export interface MappingRecord {
+  // Index of the transaction set in the document
+  transactionSet: number;
+  source: LosslessLoop;
+  target: Record<string, unknown>;
+}
+
+export interface MappingIssue {
+  record: number;
+  target: string;
+  message: string;
+}
+
+export interface MappingResult {
+  records: MappingRecord[];
+  issues: MappingIssue[];
+}
+
+function isPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'g');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const transformSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('date'), format: z.string().min(1), part: z.enum(['start', 'end']).optional() }),
+  z.object({ type: z.literal('lookup'), table: z.record(z.string(), z.string()), fallback: z.string().optional() }),
+  z.object({ type: z.literal('upper') }),
+  z.object({ type: z.literal('lower') }),
+  z.object({ type: z.literal('trim') }),
+  z.object({ type: z.literal('number') }),
+  z.object({ type: z.literal('substring'), start: z.number().int().min(0), end: z.number().int().min(0).optional() }),
+  z.object({ type: z.literal('replace'), pattern: z.string().refine(isPattern, { message: 'Not a valid regular expression' }), replacement: z.string() })
+]);
+
+const sourcePathSchema = z.string().refine(path => parseSourcePath(path) !== null, { message: 'Not a valid source path' });
+
+const fieldSchema: z.ZodType<FieldMapping> = z.object({
+  target: z.string().regex(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/, 'Expected a dotted field path'),
+  source: z.union([sourcePathSchema, z.array(sourcePathSchema).min(1)]).optional(),
+  separator: z.string().optional(),
+  value: z.string().optional(),
+  when: z.object({
+    source: sourcePathSchema,
+    equals: z.union([z.string(), z.array(z.string())]).optional(),
+    notEquals: z.union([z.string(), z.array(z.string())]).optional(),
+    exists: z.boolean().optional()
+  }).optional(),
+  transforms: z.array(transformSchema).optional(),
+  default: z.string().optional(),
+  all: z.boolean().optional(),
+  each: z.string().regex(/^(\/|\.\.\/)*[A-Z0-9/.]+$/i, 'Expected a loop path').optional(),
+  fields: z.lazy(() => z.array(fieldSchema)).optional()
+}).refine(field => field.source !== undefined || field.value !== undefined || field.each !== undefined, {
+  message: 'Needs a source, a value or an each loop'
+}).refine(field => !field.each || Boolean(field.fields?.length), { message: 'An each loop needs fields', path: ['fields'] });
+
+export const mappingDefinitionSchema = z.object({
+  name: z.string().min(1, 'Required'),
+  transactionType: z.string().min(1, 'Required'),
+  description: z.string().optional(),
+  recordLoop: z.string().optional(),
+  fields: z.array(fieldSchema).min(1, 'Map at least one field')
+});
+
+// Issues as "fields[2].source: Not a valid source path"
+export function validateMappingDefinition(definition: unknown): string[] {
+  const result = mappingDefinitionSchema.safeParse(definition);
+  if (result.success) return [];
+  return result.error.issues.map(issue => {
+    const path = issue.path.reduce<string>((text, key) =>
+      typeof key === 'number' ? `${text}[${key}]` : text ? `${text}.${String(key)}` : String(key), '');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+const pathCache = new Map<string, SourcePath | null>();
+
+export function parseSourcePath(path: string): SourcePath | null {
+  if (pathCache.has(path)) return pathCache.get(path) || null;
+
+  const absolute = path.startsWith('/');
+  const steps = path.trim().replace(/^\//, '').split('/');
+  const last = steps.pop() || '';
+  const match = /^([A-Z][A-Z0-9]{1,2})((?:\[\d{2}=[^\]]*\])*)-(\d{2})(?:-(\d+))?(?:\[(\d+)\])?$/.exec(last);
+
+  let parsed: SourcePath | null = null;
+  if (match && steps.every(step => /^([A-Z0-9]+|\.\.)$/i.test(step))) {
+    parsed = {
+      absolute,
+      loops: steps,
+      tag: match[1],
+      filters: [...match[2].matchAll(/\[(\d{2})=([^\]]*)\]/g)].map(filter => ({
+        position: Number(filter[1]),
+        values: filter[2].split('|')
+      })),
+      position: Number(match[3]),
+      component: match[4] ? Number(match[4]) : undefined,
+      repetition: match[5] ? Number(match[5]) : undefined
+    };
+  }
+
+  pathCache.set(path, parsed);
+  return parsed;
+}
+
+interface MappingContext {
+  // Innermost loop last; the first entry is the transaction set
+  loops: LosslessLoop[];
+  componentSeparator: string;
+}
+
+function repetitionsOf(element: LosslessElement | undefined): string[][] {
+  if (element === undefined) return [];
+  if (typeof element === 'string') return [[element]];
+  return element.every(item => Array.isArray(item)) ? element as string[][] : [element as string[]];
+}
+
+function elementValue(segment: LosslessSegment, path: Pick<SourcePath, 'position' | 'component' | 'repetition'>, componentSeparator: string): string | undefined {
+  const repetition = repetitionsOf(segment.elements[path.position - 1])[(path.repetition || 1) - 1];
+  if (!repetition) return undefined;
+  return path.component ? repetition[path.component - 1] : repetition.join(componentSeparator);
+}
+
+// Loops reached from the context by the path's loop steps
+function resolveLoops(steps: string[], absolute: boolean, context: MappingContext): LosslessLoop[][] {
+  let chains: LosslessLoop[][] = [absolute ? context.loops.slice(0, 1) : context.loops];
+
+  for (const step of steps) {
+    chains = step === '..'
+      ? chains.filter(chain => chain.length > 1).map(chain => chain.slice(0, -1))
+      : chains.flatMap(chain => chain[chain.length - 1].loops
+        .filter(child => child.id.toUpperCase() === step.toUpperCase())
+        .map(child => [...chain, child]));
+  }
+
+  return chains;
+}
+
+export function resolveSource(path: string, context: MappingContext): string[] {
+  const parsed = parseSourcePath(path);
+  if (!parsed) throw new Error(`Invalid source path "${path}"`);
+
+  return resolveLoops(parsed.loops, parsed.absolute, context).flatMap(chain =>
+    chain[chain.length - 1].segments
+      .filter(segment => segment.tag === parsed.tag && parsed.filters.every(filter =>
+        filter.values.includes(elementValue(segment, { position: filter.position, component: 1 }, context.componentSeparator) || '')
+      ))
+      .map(segment => elementValue(segment, parsed, context.componentSeparator))
+      .filter((value): value is string => value !== undefined && value !== '')
+  );
+}
+
+function formatDate(value: string, transform: Extract<MappingTransform, { type: 'date' }>): string | null {
+  const dates = value.split('-');
+  const date = transform.part === 'end' && dates.length > 1 ? dates[1] : dates[0];
+  const match = /^(\d{4}|\d{2})(\d{2})(\d{2})(\d{2})?(\d{2})?$/.exec(date);
+  if (!match) return null;
+
+  const year = match[1].length === 4 ? match[1] : `20${match[1]}`;
+  return transform.format
+    .replace(/CCYY|YYYY/g, year)
+    .replace(/YY/g, year.substring(2))
+    .replace(/MM/g, match[2])
+    .replace(/DD/g, match[3])
+    .replace(/HH/g, match[4] || '00')
+    .replace(/mm/g, match[5] || '00');
+}
+
+function applyTransform(value: string | number, transform: MappingTransform): string | number | null {
+  const text = String(value);
+  switch (transform.type) {
+    case 'date':
+      return formatDate(text, transform);
+    case 'lookup':
+      return transform.table[text] ?? transform.fallback ?? text;
+    case 'upper':
+      return text.toUpperCase();
+    case 'lower':
+      return text.toLowerCase();
+    case 'trim':
+      return text.trim();
+    case 'number': {
+      const number = Number(text);
+      return text.trim() === '' || Number.isNaN(number) ? null : number;
+    }
+    case 'substring':
+      return text.substring(transform.start, transform.end);
+    case 'replace':
+      return text.replace(new RegExp(transform.pattern, 'g'), transform.replacement);
+  }
+}
+
+function conditionHolds(condition: MappingCondition, context: MappingContext): boolean {
+  const value = resolveSource(condition.source, context)[0];
+  const list = (values?: string | string[]) => values === undefined ? undefined : [values].flat();
+  const equals = list(condition.equals);
+  const notEquals = list(condition.notEquals);
+
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+  if (equals && !equals.includes(value ?? '')) return false;
+  if (notEquals && notEquals.includes(value ?? '')) return false;
+  return true;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function hasPath(target: Record<string, unknown>, path: string): boolean {
+  let current: unknown = target;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null || !(key in current)) return false;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current !== undefined;
+}
+
+function mapFields(fields: FieldMapping[], context: MappingContext, record: number, issues: MappingIssue[]): Record<string, unknown> {
+  const target: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    // Earlier fields win: a later mapping for the same target only fills a gap
+    if (hasPath(target, field.target)) continue;
+    if (field.when && !conditionHolds(field.when, context)) continue;
+
+    if (field.each) {
+      const parsed = field.each.replace(/^\//, '').split('/');
+      const chains = resolveLoops(parsed, field.each.startsWith('/'), context);
+      setPath(target, field.target, chains.map(chain =>
+        mapFields(field.fields || [], { ...context, loops: chain }, record, issues)
+      ));
+      continue;
+    }
+
+    let values: (string | number)[];
+    if (field.value !== undefined) {
+      values = [field.value];
+    } else if (Array.isArray(field.source)) {
+      const joined = field.source.map(source => resolveSource(source, context)[0]).filter(Boolean).join(field.separator ?? ' ');
+      values = joined ? [joined] : [];
+    } else {
+      const resolved = resolveSource(field.source || '', context);
+      values = field.all ? resolved : resolved.slice(0, 1);
+    }
+
+    const transformed = values.flatMap(value => {
+      let result: string | number | null = value;
+      for (const transform of field.transforms || []) {
+        result = applyTransform(result, transform);
+        if (result === null) {
+          issues.push({ record, target: field.target, message: `${transform.type} transform could not convert "${value}"` });
+          return [];
+        }
+      }
+      return result === '' ? [] : [result];
+    });
+
+    if (field.all) {
+      setPath(target, field.target, transformed);
+    } else if (transformed.length) {
+      setPath(target, field.target, transformed[0]);
+    } else if (field.default !== undefined) {
+      setPath(target, field.target, field.default);
+    }
+  }
+
+  return target;
+}
+
+// Run a definition over every transaction set of its type in a lossless document
+export function runMapping(definition: MappingDefinition, document: LosslessJSONDocument): MappingResult {
+  const records: MappingRecord[] = [];
+  const issues: MappingIssue[] = [];
+  const componentSeparator = document.delimiters.component;
+  const sets = document.interchanges
+    .flatMap(interchange => interchange.groups)
+    .flatMap(group => group.transactionSets);
+
+  sets.forEach((set, index) => {
+    if (set.type !== definition.transactionType) return;
+
+    // Summary segments (and SE) sit with the heading at the transaction level
+    const root: LosslessLoop = { ...set.loop, segments: [...set.loop.segments, ...set.summary] };
+    const chains = definition.recordLoop
+      ? resolveLoops(definition.recordLoop.replace(/^\//, '').split('/'), true, { loops: [root], componentSeparator })
+      : [[root]];
+
+    for (const chain of chains) {
+      const source = chain[chain.length - 1];
+      records.push({
+        transactionSet: index,
+        source,
+        target: mapFields(definition.fields, { loops: chain, componentSeparator }, records.length, issues)
+      });
+    }
+  });
+
+  return { records, issues };
+}
+
+// Segment text of a loop and its nested loops, for previews
+export function loopToText(loop: LosslessLoop, delimiters: { element: string; component: string; repetition: string | null }): string[] {
+  const segmentText = (segment: LosslessSegment) => [
+    segment.tag,
+    ...segment.elements.map(element => repetitionsOf(element)
+      .map(components => components.join(delimiters.component))
+      .join(delimiters.repetition || ''))
+  ].join(delimiters.element).replace(new RegExp(`\\${delimiters.element}+$`), '');
+
+  return [...loop.segments.map(segmentText), ...loop.loops.flatMap(child => loopToText(child, delimiters))];
+}
+
+// A starting point for 834 member feeds (payroll, ben-admin)
+export const EXAMPLE_834_MAPPING: MappingDefinition = {
+  name: 'Member feed',
+  transactionType: '834',
+  description: 'One record per member with coverages',
+  recordLoop: '2000',
+  fields: [
+    { target: 'subscriberId', source: 'REF[01=0F]-02' },
+    { target: 'relationship', source: 'INS-02', transforms: [{ type: 'lookup', table: { '18': 'Employee', '01': 'Spouse', '19': 'Child' }, fallback: 'Other' }] },
+    { target: 'action', source: 'INS-03', transforms: [{ type: 'lookup', table: { '021': 'ADD', '001': 'CHANGE', '024': 'TERM', '030': 'AUDIT' } }] },
+    { target: 'name.full', source: ['2100A/NM1-04', '2100A/NM1-05', '2100A/NM1-03'] },
+    { target: 'name.last', source: '2100A/NM1-03', transforms: [{ type: 'upper' }] },
+    { target: 'ssn', source: '2100A/NM1-09', when: { source: '2100A/NM1-08', equals: '34' } },
+    { target: 'birthDate', source: '2100A/DMG-02', transforms: [{ type: 'date', format: 'MM/DD/CCYY' }] },
+    { target: 'gender', source: '2100A/DMG-03', default: 'U' },
+    { target: 'sponsor', source: '/1000A/N1-02' },
+    {
+      target: 'coverages',
+      each: '2300',
+      fields: [
+        { target: 'line', source: 'HD-03' },
+        { target: 'plan', source: 'HD-04' },
+        { target: 'tier', source: 'HD-05' },
+        { target: 'start', source: 'DTP[01=348]-03', transforms: [{ type: 'date', format: 'CCYY-MM-DD' }] },
+        { target: 'end', source: 'DTP[01=349]-03', transforms: [{ type: 'date', format: 'CCYY-MM-DD' }] }
+      ]
+    }
+  ]
+};
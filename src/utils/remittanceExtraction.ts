@@ -0,0 +1,285 @@
+import type { EDISegment } from './universalEDIParser';
+import { X12_CODE_LISTS } from './x12Dictionary';
+import { readAdjustments, type ClaimAddress, type ClaimAdjustment, type ClaimReference } from './claimExtraction';
+import { buildLoopTree, childLoops, findLoops, loopSegment, loopSegments, splitTransactionSets, type EDILoop } from './x12Loops';
+import { getComponent, getComponents } from './x12Elements';
+
+export interface RemittanceParty {
+  entityCode: string;
+  name: string;
+  idQualifier?: string;
+  id?: string;
+  address?: ClaimAddress;
+  references: ClaimReference[];
+}
+
+export interface RemittancePerson {
+  entityCode: string;
+  lastName: string;
+  firstName?: string;
+  idQualifier?: string;
+  id?: string;
+}
+
+export interface RemittanceDate {
+  qualifier: string;
+  date: string;
+}
+
+export interface RemittanceServicePayment {
+  procedureQualifier?: string;
+  procedureCode?: string;
+  modifiers: string[];
+  chargeAmount: number;
+  paidAmount: number;
+  revenueCode?: string;
+  paidUnits: number;
+  // SVC06/SVC07: the procedure and units as submitted, when the payer changed them
+  submittedProcedureCode?: string;
+  submittedUnits?: number;
+  allowedAmount?: number;
+  lineItemControlNumber?: string;
+  dates: RemittanceDate[];
+  adjustments: ClaimAdjustment[];
+}
+
+export interface RemittanceClaimPayment {
+  claimId: string;
+  statusCode: string;
+  chargeAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  claimFilingIndicator?: string;
+  payerClaimControlNumber?: string;
+  facilityCode?: string;
+  frequencyCode?: string;
+  patient?: RemittancePerson;
+  insured?: RemittancePerson;
+  renderingProvider?: RemittancePerson;
+  dates: RemittanceDate[];
+  // 2100 REFs, e.g. G1 prior authorization and 9F referral numbers
+  references: ClaimReference[];
+  adjustments: ClaimAdjustment[];
+  // Claim and line adjustments summed per CAS group code (CO, PR, OA, PI, CR)
+  adjustmentTotals: Record<string, number>;
+  serviceLines: RemittanceServicePayment[];
+}
+
+export interface ProviderAdjustment {
+  providerId: string;
+  fiscalPeriodDate: string;
+  reasonCode: string;
+  reference?: string;
+  amount: number;
+}
+
+export interface RemittanceBalance {
+  paymentAmount: number;
+  claimPaymentTotal: number;
+  providerAdjustmentTotal: number;
+  // BPR02 should equal the claim payments less provider-level adjustments
+  expectedPayment: number;
+  difference: number;
+  balanced: boolean;
+}
+
+export interface Remittance835 {
+  transactionHandlingCode: string;
+  paymentAmount: number;
+  creditDebitFlag: string;
+  paymentMethodCode: string;
+  paymentFormatCode?: string;
+  paymentDate?: string;
+  traceNumber?: string;
+  originatorId?: string;
+  payer?: RemittanceParty;
+  payee?: RemittanceParty;
+  claims: RemittanceClaimPayment[];
+  providerAdjustments: ProviderAdjustment[];
+  balance: RemittanceBalance;
+}
+
+// CLP02 claim status codes
+export const CLAIM_STATUS_CODES: Record<string, string> = X12_CODE_LISTS.claimStatus.codes;
+
+function toNumber(value: string | undefined): number {
+  return parseFloat(value || '0') || 0;
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function readParty(loop: EDILoop | undefined): RemittanceParty | undefined {
+  const n1 = loopSegment(loop, 'N1');
+  if (!n1) return undefined;
+
+  const n3 = loopSegment(loop, 'N3');
+  const n4 = loopSegment(loop, 'N4');
+
+  return {
+    entityCode: n1.elements[1] || '',
+    name: n1.elements[2] || '',
+    idQualifier: n1.elements[3] || undefined,
+    id: n1.elements[4] || undefined,
+    address: n3 || n4 ? {
+      line1: n3?.elements[1] || '',
+      line2: n3?.elements[2] || undefined,
+      city: n4?.elements[1] || '',
+      state: n4?.elements[2] || '',
+      postalCode: n4?.elements[3] || ''
+    } : undefined,
+    references: loopSegments(loop, 'REF').map(ref => ({
+      qualifier: ref.elements[1] || '',
+      value: ref.elements[2] || ''
+    }))
+  };
+}
+
+function readPerson(loop: EDILoop, qualifier: string): RemittancePerson | undefined {
+  const nm1 = loopSegment(loop, 'NM1', qualifier);
+  if (!nm1) return undefined;
+
+  return {
+    entityCode: nm1.elements[1] || '',
+    lastName: nm1.elements[3] || '',
+    firstName: nm1.elements[4] || undefined,
+    idQualifier: nm1.elements[8] || undefined,
+    id: nm1.elements[9] || undefined
+  };
+}
+
+function readDates(loop: EDILoop): RemittanceDate[] {
+  return loopSegments(loop, 'DTM').map(dtm => ({
+    qualifier: dtm.elements[1] || '',
+    date: dtm.elements[2] || ''
+  }));
+}
+
+function readServicePayment(serviceLoop: EDILoop): RemittanceServicePayment {
+  const svc = serviceLoop.segments[0];
+  const procedure = getComponents(svc, 1);
+  const allowed = loopSegment(serviceLoop, 'AMT', 'B6');
+
+  return {
+    procedureQualifier: procedure[0] || undefined,
+    procedureCode: procedure[1] || undefined,
+    modifiers: procedure.slice(2, 6).filter(Boolean),
+    chargeAmount: toNumber(svc.elements[2]),
+    paidAmount: toNumber(svc.elements[3]),
+    revenueCode: svc.elements[4] || undefined,
+    paidUnits: toNumber(svc.elements[5]) || 1,
+    submittedProcedureCode: getComponent(svc, 6, 2) || undefined,
+    submittedUnits: svc.elements[7] ? toNumber(svc.elements[7]) : undefined,
+    allowedAmount: allowed ? toNumber(allowed.elements[2]) : undefined,
+    lineItemControlNumber: loopSegment(serviceLoop, 'REF', '6R')?.elements[2] || undefined,
+    dates: readDates(serviceLoop),
+    adjustments: readAdjustments(loopSegments(serviceLoop, 'CAS'))
+  };
+}
+
+function totalByGroup(adjustments: ClaimAdjustment[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const adjustment of adjustments) {
+    totals[adjustment.groupCode] = toCents((totals[adjustment.groupCode] || 0) + adjustment.amount);
+  }
+  return totals;
+}
+
+function readClaimPayment(claimLoop: EDILoop): RemittanceClaimPayment {
+  const clp = claimLoop.segments[0];
+  const adjustments = readAdjustments(loopSegments(claimLoop, 'CAS'));
+  const serviceLines = childLoops(claimLoop, '2110').map(readServicePayment);
+
+  return {
+    claimId: clp.elements[1] || '',
+    statusCode: clp.elements[2] || '',
+    chargeAmount: toNumber(clp.elements[3]),
+    paidAmount: toNumber(clp.elements[4]),
+    patientResponsibility: toNumber(clp.elements[5]),
+    claimFilingIndicator: clp.elements[6] || undefined,
+    payerClaimControlNumber: clp.elements[7] || undefined,
+    facilityCode: clp.elements[8] || undefined,
+    frequencyCode: clp.elements[9] || undefined,
+    patient: readPerson(claimLoop, 'QC'),
+    insured: readPerson(claimLoop, 'IL'),
+    renderingProvider: readPerson(claimLoop, '82'),
+    dates: readDates(claimLoop),
+    references: loopSegments(claimLoop, 'REF').map(ref => ({
+      qualifier: ref.elements[1] || '',
+      value: ref.elements[2] || ''
+    })),
+    adjustments,
+    adjustmentTotals: totalByGroup([...adjustments, ...serviceLines.flatMap(line => line.adjustments)]),
+    serviceLines
+  };
+}
+
+// PLB repeats reason (composite reason:reference) and amount pairs after the provider and date
+function readProviderAdjustments(segments: EDISegment[]): ProviderAdjustment[] {
+  const adjustments: ProviderAdjustment[] = [];
+  for (const plb of segments) {
+    for (let position = 3; position <= 13; position += 2) {
+      const reasonCode = getComponent(plb, position, 1);
+      if (!reasonCode) continue;
+      adjustments.push({
+        providerId: plb.elements[1] || '',
+        fiscalPeriodDate: plb.elements[2] || '',
+        reasonCode,
+        reference: getComponent(plb, position, 2) || undefined,
+        amount: toNumber(plb.elements[position + 1])
+      });
+    }
+  }
+  return adjustments;
+}
+
+function balanceRemittance(paymentAmount: number, claims: RemittanceClaimPayment[], providerAdjustments: ProviderAdjustment[]): RemittanceBalance {
+  const claimPaymentTotal = toCents(claims.reduce((sum, claim) => sum + claim.paidAmount, 0));
+  const providerAdjustmentTotal = toCents(providerAdjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0));
+  const expectedPayment = toCents(claimPaymentTotal - providerAdjustmentTotal);
+  const difference = toCents(paymentAmount - expectedPayment);
+
+  return {
+    paymentAmount,
+    claimPaymentTotal,
+    providerAdjustmentTotal,
+    expectedPayment,
+    difference,
+    balanced: difference === 0
+  };
+}
+
+function readRemittance(segments: EDISegment[]): Remittance835 | null {
+  const root = buildLoopTree({ type: '835', segments });
+  const bpr = loopSegment(root, 'BPR');
+  if (!bpr) return null;
+
+  const trn = loopSegment(root, 'TRN');
+  const paymentAmount = toNumber(bpr.elements[2]);
+  const claims = findLoops(root, '2100').map(readClaimPayment);
+  const providerAdjustments = readProviderAdjustments(loopSegments(root, 'PLB'));
+
+  return {
+    transactionHandlingCode: bpr.elements[1] || '',
+    paymentAmount,
+    creditDebitFlag: bpr.elements[3] || '',
+    paymentMethodCode: bpr.elements[4] || '',
+    paymentFormatCode: bpr.elements[5] || undefined,
+    paymentDate: bpr.elements[16] || undefined,
+    traceNumber: trn?.elements[2] || undefined,
+    originatorId: trn?.elements[3] || undefined,
+    payer: readParty(childLoops(root, '1000A')[0]),
+    payee: readParty(childLoops(root, '1000B')[0]),
+    claims,
+    providerAdjustments,
+    balance: balanceRemittance(paymentAmount, claims, providerAdjustments)
+  };
+}
+
+// One remittance per ST/SE set, each with its own BPR payment and balance check
+export function extract835Remittances(transaction: { segments: EDISegment[] }): Remittance835[] {
+  return splitTransactionSets(transaction.segments)
+    .map(readRemittance)
+    .filter((remittance): remittance is Remittance835 => remittance !== null);
+}
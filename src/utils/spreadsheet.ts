@@ -0,0 +1,366 @@
+// Reading and writing the spreadsheets HR teams exchange: CSV and single-sheet XLSX.
+// Every cell is handled as text so IDs and ZIP codes keep their leading zeros.
+
+export type SpreadsheetRows = string[][];
+
+// CSV
+
+function detectSeparator(text: string): string {
+  const firstLine = text.substring(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(separator => ({ separator, count: firstLine.split(separator).length }));
+  return counts.reduce((best, current) => current.count > best.count ? current : best).separator;
+}
+
+// RFC 4180: quoted fields may hold separators, doubled quotes and line breaks
+export function parseCSV(text: string): SpreadsheetRows {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = detectSeparator(content);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// The byte order mark makes Excel read the file as UTF-8
+export function toCSV(rows: SpreadsheetRows): string {
+  return '\uFEFF' + rows.map(row => row.map(cell => csvField(cell ?? '')).join(',')).join('\r\n') + '\r\n';
+}
+
+// ZIP container (XLSX is a ZIP of XML parts)
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Entries are stored uncompressed; spreadsheet tools read that without complaint
+function writeZip(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034B50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014B50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((total, entry) => total + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054B50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054B50) end--;
+  if (end < 0) throw new Error('Not an XLSX file: ZIP directory not found');
+
+  const entries = new Map<string, string>();
+  let position = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    if (name.endsWith('.xml') || name.endsWith('.rels')) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method !== 0 && method !== 8) throw new Error(`Unsupported XLSX compression method ${method} in ${name}`);
+      entries.set(name, decoder.decode(method === 8 ? await inflateRaw(data) : data));
+    }
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// XLSX
+
+// Control characters other than tab and line breaks are not allowed in XML
+const isXMLCharacter = (character: string) => {
+  const code = character.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0A || code === 0x0D;
+};
+
+function escapeXML(value: string): string {
+  return [...value].filter(isXMLCharacter).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXML(value: string): string {
+  return value
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] || 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(tag)?.[1];
+}
+
+// Concatenated <t> runs of a shared or inline string
+function textContent(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => unescapeXML(match[1])).join('');
+}
+
+// Write rows as the first sheet of a workbook, with the first row frozen as headers
+export function toXLSX(rows: SpreadsheetRows, sheetName = 'Sheet1'): Uint8Array {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, cellIndex) => value
+      ? `<c r="${columnName(cellIndex)}${rowIndex + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`
+      : '').join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${escapeXML(sheetName.substring(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${sheetRows}</sheetData></worksheet>`
+    }
+  ]);
+}
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+// Style indexes (the s attribute of a cell) whose number format is a date
+function dateStyles(stylesXML = ''): Set<number> {
+  const customDates = new Set(
+    [...stylesXML.matchAll(/<numFmt\b[^>]*>/g)]
+      .filter(match => /[dmy]/i.test((attribute(match[0], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(match => Number(attribute(match[0], 'numFmtId')))
+  );
+  const cellXfs = /<cellXfs\b[\s\S]*?<\/cellXfs>/.exec(stylesXML)?.[0] || '';
+  const styles = new Set<number>();
+  [...cellXfs.matchAll(/<xf\b[^>]*>/g)].forEach((match, index) => {
+    const id = Number(attribute(match[0], 'numFmtId') || 0);
+    if (DATE_FORMAT_IDS.has(id) || customDates.has(id)) styles.add(index);
+  });
+  return styles;
+}
+
+// Excel stores dates as days since 1899-12-30 (or 1904-01-01)
+function serialToDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return new Date(epoch + Math.round(serial * 86400) * 1000).toISOString().substring(0, 10);
+}
+
+function resolvePath(target: string): string {
+  return target.startsWith('/') ? target.substring(1) : `xl/${target}`;
+}
+
+// Read the first sheet of a workbook. Date cells come back as YYYY-MM-DD.
+export async function readXLSX(buffer: ArrayBuffer): Promise<SpreadsheetRows> {
+  const entries = await readZip(buffer);
+  const workbook = entries.get('xl/workbook.xml') || '';
+  const relationships = entries.get('xl/_rels/workbook.xml.rels') || '';
+
+  const firstSheet = /<sheet\b[^>]*>/.exec(workbook)?.[0] || '';
+  const relationshipId = attribute(firstSheet, 'r:id');
+  const relationship = [...relationships.matchAll(/<Relationship\b[^>]*>/g)]
+    .map(match => match[0])
+    .find(tag => attribute(tag, 'Id') === relationshipId);
+  const sheet = entries.get(relationship ? resolvePath(attribute(relationship, 'Target') || '') : 'xl/worksheets/sheet1.xml');
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const sharedStrings = [...(entries.get('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => textContent(match[1]));
+  const dates = dateStyles(entries.get('xl/styles.xml'));
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbook);
+
+  const rows: SpreadsheetRows = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1;
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const type = attribute(attributes, 't');
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      const index = attribute(attributes, 'r') ? columnIndex(attribute(attributes, 'r') || '') : row.length;
+
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textContent(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined && type !== 'e') {
+        const text = unescapeXML(raw);
+        value = type !== 'str' && dates.has(Number(attribute(attributes, 's'))) && text !== ''
+          ? serialToDate(Number(text), date1904)
+          : text;
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+
+  return rows.filter(cells => cells.some(cell => cell && cell.trim() !== ''));
+}
+
+// Read a CSV or XLSX upload by its extension
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRows> {
+  if (/\.xlsx$/i.test(file.name)) return readXLSX(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error('Legacy .xls workbooks are not supported; save the sheet as .xlsx or CSV');
+  return parseCSV(await file.text());
+}
@@ -0,0 +1,522 @@
+import type { EDISegment } from './universalEDIParser';
+import { X12_CODE_LISTS } from './x12Dictionary';
+import { buildLoopTree, childLoops, loopSegment, loopSegments, splitTransactionSets, type EDILoop } from './x12Loops';
+
+export interface TradingPartyAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country?: string;
+}
+
+export interface TradingParty {
+  entityCode: string;
+  name: string;
+  idQualifier?: string;
+  id?: string;
+  address?: TradingPartyAddress;
+}
+
+export interface SupplyChainReference {
+  qualifier: string;
+  value: string;
+  description?: string;
+}
+
+export interface SupplyChainDate {
+  qualifier: string;
+  date: string;
+  time?: string;
+}
+
+export interface ProductId {
+  qualifier: string;
+  id: string;
+}
+
+export interface LineSchedule {
+  quantity: number;
+  unit: string;
+  dateQualifier: string;
+  date: string;
+}
+
+export interface PurchaseOrderLine {
+  lineNumber: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  priceBasis?: string;
+  // PO102 × PO104
+  extendedAmount: number;
+  productIds: ProductId[];
+  descriptions: string[];
+  schedules: LineSchedule[];
+  parties: TradingParty[];
+}
+
+export interface PurchaseOrder850 {
+  purposeCode: string;
+  orderType: string;
+  poNumber: string;
+  releaseNumber?: string;
+  poDate: string;
+  currency?: string;
+  references: SupplyChainReference[];
+  dates: SupplyChainDate[];
+  parties: TradingParty[];
+  lines: PurchaseOrderLine[];
+  lineCount?: number;
+  orderTotal: number;
+}
+
+export interface LineAcknowledgment {
+  statusCode: string;
+  status: string;
+  quantity?: number;
+  unit?: string;
+  dateQualifier?: string;
+  date?: string;
+  productIds: ProductId[];
+}
+
+export interface AcknowledgedLine extends PurchaseOrderLine {
+  acknowledgments: LineAcknowledgment[];
+}
+
+export interface PurchaseOrderAcknowledgment855 {
+  purposeCode: string;
+  acknowledgmentType: string;
+  poNumber: string;
+  poDate: string;
+  acknowledgmentDate?: string;
+  references: SupplyChainReference[];
+  dates: SupplyChainDate[];
+  parties: TradingParty[];
+  lines: AcknowledgedLine[];
+  // Line count per ACK01 status code
+  statusCounts: Record<string, number>;
+  lineCount?: number;
+}
+
+export type ShipmentLevelCode = 'shipment' | 'order' | 'tare' | 'pack' | 'item' | 'other';
+
+export interface ShipmentLevel {
+  id: string;
+  parentId?: string;
+  levelCode: string;
+  level: ShipmentLevelCode;
+  references: SupplyChainReference[];
+  dates: SupplyChainDate[];
+  parties: TradingParty[];
+  // Shipment level
+  packagingCode?: string;
+  ladingQuantity?: number;
+  weight?: number;
+  weightUnit?: string;
+  carrierCode?: string;
+  routing?: string;
+  // Order level
+  purchaseOrderNumber?: string;
+  purchaseOrderDate?: string;
+  // Tare/pack level
+  marks: string[];
+  // Item level
+  productIds: ProductId[];
+  shippedQuantity?: number;
+  unit?: string;
+  descriptions: string[];
+  children: ShipmentLevel[];
+}
+
+export interface ShipNotice856 {
+  purposeCode: string;
+  shipmentId: string;
+  date: string;
+  time?: string;
+  structureCode?: string;
+  hierarchy: ShipmentLevel[];
+  lineCount?: number;
+}
+
+export interface InvoiceLine {
+  lineNumber: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  extendedAmount: number;
+  productIds: ProductId[];
+  descriptions: string[];
+  allowancesCharges: AllowanceCharge[];
+}
+
+export interface AllowanceCharge {
+  indicator: 'allowance' | 'charge' | string;
+  code: string;
+  amount: number;
+  description?: string;
+}
+
+export interface InvoiceTax {
+  typeCode: string;
+  amount?: number;
+  percent?: number;
+}
+
+export interface Invoice810 {
+  invoiceDate: string;
+  invoiceNumber: string;
+  poDate?: string;
+  poNumber?: string;
+  transactionTypeCode?: string;
+  currency?: string;
+  references: SupplyChainReference[];
+  dates: SupplyChainDate[];
+  parties: TradingParty[];
+  terms?: { typeCode: string; discountPercent?: number; discountDays?: number; netDays?: number; description?: string };
+  lines: InvoiceLine[];
+  allowancesCharges: AllowanceCharge[];
+  taxes: InvoiceTax[];
+  // TDS01, with its implied two decimals applied
+  totalAmount: number;
+  lineTotal: number;
+  lineCount?: number;
+}
+
+// ACK01 line item status codes
+export const LINE_ACK_STATUS_CODES: Record<string, string> = X12_CODE_LISTS.lineItemStatus.codes;
+
+// HL03 hierarchical level codes used in ship notices
+const SHIPMENT_LEVELS: Record<string, ShipmentLevelCode> = {
+  S: 'shipment',
+  O: 'order',
+  T: 'tare',
+  P: 'pack',
+  I: 'item'
+};
+
+function toNumber(value: string | undefined): number {
+  return parseFloat(value || '0') || 0;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? toNumber(value) : undefined;
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// TDS and SAC amounts are N2: two implied decimal places
+function impliedDecimal(value: string | undefined): number {
+  return toCents(toNumber(value) / 100);
+}
+
+function readParty(loop: EDILoop): TradingParty {
+  const n1 = loop.segments[0];
+  const n3 = loopSegment(loop, 'N3');
+  const n4 = loopSegment(loop, 'N4');
+
+  return {
+    entityCode: n1.elements[1] || '',
+    name: n1.elements[2] || '',
+    idQualifier: n1.elements[3] || undefined,
+    id: n1.elements[4] || undefined,
+    address: n3 || n4 ? {
+      line1: n3?.elements[1] || '',
+      line2: n3?.elements[2] || undefined,
+      city: n4?.elements[1] || '',
+      state: n4?.elements[2] || '',
+      postalCode: n4?.elements[3] || '',
+      country: n4?.elements[4] || undefined
+    } : undefined
+  };
+}
+
+function readParties(loop: EDILoop, partyLoopId: string): TradingParty[] {
+  return childLoops(loop, partyLoopId).map(readParty);
+}
+
+function readReferences(loop: EDILoop): SupplyChainReference[] {
+  return loopSegments(loop, 'REF').map(ref => ({
+    qualifier: ref.elements[1] || '',
+    value: ref.elements[2] || '',
+    description: ref.elements[3] || undefined
+  }));
+}
+
+function readDates(loop: EDILoop): SupplyChainDate[] {
+  return loopSegments(loop, 'DTM').map(dtm => ({
+    qualifier: dtm.elements[1] || '',
+    date: dtm.elements[2] || '',
+    time: dtm.elements[3] || undefined
+  }));
+}
+
+// Product IDs come in qualifier/ID pairs starting at `position`
+function readProductIds(segment: EDISegment, position: number): ProductId[] {
+  const ids: ProductId[] = [];
+  for (let index = position; index < segment.elements.length; index += 2) {
+    const qualifier = segment.elements[index];
+    const id = segment.elements[index + 1];
+    if (qualifier && id) ids.push({ qualifier, id });
+  }
+  return ids;
+}
+
+function readDescriptions(loop: EDILoop, descriptionLoopId: string): string[] {
+  return [...loopSegments(loop, 'PID'), ...childLoops(loop, descriptionLoopId).flatMap(pidLoop => loopSegments(pidLoop, 'PID'))]
+    .map(pid => pid.elements[5] || '')
+    .filter(Boolean);
+}
+
+function readAllowanceCharge(sac: EDISegment): AllowanceCharge {
+  const indicator = sac.elements[1] || '';
+  return {
+    indicator: indicator === 'A' ? 'allowance' : indicator === 'C' ? 'charge' : indicator,
+    code: sac.elements[2] || '',
+    amount: impliedDecimal(sac.elements[5]),
+    description: sac.elements[15] || undefined
+  };
+}
+
+function readOrderLine(lineLoop: EDILoop): PurchaseOrderLine {
+  const po1 = lineLoop.segments[0];
+  const quantity = toNumber(po1.elements[2]);
+  const unitPrice = toNumber(po1.elements[4]);
+
+  return {
+    lineNumber: po1.elements[1] || '',
+    quantity,
+    unit: po1.elements[3] || '',
+    unitPrice,
+    priceBasis: po1.elements[5] || undefined,
+    extendedAmount: toCents(quantity * unitPrice),
+    productIds: readProductIds(po1, 6),
+    descriptions: readDescriptions(lineLoop, 'PO1/PID'),
+    schedules: childLoops(lineLoop, 'PO1/SCH').map(scheduleLoop => {
+      const sch = scheduleLoop.segments[0];
+      return {
+        quantity: toNumber(sch.elements[1]),
+        unit: sch.elements[2] || '',
+        dateQualifier: sch.elements[5] || '',
+        date: sch.elements[6] || ''
+      };
+    }),
+    parties: readParties(lineLoop, 'PO1/N1')
+  };
+}
+
+function lineCount(root: EDILoop): number | undefined {
+  const ctt = loopSegment(root, 'CTT');
+  return ctt ? toNumber(ctt.elements[1]) : undefined;
+}
+
+function readPurchaseOrder(segments: EDISegment[]): PurchaseOrder850 | null {
+  const root = buildLoopTree({ type: '850', segments });
+  const beg = loopSegment(root, 'BEG');
+  if (!beg) return null;
+
+  const lines = childLoops(root, 'PO1').map(readOrderLine);
+  return {
+    purposeCode: beg.elements[1] || '',
+    orderType: beg.elements[2] || '',
+    poNumber: beg.elements[3] || '',
+    releaseNumber: beg.elements[4] || undefined,
+    poDate: beg.elements[5] || '',
+    currency: loopSegment(root, 'CUR')?.elements[2] || undefined,
+    references: readReferences(root),
+    dates: readDates(root),
+    parties: readParties(root, 'N1'),
+    lines,
+    lineCount: lineCount(root),
+    orderTotal: toCents(lines.reduce((sum, line) => sum + line.extendedAmount, 0))
+  };
+}
+
+function readAcknowledgment(segments: EDISegment[]): PurchaseOrderAcknowledgment855 | null {
+  const root = buildLoopTree({ type: '855', segments });
+  const bak = loopSegment(root, 'BAK');
+  if (!bak) return null;
+
+  const statusCounts: Record<string, number> = {};
+  const lines = childLoops(root, 'PO1').map(lineLoop => {
+    const acknowledgments = childLoops(lineLoop, 'PO1/ACK').map(ackLoop => {
+      const ack = ackLoop.segments[0];
+      const statusCode = ack.elements[1] || '';
+      return {
+        statusCode,
+        status: LINE_ACK_STATUS_CODES[statusCode] || statusCode,
+        quantity: optionalNumber(ack.elements[2]),
+        unit: ack.elements[3] || undefined,
+        dateQualifier: ack.elements[4] || undefined,
+        date: ack.elements[5] || undefined,
+        productIds: readProductIds(ack, 7)
+      };
+    });
+
+    for (const acknowledgment of acknowledgments) {
+      statusCounts[acknowledgment.statusCode] = (statusCounts[acknowledgment.statusCode] || 0) + 1;
+    }
+    return { ...readOrderLine(lineLoop), acknowledgments };
+  });
+
+  return {
+    purposeCode: bak.elements[1] || '',
+    acknowledgmentType: bak.elements[2] || '',
+    poNumber: bak.elements[3] || '',
+    poDate: bak.elements[4] || '',
+    acknowledgmentDate: bak.elements[9] || undefined,
+    references: readReferences(root),
+    dates: readDates(root),
+    parties: readParties(root, 'N1'),
+    lines,
+    statusCounts,
+    lineCount: lineCount(root)
+  };
+}
+
+function readShipmentLevel(levelLoop: EDILoop): ShipmentLevel {
+  const hl = levelLoop.segments[0];
+  const levelCode = hl.elements[3] || '';
+  const td1 = loopSegment(levelLoop, 'TD1');
+  const td5 = loopSegment(levelLoop, 'TD5');
+  const prf = loopSegment(levelLoop, 'PRF');
+  const lin = loopSegment(levelLoop, 'LIN');
+  const sn1 = loopSegment(levelLoop, 'SN1');
+
+  return {
+    id: hl.elements[1] || '',
+    parentId: hl.elements[2] || undefined,
+    levelCode,
+    level: SHIPMENT_LEVELS[levelCode] || 'other',
+    references: readReferences(levelLoop),
+    dates: readDates(levelLoop),
+    parties: readParties(levelLoop, 'N1'),
+    packagingCode: td1?.elements[1] || undefined,
+    ladingQuantity: optionalNumber(td1?.elements[2]),
+    weight: optionalNumber(td1?.elements[7]),
+    weightUnit: td1?.elements[8] || undefined,
+    carrierCode: td5?.elements[3] || undefined,
+    routing: td5?.elements[5] || undefined,
+    purchaseOrderNumber: prf?.elements[1] || undefined,
+    purchaseOrderDate: prf?.elements[4] || undefined,
+    marks: loopSegments(levelLoop, 'MAN').map(man => man.elements[2] || '').filter(Boolean),
+    productIds: lin ? readProductIds(lin, 2) : [],
+    shippedQuantity: optionalNumber(sn1?.elements[2]),
+    unit: sn1?.elements[3] || undefined,
+    descriptions: readDescriptions(levelLoop, 'PID'),
+    children: []
+  };
+}
+
+// Rebuild the shipment → order → tare/pack → item tree from each HL's parent ID
+function buildShipmentHierarchy(levels: ShipmentLevel[]): ShipmentLevel[] {
+  const byId = new Map(levels.map(level => [level.id, level]));
+  const roots: ShipmentLevel[] = [];
+
+  for (const level of levels) {
+    const parent = level.parentId ? byId.get(level.parentId) : undefined;
+    if (parent && parent !== level) parent.children.push(level);
+    else roots.push(level);
+  }
+  return roots;
+}
+
+function readShipNotice(segments: EDISegment[]): ShipNotice856 | null {
+  const root = buildLoopTree({ type: '856', segments });
+  const bsn = loopSegment(root, 'BSN');
+  if (!bsn) return null;
+
+  return {
+    purposeCode: bsn.elements[1] || '',
+    shipmentId: bsn.elements[2] || '',
+    date: bsn.elements[3] || '',
+    time: bsn.elements[4] || undefined,
+    structureCode: bsn.elements[5] || undefined,
+    hierarchy: buildShipmentHierarchy(childLoops(root, 'HL').map(readShipmentLevel)),
+    lineCount: lineCount(root)
+  };
+}
+
+function readInvoice(segments: EDISegment[]): Invoice810 | null {
+  const root = buildLoopTree({ type: '810', segments });
+  const big = loopSegment(root, 'BIG');
+  if (!big) return null;
+
+  // In 810 the header ITD/DTM follow the N1 loops, so the tree files them under the last party
+  const headerArea = [root, ...childLoops(root, 'N1')];
+  const itd = headerArea.map(loop => loopSegment(loop, 'ITD')).find(Boolean);
+  const tds = loopSegment(root, 'TDS');
+  const lines: InvoiceLine[] = childLoops(root, 'IT1').map(lineLoop => {
+    const it1 = lineLoop.segments[0];
+    const quantity = toNumber(it1.elements[2]);
+    const unitPrice = toNumber(it1.elements[4]);
+    return {
+      lineNumber: it1.elements[1] || '',
+      quantity,
+      unit: it1.elements[3] || '',
+      unitPrice,
+      extendedAmount: toCents(quantity * unitPrice),
+      productIds: readProductIds(it1, 6),
+      descriptions: readDescriptions(lineLoop, 'IT1/PID'),
+      allowancesCharges: childLoops(lineLoop, 'IT1/SAC').map(sacLoop => readAllowanceCharge(sacLoop.segments[0]))
+    };
+  });
+
+  return {
+    invoiceDate: big.elements[1] || '',
+    invoiceNumber: big.elements[2] || '',
+    poDate: big.elements[3] || undefined,
+    poNumber: big.elements[4] || undefined,
+    transactionTypeCode: big.elements[7] || undefined,
+    currency: loopSegment(root, 'CUR')?.elements[2] || undefined,
+    references: readReferences(root),
+    dates: headerArea.flatMap(readDates),
+    parties: readParties(root, 'N1'),
+    terms: itd ? {
+      typeCode: itd.elements[1] || '',
+      discountPercent: optionalNumber(itd.elements[3]),
+      discountDays: optionalNumber(itd.elements[5]),
+      netDays: optionalNumber(itd.elements[7]),
+      description: itd.elements[12] || undefined
+    } : undefined,
+    lines,
+    // Summary-area SACs follow TDS; header SACs before it are not invoice-level totals
+    allowancesCharges: loopSegments(root, 'SAC')
+      .filter(sac => !tds || sac.lineNumber > tds.lineNumber)
+      .map(readAllowanceCharge),
+    taxes: loopSegments(root, 'TXI').map(txi => ({
+      typeCode: txi.elements[1] || '',
+      amount: optionalNumber(txi.elements[2]),
+      percent: optionalNumber(txi.elements[3])
+    })),
+    totalAmount: impliedDecimal(tds?.elements[1]),
+    lineTotal: toCents(lines.reduce((sum, line) => sum + line.extendedAmount, 0)),
+    lineCount: lineCount(root)
+  };
+}
+
+function extractEach<T>(transaction: { segments: EDISegment[] }, read: (segments: EDISegment[]) => T | null): T[] {
+  return splitTransactionSets(transaction.segments)
+    .map(read)
+    .filter((document): document is T => document !== null);
+}
+
+export function extract850PurchaseOrders(transaction: { segments: EDISegment[] }): PurchaseOrder850[] {
+  return extractEach(transaction, readPurchaseOrder);
+}
+
+export function extract855Acknowledgments(transaction: { segments: EDISegment[] }): PurchaseOrderAcknowledgment855[] {
+  return extractEach(transaction, readAcknowledgment);
+}
+
+export function extract856ShipNotices(transaction: { segments: EDISegment[] }): ShipNotice856[] {
+  return extractEach(transaction, readShipNotice);
+}
+
+export function extract810Invoices(transaction: { segments: EDISegment[] }): Invoice810[] {
+  return extractEach(transaction, readInvoice);
+}
@@ -1,18 +1,64 @@
-import { X12_FORMATS, PAYER_DATABASE, SEGMENT_DEFINITIONS, type X12FormatType } from './x12Formats';
+import { X12_FORMATS, PAYER_DATABASE, SEGMENT_DEFINITIONS, type PayerRequirements, type X12FormatType } from './x12Formats';
+import { EDIFACT_FORMATS, EDIFACT_SEGMENT_DEFINITIONS, type EDIFACTMessageType } from './edifactFormats';
+import { tokenizeEDI, DEFAULT_X12_DELIMITERS, type X12Delimiters } from './x12Tokenizer';
+import { buildElements, getComponent, getComponents, type EDIElement } from './x12Elements';
+import { detectLayout, serializeX12, type SerializeOptions, type X12Layout } from './x12Serializer';
+import { losslessJSONToSegments } from './losslessJSON';
+import { fieldsToElements, segmentFields } from './x12Dictionary';
+import {
+  isLosslessJSON,
+  validateConversionJSON,
+  JSONValidationError,
+  type AddressJSON,
+  type ContactJSON,
+  type DateJSON,
+  type EntityJSON,
+  type LosslessJSONDocument,
+  type Member834JSON,
+  type Payment820JSON,
+  type ReferenceJSON,
+  type TransactionSetHeaderJSON
+} from './jsonSchemas';
+import { buildLoopTree, childLoops, loopSegment, loopSegments } from './x12Loops';
+import { extract837Claims, type Claim837 } from './claimExtraction';
+import { extract835Remittances, type Remittance835 } from './remittanceExtraction';
+import { extractEligibility, type EligibilityDocument } from './eligibilityExtraction';
+import { extract278Authorization, type AuthorizationRecord } from './authorizationExtraction';
+import {
+  extract850PurchaseOrders,
+  extract855Acknowledgments,
+  extract856ShipNotices,
+  extract810Invoices,
+  type PurchaseOrder850,
+  type PurchaseOrderAcknowledgment855,
+  type ShipNotice856,
+  type Invoice810
+} from './supplyChainExtraction';
 
 export interface EDISegment {
   tag: string;
   elements: string[];
+  // Repetitions and components of each element, aligned with `elements`
+  parsedElements?: EDIElement[];
   raw: string;
+  // 1-based segment ordinal within the file
   lineNumber: number;
   definition?: string;
   isValid?: boolean;
   errors?: string[];
 }
 
+// X12 transaction set IDs and UN/EDIFACT message types share one namespace
+export type EDIFormatType = X12FormatType | EDIFACTMessageType;
+
 export interface EDITransaction {
-  type: X12FormatType | 'unknown';
+  type: EDIFormatType | 'unknown';
   segments: EDISegment[];
+  delimiters?: X12Delimiters;
+  layout?: X12Layout;
+  // Every transaction set type in the file, in order; more than one for a mixed interchange,
+  // where `type` is only the first set's
+  transactionTypes?: (EDIFormatType | 'unknown')[];
   metadata: {
     sender: string;
     receiver: string;
@@ -24,7 +70,7 @@ export interface EDITransaction {
   payer?: {
     id: string;
     name: string;
-    requirements?: any;
+    requirements?: Readonly<Record<string, PayerRequirements>>;
   };
   businessContext?: string;
   statistics: {
@@ -35,61 +81,99 @@ export interface EDITransaction {
   };
 }
 
+// Business JSON; see jsonSchemas.ts for the fields that convert back to X12
 export interface JSONConversionResult {
   header: {
-    interchangeControl: any;
-    functionalGroup: any;
-    transactionSet: any;
+    interchangeControl: Record<string, string | undefined>;
+    functionalGroup: Record<string, string | undefined>;
+    transactionSet: Partial<TransactionSetHeaderJSON>;
   };
   data: {
-    entities: any[];
-    members?: any[];
-    payments?: any[];
-    claims?: any[];
+    entities: EntityJSON[];
+    members?: Member834JSON[];
+    payments?: Payment820JSON[] | Remittance835[];
+    claims?: Claim837[];
+    eligibility?: EligibilityDocument;
+    authorization?: AuthorizationRecord;
+    purchaseOrders?: PurchaseOrder850[];
+    acknowledgments?: PurchaseOrderAcknowledgment855[];
+    shipNotices?: ShipNotice856[];
+    invoices?: Invoice810[];
   };
   metadata: {
     originalFormat: string;
     conversionTimestamp: string;
     statistics: any;
+    // Written back by convertJSONToEDI unless the caller picks others
+    delimiters?: X12Delimiters;
+    layout?: X12Layout;
   };
 }
 
-// Enhanced EDI format detection with comprehensive X12 support
-export function detectEDIFormat(content: string): X12FormatType | 'unknown' {
-  const lines = content.split(/\r?\n/);
-  
+// Enhanced EDI format detection with comprehensive X12 and EDIFACT support
+export function detectEDIFormat(content: string): EDIFormatType | 'unknown' {
+  return detectFormatFromSegments(tokenizeEDI(content).segments);
+}
+
+// Distinct ST01 (or UNH02-1) types in order of appearance
+export function readTransactionTypes(segments: EDISegment[]): (EDIFormatType | 'unknown')[] {
+  const types = segments
+    .filter(segment => segment.tag === 'ST' || segment.tag === 'UNH')
+    .map((segment): EDIFormatType | 'unknown' => {
+      const code = segment.tag === 'ST' ? segment.elements[1]?.trim() : getComponent(segment, 2, 1)?.trim();
+      if (code && (code in X12_FORMATS || code in EDIFACT_FORMATS)) return code as EDIFormatType;
+      return 'unknown';
+    });
+  return [...new Set(types)];
+}
+
+// Transaction set types of a file that mixes several (e.g. an 834 and an 820 under one ISA); empty otherwise
+export function detectMixedTypes(content: string): (EDIFormatType | 'unknown')[] {
+  const types = readTransactionTypes(tokenizeEDI(content).segments);
+  return types.length > 1 ? types : [];
+}
+
+function detectFormatFromSegments(segments: EDISegment[]): EDIFormatType | 'unknown' {
   // Look for ST segment which contains transaction type
-  for (const line of lines) {
-    const stMatch = line.match(/ST\*(\d{3})/);
-    if (stMatch) {
-      const formatCode = stMatch[1];
-      if (formatCode in X12_FORMATS) {
+  for (const segment of segments) {
+    if (segment.tag === 'ST') {
+      const formatCode = segment.elements[1]?.trim();
+      if (formatCode && formatCode in X12_FORMATS) {
         return formatCode as X12FormatType;
       }
     }
+
+    // EDIFACT carries the message type in UNH02-1 (S009)
+    if (segment.tag === 'UNH') {
+      const messageType = getComponent(segment, 2, 1)?.trim();
+      if (messageType && messageType in EDIFACT_FORMATS) {
+        return messageType as EDIFACTMessageType;
+      }
+    }
   }
   
-  // Fallback: look for format-specific patterns
-  const contentStr = content.toLowerCase();
+  // Fallback: look for format-specific segment combinations
+  const tags = new Set(segments.map(s => s.tag.toUpperCase()));
+  const has = (...required: string[]) => required.every(tag => tags.has(tag));
   
   // Healthcare patterns
-  if (contentStr.includes('bgn*') && contentStr.includes('ins*')) return '834';
-  if (contentStr.includes('bpr*') && contentStr.includes('rmr*')) return '820';
-  if (contentStr.includes('bht*') && contentStr.includes('clm*')) return '837';
-  if (contentStr.includes('bpr*') && contentStr.includes('clp*')) return '835';
-  if (contentStr.includes('bht*') && contentStr.includes('eb*')) return '271';
+  if (has('BGN', 'INS')) return '834';
+  if (has('BPR', 'RMR')) return '820';
+  if (has('BHT', 'CLM')) return '837';
+  if (has('BPR', 'CLP')) return '835';
+  if (has('BHT', 'EB')) return '271';
   
   // Supply chain patterns
-  if (contentStr.includes('beg*') && contentStr.includes('po1*')) return '850';
-  if (contentStr.includes('bak*') && contentStr.includes('ack*')) return '855';
-  if (contentStr.includes('bsn*') && contentStr.includes('td1*')) return '856';
-  if (contentStr.includes('big*') && contentStr.includes('it1*')) return '810';
+  if (has('BEG', 'PO1')) return '850';
+  if (has('BAK', 'ACK')) return '855';
+  if (has('BSN', 'TD1')) return '856';
+  if (has('BIG', 'IT1')) return '810';
   
   return 'unknown';
 }
 
 // Enhanced payer identification
-export function identifyPayer(transaction: EDITransaction): string | null {
+export function identifyPayer(transaction: Pick<EDITransaction, 'segments'>): string | null {
   const { segments } = transaction;
   
   // Check ISA segment for sender/receiver IDs
@@ -127,9 +211,18 @@ export function identifyPayer(transaction: EDITransaction): string | null {
 // Universal EDI parser with enhanced capabilities
 export function parseEDIContent(content: string): EDITransaction {
   const startTime = Date.now();
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  const { delimiters, segments } = tokenizeEDI(content);
+  return {
+    ...buildEDITransaction(segments, delimiters, startTime),
+    layout: detectLayout(content, delimiters)
+  };
+}
+
+// Annotate tokenized segments and assemble them into a transaction
+export function buildEDITransaction(tokens: EDISegment[], delimiters?: X12Delimiters, startTime = Date.now()): EDITransaction {
   const segments: EDISegment[] = [];
-  const type = detectEDIFormat(content);
+  const type = detectFormatFromSegments(tokens);
+  const edifact = tokens.some(token => token.tag === 'UNB' || token.tag === 'UNH');
   
   let metadata = {
     sender: '',
@@ -143,20 +236,17 @@ export function parseEDIContent(content: string): EDITransaction {
   let errorCount = 0;
   let warningCount = 0;
 
-  lines.forEach((line, index) => {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) return;
-
-    // Enhanced element parsing with multiple delimiter support
-    const elements = trimmedLine.split(/[\*~\^]/);
-    const tag = elements[0] || '';
+  tokens.forEach(token => {
+    const { tag, elements } = token;
     
     // Add segment definition
-    const definition = SEGMENT_DEFINITIONS[tag as keyof typeof SEGMENT_DEFINITIONS];
+    const definition = edifact
+      ? EDIFACT_SEGMENT_DEFINITIONS[tag]
+      : SEGMENT_DEFINITIONS[tag];
     
     // Basic validation
     const errors: string[] = [];
-    if (!definition && !['UNA', 'UNB', 'UNH'].includes(tag)) {
+    if (!definition) {
       errors.push(`Unknown segment type: ${tag}`);
       errorCount++;
     }
@@ -171,11 +261,18 @@ export function parseEDIContent(content: string): EDITransaction {
       metadata.testIndicator = elements[15] || '';
     }
 
+    // UNB: syntax, sender, recipient, date/time, reference, ..., test indicator (UNB11)
+    if (tag === 'UNB') {
+      metadata.sender = getComponent(token, 2) || '';
+      metadata.receiver = getComponent(token, 3) || '';
+      metadata.date = getComponents(token, 4).filter(Boolean).join(' ');
+      metadata.controlNumber = elements[5] || '';
+      metadata.version = getComponents(token, 1).filter(Boolean).join(':');
+      metadata.testIndicator = elements[11] === '1' ? 'T' : 'P';
+    }
+
     segments.push({
-      tag,
-      elements,
-      raw: trimmedLine,
-      lineNumber: index + 1,
+      ...token,
       definition,
       isValid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined
@@ -186,6 +283,8 @@ export function parseEDIContent(content: string): EDITransaction {
   const transaction: EDITransaction = {
     type,
     segments,
+    delimiters,
+    transactionTypes: readTransactionTypes(tokens),
     metadata,
     statistics: {
       totalSegments: segments.length,
@@ -204,8 +303,10 @@ export function parseEDIContent(content: string): EDITransaction {
     };
   }
 
-  if (type !== 'unknown') {
-    transaction.businessContext = X12_FORMATS[type].businessContext;
+  if (type in X12_FORMATS) {
+    transaction.businessContext = X12_FORMATS[type as X12FormatType].businessContext;
+  } else if (type in EDIFACT_FORMATS) {
+    transaction.businessContext = EDIFACT_FORMATS[type as EDIFACTMessageType].businessContext;
   }
 
   return transaction;
@@ -213,6 +314,11 @@ export function parseEDIContent(content: string): EDITransaction {
 
 // Convert EDI to JSON with business-friendly structure
 export function convertEDIToJSON(transaction: EDITransaction): JSONConversionResult {
+  // Business JSON describes one transaction type; a mixed interchange would lose the others
+  if ((transaction.transactionTypes?.length || 0) > 1) {
+    throw new Error(`The file mixes ${transaction.transactionTypes!.join(', ')} transaction sets; split it or convert to lossless JSON`);
+  }
+
   const result: JSONConversionResult = {
     header: {
       interchangeControl: {},
@@ -228,67 +334,117 @@ export function convertEDIToJSON(transaction: EDITransaction): JSONConversionRes
     metadata: {
       originalFormat: transaction.type,
       conversionTimestamp: new Date().toISOString(),
-      statistics: transaction.statistics
+      statistics: transaction.statistics,
+      delimiters: transaction.delimiters,
+      layout: transaction.layout
     }
   };
 
   // Parse header information
   const isaSegment = transaction.segments.find(s => s.tag === 'ISA');
   if (isaSegment) {
-    result.header.interchangeControl = {
-      authorizationQualifier: isaSegment.elements[1],
-      authorizationInformation: isaSegment.elements[2],
-      securityQualifier: isaSegment.elements[3],
-      securityInformation: isaSegment.elements[4],
-      senderQualifier: isaSegment.elements[5],
-      senderId: isaSegment.elements[6],
-      receiverQualifier: isaSegment.elements[7],
-      receiverId: isaSegment.elements[8],
-      interchangeDate: isaSegment.elements[9],
-      interchangeTime: isaSegment.elements[10],
-      controlStandards: isaSegment.elements[11],
-      controlVersion: isaSegment.elements[12],
-      controlNumber: isaSegment.elements[13],
-      acknowledgmentRequested: isaSegment.elements[14],
-      testIndicator: isaSegment.elements[15]
-    };
+    result.header.interchangeControl = segmentFields(isaSegment);
   }
 
   const gsSegment = transaction.segments.find(s => s.tag === 'GS');
   if (gsSegment) {
-    result.header.functionalGroup = {
-      functionalCode: gsSegment.elements[1],
-      applicationSender: gsSegment.elements[2],
-      applicationReceiver: gsSegment.elements[3],
-      date: gsSegment.elements[4],
-      time: gsSegment.elements[5],
-      groupControlNumber: gsSegment.elements[6],
-      responsibleAgency: gsSegment.elements[7],
-      version: gsSegment.elements[8]
-    };
+    result.header.functionalGroup = segmentFields(gsSegment);
   }
 
   const stSegment = transaction.segments.find(s => s.tag === 'ST');
   if (stSegment) {
+    result.header.transactionSet = segmentFields(stSegment);
+  }
+
+  // 834 heading: BGN and the REF/DTP that precede the sponsor and payer loops
+  if (transaction.type === '834') {
+    const root = buildLoopTree(transaction);
+    const bgn = loopSegment(root, 'BGN');
+    if (bgn) {
+      result.header.transactionSet.beginningSegment = segmentFields(bgn);
+    }
+    result.header.transactionSet.references = loopSegments(root, 'REF').map(extractReference);
+    result.header.transactionSet.dates = loopSegments(root, 'DTP').map(extractDate);
+  }
+
+  // EDIFACT envelopes map onto the same three header levels
+  const unbSegment = transaction.segments.find(s => s.tag === 'UNB');
+  if (unbSegment) {
+    result.header.interchangeControl = {
+      syntaxIdentifier: getComponent(unbSegment, 1, 1),
+      syntaxVersion: getComponent(unbSegment, 1, 2),
+      senderId: getComponent(unbSegment, 2, 1),
+      senderQualifier: getComponent(unbSegment, 2, 2),
+      receiverId: getComponent(unbSegment, 3, 1),
+      receiverQualifier: getComponent(unbSegment, 3, 2),
+      interchangeDate: getComponent(unbSegment, 4, 1),
+      interchangeTime: getComponent(unbSegment, 4, 2),
+      controlNumber: unbSegment.elements[5],
+      applicationReference: unbSegment.elements[7],
+      acknowledgmentRequested: unbSegment.elements[9],
+      testIndicator: unbSegment.elements[11]
+    };
+  }
+
+  const ungSegment = transaction.segments.find(s => s.tag === 'UNG');
+  if (ungSegment) {
+    result.header.functionalGroup = {
+      messageGroupIdentification: ungSegment.elements[1],
+      applicationSender: getComponent(ungSegment, 2, 1),
+      applicationReceiver: getComponent(ungSegment, 3, 1),
+      date: getComponent(ungSegment, 4, 1),
+      time: getComponent(ungSegment, 4, 2),
+      groupControlNumber: ungSegment.elements[5],
+      responsibleAgency: ungSegment.elements[6],
+      version: getComponents(ungSegment, 7).filter(Boolean).join(':')
+    };
+  }
+
+  const unhSegment = transaction.segments.find(s => s.tag === 'UNH');
+  if (unhSegment) {
+    const [messageType, version, release, agency, associationCode] = getComponents(unhSegment, 2);
     result.header.transactionSet = {
-      transactionSetIdentifier: stSegment.elements[1],
-      transactionSetControlNumber: stSegment.elements[2]
+      messageReferenceNumber: unhSegment.elements[1],
+      messageType,
+      version,
+      release,
+      controllingAgency: agency,
+      associationAssignedCode: associationCode
     };
   }
 
   // Format-specific data extraction
   switch (transaction.type) {
     case '834':
-      result.data.members = extract834Members(transaction.segments);
+      result.data.members = extract834Members(transaction);
       break;
     case '820':
       result.data.payments = extract820Payments(transaction.segments);
       break;
     case '837':
-      result.data.claims = extract837Claims(transaction.segments);
+      result.data.claims = extract837Claims(transaction);
       break;
     case '835':
-      result.data.payments = extract835Payments(transaction.segments);
+      result.data.payments = extract835Remittances(transaction);
+      break;
+    case '270':
+    case '271':
+      result.data.eligibility = extractEligibility(transaction);
+      break;
+    case '278':
+      result.data.authorization = extract278Authorization(transaction);
+      break;
+    case '850':
+      result.data.purchaseOrders = extract850PurchaseOrders(transaction);
+      break;
+    case '855':
+      result.data.acknowledgments = extract855Acknowledgments(transaction);
+      break;
+    case '856':
+      result.data.shipNotices = extract856ShipNotices(transaction);
+      break;
+    case '810':
+      result.data.invoices = extract810Invoices(transaction);
       break;
   }
 
@@ -298,97 +454,101 @@ export function convertEDIToJSON(transaction: EDITransaction): JSONConversionRes
   return result;
 }
 
+// INS and HD elements carried on members and their coverages; field names come from the X12 dictionary
+type MemberLevelField = 'memberLevelCode' | 'relationshipCode' | 'maintenanceTypeCode' | 'maintenanceReasonCode' | 'benefitStatusCode' | 'employmentStatusCode';
+type CoverageField = 'maintenanceTypeCode' | 'maintenanceReasonCode' | 'insuranceLineCode' | 'planCoverageDescription' | 'coverageLevelCode';
+
 // Helper functions for specific format extraction
-function extract834Members(segments: EDISegment[]): any[] {
-  const members: any[] = [];
-  let currentMember: any = null;
+export function extract834Members(transaction: EDITransaction): Member834JSON[] {
+  const root = buildLoopTree(transaction);
+
+  return childLoops(root, '2000').map(memberLoop => {
+    const ins = memberLoop.segments[0];
+    const nameLoop = childLoops(memberLoop, '2100A')[0];
+    const nm1 = loopSegment(nameLoop, 'NM1');
+    const dmg = loopSegment(nameLoop, 'DMG');
+    const per = loopSegment(nameLoop, 'PER');
+    const n3 = loopSegment(nameLoop, 'N3');
+    const n4 = loopSegment(nameLoop, 'N4');
+
+    const member: Member834JSON = {
+      ...segmentFields<Pick<Member834JSON, MemberLevelField>>(ins),
+      demographics: {},
+      healthCoverage: [],
+      references: loopSegments(memberLoop, 'REF').map(extractReference),
+      dates: loopSegments(memberLoop, 'DTP').map(extractDate)
+    };
 
-  for (const segment of segments) {
-    switch (segment.tag) {
-      case 'INS':
-        if (currentMember) members.push(currentMember);
-        currentMember = {
-          memberLevelCode: segment.elements[1],
-          relationshipCode: segment.elements[2],
-          maintenanceTypeCode: segment.elements[3],
-          maintenanceReasonCode: segment.elements[4],
-          benefitStatusCode: segment.elements[5],
-          demographics: {},
-          healthCoverage: [],
-          dates: []
-        };
-        break;
-      case 'NM1':
-        if (currentMember && segment.elements[1] === 'IL') {
-          currentMember.name = {
-            qualifier: segment.elements[1],
-            lastName: segment.elements[3],
-            firstName: segment.elements[4],
-            middleName: segment.elements[5],
-            suffix: segment.elements[7],
-            idQualifier: segment.elements[8],
-            id: segment.elements[9]
-          };
-        }
-        break;
-      case 'DMG':
-        if (currentMember) {
-          currentMember.demographics = {
-            dateQualifier: segment.elements[1],
-            birthDate: segment.elements[2],
-            genderCode: segment.elements[3],
-            maritalStatus: segment.elements[4],
-            raceEthnicity: segment.elements[5]
-          };
-        }
-        break;
-      case 'HD':
-        if (currentMember) {
-          currentMember.healthCoverage.push({
-            maintenanceTypeCode: segment.elements[1],
-            maintenanceReasonCode: segment.elements[2],
-            insuranceLineCode: segment.elements[3],
-            planCoverageDescription: segment.elements[4],
-            coverageLevelCode: segment.elements[5]
-          });
-        }
-        break;
+    if (per) member.contact = extractContact(per);
+    if (n3 || n4) member.address = extractAddress(n3, n4);
+
+    if (nm1) {
+      member.name = segmentFields<Member834JSON['name']>(nm1);
+    }
+
+    if (dmg) {
+      member.demographics = segmentFields<Member834JSON['demographics']>(dmg);
     }
-  }
 
-  if (currentMember) members.push(currentMember);
-  return members;
+    for (const coverageLoop of childLoops(memberLoop, '2300')) {
+      for (const hd of loopSegments(coverageLoop, 'HD')) {
+        member.healthCoverage.push({
+          ...segmentFields<Pick<Member834JSON['healthCoverage'][number], CoverageField>>(hd),
+          dates: loopSegments(coverageLoop, 'DTP').map(extractDate),
+          references: loopSegments(coverageLoop, 'REF').map(extractReference)
+        });
+      }
+    }
+
+    return member;
+  });
 }
 
-function extract820Payments(segments: EDISegment[]): any[] {
-  const payments: any[] = [];
-  let currentPayment: any = null;
+type RemittanceEntity = NonNullable<Payment820JSON['remittanceDetails'][number]['entity']>;
+
+function extract820Payments(segments: EDISegment[]): Payment820JSON[] {
+  const payments: Payment820JSON[] = [];
+  let currentPayment: Payment820JSON | null = null;
+  let currentEntity: RemittanceEntity | undefined;
 
   for (const segment of segments) {
     switch (segment.tag) {
       case 'BPR':
         if (currentPayment) payments.push(currentPayment);
+        currentEntity = undefined;
+        // Field names come from the dictionary's BPR definition
         currentPayment = {
-          transactionHandlingCode: segment.elements[1],
+          ...segmentFields<Payment820JSON>(segment),
           monetaryAmount: parseFloat(segment.elements[2] || '0'),
-          creditDebitFlag: segment.elements[3],
-          paymentMethodCode: segment.elements[4],
-          paymentFormatCode: segment.elements[5],
-          originatingCompanyId: segment.elements[7],
-          originatingCompanySupplementalCode: segment.elements[8],
-          receivingCompanyId: segment.elements[10],
-          receivingCompanySupplementalCode: segment.elements[11],
-          effectiveEntryDate: segment.elements[16],
           remittanceDetails: []
         };
         break;
+      case 'ENT':
+        currentEntity = {
+          assignedNumber: segment.elements[1],
+          entityIdentifierCode: segment.elements[2],
+          idQualifier: segment.elements[3],
+          id: segment.elements[4]
+        };
+        break;
+      case 'TRN':
+        if (currentPayment && !currentPayment.trace) {
+          currentPayment.trace = {
+            traceTypeCode: segment.elements[1],
+            referenceId: segment.elements[2],
+            originatingCompanyId: segment.elements[3]
+          };
+        }
+        break;
       case 'RMR':
         if (currentPayment) {
           currentPayment.remittanceDetails.push({
             referenceQualifier: segment.elements[1],
             memberGroupNumber: segment.elements[2],
-            remittanceAmount: parseFloat(segment.elements[3] || '0'),
-            adjustmentAmount: parseFloat(segment.elements[4] || '0')
+            paymentActionCode: segment.elements[3],
+            remittanceAmount: parseFloat(segment.elements[4] || '0'),
+            billedAmount: segment.elements[5] ? parseFloat(segment.elements[5]) : undefined,
+            entity: currentEntity
           });
         }
         break;
@@ -399,118 +559,240 @@ function extract820Payments(segments: EDISegment[]): any[] {
   return payments;
 }
 
-function extract837Claims(segments: EDISegment[]): any[] {
-  // Implementation for claim extraction
-  return [];
-}
-
-function extract835Payments(segments: EDISegment[]): any[] {
-  // Implementation for payment advice extraction
-  return [];
-}
+// Segments that continue an N1 loop with its address and contacts
+const ENTITY_DETAIL_TAGS = new Set(['N2', 'N3', 'N4', 'PER', 'REF']);
 
-function extractEntities(segments: EDISegment[]): any[] {
-  const entities: any[] = [];
+function extractEntities(segments: EDISegment[]): EntityJSON[] {
+  const entities: EntityJSON[] = [];
+  let current: EntityJSON | null = null;
+  let n3: EDISegment | undefined;
 
   for (const segment of segments) {
     if (segment.tag === 'N1') {
-      const entity = {
-        entityQualifier: segment.elements[1],
-        entityName: segment.elements[2],
-        idQualifier: segment.elements[3],
-        id: segment.elements[4],
-        address: null as any,
-        contacts: [] as any[]
+      current = {
+        ...segmentFields<Pick<EntityJSON, 'entityQualifier' | 'entityName' | 'idQualifier' | 'id'>>(segment),
+        address: null,
+        contacts: []
       };
-
-      entities.push(entity);
+      n3 = undefined;
+
+      entities.push(current);
+    } else if (!current || !ENTITY_DETAIL_TAGS.has(segment.tag)) {
+      current = null;
+    } else if (segment.tag === 'N3') {
+      n3 = segment;
+      current.address = extractAddress(n3);
+    } else if (segment.tag === 'N4') {
+      current.address = extractAddress(n3, segment);
+    } else if (segment.tag === 'PER') {
+      current.contacts?.push(extractContact(segment));
     }
   }
 
   return entities;
 }
 
-// Convert JSON back to EDI
-export function convertJSONToEDI(jsonData: JSONConversionResult): string {
-  const lines: string[] = [];
+function extractReference(segment: EDISegment): ReferenceJSON {
+  return segmentFields<ReferenceJSON>(segment);
+}
 
-  // Reconstruct ISA
-  const isa = jsonData.header.interchangeControl;
-  if (isa) {
-    lines.push(`ISA*${isa.authorizationQualifier || '00'}*${isa.authorizationInformation || '          '}*${isa.securityQualifier || '00'}*${isa.securityInformation || '          '}*${isa.senderQualifier || 'ZZ'}*${(isa.senderId || '').padEnd(15)}*${isa.receiverQualifier || 'ZZ'}*${(isa.receiverId || '').padEnd(15)}*${isa.interchangeDate || ''}*${isa.interchangeTime || ''}*U*${isa.controlVersion || '00501'}*${isa.controlNumber || '000000001'}*${isa.acknowledgmentRequested || '0'}*${isa.testIndicator || 'P'}*>`);
-  }
+function extractDate(segment: EDISegment): DateJSON {
+  return segmentFields<DateJSON>(segment);
+}
 
-  // Reconstruct GS
-  const gs = jsonData.header.functionalGroup;
-  if (gs) {
-    lines.push(`GS*${gs.functionalCode || 'BE'}*${gs.applicationSender || ''}*${gs.applicationReceiver || ''}*${gs.date || ''}*${gs.time || ''}*${gs.groupControlNumber || '1'}*${gs.responsibleAgency || 'X'}*${gs.version || '005010X220A1'}~`);
+function extractAddress(n3?: EDISegment, n4?: EDISegment): AddressJSON {
+  return {
+    ...segmentFields<AddressJSON>(n3 || { tag: 'N3', elements: [] }),
+    ...segmentFields<AddressJSON>(n4 || { tag: 'N4', elements: [] })
+  };
+}
+
+// PER carries up to three qualifier/number pairs
+function extractContact(segment: EDISegment): ContactJSON {
+  const communications: { qualifier: string; number: string }[] = [];
+  for (let position = 3; position < segment.elements.length; position += 2) {
+    if (segment.elements[position]) {
+      communications.push({ qualifier: segment.elements[position], number: segment.elements[position + 1] || '' });
+    }
   }
+  return { functionCode: segment.elements[1], name: segment.elements[2], communications };
+}
 
-  // Reconstruct ST
-  const st = jsonData.header.transactionSet;
-  if (st) {
-    lines.push(`ST*${st.transactionSetIdentifier || '834'}*${st.transactionSetControlNumber || '0001'}~`);
+// Convert JSON back to EDI. Either mode is validated against its schema first and
+// rejected with path-level issues rather than filled in with defaults. Delimiters and
+// line style come from the original file unless `options` picks others; SE01, GE01
+// and IEA01 are counted from the output.
+export function convertJSONToEDI(jsonData: JSONConversionResult | LosslessJSONDocument, options: SerializeOptions = {}): string {
+  const issues = validateConversionJSON(jsonData);
+  if (issues.length) throw new JSONValidationError(issues);
+
+  if (isLosslessJSON(jsonData)) {
+    const lossless = jsonData as LosslessJSONDocument;
+    return serializeX12(
+      { segments: losslessJSONToSegments(lossless), delimiters: lossless.delimiters as X12Delimiters, layout: lossless.layout },
+      options
+    );
   }
 
+  const business = jsonData as JSONConversionResult;
+  const delimiters = business.metadata.delimiters || DEFAULT_X12_DELIMITERS;
+  const { interchangeControl: isa, functionalGroup: gs, transactionSet: st } = business.header;
+  const rows: string[][] = [];
+
+  // ISA fields are fixed width; ISA11 and ISA16 follow the delimiters
+  rows.push([
+    'ISA',
+    isa.authorizationQualifier,
+    fixedWidth(isa.authorizationInformation, 10),
+    isa.securityQualifier,
+    fixedWidth(isa.securityInformation, 10),
+    isa.senderQualifier,
+    fixedWidth(isa.senderId, 15),
+    isa.receiverQualifier,
+    fixedWidth(isa.receiverId, 15),
+    isa.interchangeDate,
+    isa.interchangeTime,
+    isa.controlStandards || delimiters.repetition || 'U',
+    isa.controlVersion,
+    isa.controlNumber,
+    isa.acknowledgmentRequested,
+    isa.testIndicator,
+    delimiters.component
+  ]);
+  rows.push(fieldsToElements('GS', gs));
+  rows.push(fieldsToElements('ST', st));
+
   // Add format-specific segments based on original format
-  switch (jsonData.metadata.originalFormat) {
+  switch (business.metadata.originalFormat) {
     case '834':
-      lines.push(...reconstruct834Segments(jsonData.data.members || []));
+      rows.push(...reconstruct834Segments(st, business.data.entities, business.data.members || []));
       break;
     case '820':
-      lines.push(...reconstruct820Segments(jsonData.data.payments || []));
+      rows.push(...reconstruct820Segments((business.data.payments || []) as Payment820JSON[], business.data.entities));
       break;
   }
 
-  // Add trailers
-  lines.push(`SE*${lines.length + 1}*${st?.transactionSetControlNumber || '0001'}~`);
-  lines.push(`GE*1*${gs?.groupControlNumber || '1'}~`);
-  lines.push(`IEA*1*${isa?.controlNumber || '000000001'}~`);
+  // Add trailers; the serializer fills in the counts
+  rows.push(['SE', '', st.transactionSetControlNumber]);
+  rows.push(['GE', '', gs.groupControlNumber]);
+  rows.push(['IEA', '', isa.controlNumber]);
+
+  const segments = rows.map((elements, index) => {
+    const trimmed = trimTrailingElements(elements);
+    return {
+      tag: trimmed[0],
+      elements: trimmed,
+      parsedElements: buildElements(trimmed[0], trimmed, delimiters),
+      raw: trimmed.join(delimiters.element),
+      lineNumber: index + 1
+    };
+  });
+
+  return serializeX12({ segments, delimiters, layout: business.metadata.layout }, options);
+}
 
-  return lines.join('\n');
+function fixedWidth(value: string | undefined, width: number): string {
+  return (value || '').padEnd(width).substring(0, width);
 }
 
-function reconstruct834Segments(members: any[]): string[] {
-  const lines: string[] = [];
-  
-  // Add BGN segment
-  lines.push('BGN*00*ABC123*20241208*1200*ET*Original~');
-  
+// X12 omits empty elements at the end of a segment; the ISA is fixed and keeps all of them
+function trimTrailingElements(elements: string[]): string[] {
+  if (elements[0] === 'ISA') return elements;
+  const trimmed = elements.map(element => element ?? '');
+  while (trimmed.length > 1 && trimmed[trimmed.length - 1] === '') trimmed.pop();
+  return trimmed;
+}
+
+function referenceRows(references: ReferenceJSON[] = []): string[][] {
+  return references.map(reference => fieldsToElements('REF', reference));
+}
+
+function dateRows(dates: DateJSON[] = []): string[][] {
+  return dates.map(date => fieldsToElements('DTP', date));
+}
+
+function addressRows(address?: AddressJSON | null): string[][] {
+  if (!address) return [];
+  const rows: string[][] = [];
+  if (address.line1 || address.line2) rows.push(fieldsToElements('N3', address));
+  if (address.city || address.state || address.postalCode) rows.push(fieldsToElements('N4', address));
+  return rows;
+}
+
+function contactRow(contact: ContactJSON): string[] {
+  const communications = (contact.communications || []).flatMap(item => [item.qualifier || '', item.number || '']);
+  return ['PER', contact.functionCode, contact.name || '', ...communications];
+}
+
+function entityRows(entities: EntityJSON[] = []): string[][] {
+  return entities.flatMap(entity => [
+    fieldsToElements('N1', entity),
+    ...addressRows(entity.address),
+    ...(entity.contacts || []).map(contactRow)
+  ]);
+}
+
+function reconstruct834Segments(transactionSet: Partial<TransactionSetHeaderJSON>, entities: EntityJSON[], members: Member834JSON[]): string[][] {
+  const rows: string[][] = [];
+  const bgn = transactionSet.beginningSegment;
+
+  // Heading: BGN, REF, DTP, then the sponsor/payer/broker N1 loops
+  rows.push(fieldsToElements('BGN', bgn));
+  rows.push(...referenceRows(transactionSet.references));
+  rows.push(...dateRows(transactionSet.dates));
+  rows.push(...entityRows(entities));
+
   for (const member of members) {
-    // INS segment
-    lines.push(`INS*${member.memberLevelCode || 'Y'}*${member.relationshipCode || '18'}*${member.maintenanceTypeCode || '030'}*${member.maintenanceReasonCode || 'AI'}*${member.benefitStatusCode || 'A'}***AC~`);
-    
-    // NM1 segment
+    rows.push(fieldsToElements('INS', member));
+    rows.push(...referenceRows(member.references));
+    rows.push(...dateRows(member.dates));
+
     if (member.name) {
-      lines.push(`NM1*IL*1*${member.name.lastName || ''}*${member.name.firstName || ''}*${member.name.middleName || ''}**34*${member.name.id || ''}~`);
+      rows.push(fieldsToElements('NM1', member.name));
     }
-    
-    // DMG segment
-    if (member.demographics) {
-      lines.push(`DMG*D8*${member.demographics.birthDate || ''}*${member.demographics.genderCode || ''}~`);
+    if (member.contact) rows.push(contactRow(member.contact));
+    rows.push(...addressRows(member.address));
+
+    const demographics = member.demographics || {};
+    if (demographics.birthDate || demographics.genderCode) {
+      rows.push(fieldsToElements('DMG', demographics));
     }
-    
-    // HD segments
+
     for (const coverage of member.healthCoverage || []) {
-      lines.push(`HD*${coverage.maintenanceTypeCode || '030'}**${coverage.insuranceLineCode || 'HLT'}*${coverage.planCoverageDescription || ''}*${coverage.coverageLevelCode || 'EMP'}~`);
+      rows.push(fieldsToElements('HD', coverage));
+      rows.push(...dateRows(coverage.dates));
+      rows.push(...referenceRows(coverage.references));
     }
   }
-  
-  return lines;
+
+  return rows;
 }
 
-function reconstruct820Segments(payments: any[]): string[] {
-  const lines: string[] = [];
-  
-  for (const payment of payments) {
-    // BPR segment
-    lines.push(`BPR*${payment.transactionHandlingCode || 'I'}*${payment.monetaryAmount || '0'}*${payment.creditDebitFlag || 'C'}*${payment.paymentMethodCode || 'ACH'}*${payment.paymentFormatCode || 'CCP'}**${payment.originatingCompanyId || ''}*${payment.originatingCompanySupplementalCode || ''}**${payment.receivingCompanyId || ''}*${payment.receivingCompanySupplementalCode || ''}*****${payment.effectiveEntryDate || ''}~`);
-    
-    // RMR segments
+// Payment formats (and most payers) expect amounts with two decimals, e.g. 1500.00
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+function reconstruct820Segments(payments: Payment820JSON[], entities: EntityJSON[]): string[][] {
+  const rows: string[][] = [];
+
+  payments.forEach((payment, index) => {
+    rows.push(fieldsToElements('BPR', { ...payment, monetaryAmount: formatAmount(payment.monetaryAmount) }));
+    if (payment.trace) {
+      rows.push(['TRN', payment.trace.traceTypeCode, payment.trace.referenceId, payment.trace.originatingCompanyId || '']);
+    }
+
+    // Premium receiver and payer loops follow the first payment's heading
+    if (index === 0) rows.push(...entityRows(entities));
+
+    // An ENT opens each remittance detail loop; consecutive RMRs for the same entity share it
+    let entity: RemittanceEntity | undefined;
     for (const remittance of payment.remittanceDetails || []) {
-      lines.push(`RMR*${remittance.referenceQualifier || 'PO'}*${remittance.memberGroupNumber || ''}*${remittance.remittanceAmount || '0'}*${remittance.adjustmentAmount || '0'}~`);
+      if (remittance.entity && JSON.stringify(remittance.entity) !== JSON.stringify(entity)) {
+        rows.push(['ENT', remittance.entity.assignedNumber, remittance.entity.entityIdentifierCode || '', remittance.entity.idQualifier || '', remittance.entity.id || '']);
+      }
+      entity = remittance.entity;
+      rows.push(['RMR', remittance.referenceQualifier, remittance.memberGroupNumber, remittance.paymentActionCode || '', formatAmount(remittance.remittanceAmount), remittance.billedAmount === undefined ? '' : formatAmount(remittance.billedAmount)]);
     }
-  }
-  
-  return lines;
-}
\ No newline at end of file
+  });
+
+  return rows;
+}
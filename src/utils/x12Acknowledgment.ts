@@ -0,0 +1,539 @@
+import type { EDISegment } from './universalEDIParser';
+import type { EDIError, ValidationResult } from './ediValidator';
+import { parseEDIDocument, type EDIFunctionalGroup, type EDIInterchange, type EDITransactionSet } from './x12Envelope';
+import { buildLoopTree, type EDILoop } from './x12Loops';
+import { X12_CODE_LISTS } from './x12Dictionary';
+import { DEFAULT_X12_DELIMITERS, tokenizeX12, type X12Delimiters } from './x12Tokenizer';
+
+export const ACKNOWLEDGMENT_VERSION = '005010X231A1';
+
+export type TA1AcknowledgmentCode = 'A' | 'E' | 'R';
+export type SetAcknowledgmentCode = 'A' | 'E' | 'R';
+export type GroupAcknowledgmentCode = 'A' | 'E' | 'P' | 'R';
+
+export interface TA1Acknowledgment {
+  controlNumber: string;
+  date: string;
+  time: string;
+  acknowledgmentCode: TA1AcknowledgmentCode;
+  noteCode: string;
+}
+
+export interface ElementError {
+  position: number;
+  code: string;
+  badValue?: string;
+}
+
+export interface SegmentError {
+  tag: string;
+  // Position within the transaction set, ST = 1
+  position: number;
+  loopId?: string;
+  code?: string;
+  elements: ElementError[];
+  messages: string[];
+}
+
+export interface SetAcknowledgment {
+  transactionType: string;
+  controlNumber: string;
+  implementationReference?: string;
+  status: SetAcknowledgmentCode;
+  syntaxErrorCodes: string[];
+  segmentErrors: SegmentError[];
+}
+
+export interface GroupAcknowledgment {
+  functionalCode: string;
+  controlNumber: string;
+  version: string;
+  status: GroupAcknowledgmentCode;
+  included: number;
+  received: number;
+  accepted: number;
+  syntaxErrorCodes: string[];
+  sets: SetAcknowledgment[];
+}
+
+export interface InterchangeAcknowledgment {
+  interchangeControlNumber: string;
+  ta1?: TA1Acknowledgment;
+  groups: GroupAcknowledgment[];
+  // Outbound ISA..IEA holding the TA1 (when produced) and one 999 per acknowledged group
+  content: string;
+}
+
+// Acknowledgments received from a partner, as read back by readAcknowledgments
+export interface ReceivedTA1 {
+  interchangeControlNumber: string;
+  date: string;
+  time: string;
+  acknowledgmentCode: 'A' | 'E' | 'R';
+  noteCode: string;
+}
+
+export interface ReceivedSegmentError {
+  tag: string;
+  position: number;
+  loopId?: string;
+  code: string;
+  elements: { position: string; code: string; badValue?: string }[];
+}
+
+export interface ReceivedSetAcknowledgment {
+  transactionType: string;
+  controlNumber: string;
+  // IK501: A accepted, E accepted with errors, anything else rejected
+  status: string;
+  syntaxErrorCodes: string[];
+  errors: ReceivedSegmentError[];
+}
+
+export interface ReceivedGroupAcknowledgment {
+  functionalCode: string;
+  groupControlNumber: string;
+  version: string;
+  status: string;
+  included: number;
+  received: number;
+  accepted: number;
+  sets: ReceivedSetAcknowledgment[];
+}
+
+export interface ReceivedAcknowledgments {
+  ta1s: ReceivedTA1[];
+  groups: ReceivedGroupAcknowledgment[];
+}
+
+export interface AcknowledgmentOptions {
+  // ISA13/GS06 of the outbound acknowledgment
+  controlNumber?: number;
+  date?: Date;
+  // Produce a TA1 even when ISA14 does not request one and the interchange is clean
+  alwaysTA1?: boolean;
+}
+
+// TA105 interchange note codes
+export const TA1_NOTE_CODES: Record<string, string> = X12_CODE_LISTS.interchangeNote.codes;
+
+// IK304 segment syntax error codes
+export const SEGMENT_ERROR_CODES: Record<string, string> = X12_CODE_LISTS.segmentSyntaxError.codes;
+
+// IK403 data element syntax error codes
+export const ELEMENT_ERROR_CODES: Record<string, string> = X12_CODE_LISTS.elementSyntaxError.codes;
+
+// IK502 / AK905 transaction set and group syntax error codes
+export const SET_ERROR_CODES: Record<string, string> = X12_CODE_LISTS.setSyntaxError.codes;
+
+export const GROUP_ERROR_CODES: Record<string, string> = X12_CODE_LISTS.groupSyntaxError.codes;
+
+type ErrorLevel = 'interchange' | 'set' | 'segment' | 'element';
+
+interface ErrorMapping {
+  level: ErrorLevel;
+  code: string;
+  element?: number;
+}
+
+// Validator error IDs (without their trailing segment ordinal) and where they land in a TA1/999
+const ERROR_MAPPINGS: Record<string, ErrorMapping> = {
+  'isa-not-first': { level: 'interchange', code: '024' },
+  'iea-not-last': { level: 'interchange', code: '023' },
+  'control-number-mismatch': { level: 'interchange', code: '001' },
+  'isa-insufficient-elements': { level: 'interchange', code: '024' },
+  'isa-invalid-date': { level: 'interchange', code: '014' },
+  'dtp-invalid-date': { level: 'element', code: '8', element: 3 },
+  'dmg-invalid-birthdate': { level: 'element', code: '8', element: 2 },
+  'bpr-invalid-amount': { level: 'element', code: '6', element: 2 },
+  'orphaned-nm1': { level: 'segment', code: '2' },
+  'missing-member-name': { level: 'segment', code: 'I6' },
+  'missing-bpr': { level: 'segment', code: '3' },
+  // Set-level findings land in IK502 and, through the rejected set, in AK9
+  'duplicate-st-control-number': { level: 'set', code: '23' },
+  'functional-identifier-mismatch': { level: 'set', code: '6' }
+};
+
+// Envelope segments are checked directly against the parsed envelope instead
+const ENVELOPE_TAGS = new Set(['ISA', 'IEA', 'GS', 'GE', 'ST', 'SE']);
+
+// Dictionary element checks (element-<kind>-<position>-<line>) and their IK403 codes
+const ELEMENT_ERROR_KINDS: Record<string, string> = {
+  'required': '1',
+  'too-many': '3',
+  'too-short': '4',
+  'too-long': '5',
+  'invalid-character': '6',
+  'invalid-code': '7',
+  'invalid-date': '8',
+  'invalid-time': '9',
+  'too-many-repetitions': '12',
+  'too-many-components': '13'
+};
+
+// TA105 note code for a wrong-width ISA element, by element position
+const ISA_WIDTH_NOTE_CODES: Record<string, string> = {
+  '1': '010', '2': '011', '3': '012', '4': '013', '5': '005', '6': '006', '7': '007', '8': '008',
+  '9': '014', '10': '015', '11': '016', '12': '017', '13': '018', '14': '019', '15': '020'
+};
+
+function mapError(error: EDIError): ErrorMapping | null {
+  const key = error.id.replace(/-\d+$/, '');
+  if (ERROR_MAPPINGS[key]) return ERROR_MAPPINGS[key];
+
+  const width = /^isa-width-(\d+)-\d+$/.exec(error.id);
+  if (width) return ISA_WIDTH_NOTE_CODES[width[1]] ? { level: 'interchange', code: ISA_WIDTH_NOTE_CODES[width[1]] } : null;
+
+  const element = /^element-([a-z-]+)-(\d+)-\d+$/.exec(error.id);
+  if (element && ELEMENT_ERROR_KINDS[element[1]]) {
+    // GS, GE and IEA sit outside every transaction set, so a 999 has nowhere to report them
+    if (['GS', 'GE', 'IEA'].includes(error.segment.tag)) return null;
+    return { level: 'element', code: ELEMENT_ERROR_KINDS[element[1]], element: parseInt(element[2], 10) };
+  }
+
+  const missing = /^missing-([A-Z0-9]{2,3})$/.exec(error.id);
+  if (missing) return ENVELOPE_TAGS.has(missing[1]) ? null : { level: 'segment', code: '3' };
+  return null;
+}
+
+function pad(value: string | number, width: number, fill = '0'): string {
+  return String(value).padStart(width, fill).slice(-width);
+}
+
+function formatDate(date: Date, century: boolean): string {
+  const year = century ? pad(date.getFullYear(), 4) : pad(date.getFullYear() % 100, 2);
+  return `${year}${pad(date.getMonth() + 1, 2)}${pad(date.getDate(), 2)}`;
+}
+
+function formatTime(date: Date): string {
+  return `${pad(date.getHours(), 2)}${pad(date.getMinutes(), 2)}`;
+}
+
+function readTA1(interchange: EDIInterchange, interchangeErrors: { error: EDIError; code: string }[]): TA1Acknowledgment {
+  const codes = interchangeErrors.map(({ code, error }) => ({ code, critical: error.type === 'critical' }));
+
+  // Structural problems the validator does not report on its own
+  const iea = interchange.trailer;
+  if (!iea) {
+    codes.push({ code: '023', critical: true });
+  } else {
+    if (iea.elements[2] !== interchange.controlNumber) codes.push({ code: '001', critical: true });
+    if (iea.elements[1] !== String(interchange.groups.length)) codes.push({ code: '021', critical: true });
+  }
+
+  const rejected = codes.some(entry => entry.critical);
+  return {
+    controlNumber: interchange.controlNumber,
+    date: interchange.date,
+    time: interchange.time,
+    acknowledgmentCode: rejected ? 'R' : codes.length ? 'E' : 'A',
+    noteCode: (codes.find(entry => entry.critical) || codes[0])?.code || '000'
+  };
+}
+
+// Loop ID of every segment in the set, keyed by its ordinal in the file
+function indexLoops(set: EDITransactionSet): Map<number, string> {
+  const loopIds = new Map<number, string>();
+  const visit = (loop: EDILoop, id?: string) => {
+    loop.segments.forEach(segment => id && loopIds.set(segment.lineNumber, id));
+    loop.loops.forEach(child => visit(child, child.id));
+  };
+  visit(buildLoopTree(set));
+  return loopIds;
+}
+
+// ST through SE; without an SE the set runs up to the enclosing GE/IEA
+function setBody(set: EDITransactionSet): EDISegment[] {
+  const last = set.trailer?.lineNumber ?? Number.MAX_SAFE_INTEGER;
+  return set.segments.filter(segment =>
+    segment.lineNumber >= set.header.lineNumber && segment.lineNumber <= last && segment.tag !== 'GE' && segment.tag !== 'IEA'
+  );
+}
+
+function acknowledgeSet(set: EDITransactionSet, errors: EDIError[], unplaced: EDIError[]): SetAcknowledgment {
+  const body = setBody(set);
+  const first = set.header.lineNumber;
+  const last = set.trailer?.lineNumber ?? body[body.length - 1].lineNumber;
+  const loopIds = indexLoops(set);
+  const segmentErrors = new Map<string, SegmentError>();
+  const setErrorCodes: string[] = [];
+  let critical = false;
+
+  const segmentError = (segment: EDISegment, position: number): SegmentError => {
+    const key = `${position}-${segment.tag}`;
+    const existing = segmentErrors.get(key);
+    if (existing) return existing;
+    const created: SegmentError = {
+      tag: segment.tag,
+      position,
+      loopId: loopIds.get(segment.lineNumber),
+      elements: [],
+      messages: []
+    };
+    segmentErrors.set(key, created);
+    return created;
+  };
+
+  const inSet = errors.filter(error => error.segment.lineNumber >= first && error.segment.lineNumber <= last);
+  for (const error of [...inSet, ...unplaced]) {
+    const mapping = mapError(error);
+    if (!mapping || mapping.level === 'interchange') continue;
+
+    const placed = inSet.includes(error);
+    if (mapping.level === 'set') {
+      // Only the set the finding was raised on; it says nothing about the others
+      if (!placed) continue;
+      if (!setErrorCodes.includes(mapping.code)) setErrorCodes.push(mapping.code);
+      if (error.type === 'critical') critical = true;
+      continue;
+    }
+
+    // A missing segment has no position of its own, so it is reported at the trailer
+    const segment = placed ? body.find(candidate => candidate.lineNumber === error.segment.lineNumber) : undefined;
+    const tag = segment?.tag || error.id.replace(/^missing-/, '').toUpperCase();
+    const position = segment ? segment.lineNumber - first + 1 : body.length;
+    const entry = segmentError(segment || { ...error.segment, tag }, position);
+
+    if (mapping.level === 'element') {
+      entry.code = entry.code || '8';
+      entry.elements.push({
+        position: mapping.element!,
+        code: mapping.code,
+        badValue: segment?.elements[mapping.element!] || undefined
+      });
+    } else {
+      entry.code = mapping.code;
+    }
+    entry.messages.push(error.message);
+    if (error.type === 'critical') critical = true;
+  }
+
+  const syntaxErrorCodes: string[] = [];
+  if (!set.trailer) {
+    syntaxErrorCodes.push('2');
+  } else {
+    if (set.trailer.elements[2] !== set.controlNumber) syntaxErrorCodes.push('3');
+    if (set.trailer.elements[1] !== String(body.length)) syntaxErrorCodes.push('4');
+  }
+  syntaxErrorCodes.push(...setErrorCodes);
+  if (segmentErrors.size) syntaxErrorCodes.push('5');
+
+  const rejected = critical || syntaxErrorCodes.some(code => code !== '5');
+  return {
+    transactionType: set.header.elements[1] || '',
+    controlNumber: set.controlNumber,
+    implementationReference: set.implementationReference,
+    status: rejected ? 'R' : segmentErrors.size ? 'E' : 'A',
+    syntaxErrorCodes,
+    segmentErrors: [...segmentErrors.values()].sort((a, b) => a.position - b.position)
+  };
+}
+
+function acknowledgeGroup(group: EDIFunctionalGroup, errors: EDIError[], unplaced: EDIError[]): GroupAcknowledgment {
+  const sets = group.transactionSets.map(set => acknowledgeSet(set, errors, unplaced));
+  const accepted = sets.filter(set => set.status !== 'R').length;
+
+  const syntaxErrorCodes: string[] = [];
+  if (!group.trailer) {
+    syntaxErrorCodes.push('3');
+  } else {
+    if (group.trailer.elements[2] !== group.controlNumber) syntaxErrorCodes.push('4');
+    if (group.trailer.elements[1] !== String(sets.length)) syntaxErrorCodes.push('5');
+  }
+
+  let status: GroupAcknowledgmentCode;
+  if (syntaxErrorCodes.length || accepted === 0) status = 'R';
+  else if (accepted < sets.length) status = 'P';
+  else status = sets.some(set => set.status === 'E') ? 'E' : 'A';
+
+  return {
+    functionalCode: group.functionalCode,
+    controlNumber: group.controlNumber,
+    version: group.version,
+    status,
+    included: Number(group.trailer?.elements[1]) || sets.length,
+    received: sets.length,
+    accepted: status === 'R' ? 0 : accepted,
+    syntaxErrorCodes,
+    sets
+  };
+}
+
+function write999(group: GroupAcknowledgment, setControlNumber: string): string[][] {
+  const segments: string[][] = [
+    ['ST', '999', setControlNumber, ACKNOWLEDGMENT_VERSION],
+    ['AK1', group.functionalCode, group.controlNumber, group.version]
+  ];
+
+  for (const set of group.sets) {
+    segments.push(['AK2', set.transactionType, set.controlNumber, ...(set.implementationReference ? [set.implementationReference] : [])]);
+    for (const error of set.segmentErrors) {
+      segments.push(['IK3', error.tag, String(error.position), error.loopId || '', error.code || '8']);
+      for (const element of error.elements) {
+        segments.push(['IK4', String(element.position), '', element.code, ...(element.badValue ? [element.badValue] : [])]);
+      }
+    }
+    segments.push(['IK5', set.status, ...set.syntaxErrorCodes.slice(0, 5)]);
+  }
+
+  segments.push([
+    'AK9',
+    group.status,
+    String(group.included),
+    String(group.received),
+    String(group.accepted),
+    ...group.syntaxErrorCodes.slice(0, 5)
+  ]);
+  segments.push(['SE', String(segments.length + 1), setControlNumber]);
+  return segments;
+}
+
+function serialize(segments: string[][], delimiters: X12Delimiters): string {
+  const lineBreak = delimiters.segment === '\n' ? '' : '\n';
+  return segments
+    .map(elements => {
+      // Trailing empty elements are dropped, as X12 requires
+      let end = elements.length;
+      while (end > 1 && elements[end - 1] === '') end--;
+      return `${elements.slice(0, end).join(delimiters.element)}${delimiters.segment}${lineBreak}`;
+    })
+    .join('');
+}
+
+// Build the TA1 and 999 answering one inbound interchange. Sender and receiver
+// are swapped and the inbound delimiters are reused so the partner can read it back.
+export function acknowledgeInterchange(
+  interchange: EDIInterchange,
+  validation: ValidationResult,
+  delimiters: X12Delimiters = DEFAULT_X12_DELIMITERS,
+  options: AcknowledgmentOptions = {}
+): InterchangeAcknowledgment {
+  const now = options.date || new Date();
+  const controlNumber = pad(options.controlNumber ?? 1, 9);
+  const issues = [...validation.errors, ...validation.warnings];
+
+  const first = interchange.header?.lineNumber ?? 0;
+  const last = interchange.trailer?.lineNumber ?? Number.MAX_SAFE_INTEGER;
+  const ownIssues = issues.filter(error => error.segment.lineNumber >= first && error.segment.lineNumber <= last);
+  const interchangeErrors = ownIssues
+    .map(error => ({ error, mapping: mapError(error) }))
+    .filter(({ mapping }) => mapping?.level === 'interchange')
+    .map(({ error, mapping }) => ({ error, code: mapping!.code }));
+
+  // Errors raised against segments outside any set (such as a missing BGN) apply to every set
+  const setRanges = interchange.groups.flatMap(group => group.transactionSets)
+    .map(set => [set.header.lineNumber, set.trailer?.lineNumber ?? Number.MAX_SAFE_INTEGER]);
+  const unplaced = ownIssues.filter(error =>
+    !setRanges.some(([start, end]) => error.segment.lineNumber >= start && error.segment.lineNumber <= end)
+  );
+
+  const ta1 = readTA1(interchange, interchangeErrors);
+  const groups = ta1.acknowledgmentCode === 'R'
+    ? []
+    : interchange.groups.map(group => acknowledgeGroup(group, ownIssues, unplaced));
+
+  const isa = interchange.header?.elements || [];
+  const segments: string[][] = [[
+    'ISA', '00', pad('', 10, ' '), '00', pad('', 10, ' '),
+    isa[7] || 'ZZ', (isa[8] || interchange.receiver).padEnd(15, ' ').slice(0, 15),
+    isa[5] || 'ZZ', (isa[6] || interchange.sender).padEnd(15, ' ').slice(0, 15),
+    formatDate(now, false), formatTime(now),
+    delimiters.repetition || 'U', '00501', controlNumber, '0', interchange.testIndicator || 'P',
+    delimiters.component
+  ]];
+
+  const includeTA1 = options.alwaysTA1 || isa[14] === '1' || ta1.acknowledgmentCode !== 'A';
+  if (includeTA1) {
+    segments.push(['TA1', ta1.controlNumber, ta1.date, ta1.time, ta1.acknowledgmentCode, ta1.noteCode]);
+  }
+
+  if (groups.length) {
+    const gs = interchange.groups[0];
+    segments.push(['GS', 'FA', gs.receiver, gs.sender, formatDate(now, true), formatTime(now), String(options.controlNumber ?? 1), 'X', ACKNOWLEDGMENT_VERSION]);
+    groups.forEach((group, index) => segments.push(...write999(group, pad(index + 1, 4))));
+    segments.push(['GE', String(groups.length), String(options.controlNumber ?? 1)]);
+  }
+
+  segments.push(['IEA', groups.length ? '1' : '0', controlNumber]);
+
+  return {
+    interchangeControlNumber: interchange.controlNumber,
+    ta1: includeTA1 ? ta1 : undefined,
+    groups,
+    content: serialize(segments, delimiters)
+  };
+}
+
+// Acknowledge every interchange in a file; control numbers count up from options.controlNumber
+export function generateAcknowledgments(
+  content: string,
+  validation: ValidationResult,
+  options: AcknowledgmentOptions = {}
+): InterchangeAcknowledgment[] {
+  const document = parseEDIDocument(content);
+  const start = options.controlNumber ?? 1;
+  // 999/TA1 only answer X12 interchanges; EDIFACT is acknowledged with CONTRL
+  return document.interchanges.filter(interchange => interchange.header?.tag === 'ISA').map((interchange, index) =>
+    acknowledgeInterchange(interchange, validation, document.delimiters, { ...options, controlNumber: start + index })
+  );
+}
+
+// Read every TA1 and 999 in a received file. 999 AK1/AK2 carry the GS06/ST02 we sent;
+// TA1 carries our ISA13. A 4010 997 reads the same way through its AK3/AK4/AK5.
+export function readAcknowledgments(content: string): ReceivedAcknowledgments {
+  const { segments } = tokenizeX12(content);
+  const ta1s: ReceivedTA1[] = [];
+  const groups: ReceivedGroupAcknowledgment[] = [];
+  let group: ReceivedGroupAcknowledgment | null = null;
+  let set: ReceivedSetAcknowledgment | null = null;
+
+  for (const segment of segments) {
+    const e = segment.elements;
+    switch (segment.tag) {
+      case 'TA1':
+        ta1s.push({
+          interchangeControlNumber: e[1] || '',
+          date: e[2] || '',
+          time: e[3] || '',
+          acknowledgmentCode: (e[4] || 'R') as ReceivedTA1['acknowledgmentCode'],
+          noteCode: e[5] || ''
+        });
+        break;
+      case 'AK1':
+        group = { functionalCode: e[1] || '', groupControlNumber: e[2] || '', version: e[3] || '', status: '', included: 0, received: 0, accepted: 0, sets: [] };
+        groups.push(group);
+        break;
+      case 'AK2':
+        set = { transactionType: e[1] || '', controlNumber: e[2] || '', status: '', syntaxErrorCodes: [], errors: [] };
+        group?.sets.push(set);
+        break;
+      case 'IK3':
+      case 'AK3':
+        set?.errors.push({ tag: e[1] || '', position: Number(e[2]) || 0, loopId: e[3] || undefined, code: e[4] || '', elements: [] });
+        break;
+      case 'IK4':
+      case 'AK4':
+        set?.errors[set.errors.length - 1]?.elements.push({ position: e[1] || '', code: e[3] || '', badValue: e[4] || undefined });
+        break;
+      case 'IK5':
+      case 'AK5':
+        if (set) {
+          set.status = e[1] || '';
+          set.syntaxErrorCodes = e.slice(2).filter(Boolean);
+        }
+        set = null;
+        break;
+      case 'AK9':
+        if (group) {
+          group.status = e[1] || '';
+          group.included = Number(e[2]) || 0;
+          group.received = Number(e[3]) || 0;
+          group.accepted = Number(e[4]) || 0;
+        }
+        group = null;
+        break;
+    }
+  }
+
+  return { ta1s, groups };
+}
@@ -0,0 +1,2404 @@
+import type { EDISegment } from './universalEDIParser';
+import { getRepetitions } from './x12Elements';
+
+// X12 segment and element dictionary. Each segment lists its elements in position order
+// with the data element number, name, data type, min/max length and usage from the X12
+// standard, the code list its values come from and, where business JSON carries the
+// element, the JSON field name. The Decoder, Viewer, validator and JSON conversion read
+// from here, so supporting another segment or qualifier is a data change.
+
+// AN string, ID coded value, DT date, TM time, N0/N2 implied-decimal numbers, R decimal
+export type X12DataType = 'AN' | 'ID' | 'DT' | 'TM' | 'N0' | 'N2' | 'R' | 'composite';
+
+// M mandatory, O optional, X conditional on other elements (syntax notes are not modelled)
+export type X12Usage = 'M' | 'O' | 'X';
+
+export interface X12CodeList {
+  name: string;
+  // Closed lists hold every valid code; values outside them are reported by the validator
+  closed?: boolean;
+  codes: Record<string, string>;
+}
+
+export interface X12ElementDefinition {
+  // Data element number (or composite ID), e.g. '98' for NM101, 'C003' for SV101
+  id: string;
+  name: string;
+  type: X12DataType;
+  min: number;
+  max: number;
+  usage: X12Usage;
+  codes?: X12CodeListName;
+  // Field name in business JSON
+  field?: string;
+  // Maximum repetitions when the element repeats (ISA11)
+  repeat?: number;
+  components?: X12ElementDefinition[];
+}
+
+export interface X12SegmentDefinition {
+  name: string;
+  elements: X12ElementDefinition[];
+}
+
+// Code lists
+
+export const X12_CODE_LISTS = {
+  authorizationQualifier: {
+    name: 'Authorization Information Qualifier',
+    codes: { '00': 'No Authorization Information Present', '03': 'Additional Data Identification' }
+  },
+  securityQualifier: {
+    name: 'Security Information Qualifier',
+    codes: { '00': 'No Security Information Present', '01': 'Password' }
+  },
+  interchangeIdQualifier: {
+    name: 'Interchange ID Qualifier',
+    codes: {
+      '01': 'Duns (Dun & Bradstreet)',
+      '08': 'UCC EDI Communications ID (Comm ID)',
+      '12': 'Phone (Telephone Companies)',
+      '14': 'Duns Plus Suffix',
+      '20': 'Health Industry Number (HIN)',
+      '27': 'Carrier Identification Number as assigned by CMS',
+      '28': 'Fiscal Intermediary Identification Number',
+      '29': 'Medicare Provider and Supplier Identification Number',
+      '30': 'U.S. Federal Tax Identification Number',
+      '33': 'National Association of Insurance Commissioners Company Code (NAIC)',
+      ZZ: 'Mutually Defined'
+    }
+  },
+  acknowledgmentRequested: {
+    name: 'Acknowledgment Requested',
+    closed: true,
+    codes: { '0': 'No Interchange Acknowledgment Requested', '1': 'Interchange Acknowledgment Requested (TA1)' }
+  },
+  usageIndicator: {
+    name: 'Interchange Usage Indicator',
+    closed: true,
+    codes: { I: 'Information', P: 'Production Data', T: 'Test Data' }
+  },
+  functionalIdentifier: {
+    name: 'Functional Identifier Code',
+    codes: {
+      BE: 'Benefit Enrollment and Maintenance (834)',
+      FA: 'Functional or Implementation Acknowledgment Transaction Sets (997, 999)',
+      HB: 'Eligibility, Coverage or Benefit Information (271)',
+      HC: 'Health Care Claim (837)',
+      HI: 'Health Care Services Review Information (278)',
+      HN: 'Health Care Information Status Notification (277)',
+      HP: 'Health Care Claim Payment/Advice (835)',
+      HR: 'Health Care Claim Status Request (276)',
+      HS: 'Eligibility, Coverage or Benefit Inquiry (270)',
+      IN: 'Invoice Information (810)',
+      PO: 'Purchase Order (850)',
+      PR: 'Purchase Order Acknowledgment (855)',
+      RA: 'Payment Order/Remittance Advice (820)',
+      SH: 'Ship Notice/Manifest (856)'
+    }
+  },
+  responsibleAgency: {
+    name: 'Responsible Agency Code',
+    closed: true,
+    codes: { T: 'Transportation Data Coordinating Committee (TDCC)', X: 'Accredited Standards Committee X12' }
+  },
+  transactionSetPurpose: {
+    name: 'Transaction Set Purpose Code',
+    codes: {
+      '00': 'Original',
+      '01': 'Cancellation',
+      '05': 'Replace',
+      '06': 'Confirmation',
+      '07': 'Duplicate',
+      '11': 'Response',
+      '13': 'Request',
+      '15': 'Re-Submission',
+      '18': 'Reissue',
+      '22': 'Information Copy',
+      RH: 'Receiver Hold'
+    }
+  },
+  action: {
+    name: 'Action Code',
+    codes: {
+      '2': 'Change (Update)',
+      '4': 'Verify',
+      RX: 'Replace',
+      A1: 'Certified in Total',
+      A2: 'Certified - Partial',
+      A3: 'Not Certified',
+      A4: 'Pended',
+      A6: 'Modified',
+      C: 'Cancelled',
+      CT: 'Contact Payer',
+      NA: 'No Action Required'
+    }
+  },
+  hierarchicalStructure: {
+    name: 'Hierarchical Structure Code',
+    codes: {
+      '0001': 'Shipment, Order, Packaging, Item',
+      '0002': 'Shipment, Order, Item, Packaging',
+      '0004': 'Shipment, Order, Item',
+      '0007': 'Utilization Management Organization (UMO), Requester, Subscriber, Dependent, Event, Service',
+      '0010': 'Utilization Management Organization (UMO), Requester, Subscriber, Dependent, Event, Service',
+      '0019': 'Information Source, Subscriber, Dependent',
+      '0022': 'Information Source, Information Receiver, Subscriber, Dependent'
+    }
+  },
+  yesNo: {
+    name: 'Yes/No Condition or Response Code',
+    closed: true,
+    codes: { N: 'No', U: 'Unknown', W: 'Not Applicable', Y: 'Yes' }
+  },
+  entityIdentifier: {
+    name: 'Entity Identifier Code',
+    codes: {
+      '03': 'Dependent',
+      '1P': 'Provider',
+      '2B': 'Third-Party Administrator',
+      '31': 'Postal Mailing Address',
+      '36': 'Employer',
+      '40': 'Receiver',
+      '41': 'Submitter',
+      '45': 'Drop-off Location',
+      '70': 'Prior Incorrect Insured',
+      '71': 'Attending Physician',
+      '72': 'Operating Physician',
+      '74': 'Corrected Insured',
+      '77': 'Service Location',
+      '82': 'Rendering Provider',
+      '85': 'Billing Provider',
+      '87': 'Pay-to Provider',
+      BO: 'Broker or Sales Office',
+      BT: 'Bill-to-Party',
+      BY: 'Buying Party (Purchaser)',
+      DN: 'Referring Provider',
+      E1: 'Person or Other Entity Legally Responsible for a Child',
+      EXS: 'Ex-spouse',
+      FA: 'Facility',
+      GD: 'Guardian',
+      GP: 'Gateway Provider',
+      IL: 'Insured or Subscriber',
+      IN: 'Insurer',
+      J6: 'Power of Attorney',
+      M8: 'Educational Institution',
+      P3: 'Primary Care Provider',
+      P5: 'Plan Sponsor',
+      PE: 'Payee',
+      PR: 'Payer',
+      QC: 'Patient',
+      QD: 'Responsible Party',
+      RI: 'Remit To',
+      S3: 'Custodial Parent',
+      SF: 'Ship From',
+      SJ: 'Service Provider',
+      ST: 'Ship To',
+      TV: 'Third Party Administrator (TPA)',
+      X3: 'Utilization Management Organization',
+      ZZ: 'Mutually Defined'
+    }
+  },
+  entityType: {
+    name: 'Entity Type Qualifier',
+    closed: true,
+    codes: { '1': 'Person', '2': 'Non-Person Entity' }
+  },
+  identificationCodeQualifier: {
+    name: 'Identification Code Qualifier',
+    codes: {
+      '1': 'D-U-N-S Number, Dun & Bradstreet',
+      '24': "Employer's Identification Number",
+      '34': 'Social Security Number',
+      '46': 'Electronic Transmitter Identification Number (ETIN)',
+      '92': 'Assigned by Buyer or Buyer\'s Agent',
+      EQ: 'Insurance Company Assigned Identification Number',
+      FI: "Federal Taxpayer's Identification Number",
+      II: 'Standard Unique Health Identifier for each Individual in the United States',
+      MI: 'Member Identification Number',
+      PI: 'Payor Identification',
+      SV: 'Service Provider Number',
+      UL: 'Global Location Number (GLN)',
+      XV: 'Centers for Medicare and Medicaid Services PlanID',
+      XX: 'Centers for Medicare and Medicaid Services National Provider Identifier',
+      ZZ: 'Mutually Defined'
+    }
+  },
+  relationship: {
+    name: 'Individual Relationship Code',
+    codes: {
+      '01': 'Spouse',
+      '03': 'Father or Mother',
+      '04': 'Grandfather or Grandmother',
+      '05': 'Grandson or Granddaughter',
+      '06': 'Uncle or Aunt',
+      '07': 'Nephew or Niece',
+      '08': 'Cousin',
+      '09': 'Adopted Child',
+      '10': 'Foster Child',
+      '11': 'Son-in-law or Daughter-in-law',
+      '12': 'Brother-in-law or Sister-in-law',
+      '13': 'Mother-in-law or Father-in-law',
+      '14': 'Brother or Sister',
+      '15': 'Ward',
+      '16': 'Stepparent',
+      '17': 'Stepson or Stepdaughter',
+      '18': 'Self',
+      '19': 'Child',
+      '20': 'Employee',
+      '21': 'Unknown',
+      '22': 'Handicapped Dependent',
+      '23': 'Sponsored Dependent',
+      '24': 'Dependent of a Minor Dependent',
+      '25': 'Ex-spouse',
+      '26': 'Guardian',
+      '29': 'Significant Other',
+      '31': 'Court Appointed Guardian',
+      '32': 'Mother',
+      '33': 'Father',
+      '36': 'Emancipated Minor',
+      '38': 'Collateral Dependent',
+      '39': 'Organ Donor',
+      '40': 'Cadaver Donor',
+      '41': 'Injured Plaintiff',
+      '43': 'Child Where Insured Has No Financial Responsibility',
+      '53': 'Life Partner',
+      '60': 'Annuitant',
+      D2: 'Trustee',
+      G8: 'Other Relationship',
+      G9: 'Other Relative'
+    }
+  },
+  maintenanceType: {
+    name: 'Maintenance Type Code',
+    codes: {
+      '001': 'Change',
+      '002': 'Delete',
+      '021': 'Addition',
+      '024': 'Cancellation or Termination',
+      '025': 'Reinstatement',
+      '026': 'Correction',
+      '030': 'Audit or Compare',
+      '032': 'Employee Information Not Applicable'
+    }
+  },
+  maintenanceReason: {
+    name: 'Maintenance Reason Code',
+    codes: {
+      '01': 'Divorce',
+      '02': 'Birth',
+      '03': 'Death',
+      '04': 'Retirement',
+      '05': 'Adoption',
+      '06': 'Strike',
+      '07': 'Termination of Benefits',
+      '08': 'Termination of Employment',
+      '09': 'Consolidation Omnibus Budget Reconciliation Act (COBRA)',
+      '10': 'Consolidation Omnibus Budget Reconciliation Act (COBRA) Premium Paid',
+      '11': 'Surviving Spouse',
+      '14': 'Voluntary Withdrawal',
+      '15': 'Primary Care Provider (PCP) Change',
+      '16': 'Quit',
+      '17': 'Fired',
+      '18': 'Suspended',
+      '20': 'Active',
+      '21': 'Disability',
+      '22': 'Plan Change',
+      '25': 'Change in Identifying Data Elements',
+      '26': 'Declined Coverage',
+      '27': 'Pre-Enrollment',
+      '28': 'Initial Enrollment',
+      '29': 'Benefit Selection',
+      '31': 'Legal Separation',
+      '32': 'Marriage',
+      '33': 'Personnel Data',
+      '37': 'Leave of Absence with Benefits',
+      '38': 'Leave of Absence without Benefits',
+      '39': 'Lay Off with Benefits',
+      '40': 'Lay Off without Benefits',
+      '41': 'Re-enrollment',
+      '43': 'Change of Location',
+      '59': 'Non Payment',
+      AI: 'No Reason Given',
+      AL: 'Algorithm Assigned Benefit Selection',
+      EC: 'Member Benefit Selection',
+      XN: 'Notification Only',
+      XT: 'Transfer'
+    }
+  },
+  benefitStatus: {
+    name: 'Benefit Status Code',
+    closed: true,
+    codes: {
+      A: 'Active',
+      C: 'Consolidated Omnibus Budget Reconciliation Act (COBRA)',
+      S: 'Surviving Insured',
+      T: 'Tax Equity and Fiscal Responsibility Act (TEFRA)'
+    }
+  },
+  employmentStatus: {
+    name: 'Employment Status Code',
+    codes: {
+      AC: 'Active',
+      AO: 'Active Overseas',
+      AU: 'Active Military - USA',
+      FT: 'Full-time',
+      L1: 'Leave of Absence',
+      PT: 'Part-time',
+      RT: 'Retired',
+      TE: 'Terminated'
+    }
+  },
+  insuranceLine: {
+    name: 'Insurance Line Code',
+    codes: {
+      AG: 'Preventative Care/Wellness',
+      AH: '24 Hour Care',
+      AJ: 'Medicare Risk',
+      AK: 'Mental Health',
+      DCP: 'Dental Capitation',
+      DEN: 'Dental',
+      EPO: 'Exclusive Provider Organization',
+      FAC: 'Facility',
+      HE: 'Hearing',
+      HLT: 'Health',
+      HMO: 'Health Maintenance Organization',
+      LTC: 'Long-Term Care',
+      LTD: 'Long-Term Disability',
+      MM: 'Major Medical',
+      MOD: 'Mail Order Drug',
+      PDG: 'Prescription Drug',
+      POS: 'Point of Service',
+      PPO: 'Preferred Provider Organization',
+      PRA: 'Practitioners',
+      STD: 'Short-Term Disability',
+      UR: 'Utilization Review',
+      VIS: 'Vision'
+    }
+  },
+  coverageLevel: {
+    name: 'Coverage Level Code',
+    codes: {
+      CHD: 'Children Only',
+      DEP: 'Dependents Only',
+      E1D: 'Employee and One Dependent',
+      E2D: 'Employee and Two Dependents',
+      E3D: 'Employee and Three Dependents',
+      E5D: 'Employee and One or More Dependents',
+      E6D: 'Employee and Two or More Dependents',
+      E7D: 'Employee and Three or More Dependents',
+      E8D: 'Employee and Four or More Dependents',
+      E9D: 'Employee and Five or More Dependents',
+      ECH: 'Employee and Children',
+      EMP: 'Employee Only',
+      ESP: 'Employee and Spouse',
+      FAM: 'Family',
+      IND: 'Individual',
+      SPC: 'Spouse and Children',
+      SPO: 'Spouse Only',
+      TWO: 'Two Party'
+    }
+  },
+  gender: {
+    name: 'Gender Code',
+    closed: true,
+    codes: { F: 'Female', M: 'Male', U: 'Unknown' }
+  },
+  maritalStatus: {
+    name: 'Marital Status Code',
+    closed: true,
+    codes: {
+      B: 'Registered Domestic Partner',
+      D: 'Divorced',
+      I: 'Single',
+      M: 'Married',
+      R: 'Unreported',
+      S: 'Separated',
+      U: 'Unmarried (Single or Divorced or Widowed)',
+      W: 'Widowed',
+      X: 'Legally Separated'
+    }
+  },
+  dateTimeQualifier: {
+    name: 'Date/Time Qualifier',
+    codes: {
+      '002': 'Delivery Requested',
+      '007': 'Effective',
+      '011': 'Shipped',
+      '017': 'Estimated Delivery',
+      '036': 'Expiration',
+      '050': 'Received',
+      '067': 'Current Schedule Delivery',
+      '096': 'Discharge',
+      '102': 'Issue',
+      '150': 'Service Period Start',
+      '151': 'Service Period End',
+      '232': 'Claim Statement Period Start',
+      '233': 'Claim Statement Period End',
+      '286': 'Retirement',
+      '290': 'Coordination of Benefits',
+      '291': 'Plan',
+      '295': 'Primary Care Provider',
+      '300': 'Enrollment Signature Date',
+      '303': 'Maintenance Effective',
+      '307': 'Eligibility',
+      '336': 'Employment Begin',
+      '337': 'Employment End',
+      '338': 'Medicare Begin',
+      '339': 'Medicare End',
+      '340': 'Consolidated Omnibus Budget Reconciliation Act (COBRA) Begin',
+      '341': 'Consolidated Omnibus Budget Reconciliation Act (COBRA) End',
+      '343': 'Premium Paid to Date End',
+      '348': 'Benefit Begin',
+      '349': 'Benefit End',
+      '350': 'Education Begin',
+      '351': 'Education End',
+      '356': 'Eligibility Begin',
+      '357': 'Eligibility End',
+      '382': 'Enrollment',
+      '383': 'Adjusted Hire',
+      '385': 'Credited Service Begin',
+      '386': 'Credited Service End',
+      '393': 'Plan Participation Suspension',
+      '394': 'Rehire',
+      '405': 'Production',
+      '431': 'Onset of Current Symptoms or Illness',
+      '434': 'Statement',
+      '435': 'Admission',
+      '439': 'Accident',
+      '454': 'Initial Treatment',
+      '472': 'Service',
+      '473': 'Medicaid Begin',
+      '474': 'Medicaid End',
+      '543': 'Last Premium Paid Date',
+      '573': 'Date Claim Paid'
+    }
+  },
+  dateFormat: {
+    name: 'Date Time Period Format Qualifier',
+    codes: {
+      D6: 'Date Expressed in Format YYMMDD',
+      D8: 'Date Expressed in Format CCYYMMDD',
+      DT: 'Date and Time Expressed in Format CCYYMMDDHHMM',
+      RD8: 'Range of Dates Expressed in Format CCYYMMDD-CCYYMMDD',
+      TM: 'Time Expressed in Format HHMM'
+    }
+  },
+  referenceQualifier: {
+    name: 'Reference Identification Qualifier',
+    codes: {
+      '0B': 'State License Number',
+      '0F': 'Subscriber Number',
+      '17': 'Client Reporting Category',
+      '1L': 'Group or Policy Number',
+      '1W': 'Member Identification Number',
+      '23': 'Client Number',
+      '26': 'Union Number',
+      '2U': 'Payer Identification Number',
+      '38': 'Master Policy Number',
+      '3H': 'Case Number',
+      '4A': 'Personal Identification Number (PIN)',
+      '6O': 'Cross Reference Number',
+      '6P': 'Group Number',
+      '9F': 'Referral Number',
+      '9V': 'Payment Category',
+      '9X': 'Account Category',
+      ABB: 'Personal ID Number',
+      BM: 'Bill of Lading Number',
+      CE: 'Class of Contract Code',
+      CN: "Carrier's Reference Number (PRO/Invoice)",
+      D3: 'National Council for Prescription Drug Programs Pharmacy Number',
+      DX: 'Department/Agency Number',
+      EA: 'Medical Record Identification Number',
+      EI: "Employer's Identification Number",
+      EV: 'Receiver Identification Number',
+      F6: 'Health Insurance Claim (HIC) Number',
+      F8: 'Original Reference Number',
+      G1: 'Prior Authorization Number',
+      HJ: 'Identity Card Number',
+      IA: 'Internal Vendor Number',
+      IG: 'Insurance Policy Number',
+      IV: "Seller's Invoice Number",
+      LU: 'Location Number',
+      N6: 'Plan Network Identification Number',
+      P5: 'Position Code',
+      PO: 'Purchase Order Number',
+      Q4: 'Prior Identifier Number',
+      QQ: 'Unit Number',
+      SY: 'Social Security Number',
+      TJ: "Federal Taxpayer's Identification Number",
+      TN: 'Transaction Reference Number',
+      TV: 'Line of Business',
+      VN: 'Vendor Order Number',
+      XX1: 'Special Program Code',
+      XX2: 'Service Area Code',
+      ZZ: 'Mutually Defined'
+    }
+  },
+  contactFunction: {
+    name: 'Contact Function Code',
+    codes: {
+      BL: 'Technical Department',
+      CX: "Payers Claim Office",
+      IC: 'Information Contact',
+      IP: 'Insured Party'
+    }
+  },
+  communicationNumberQualifier: {
+    name: 'Communication Number Qualifier',
+    codes: {
+      AP: 'Alternate Telephone',
+      BN: 'Beeper Number',
+      CP: 'Cellular Phone',
+      EM: 'Electronic Mail',
+      EX: 'Telephone Extension',
+      FX: 'Facsimile',
+      HP: 'Home Phone Number',
+      TE: 'Telephone',
+      UR: 'Uniform Resource Locator (URL)',
+      WP: 'Work Phone Number'
+    }
+  },
+  amountQualifier: {
+    name: 'Amount Qualifier Code',
+    codes: {
+      AU: 'Coverage Amount',
+      B6: 'Allowed - Actual',
+      B9: 'Co-insurance - Actual',
+      C1: 'Co-Payment Amount',
+      D: 'Payor Amount Paid',
+      D2: 'Deductible Amount',
+      D8: 'Discount Amount',
+      DY: 'Per Day Limit',
+      EAF: 'Amount Owed',
+      EBA: 'Expected Expenditure Amount',
+      F5: 'Patient Amount Paid',
+      FK: 'Other Unlisted Amount',
+      I: 'Interest',
+      KH: 'Deduction Amount',
+      NL: 'Negative Ledger Balance',
+      P3: 'Premium Amount',
+      R: 'Spend Down',
+      T: 'Tax',
+      T2: 'Total Claim Before Taxes'
+    }
+  },
+  quantityQualifier: {
+    name: 'Quantity Qualifier',
+    codes: {
+      CA: 'Covered - Actual',
+      CD: 'Co-insured - Actual',
+      DT: 'Dependent Total',
+      ET: 'Employee Total',
+      LA: 'Life-time Reserve - Actual',
+      LE: 'Life-time Reserve - Estimated',
+      NA: 'Number of Non-covered Days',
+      NE: 'Non-Covered - Estimated',
+      OU: 'Outlier Days',
+      PS: 'Prescription',
+      TO: 'Total',
+      VS: 'Visits'
+    }
+  },
+  hierarchicalLevel: {
+    name: 'Hierarchical Level Code',
+    codes: {
+      '19': 'Provider of Service',
+      '20': 'Information Source',
+      '21': 'Information Receiver',
+      '22': 'Subscriber',
+      '23': 'Dependent',
+      EV: 'Event',
+      I: 'Item',
+      O: 'Order',
+      P: 'Pack',
+      PT: 'Patient',
+      S: 'Shipment',
+      SS: 'Services',
+      T: 'Tare'
+    }
+  },
+  hierarchicalChild: {
+    name: 'Hierarchical Child Code',
+    closed: true,
+    codes: {
+      '0': 'No Subordinate HL Segment in This Hierarchical Structure',
+      '1': 'Additional Subordinate HL Data Segment in This Hierarchical Structure'
+    }
+  },
+  transactionHandling: {
+    name: 'Transaction Handling Code',
+    codes: {
+      C: 'Payment Accompanies Remittance Advice',
+      D: 'Make Payment Only',
+      H: 'Notification Only',
+      I: 'Remittance Information Only',
+      P: 'Prenotification of Future Transfers',
+      U: 'Split Payment and Remittance',
+      X: "Handling Party's Option to Split Payment and Remittance"
+    }
+  },
+  creditDebit: {
+    name: 'Credit/Debit Flag Code',
+    closed: true,
+    codes: { C: 'Credit', D: 'Debit' }
+  },
+  paymentMethod: {
+    name: 'Payment Method Code',
+    codes: {
+      ACH: 'Automated Clearing House (ACH)',
+      BOP: 'Financial Institution Option',
+      CHK: 'Check',
+      FWT: 'Federal Reserve Funds/Wire Transfer - Nonrepetitive',
+      NON: 'Non-Payment Data'
+    }
+  },
+  traceType: {
+    name: 'Trace Type Code',
+    codes: {
+      '1': 'Current Transaction Trace Numbers',
+      '2': 'Referenced Transaction Trace Numbers',
+      '3': 'Financial Reassociation Trace Number'
+    }
+  },
+  claimStatus: {
+    name: 'Claim Status Code',
+    closed: true,
+    codes: {
+      '1': 'Processed as Primary',
+      '2': 'Processed as Secondary',
+      '3': 'Processed as Tertiary',
+      '4': 'Denied',
+      '19': 'Processed as Primary, Forwarded',
+      '20': 'Processed as Secondary, Forwarded',
+      '21': 'Processed as Tertiary, Forwarded',
+      '22': 'Reversal of Previous Payment',
+      '23': 'Not Our Claim, Forwarded',
+      '25': 'Predetermination Pricing Only'
+    }
+  },
+  claimFilingIndicator: {
+    name: 'Claim Filing Indicator Code',
+    codes: {
+      '11': 'Other Non-Federal Programs',
+      '12': 'Preferred Provider Organization (PPO)',
+      '13': 'Point of Service (POS)',
+      '14': 'Exclusive Provider Organization (EPO)',
+      '15': 'Indemnity Insurance',
+      '16': 'Health Maintenance Organization (HMO) Medicare Risk',
+      '17': 'Dental Maintenance Organization',
+      AM: 'Automobile Medical',
+      BL: 'Blue Cross/Blue Shield',
+      CH: 'Champus',
+      CI: 'Commercial Insurance Co.',
+      DS: 'Disability',
+      FI: 'Federal Employees Program',
+      HM: 'Health Maintenance Organization',
+      LM: 'Liability Medical',
+      MA: 'Medicare Part A',
+      MB: 'Medicare Part B',
+      MC: 'Medicaid',
+      OF: 'Other Federal Program',
+      TV: 'Title V',
+      VA: 'Veterans Affairs Plan',
+      WC: "Workers' Compensation Health Claim",
+      ZZ: 'Mutually Defined'
+    }
+  },
+  claimAdjustmentGroup: {
+    name: 'Claim Adjustment Group Code',
+    closed: true,
+    codes: {
+      CO: 'Contractual Obligations',
+      CR: 'Corrections and Reversals',
+      OA: 'Other adjustments',
+      PI: 'Payor Initiated Reductions',
+      PR: 'Patient Responsibility'
+    }
+  },
+  claimAdjustmentReason: {
+    name: 'Claim Adjustment Reason Code',
+    codes: {
+      '1': 'Deductible Amount',
+      '2': 'Coinsurance Amount',
+      '3': 'Co-payment Amount',
+      '4': 'The procedure code is inconsistent with the modifier used',
+      '5': 'The procedure code/type of bill is inconsistent with the place of service',
+      '6': "The procedure/revenue code is inconsistent with the patient's age",
+      '16': 'Claim/service lacks information or has submission/billing error(s)',
+      '18': 'Exact duplicate claim/service',
+      '22': 'This care may be covered by another payer per coordination of benefits',
+      '23': 'The impact of prior payer(s) adjudication including payments and/or adjustments',
+      '24': 'Charges are covered under a capitation agreement/managed care plan',
+      '26': 'Expenses incurred prior to coverage',
+      '27': 'Expenses incurred after coverage terminated',
+      '29': 'The time limit for filing has expired',
+      '31': 'Patient cannot be identified as our insured',
+      '45': 'Charge exceeds fee schedule/maximum allowable or contracted/legislated fee arrangement',
+      '50': "These are non-covered services because this is not deemed a 'medical necessity' by the payer",
+      '96': 'Non-covered charge(s)',
+      '97': 'The benefit for this service is included in the payment/allowance for another service/procedure that has already been adjudicated',
+      '109': 'Claim/service not covered by this payer/contractor',
+      '119': 'Benefit maximum for this time period or occurrence has been reached',
+      '151': 'Payment adjusted because the payer deems the information submitted does not support this many/frequency of services',
+      '197': 'Precertification/authorization/notification/pre-treatment absent',
+      '198': 'Precertification/notification/authorization/pre-treatment exceeded',
+      '204': "This service/equipment/drug is not covered under the patient's current benefit plan",
+      '242': 'Services not provided by network/primary care providers',
+      '253': 'Sequestration - reduction in federal payment'
+    }
+  },
+  codeListQualifier: {
+    name: 'Code List Qualifier Code',
+    codes: {
+      ABF: 'International Classification of Diseases Clinical Modification (ICD-10-CM) Diagnosis',
+      ABJ: 'International Classification of Diseases Clinical Modification (ICD-10-CM) Admitting Diagnosis',
+      ABK: 'International Classification of Diseases Clinical Modification (ICD-10-CM) Principal Diagnosis',
+      ABN: 'International Classification of Diseases Clinical Modification (ICD-10-CM) External Cause of Injury Code',
+      APR: "International Classification of Diseases Clinical Modification (ICD-10-CM) Patient's Reason for Visit",
+      BBQ: 'International Classification of Diseases Procedure Coding System (ICD-10-PCS) Other Procedure Codes',
+      BBR: 'International Classification of Diseases Procedure Coding System (ICD-10-PCS) Principal Procedure',
+      BE: 'Value',
+      BF: 'Diagnosis (ICD-9-CM)',
+      BG: 'Condition',
+      BH: 'Occurrence',
+      BI: 'Occurrence Span',
+      BJ: 'Admitting Diagnosis (ICD-9-CM)',
+      BK: 'Principal Diagnosis (ICD-9-CM)',
+      BQ: 'Other Procedure (ICD-9-CM)',
+      BR: 'Principal Procedure (ICD-9-CM)',
+      DR: 'Diagnosis Related Group (DRG)'
+    }
+  },
+  productIdQualifier: {
+    name: 'Product/Service ID Qualifier',
+    codes: {
+      AD: 'American Dental Association Codes',
+      BP: "Buyer's Part Number",
+      EN: 'European Article Number (EAN) (2-5-5-1)',
+      ER: 'Jurisdiction Specific Procedure and Supply Codes',
+      HC: "Health Care Financing Administration Common Procedural Coding System (HCPCS) Codes",
+      HP: 'Health Insurance Prospective Payment System (HIPPS) Skilled Nursing Facility Rate Code',
+      IN: "Buyer's Item Number",
+      IV: 'Home Infusion EDI Coalition (HIEC) Product/Service Code',
+      N4: 'National Drug Code in 5-4-2 Format',
+      NU: 'National Uniform Billing Committee (NUBC) UB92 Codes',
+      SK: 'Stock Keeping Unit (SKU)',
+      UK: 'GTIN 14-digit Data Structure',
+      UP: 'U.P.C. Consumer Package Code (1-5-5-1)',
+      VN: "Vendor's (Seller's) Item Number",
+      VP: "Vendor's (Seller's) Part Number",
+      WK: 'Advanced Billing Concepts (ABC) Codes'
+    }
+  },
+  unitOfMeasure: {
+    name: 'Unit or Basis for Measurement Code',
+    codes: {
+      BX: 'Box',
+      CA: 'Case',
+      CT: 'Carton',
+      DA: 'Days',
+      DZ: 'Dozen',
+      EA: 'Each',
+      F2: 'International Unit',
+      GR: 'Gram',
+      LB: 'Pound',
+      MJ: 'Minutes',
+      ML: 'Milliliter',
+      PK: 'Package',
+      PL: 'Pallet/Unit Load',
+      UN: 'Unit'
+    }
+  },
+  providerCode: {
+    name: 'Provider Code',
+    codes: {
+      AD: 'Admitting',
+      AS: 'Assistant Surgeon',
+      AT: 'Attending',
+      BI: 'Billing',
+      CO: 'Consulting',
+      CV: 'Covering',
+      H: 'Hospital',
+      HH: 'Home Health Care',
+      LA: 'Laboratory',
+      OR: 'Ordering',
+      OT: 'Other Physician',
+      P1: 'Pharmacist',
+      P2: 'Pharmacy',
+      PC: 'Primary Care Physician',
+      PE: 'Performing',
+      R: 'Rural Health Clinic',
+      RF: 'Referring',
+      SB: 'Submitting',
+      SK: 'Skilled Nursing Facility',
+      SU: 'Supervising'
+    }
+  },
+  payerResponsibility: {
+    name: 'Payer Responsibility Sequence Number Code',
+    closed: true,
+    codes: {
+      A: 'Payer Responsibility Four',
+      B: 'Payer Responsibility Five',
+      C: 'Payer Responsibility Six',
+      D: 'Payer Responsibility Seven',
+      E: 'Payer Responsibility Eight',
+      F: 'Payer Responsibility Nine',
+      G: 'Payer Responsibility Ten',
+      H: 'Payer Responsibility Eleven',
+      P: 'Primary',
+      S: 'Secondary',
+      T: 'Tertiary',
+      U: 'Unknown'
+    }
+  },
+  coordinationOfBenefits: {
+    name: 'Coordination of Benefits Code',
+    closed: true,
+    codes: { '1': 'Coordination of Benefits', '5': 'Unknown', '6': 'No Coordination of Benefits' }
+  },
+  eligibilityBenefit: {
+    name: 'Eligibility or Benefit Information Code',
+    closed: true,
+    codes: {
+      '1': 'Active Coverage',
+      '2': 'Active - Full Risk Capitation',
+      '3': 'Active - Services Capitated',
+      '4': 'Active - Services Capitated to Primary Care Physician',
+      '5': 'Active - Pending Investigation',
+      '6': 'Inactive',
+      '7': 'Inactive - Pending Eligibility Update',
+      '8': 'Inactive - Pending Investigation',
+      A: 'Co-Insurance',
+      B: 'Co-Payment',
+      C: 'Deductible',
+      CB: 'Coverage Basis',
+      D: 'Benefit Description',
+      E: 'Exclusions',
+      F: 'Limitations',
+      G: 'Out of Pocket (Stop Loss)',
+      H: 'Unlimited',
+      I: 'Non-Covered',
+      J: 'Cost Containment',
+      K: 'Reserve',
+      L: 'Primary Care Provider',
+      M: 'Pre-existing Condition',
+      MC: 'Managed Care Coordinator',
+      N: 'Services Restricted to Following Provider',
+      O: 'Not Deemed a Medical Necessity',
+      P: 'Benefit Disclaimer',
+      Q: 'Second Surgical Opinion Required',
+      R: 'Other or Additional Payor',
+      S: 'Prior Year(s) History',
+      T: 'Card(s) Reported Lost/Stolen',
+      U: 'Contact Following Entity for Eligibility or Benefit Information',
+      V: 'Cannot Process',
+      W: 'Other Source of Data',
+      X: 'Health Care Facility',
+      Y: 'Spend Down'
+    }
+  },
+  serviceType: {
+    name: 'Service Type Code',
+    codes: {
+      '1': 'Medical Care',
+      '2': 'Surgical',
+      '4': 'Diagnostic X-Ray',
+      '5': 'Diagnostic Lab',
+      '6': 'Radiation Therapy',
+      '7': 'Anesthesia',
+      '12': 'Durable Medical Equipment Purchase',
+      '18': 'Durable Medical Equipment Rental',
+      '30': 'Health Benefit Plan Coverage',
+      '33': 'Chiropractic',
+      '35': 'Dental Care',
+      '42': 'Home Health Care',
+      '45': 'Hospice',
+      '47': 'Hospital',
+      '48': 'Hospital - Inpatient',
+      '50': 'Hospital - Outpatient',
+      '51': 'Hospital - Emergency Accident',
+      '52': 'Hospital - Emergency Medical',
+      '53': 'Hospital - Ambulatory Surgical',
+      '60': 'General Benefits',
+      '62': 'MRI/CAT Scan',
+      '65': 'Newborn Care',
+      '68': 'Well Baby Care',
+      '73': 'Diagnostic Medical',
+      '76': 'Dialysis',
+      '78': 'Chemotherapy',
+      '80': 'Immunizations',
+      '81': 'Routine Physical',
+      '82': 'Family Planning',
+      '86': 'Emergency Services',
+      '88': 'Pharmacy',
+      '93': 'Podiatry',
+      '98': 'Professional (Physician) Visit - Office',
+      A4: 'Psychiatric',
+      A6: 'Psychotherapy',
+      A7: 'Psychiatric - Inpatient',
+      A8: 'Psychiatric - Outpatient',
+      AD: 'Occupational Therapy',
+      AE: 'Physical Medicine',
+      AF: 'Speech Therapy',
+      AG: 'Skilled Nursing Care',
+      AI: 'Substance Abuse',
+      AL: 'Vision (Optometry)',
+      BG: 'Cardiac Rehabilitation',
+      BH: 'Pediatric',
+      MH: 'Mental Health',
+      UC: 'Urgent Care'
+    }
+  },
+  timePeriod: {
+    name: 'Time Period Qualifier',
+    codes: {
+      '6': 'Hour',
+      '7': 'Day',
+      '13': '24 Hours',
+      '21': 'Years',
+      '22': 'Service Year',
+      '23': 'Calendar Year',
+      '24': 'Year to Date',
+      '25': 'Contract',
+      '26': 'Episode',
+      '27': 'Visit',
+      '28': 'Outlier',
+      '29': 'Remaining',
+      '30': 'Exceeded',
+      '31': 'Not Exceeded',
+      '32': 'Lifetime',
+      '33': 'Lifetime Remaining',
+      '34': 'Month',
+      '35': 'Week',
+      '36': 'Admission'
+    }
+  },
+  rejectReason: {
+    name: 'Reject Reason Code',
+    codes: {
+      '15': 'Required application data missing',
+      '41': 'Authorization/Access restrictions',
+      '42': 'Unable to respond at current time',
+      '43': 'Invalid/Missing Provider Identification',
+      '45': 'Invalid/Missing Provider Specialty',
+      '47': 'Invalid/Missing Provider State',
+      '48': 'Invalid/Missing Referring Provider Identification Number',
+      '49': 'Provider is Not Primary Care Physician',
+      '51': 'Provider Not on File',
+      '52': 'Service Dates Not Within Provider Plan Enrollment',
+      '56': 'Inappropriate Date',
+      '57': 'Invalid/Missing Date(s) of Service',
+      '58': 'Invalid/Missing Date-of-Birth',
+      '60': 'Date of Birth Follows Date(s) of Service',
+      '61': 'Date of Death Precedes Date(s) of Service',
+      '62': 'Date of Service Not Within Allowable Inquiry Period',
+      '63': 'Date of Service in Future',
+      '64': 'Invalid/Missing Patient ID',
+      '65': 'Invalid/Missing Patient Name',
+      '66': 'Invalid/Missing Patient Gender Code',
+      '67': 'Patient Not Found',
+      '68': 'Duplicate Patient ID Number',
+      '71': 'Patient Birth Date Does Not Match That for the Patient on the Database',
+      '72': 'Invalid/Missing Subscriber/Insured ID',
+      '73': 'Invalid/Missing Subscriber/Insured Name',
+      '75': 'Subscriber/Insured Not Found',
+      '76': 'Duplicate Subscriber/Insured ID Number',
+      '78': 'Subscriber/Insured Not in Group/Plan Identified'
+    }
+  },
+  followUpAction: {
+    name: 'Follow-up Action Code',
+    closed: true,
+    codes: {
+      C: 'Please Correct and Resubmit',
+      N: 'Resubmission Not Allowed',
+      P: 'Please Resubmit Original Transaction',
+      R: 'Resubmission Allowed',
+      S: 'Do Not Resubmit; Inquiry Initiated to a Third Party',
+      W: 'Please Wait 30 Days and Resubmit',
+      X: 'Please Wait 10 Days and Resubmit',
+      Y: 'Do Not Resubmit; We Will Hand Deliver'
+    }
+  },
+  authorizationAction: {
+    name: 'Action Code',
+    codes: {
+      A1: 'Certified in Total',
+      A2: 'Certified - Partial',
+      A3: 'Not Certified',
+      A4: 'Pended',
+      A6: 'Modified',
+      C: 'Cancelled',
+      CT: 'Contact Payer',
+      NA: 'No Action Required'
+    }
+  },
+  requestCategory: {
+    name: 'Request Category Code',
+    codes: {
+      AR: 'Admission Review',
+      HS: 'Health Services Review',
+      IN: 'Individual',
+      SC: 'Specialty Care Review'
+    }
+  },
+  certificationType: {
+    name: 'Certification Type Code',
+    closed: true,
+    codes: {
+      '1': 'Appeal - Immediate',
+      '2': 'Appeal - Standard',
+      '3': 'Cancel',
+      '4': 'Extension',
+      I: 'Initial',
+      R: 'Renewal',
+      S: 'Revised'
+    }
+  },
+  purchaseOrderType: {
+    name: 'Purchase Order Type Code',
+    codes: {
+      BK: 'Blanket Order (Quantity Firm)',
+      DS: 'Dropship',
+      NE: 'New Order',
+      RL: 'Release or Delivery Order',
+      RO: 'Rush Order',
+      SA: 'Stand-alone Order'
+    }
+  },
+  acknowledgmentType: {
+    name: 'Acknowledgment Type',
+    codes: {
+      AC: 'Acknowledge - With Detail and Change',
+      AD: 'Acknowledge - With Detail, No Change',
+      AE: 'Acknowledge - With Exception Detail Only',
+      AK: 'Acknowledge - No Detail or Change',
+      AP: 'Acknowledge - Product Replenishment',
+      RD: 'Reject with Detail',
+      RJ: 'Rejected - No Detail'
+    }
+  },
+  lineItemStatus: {
+    name: 'Line Item Status Code',
+    codes: {
+      AC: 'Item Accepted and Shipped',
+      AR: 'Item Accepted and Released for Shipment',
+      BP: 'Item Accepted - Partial Shipment, Balance Backordered',
+      DR: 'Item Accepted - Date Rescheduled',
+      IA: 'Item Accepted',
+      IB: 'Item Backordered',
+      IC: 'Item Accepted - Changes Made',
+      ID: 'Item Deleted',
+      IP: 'Item Accepted - Price Changed',
+      IQ: 'Item Accepted - Quantity Changed',
+      IR: 'Item Rejected',
+      IS: 'Item Accepted - Substitution Made',
+      SP: 'Item Accepted - Schedule Date Pending'
+    }
+  },
+  interchangeAcknowledgment: {
+    name: 'Interchange Acknowledgment Code',
+    closed: true,
+    codes: {
+      A: 'The Transmitted Interchange Control Structure Header and Trailer Have Been Received and Have No Errors',
+      E: 'The Transmitted Interchange Control Structure Header and Trailer Have Been Received and Are Accepted But Errors Are Noted',
+      R: 'The Transmitted Interchange Control Structure Header and Trailer are Rejected Because of Errors'
+    }
+  },
+  interchangeNote: {
+    name: 'Interchange Note Code',
+    codes: {
+      '000': 'No error',
+      '001': 'Interchange control numbers in header and trailer do not match',
+      '005': 'Invalid interchange ID qualifier for sender',
+      '006': 'Invalid interchange sender ID',
+      '007': 'Invalid interchange ID qualifier for receiver',
+      '008': 'Invalid interchange receiver ID',
+      '010': 'Invalid authorization information qualifier value',
+      '011': 'Invalid authorization information value',
+      '012': 'Invalid security information qualifier value',
+      '013': 'Invalid security information value',
+      '014': 'Invalid interchange date value',
+      '015': 'Invalid interchange time value',
+      '016': 'Invalid interchange standards identifier value',
+      '017': 'Invalid interchange version ID value',
+      '018': 'Invalid interchange control number value',
+      '019': 'Invalid acknowledgment requested value',
+      '020': 'Invalid test indicator value',
+      '021': 'Invalid number of included groups value',
+      '023': 'Improper (premature) end-of-file (transmission)',
+      '024': 'Invalid interchange content'
+    }
+  },
+  transactionSetAcknowledgment: {
+    name: 'Transaction Set Acknowledgment Code',
+    closed: true,
+    codes: {
+      A: 'Accepted',
+      E: 'Accepted But Errors Were Noted',
+      M: 'Rejected, Message Authentication Code (MAC) Failed',
+      R: 'Rejected',
+      W: 'Rejected, Assurance Failed Validity Tests',
+      X: 'Rejected, Content After Decryption Could Not Be Analyzed'
+    }
+  },
+  groupAcknowledgment: {
+    name: 'Functional Group Acknowledge Code',
+    closed: true,
+    codes: {
+      A: 'Accepted',
+      E: 'Accepted, But Errors Were Noted',
+      M: 'Rejected, Message Authentication Code (MAC) Failed',
+      P: 'Partially Accepted, At Least One Transaction Set Was Rejected',
+      R: 'Rejected',
+      W: 'Rejected, Assurance Failed Validity Tests',
+      X: 'Rejected, Content After Decryption Could Not Be Analyzed'
+    }
+  },
+  segmentSyntaxError: {
+    name: 'Implementation Segment Syntax Error Code',
+    codes: {
+      '1': 'Unrecognized segment ID',
+      '2': 'Unexpected segment',
+      '3': 'Required segment missing',
+      '4': 'Loop occurs over maximum times',
+      '5': 'Segment exceeds maximum use',
+      '6': 'Segment not in defined transaction set',
+      '7': 'Segment not in proper sequence',
+      '8': 'Segment has data element errors',
+      I4: 'Implementation "Not Used" segment present',
+      I6: 'Implementation dependent segment missing',
+      I7: 'Implementation loop occurs under minimum times',
+      I8: 'Implementation segment below minimum use',
+      I9: 'Implementation dependent "Not Used" segment present'
+    }
+  },
+  elementSyntaxError: {
+    name: 'Implementation Data Element Syntax Error Code',
+    codes: {
+      '1': 'Required data element missing',
+      '2': 'Conditional required data element missing',
+      '3': 'Too many data elements',
+      '4': 'Data element too short',
+      '5': 'Data element too long',
+      '6': 'Invalid character in data element',
+      '7': 'Invalid code value',
+      '8': 'Invalid date',
+      '9': 'Invalid time',
+      '10': 'Exclusion condition violated',
+      '12': 'Too many repetitions',
+      '13': 'Too many components',
+      I10: 'Implementation "Not Used" data element present',
+      I11: 'Implementation too few repetitions',
+      I12: 'Implementation pattern match failure',
+      I13: 'Implementation dependent "Not Used" data element present',
+      I6: 'Code value not used in implementation',
+      I9: 'Implementation dependent data element missing'
+    }
+  },
+  setSyntaxError: {
+    name: 'Transaction Set Syntax Error Code',
+    codes: {
+      '1': 'Transaction set not supported',
+      '2': 'Transaction set trailer missing',
+      '3': 'Transaction set control number in header and trailer do not match',
+      '4': 'Number of included segments does not match actual count',
+      '5': 'One or more segments in error',
+      '6': 'Missing or invalid transaction set identifier',
+      '7': 'Missing or invalid transaction set control number',
+      '23': 'Transaction set control number not unique within the functional group'
+    }
+  },
+  groupSyntaxError: {
+    name: 'Functional Group Syntax Error Code',
+    codes: {
+      '1': 'Functional group not supported',
+      '2': 'Functional group version not supported',
+      '3': 'Functional group trailer missing',
+      '4': 'Group control number in the functional group header and trailer do not agree',
+      '5': 'Number of included transaction sets does not match actual count',
+      '6': 'Group control number violates syntax',
+      '19': 'Functional group control number not unique within interchange'
+    }
+  }
+} satisfies Record<string, X12CodeList>;
+
+export type X12CodeListName = keyof typeof X12_CODE_LISTS;
+
+// Segments
+
+function element(
+  id: string,
+  name: string,
+  type: X12DataType,
+  min: number,
+  max: number,
+  usage: X12Usage = 'O',
+  extra: Partial<X12ElementDefinition> = {}
+): X12ElementDefinition {
+  return { id, name, type, min, max, usage, ...extra };
+}
+
+function composite(id: string, name: string, usage: X12Usage, components: X12ElementDefinition[], extra: Partial<X12ElementDefinition> = {}): X12ElementDefinition {
+  return { id, name, type: 'composite', min: 1, max: 1, usage, components, ...extra };
+}
+
+// Shared composites
+const medicalProcedure = (usage: X12Usage) => composite('C003', 'Composite Medical Procedure Identifier', usage, [
+  element('235', 'Product/Service ID Qualifier', 'ID', 2, 2, 'M', { codes: 'productIdQualifier' }),
+  element('234', 'Product/Service ID', 'AN', 1, 48, 'M'),
+  element('1339', 'Procedure Modifier', 'AN', 2, 2),
+  element('1339', 'Procedure Modifier', 'AN', 2, 2),
+  element('1339', 'Procedure Modifier', 'AN', 2, 2),
+  element('1339', 'Procedure Modifier', 'AN', 2, 2),
+  element('352', 'Description', 'AN', 1, 80),
+  element('234', 'Product/Service ID', 'AN', 1, 48)
+]);
+
+const diagnosisPointer = (usage: X12Usage) => composite('C004', 'Composite Diagnosis Code Pointer', usage, [
+  element('1328', 'Diagnosis Code Pointer', 'N0', 1, 2, 'M'),
+  element('1328', 'Diagnosis Code Pointer', 'N0', 1, 2),
+  element('1328', 'Diagnosis Code Pointer', 'N0', 1, 2),
+  element('1328', 'Diagnosis Code Pointer', 'N0', 1, 2)
+]);
+
+const serviceLocation = (usage: X12Usage) => composite('C023', 'Health Care Service Location Information', usage, [
+  element('1331', 'Facility Code Value', 'AN', 1, 2, 'M'),
+  element('1332', 'Facility Code Qualifier', 'ID', 1, 2),
+  element('1325', 'Claim Frequency Type Code', 'ID', 1, 1)
+]);
+
+const healthCareCode = (usage: X12Usage) => composite('C022', 'Health Care Code Information', usage, [
+  element('1270', 'Code List Qualifier Code', 'ID', 1, 3, 'M', { codes: 'codeListQualifier' }),
+  element('1271', 'Industry Code', 'AN', 1, 30, 'M'),
+  element('1250', 'Date Time Period Format Qualifier', 'ID', 2, 3, 'X', { codes: 'dateFormat' }),
+  element('1251', 'Date Time Period', 'AN', 1, 35, 'X'),
+  element('782', 'Monetary Amount', 'R', 1, 18),
+  element('380', 'Quantity', 'R', 1, 15),
+  element('799', 'Version Identifier', 'AN', 1, 30),
+  element('1271', 'Industry Code', 'AN', 1, 30, 'X'),
+  element('1073', 'Yes/No Condition or Response Code', 'ID', 1, 1, 'X', { codes: 'yesNo' })
+]);
+
+const adjustmentIdentifier = (usage: X12Usage) => composite('C042', 'Adjustment Identifier', usage, [
+  element('426', 'Adjustment Reason Code', 'ID', 2, 2, 'M'),
+  element('127', 'Reference Identification', 'AN', 1, 50)
+]);
+
+const positionInSegment = composite('C030', 'Position in Segment', 'M', [
+  element('722', 'Element Position in Segment', 'N0', 1, 2, 'M'),
+  element('1528', 'Component Data Element Position in Composite', 'N0', 1, 2),
+  element('1686', 'Repeating Data Element Position', 'N0', 1, 4)
+]);
+
+// Qualifier/ID pairs that fill the tail of PO1, IT1 and LIN
+const productIdPairs = (first: number, count: number, usage: X12Usage = 'X') => Array.from({ length: count }, (_, index) => [
+  element('235', 'Product/Service ID Qualifier', 'ID', 2, 2, index === 0 && first === 2 ? 'M' : usage, { codes: 'productIdQualifier' }),
+  element('234', 'Product/Service ID', 'AN', 1, 48, index === 0 && first === 2 ? 'M' : usage)
+]).flat();
+
+// CAS03-19: up to six reason/amount/quantity triples after the group code
+const adjustmentTriples = Array.from({ length: 6 }, (_, index) => [
+  element('1034', 'Claim Adjustment Reason Code', 'ID', 1, 5, index === 0 ? 'M' : 'X', { codes: 'claimAdjustmentReason' }),
+  element('782', 'Monetary Amount', 'R', 1, 18, index === 0 ? 'M' : 'X'),
+  element('380', 'Quantity', 'R', 1, 15, index === 0 ? 'O' : 'X')
+]).flat();
+
+const communicationPairs = [3, 5, 7].flatMap(() => [
+  element('365', 'Communication Number Qualifier', 'ID', 2, 2, 'X', { codes: 'communicationNumberQualifier' }),
+  element('364', 'Communication Number', 'AN', 1, 256, 'X')
+]);
+
+export const X12_SEGMENTS: Record<string, X12SegmentDefinition> = {
+  // Control segments
+  ISA: {
+    name: 'Interchange Control Header',
+    elements: [
+      element('I01', 'Authorization Information Qualifier', 'ID', 2, 2, 'M', { codes: 'authorizationQualifier', field: 'authorizationQualifier' }),
+      element('I02', 'Authorization Information', 'AN', 10, 10, 'M', { field: 'authorizationInformation' }),
+      element('I03', 'Security Information Qualifier', 'ID', 2, 2, 'M', { codes: 'securityQualifier', field: 'securityQualifier' }),
+      element('I04', 'Security Information', 'AN', 10, 10, 'M', { field: 'securityInformation' }),
+      element('I05', 'Interchange ID Qualifier', 'ID', 2, 2, 'M', { codes: 'interchangeIdQualifier', field: 'senderQualifier' }),
+      element('I06', 'Interchange Sender ID', 'AN', 15, 15, 'M', { field: 'senderId' }),
+      element('I05', 'Interchange ID Qualifier', 'ID', 2, 2, 'M', { codes: 'interchangeIdQualifier', field: 'receiverQualifier' }),
+      element('I07', 'Interchange Receiver ID', 'AN', 15, 15, 'M', { field: 'receiverId' }),
+      element('I08', 'Interchange Date', 'DT', 6, 6, 'M', { field: 'interchangeDate' }),
+      element('I09', 'Interchange Time', 'TM', 4, 4, 'M', { field: 'interchangeTime' }),
+      element('I65', 'Repetition Separator', 'AN', 1, 1, 'M', { field: 'controlStandards' }),
+      element('I11', 'Interchange Control Version Number', 'ID', 5, 5, 'M', { field: 'controlVersion' }),
+      element('I12', 'Interchange Control Number', 'N0', 9, 9, 'M', { field: 'controlNumber' }),
+      element('I13', 'Acknowledgment Requested', 'ID', 1, 1, 'M', { codes: 'acknowledgmentRequested', field: 'acknowledgmentRequested' }),
+      element('I14', 'Interchange Usage Indicator', 'ID', 1, 1, 'M', { codes: 'usageIndicator', field: 'testIndicator' }),
+      element('I15', 'Component Element Separator', 'AN', 1, 1, 'M')
+    ]
+  },
+  IEA: {
+    name: 'Interchange Control Trailer',
+    elements: [
+      element('I16', 'Number of Included Functional Groups', 'N0', 1, 5, 'M'),
+      element('I12', 'Interchange Control Number', 'N0', 9, 9, 'M')
+    ]
+  },
+  TA1: {
+    name: 'Interchange Acknowledgment',
+    elements: [
+      element('I12', 'Interchange Control Number', 'N0', 9, 9, 'M'),
+      element('I08', 'Interchange Date', 'DT', 6, 6, 'M'),
+      element('I09', 'Interchange Time', 'TM', 4, 4, 'M'),
+      element('I17', 'Interchange Acknowledgment Code', 'ID', 1, 1, 'M', { codes: 'interchangeAcknowledgment' }),
+      element('I18', 'Interchange Note Code', 'ID', 3, 3, 'M', { codes: 'interchangeNote' })
+    ]
+  },
+  GS: {
+    name: 'Functional Group Header',
+    elements: [
+      element('479', 'Functional Identifier Code', 'ID', 2, 2, 'M', { codes: 'functionalIdentifier', field: 'functionalCode' }),
+      element('142', "Application Sender's Code", 'AN', 2, 15, 'M', { field: 'applicationSender' }),
+      element('124', "Application Receiver's Code", 'AN', 2, 15, 'M', { field: 'applicationReceiver' }),
+      element('373', 'Date', 'DT', 8, 8, 'M', { field: 'date' }),
+      element('337', 'Time', 'TM', 4, 8, 'M', { field: 'time' }),
+      element('28', 'Group Control Number', 'N0', 1, 9, 'M', { field: 'groupControlNumber' }),
+      element('455', 'Responsible Agency Code', 'ID', 1, 2, 'M', { codes: 'responsibleAgency', field: 'responsibleAgency' }),
+      element('480', 'Version / Release / Industry Identifier Code', 'AN', 1, 12, 'M', { field: 'version' })
+    ]
+  },
+  GE: {
+    name: 'Functional Group Trailer',
+    elements: [
+      element('97', 'Number of Transaction Sets Included', 'N0', 1, 6, 'M'),
+      element('28', 'Group Control Number', 'N0', 1, 9, 'M')
+    ]
+  },
+  ST: {
+    name: 'Transaction Set Header',
+    elements: [
+      element('143', 'Transaction Set Identifier Code', 'ID', 3, 3, 'M', { field: 'transactionSetIdentifier' }),
+      element('329', 'Transaction Set Control Number', 'AN', 4, 9, 'M', { field: 'transactionSetControlNumber' }),
+      element('1705', 'Implementation Convention Reference', 'AN', 1, 35, 'O', { field: 'implementationReference' })
+    ]
+  },
+  SE: {
+    name: 'Transaction Set Trailer',
+    elements: [
+      element('96', 'Number of Included Segments', 'N0', 1, 10, 'M'),
+      element('329', 'Transaction Set Control Number', 'AN', 4, 9, 'M')
+    ]
+  },
+
+  // Healthcare
+  BGN: {
+    name: 'Beginning Segment',
+    elements: [
+      element('353', 'Transaction Set Purpose Code', 'ID', 2, 2, 'M', { codes: 'transactionSetPurpose', field: 'purposeCode' }),
+      element('127', 'Reference Identification', 'AN', 1, 50, 'M', { field: 'referenceId' }),
+      element('373', 'Date', 'DT', 8, 8, 'M', { field: 'date' }),
+      element('337', 'Time', 'TM', 4, 8, 'X', { field: 'time' }),
+      element('623', 'Time Code', 'ID', 2, 2, 'O', { field: 'timeZoneCode' }),
+      element('127', 'Reference Identification', 'AN', 1, 50, 'O', { field: 'originalReferenceId' }),
+      element('640', 'Transaction Type Code', 'ID', 2, 2, 'O', { field: 'transactionTypeCode' }),
+      element('306', 'Action Code', 'ID', 1, 2, 'O', { codes: 'action', field: 'actionCode' }),
+      element('786', 'Security Level Code', 'ID', 2, 2)
+    ]
+  },
+  BHT: {
+    name: 'Beginning of Hierarchical Transaction',
+    elements: [
+      element('1005', 'Hierarchical Structure Code', 'ID', 4, 4, 'M', { codes: 'hierarchicalStructure' }),
+      element('353', 'Transaction Set Purpose Code', 'ID', 2, 2, 'M', { codes: 'transactionSetPurpose' }),
+      element('127', 'Reference Identification', 'AN', 1, 50),
+      element('373', 'Date', 'DT', 8, 8),
+      element('337', 'Time', 'TM', 4, 8),
+      element('640', 'Transaction Type Code', 'ID', 2, 2)
+    ]
+  },
+  INS: {
+    name: 'Member Level Detail',
+    elements: [
+      element('1073', 'Member Indicator', 'ID', 1, 1, 'M', { codes: 'yesNo', field: 'memberLevelCode' }),
+      element('1069', 'Individual Relationship Code', 'ID', 2, 2, 'M', { codes: 'relationship', field: 'relationshipCode' }),
+      element('875', 'Maintenance Type Code', 'ID', 3, 3, 'O', { codes: 'maintenanceType', field: 'maintenanceTypeCode' }),
+      element('1203', 'Maintenance Reason Code', 'ID', 2, 3, 'O', { codes: 'maintenanceReason', field: 'maintenanceReasonCode' }),
+      element('1216', 'Benefit Status Code', 'ID', 1, 1, 'O', { codes: 'benefitStatus', field: 'benefitStatusCode' }),
+      composite('C052', 'Medicare Status Code', 'O', [
+        element('1218', 'Medicare Plan Code', 'ID', 1, 1, 'M'),
+        element('1701', 'Eligibility Reason Code', 'ID', 1, 1)
+      ]),
+      element('1219', 'COBRA Qualifying Event Code', 'ID', 1, 2),
+      element('584', 'Employment Status Code', 'ID', 2, 2, 'O', { codes: 'employmentStatus', field: 'employmentStatusCode' }),
+      element('1220', 'Student Status Code', 'ID', 1, 1),
+      element('1073', 'Handicap Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      element('1250', 'Date Time Period Format Qualifier', 'ID', 2, 3, 'X', { codes: 'dateFormat' }),
+      element('1251', 'Member Individual Death Date', 'AN', 1, 35, 'X'),
+      element('1165', 'Confidentiality Code', 'ID', 1, 1),
+      element('19', 'City Name', 'AN', 2, 30),
+      element('156', 'State or Province Code', 'ID', 2, 2),
+      element('26', 'Country Code', 'ID', 2, 3),
+      element('1470', 'Birth Sequence Number', 'N0', 1, 9)
+    ]
+  },
+  NM1: {
+    name: 'Individual or Organizational Name',
+    elements: [
+      element('98', 'Entity Identifier Code', 'ID', 2, 3, 'M', { codes: 'entityIdentifier', field: 'qualifier' }),
+      element('1065', 'Entity Type Qualifier', 'ID', 1, 1, 'M', { codes: 'entityType', field: 'entityType' }),
+      element('1035', 'Name Last or Organization Name', 'AN', 1, 60, 'X', { field: 'lastName' }),
+      element('1036', 'Name First', 'AN', 1, 35, 'O', { field: 'firstName' }),
+      element('1037', 'Name Middle', 'AN', 1, 25, 'O', { field: 'middleName' }),
+      element('1038', 'Name Prefix', 'AN', 1, 10),
+      element('1039', 'Name Suffix', 'AN', 1, 10, 'O', { field: 'suffix' }),
+      element('66', 'Identification Code Qualifier', 'ID', 1, 2, 'X', { codes: 'identificationCodeQualifier', field: 'idQualifier' }),
+      element('67', 'Identification Code', 'AN', 2, 80, 'X', { field: 'id' }),
+      element('706', 'Entity Relationship Code', 'ID', 2, 2, 'X'),
+      element('98', 'Entity Identifier Code', 'ID', 2, 3, 'O', { codes: 'entityIdentifier' }),
+      element('1035', 'Name Last or Organization Name', 'AN', 1, 60)
+    ]
+  },
+  N1: {
+    name: 'Party Identification',
+    elements: [
+      element('98', 'Entity Identifier Code', 'ID', 2, 3, 'M', { codes: 'entityIdentifier', field: 'entityQualifier' }),
+      element('93', 'Name', 'AN', 1, 60, 'X', { field: 'entityName' }),
+      element('66', 'Identification Code Qualifier', 'ID', 1, 2, 'X', { codes: 'identificationCodeQualifier', field: 'idQualifier' }),
+      element('67', 'Identification Code', 'AN', 2, 80, 'X', { field: 'id' }),
+      element('706', 'Entity Relationship Code', 'ID', 2, 2),
+      element('98', 'Entity Identifier Code', 'ID', 2, 3, 'O', { codes: 'entityIdentifier' })
+    ]
+  },
+  N2: {
+    name: 'Additional Name Information',
+    elements: [
+      element('93', 'Name', 'AN', 1, 60, 'M'),
+      element('93', 'Name', 'AN', 1, 60)
+    ]
+  },
+  N3: {
+    name: 'Party Location',
+    elements: [
+      element('166', 'Address Information', 'AN', 1, 55, 'M', { field: 'line1' }),
+      element('166', 'Address Information', 'AN', 1, 55, 'O', { field: 'line2' })
+    ]
+  },
+  N4: {
+    name: 'Geographic Location',
+    elements: [
+      element('19', 'City Name', 'AN', 2, 30, 'O', { field: 'city' }),
+      element('156', 'State or Province Code', 'ID', 2, 2, 'O', { field: 'state' }),
+      element('116', 'Postal Code', 'ID', 3, 15, 'O', { field: 'postalCode' }),
+      element('26', 'Country Code', 'ID', 2, 3, 'O', { field: 'countryCode' }),
+      element('309', 'Location Qualifier', 'ID', 1, 2, 'X'),
+      element('310', 'Location Identifier', 'AN', 1, 30),
+      element('1715', 'Country Subdivision Code', 'ID', 1, 3, 'X')
+    ]
+  },
+  DMG: {
+    name: 'Demographic Information',
+    elements: [
+      element('1250', 'Date Time Period Format Qualifier', 'ID', 2, 3, 'X', { codes: 'dateFormat', field: 'dateQualifier' }),
+      element('1251', 'Date Time Period', 'AN', 1, 35, 'X', { field: 'birthDate' }),
+      element('1068', 'Gender Code', 'ID', 1, 1, 'O', { codes: 'gender', field: 'genderCode' }),
+      element('1067', 'Marital Status Code', 'ID', 1, 1, 'O', { codes: 'maritalStatus', field: 'maritalStatus' }),
+      composite('C056', 'Composite Race or Ethnicity Information', 'X', [
+        element('1109', 'Race or Ethnicity Code', 'ID', 1, 1, 'X'),
+        element('1270', 'Code List Qualifier Code', 'ID', 1, 3, 'X'),
+        element('1271', 'Industry Code', 'AN', 1, 30, 'X')
+      ], { field: 'raceEthnicity' }),
+      element('1066', 'Citizenship Status Code', 'ID', 1, 2),
+      element('26', 'Country Code', 'ID', 2, 3),
+      element('659', 'Basis of Verification Code', 'ID', 1, 2),
+      element('380', 'Quantity', 'R', 1, 15),
+      element('1270', 'Code List Qualifier Code', 'ID', 1, 3, 'X'),
+      element('1271', 'Industry Code', 'AN', 1, 30, 'X')
+    ]
+  },
+  HD: {
+    name: 'Health Coverage',
+    elements: [
+      element('875', 'Maintenance Type Code', 'ID', 3, 3, 'M', { codes: 'maintenanceType', field: 'maintenanceTypeCode' }),
+      element('1203', 'Maintenance Reason Code', 'ID', 2, 3, 'O', { codes: 'maintenanceReason', field: 'maintenanceReasonCode' }),
+      element('1205', 'Insurance Line Code', 'ID', 2, 3, 'O', { codes: 'insuranceLine', field: 'insuranceLineCode' }),
+      element('1204', 'Plan Coverage Description', 'AN', 1, 50, 'O', { field: 'planCoverageDescription' }),
+      element('1207', 'Coverage Level Code', 'ID', 3, 3, 'O', { codes: 'coverageLevel', field: 'coverageLevelCode' }),
+      element('609', 'Count', 'N0', 1, 9),
+      element('609', 'Count', 'N0', 1, 9),
+      element('1209', 'Underwriting Decision Code', 'ID', 1, 1),
+      element('1073', 'Late Enrollment Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      element('1211', 'Drug House Code', 'ID', 2, 3),
+      element('1073', 'Yes/No Condition or Response Code', 'ID', 1, 1, 'O', { codes: 'yesNo' })
+    ]
+  },
+  DTP: {
+    name: 'Date or Time or Period',
+    elements: [
+      element('374', 'Date/Time Qualifier', 'ID', 3, 3, 'M', { codes: 'dateTimeQualifier', field: 'qualifier' }),
+      element('1250', 'Date Time Period Format Qualifier', 'ID', 2, 3, 'M', { codes: 'dateFormat', field: 'format' }),
+      element('1251', 'Date Time Period', 'AN', 1, 35, 'M', { field: 'value' })
+    ]
+  },
+  DTM: {
+    name: 'Date/Time Reference',
+    elements: [
+      element('374', 'Date/Time Qualifier', 'ID', 3, 3, 'M', { codes: 'dateTimeQualifier' }),
+      element('373', 'Date', 'DT', 8, 8, 'X'),
+      element('337', 'Time', 'TM', 4, 8, 'X'),
+      element('623', 'Time Code', 'ID', 2, 2),
+      element('1250', 'Date Time Period Format Qualifier', 'ID', 2, 3, 'X', { codes: 'dateFormat' }),
+      element('1251', 'Date Time Period', 'AN', 1, 35, 'X')
+    ]
+  },
+  REF: {
+    name: 'Reference Information',
+    elements: [
+      element('128', 'Reference Identification Qualifier', 'ID', 2, 3, 'M', { codes: 'referenceQualifier', field: 'qualifier' }),
+      element('127', 'Reference Identification', 'AN', 1, 50, 'X', { field: 'value' }),
+      element('352', 'Description', 'AN', 1, 80, 'X'),
+      composite('C040', 'Reference Identifier', 'O', [
+        element('128', 'Reference Identification Qualifier', 'ID', 2, 3, 'M', { codes: 'referenceQualifier' }),
+        element('127', 'Reference Identification', 'AN', 1, 50, 'M'),
+        element('128', 'Reference Identification Qualifier', 'ID', 2, 3, 'X', { codes: 'referenceQualifier' }),
+        element('127', 'Reference Identification', 'AN', 1, 50, 'X'),
+        element('128', 'Reference Identification Qualifier', 'ID', 2, 3, 'X', { codes: 'referenceQualifier' }),
+        element('127', 'Reference Identification', 'AN', 1, 50, 'X')
+      ])
+    ]
+  },
+  PER: {
+    name: 'Administrative Communications Contact',
+    elements: [
+      element('366', 'Contact Function Code', 'ID', 2, 2, 'M', { codes: 'contactFunction' }),
+      element('93', 'Name', 'AN', 1, 60),
+      ...communicationPairs,
+      element('443', 'Contact Inquiry Reference', 'AN', 1, 20)
+    ]
+  },
+  HL: {
+    name: 'Hierarchical Level',
+    elements: [
+      element('628', 'Hierarchical ID Number', 'AN', 1, 12, 'M'),
+      element('734', 'Hierarchical Parent ID Number', 'AN', 1, 12),
+      element('735', 'Hierarchical Level Code', 'ID', 1, 2, 'M', { codes: 'hierarchicalLevel' }),
+      element('736', 'Hierarchical Child Code', 'ID', 1, 1, 'O', { codes: 'hierarchicalChild' })
+    ]
+  },
+  TRN: {
+    name: 'Trace',
+    elements: [
+      element('481', 'Trace Type Code', 'ID', 1, 2, 'M', { codes: 'traceType' }),
+      element('127', 'Reference Identification', 'AN', 1, 50, 'M'),
+      element('509', 'Originating Company Identifier', 'AN', 10, 10),
+      element('127', 'Reference Identification', 'AN', 1, 50)
+    ]
+  },
+  QTY: {
+    name: 'Quantity Information',
+    elements: [
+      element('673', 'Quantity Qualifier', 'ID', 2, 2, 'M', { codes: 'quantityQualifier' }),
+      element('380', 'Quantity', 'R', 1, 15, 'X'),
+      composite('C001', 'Composite Unit of Measure', 'O', [
+        element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'M', { codes: 'unitOfMeasure' })
+      ]),
+      element('61', 'Free-form Information', 'AN', 1, 30, 'X')
+    ]
+  },
+  AMT: {
+    name: 'Monetary Amount Information',
+    elements: [
+      element('522', 'Amount Qualifier Code', 'ID', 1, 3, 'M', { codes: 'amountQualifier' }),
+      element('782', 'Monetary Amount', 'R', 1, 18, 'M'),
+      element('478', 'Credit/Debit Flag Code', 'ID', 1, 1, 'O', { codes: 'creditDebit' })
+    ]
+  },
+  LS: {
+    name: 'Loop Header',
+    elements: [element('447', 'Loop Identifier Code', 'AN', 1, 4, 'M')]
+  },
+  LE: {
+    name: 'Loop Trailer',
+    elements: [element('447', 'Loop Identifier Code', 'AN', 1, 4, 'M')]
+  },
+  LX: {
+    name: 'Transaction Set Line Number',
+    elements: [element('554', 'Assigned Number', 'N0', 1, 6, 'M')]
+  },
+  COB: {
+    name: 'Coordination of Benefits',
+    elements: [
+      element('1138', 'Payer Responsibility Sequence Number Code', 'ID', 1, 1, 'M', { codes: 'payerResponsibility' }),
+      element('127', 'Reference Identification', 'AN', 1, 50),
+      element('1143', 'Coordination of Benefits Code', 'ID', 1, 1, 'M', { codes: 'coordinationOfBenefits' }),
+      element('1365', 'Service Type Code', 'ID', 1, 2, 'O', { codes: 'serviceType', repeat: 99 })
+    ]
+  },
+  EQ: {
+    name: 'Eligibility or Benefit Inquiry',
+    elements: [
+      element('1365', 'Service Type Code', 'ID', 1, 2, 'X', { codes: 'serviceType', repeat: 99 }),
+      medicalProcedure('X'),
+      element('1207', 'Coverage Level Code', 'ID', 3, 3, 'O', { codes: 'coverageLevel' }),
+      element('1336', 'Insurance Type Code', 'ID', 1, 3),
+      diagnosisPointer('O')
+    ]
+  },
+  EB: {
+    name: 'Eligibility or Benefit Information',
+    elements: [
+      element('1390', 'Eligibility or Benefit Information Code', 'ID', 1, 2, 'M', { codes: 'eligibilityBenefit' }),
+      element('1207', 'Coverage Level Code', 'ID', 3, 3, 'O', { codes: 'coverageLevel' }),
+      element('1365', 'Service Type Code', 'ID', 1, 2, 'X', { codes: 'serviceType', repeat: 99 }),
+      element('1336', 'Insurance Type Code', 'ID', 1, 3),
+      element('1204', 'Plan Coverage Description', 'AN', 1, 50),
+      element('615', 'Time Period Qualifier', 'ID', 1, 2, 'O', { codes: 'timePeriod' }),
+      element('782', 'Monetary Amount', 'R', 1, 18),
+      element('954', 'Percent', 'R', 1, 10),
+      element('673', 'Quantity Qualifier', 'ID', 2, 2, 'O', { codes: 'quantityQualifier' }),
+      element('380', 'Quantity', 'R', 1, 15, 'X'),
+      element('1073', 'Authorization or Certification Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      element('1073', 'In Plan Network Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      medicalProcedure('O'),
+      diagnosisPointer('O')
+    ]
+  },
+  AAA: {
+    name: 'Request Validation',
+    elements: [
+      element('1073', 'Valid Request Indicator', 'ID', 1, 1, 'M', { codes: 'yesNo' }),
+      element('559', 'Agency Qualifier Code', 'ID', 2, 2),
+      element('901', 'Reject Reason Code', 'ID', 2, 2, 'O', { codes: 'rejectReason' }),
+      element('889', 'Follow-up Action Code', 'ID', 1, 1, 'O', { codes: 'followUpAction' })
+    ]
+  },
+  MSG: {
+    name: 'Message Text',
+    elements: [
+      element('933', 'Free-Form Message Text', 'AN', 1, 264, 'M'),
+      element('934', 'Printer Carriage Control Code', 'ID', 2, 2, 'X'),
+      element('1470', 'Number', 'N0', 1, 9)
+    ]
+  },
+  UM: {
+    name: 'Health Care Services Review Information',
+    elements: [
+      element('1525', 'Request Category Code', 'ID', 1, 2, 'M', { codes: 'requestCategory' }),
+      element('1322', 'Certification Type Code', 'ID', 1, 1, 'O', { codes: 'certificationType' }),
+      element('1365', 'Service Type Code', 'ID', 1, 2, 'O', { codes: 'serviceType' }),
+      serviceLocation('O'),
+      composite('C024', 'Related Causes Information', 'O', [
+        element('1362', 'Related-Causes Code', 'ID', 2, 3, 'M'),
+        element('1362', 'Related-Causes Code', 'ID', 2, 3),
+        element('1362', 'Related-Causes Code', 'ID', 2, 3),
+        element('156', 'State or Province Code', 'ID', 2, 2),
+        element('26', 'Country Code', 'ID', 2, 3)
+      ]),
+      element('1338', 'Level of Service Code', 'ID', 1, 3),
+      element('1213', 'Current Health Condition Code', 'ID', 1, 1),
+      element('1207', 'Prognosis Code', 'ID', 1, 1),
+      element('1073', 'Release of Information Code', 'ID', 1, 1)
+    ]
+  },
+  HCR: {
+    name: 'Health Care Services Review',
+    elements: [
+      element('306', 'Action Code', 'ID', 1, 2, 'M', { codes: 'authorizationAction' }),
+      element('127', 'Reference Identification', 'AN', 1, 50),
+      element('901', 'Reject Reason Code', 'ID', 2, 2),
+      element('1073', 'Second Surgical Opinion Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' })
+    ]
+  },
+  SBR: {
+    name: 'Subscriber Information',
+    elements: [
+      element('1138', 'Payer Responsibility Sequence Number Code', 'ID', 1, 1, 'M', { codes: 'payerResponsibility' }),
+      element('1069', 'Individual Relationship Code', 'ID', 2, 2, 'O', { codes: 'relationship' }),
+      element('127', 'Reference Identification', 'AN', 1, 50),
+      element('93', 'Name', 'AN', 1, 60),
+      element('1336', 'Insurance Type Code', 'ID', 1, 3),
+      element('1143', 'Coordination of Benefits Code', 'ID', 1, 1, 'O', { codes: 'coordinationOfBenefits' }),
+      element('1073', 'Yes/No Condition or Response Code', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      element('584', 'Employment Status Code', 'ID', 2, 2, 'O', { codes: 'employmentStatus' }),
+      element('1032', 'Claim Filing Indicator Code', 'ID', 1, 2, 'O', { codes: 'claimFilingIndicator' })
+    ]
+  },
+  PAT: {
+    name: 'Patient Information',
+    elements: [
+      element('1069', 'Individual Relationship Code', 'ID', 2, 2, 'O', { codes: 'relationship' }),
+      element('1384', 'Patient Location Code', 'ID', 1, 1),
+      element('584', 'Employment Status Code', 'ID', 2, 2, 'O', { codes: 'employmentStatus' }),
+      element('1220', 'Student Status Code', 'ID', 1, 1),
+      element('1250', 'Date Time Period Format Qualifier', 'ID', 2, 3, 'X', { codes: 'dateFormat' }),
+      element('1251', 'Date Time Period', 'AN', 1, 35, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('81', 'Weight', 'R', 1, 10, 'X'),
+      element('1073', 'Pregnancy Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' })
+    ]
+  },
+  PRV: {
+    name: 'Provider Information',
+    elements: [
+      element('1221', 'Provider Code', 'ID', 1, 3, 'M', { codes: 'providerCode' }),
+      element('128', 'Reference Identification Qualifier', 'ID', 2, 3, 'X', { codes: 'referenceQualifier' }),
+      element('127', 'Reference Identification', 'AN', 1, 50, 'X'),
+      element('156', 'State or Province Code', 'ID', 2, 2),
+      composite('C035', 'Provider Specialty Information', 'O', [
+        element('1222', 'Provider Specialty Code', 'AN', 1, 3, 'M'),
+        element('559', 'Agency Qualifier Code', 'ID', 2, 2)
+      ]),
+      element('1223', 'Provider Organization Code', 'ID', 3, 3)
+    ]
+  },
+  CLM: {
+    name: 'Health Claim',
+    elements: [
+      element('1028', "Claim Submitter's Identifier", 'AN', 1, 38, 'M'),
+      element('782', 'Total Claim Charge Amount', 'R', 1, 18),
+      element('1032', 'Claim Filing Indicator Code', 'ID', 1, 2, 'O', { codes: 'claimFilingIndicator' }),
+      element('1343', 'Non-Institutional Claim Type Code', 'ID', 1, 2),
+      serviceLocation('O'),
+      element('1073', 'Provider or Supplier Signature Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      element('1359', 'Provider Accept Assignment Code', 'ID', 1, 1),
+      element('1073', 'Benefits Assignment Certification Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' }),
+      element('1363', 'Release of Information Code', 'ID', 1, 1),
+      element('1351', 'Patient Signature Source Code', 'ID', 1, 1),
+      composite('C024', 'Related Causes Information', 'O', [
+        element('1362', 'Related-Causes Code', 'ID', 2, 3, 'M'),
+        element('1362', 'Related-Causes Code', 'ID', 2, 3),
+        element('1362', 'Related-Causes Code', 'ID', 2, 3),
+        element('156', 'State or Province Code', 'ID', 2, 2),
+        element('26', 'Country Code', 'ID', 2, 3)
+      ]),
+      element('1366', 'Special Program Code', 'ID', 2, 3)
+    ]
+  },
+  HI: {
+    name: 'Health Care Information Codes',
+    elements: Array.from({ length: 12 }, (_, index) => healthCareCode(index === 0 ? 'M' : 'O'))
+  },
+  SV1: {
+    name: 'Professional Service',
+    elements: [
+      medicalProcedure('M'),
+      element('782', 'Line Item Charge Amount', 'R', 1, 18),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('380', 'Service Unit Count', 'R', 1, 15, 'X'),
+      element('1331', 'Place of Service Code', 'AN', 1, 2),
+      element('1365', 'Service Type Code', 'ID', 1, 2, 'O', { codes: 'serviceType' }),
+      diagnosisPointer('O'),
+      element('782', 'Monetary Amount', 'R', 1, 18),
+      element('1073', 'Emergency Indicator', 'ID', 1, 1, 'O', { codes: 'yesNo' })
+    ]
+  },
+  SV2: {
+    name: 'Institutional Service Line',
+    elements: [
+      element('234', 'Service Line Revenue Code', 'AN', 1, 48, 'X'),
+      medicalProcedure('X'),
+      element('782', 'Line Item Charge Amount', 'R', 1, 18),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('380', 'Service Unit Count', 'R', 1, 15, 'X'),
+      element('1371', 'Unit Rate', 'R', 1, 10),
+      element('782', 'Line Item Denied Charge or Non-Covered Charge Amount', 'R', 1, 18)
+    ]
+  },
+  CLP: {
+    name: 'Claim Level Data',
+    elements: [
+      element('1028', "Claim Submitter's Identifier", 'AN', 1, 38, 'M'),
+      element('1029', 'Claim Status Code', 'ID', 1, 2, 'M', { codes: 'claimStatus' }),
+      element('782', 'Total Claim Charge Amount', 'R', 1, 18, 'M'),
+      element('782', 'Claim Payment Amount', 'R', 1, 18, 'M'),
+      element('782', 'Patient Responsibility Amount', 'R', 1, 18),
+      element('1032', 'Claim Filing Indicator Code', 'ID', 1, 2, 'O', { codes: 'claimFilingIndicator' }),
+      element('127', 'Payer Claim Control Number', 'AN', 1, 50),
+      element('1331', 'Facility Type Code', 'AN', 1, 2),
+      element('1325', 'Claim Frequency Type Code', 'ID', 1, 1),
+      element('1352', 'Patient Status Code', 'ID', 1, 2),
+      element('1354', 'Diagnosis Related Group (DRG) Code', 'ID', 1, 4),
+      element('380', 'Diagnosis Related Group (DRG) Weight', 'R', 1, 15),
+      element('954', 'Discharge Fraction', 'R', 1, 10)
+    ]
+  },
+  CAS: {
+    name: 'Claims Adjustment',
+    elements: [
+      element('1033', 'Claim Adjustment Group Code', 'ID', 1, 2, 'M', { codes: 'claimAdjustmentGroup' }),
+      ...adjustmentTriples
+    ]
+  },
+  SVC: {
+    name: 'Service Payment Information',
+    elements: [
+      medicalProcedure('M'),
+      element('782', 'Line Item Charge Amount', 'R', 1, 18, 'M'),
+      element('782', 'Line Item Provider Payment Amount', 'R', 1, 18),
+      element('234', 'National Uniform Billing Committee Revenue Code', 'AN', 1, 48),
+      element('380', 'Units of Service Paid Count', 'R', 1, 15),
+      medicalProcedure('O'),
+      element('380', 'Original Units of Service Count', 'R', 1, 15)
+    ]
+  },
+  PLB: {
+    name: 'Provider Level Adjustment',
+    elements: [
+      element('127', 'Provider Identifier', 'AN', 1, 50, 'M'),
+      element('373', 'Fiscal Period Date', 'DT', 8, 8, 'M'),
+      adjustmentIdentifier('M'),
+      element('782', 'Provider Adjustment Amount', 'R', 1, 18, 'M'),
+      ...Array.from({ length: 5 }, () => [
+        adjustmentIdentifier('X'),
+        element('782', 'Provider Adjustment Amount', 'R', 1, 18, 'X')
+      ]).flat()
+    ]
+  },
+  BPR: {
+    name: 'Beginning Segment for Payment Order/Remittance Advice',
+    elements: [
+      element('305', 'Transaction Handling Code', 'ID', 1, 2, 'M', { codes: 'transactionHandling', field: 'transactionHandlingCode' }),
+      element('782', 'Monetary Amount', 'R', 1, 18, 'M', { field: 'monetaryAmount' }),
+      element('478', 'Credit/Debit Flag Code', 'ID', 1, 1, 'M', { codes: 'creditDebit', field: 'creditDebitFlag' }),
+      element('591', 'Payment Method Code', 'ID', 3, 3, 'M', { codes: 'paymentMethod', field: 'paymentMethodCode' }),
+      element('812', 'Payment Format Code', 'ID', 1, 10, 'O', { field: 'paymentFormatCode' }),
+      element('506', '(DFI) ID Number Qualifier', 'ID', 2, 2, 'X', { field: 'originatingDfiQualifier' }),
+      element('507', '(DFI) Identification Number', 'AN', 3, 12, 'X', { field: 'originatingDfiId' }),
+      element('569', 'Account Number Qualifier', 'ID', 1, 3, 'O', { field: 'originatingAccountQualifier' }),
+      element('508', 'Account Number', 'AN', 1, 35, 'X', { field: 'originatingAccountNumber' }),
+      element('509', 'Originating Company Identifier', 'AN', 10, 10, 'O', { field: 'originatingCompanyId' }),
+      element('510', 'Originating Company Supplemental Code', 'AN', 9, 9, 'O', { field: 'originatingCompanySupplementalCode' }),
+      element('506', '(DFI) ID Number Qualifier', 'ID', 2, 2, 'X', { field: 'receivingDfiQualifier' }),
+      element('507', '(DFI) Identification Number', 'AN', 3, 12, 'X', { field: 'receivingDfiId' }),
+      element('569', 'Account Number Qualifier', 'ID', 1, 3, 'O', { field: 'receivingAccountQualifier' }),
+      element('508', 'Account Number', 'AN', 1, 35, 'X', { field: 'receivingAccountNumber' }),
+      element('373', 'Date', 'DT', 8, 8, 'O', { field: 'effectiveEntryDate' }),
+      element('1048', 'Business Function Code', 'ID', 1, 3, 'O', { field: 'businessFunctionCode' })
+    ]
+  },
+  RMR: {
+    name: 'Remittance Advice Accounts Receivable Open Item Reference',
+    elements: [
+      element('128', 'Reference Identification Qualifier', 'ID', 2, 3, 'X', { codes: 'referenceQualifier' }),
+      element('127', 'Reference Identification', 'AN', 1, 50, 'X'),
+      element('482', 'Payment Action Code', 'ID', 2, 2),
+      element('782', 'Monetary Amount', 'R', 1, 18),
+      element('782', 'Monetary Amount', 'R', 1, 18),
+      element('782', 'Monetary Amount', 'R', 1, 18),
+      element('426', 'Adjustment Reason Code', 'ID', 2, 2),
+      element('782', 'Monetary Amount', 'R', 1, 18)
+    ]
+  },
+  ENT: {
+    name: 'Entity',
+    elements: [
+      element('554', 'Assigned Number', 'N0', 1, 6),
+      element('98', 'Entity Identifier Code', 'ID', 2, 3, 'X', { codes: 'entityIdentifier' }),
+      element('66', 'Identification Code Qualifier', 'ID', 1, 2, 'X', { codes: 'identificationCodeQualifier' }),
+      element('67', 'Identification Code', 'AN', 2, 80, 'X')
+    ]
+  },
+
+  // Acknowledgments
+  AK1: {
+    name: 'Functional Group Response Header',
+    elements: [
+      element('479', 'Functional Identifier Code', 'ID', 2, 2, 'M', { codes: 'functionalIdentifier' }),
+      element('28', 'Group Control Number', 'N0', 1, 9, 'M'),
+      element('480', 'Version / Release / Industry Identifier Code', 'AN', 1, 12)
+    ]
+  },
+  AK2: {
+    name: 'Transaction Set Response Header',
+    elements: [
+      element('143', 'Transaction Set Identifier Code', 'ID', 3, 3, 'M'),
+      element('329', 'Transaction Set Control Number', 'AN', 4, 9, 'M'),
+      element('1705', 'Implementation Convention Reference', 'AN', 1, 35)
+    ]
+  },
+  IK3: {
+    name: 'Error Identification',
+    elements: [
+      element('721', 'Segment ID Code', 'ID', 2, 3, 'M'),
+      element('719', 'Segment Position in Transaction Set', 'N0', 1, 10, 'M'),
+      element('447', 'Loop Identifier Code', 'AN', 1, 4),
+      element('620', 'Implementation Segment Syntax Error Code', 'ID', 1, 3, 'O', { codes: 'segmentSyntaxError' })
+    ]
+  },
+  IK4: {
+    name: 'Implementation Data Element Note',
+    elements: [
+      positionInSegment,
+      element('725', 'Data Element Reference Number', 'N0', 1, 4),
+      element('621', 'Implementation Data Element Syntax Error Code', 'ID', 1, 3, 'M', { codes: 'elementSyntaxError' }),
+      element('724', 'Copy of Bad Data Element', 'AN', 1, 99)
+    ]
+  },
+  IK5: {
+    name: 'Implementation Transaction Set Response Trailer',
+    elements: [
+      element('717', 'Transaction Set Acknowledgment Code', 'ID', 1, 1, 'M', { codes: 'transactionSetAcknowledgment' }),
+      ...Array.from({ length: 5 }, () => element('618', 'Implementation Transaction Set Syntax Error Code', 'ID', 1, 3, 'O', { codes: 'setSyntaxError' }))
+    ]
+  },
+  AK3: {
+    name: 'Data Segment Note',
+    elements: [
+      element('721', 'Segment ID Code', 'ID', 2, 3, 'M'),
+      element('719', 'Segment Position in Transaction Set', 'N0', 1, 10, 'M'),
+      element('447', 'Loop Identifier Code', 'AN', 1, 4),
+      element('720', 'Segment Syntax Error Code', 'ID', 1, 3, 'O', { codes: 'segmentSyntaxError' })
+    ]
+  },
+  AK4: {
+    name: 'Data Element Note',
+    elements: [
+      positionInSegment,
+      element('725', 'Data Element Reference Number', 'N0', 1, 4),
+      element('723', 'Data Element Syntax Error Code', 'ID', 1, 3, 'M', { codes: 'elementSyntaxError' }),
+      element('724', 'Copy of Bad Data Element', 'AN', 1, 99)
+    ]
+  },
+  AK5: {
+    name: 'Transaction Set Response Trailer',
+    elements: [
+      element('717', 'Transaction Set Acknowledgment Code', 'ID', 1, 1, 'M', { codes: 'transactionSetAcknowledgment' }),
+      ...Array.from({ length: 5 }, () => element('718', 'Transaction Set Syntax Error Code', 'ID', 1, 3, 'O', { codes: 'setSyntaxError' }))
+    ]
+  },
+  AK9: {
+    name: 'Functional Group Response Trailer',
+    elements: [
+      element('715', 'Functional Group Acknowledge Code', 'ID', 1, 1, 'M', { codes: 'groupAcknowledgment' }),
+      element('97', 'Number of Transaction Sets Included', 'N0', 1, 6, 'M'),
+      element('123', 'Number of Received Transaction Sets', 'N0', 1, 6, 'M'),
+      element('2', 'Number of Accepted Transaction Sets', 'N0', 1, 6, 'M'),
+      ...Array.from({ length: 5 }, () => element('716', 'Functional Group Syntax Error Code', 'ID', 1, 3, 'O', { codes: 'groupSyntaxError' }))
+    ]
+  },
+
+  // Supply chain
+  BEG: {
+    name: 'Beginning Segment for Purchase Order',
+    elements: [
+      element('353', 'Transaction Set Purpose Code', 'ID', 2, 2, 'M', { codes: 'transactionSetPurpose' }),
+      element('92', 'Purchase Order Type Code', 'ID', 2, 2, 'M', { codes: 'purchaseOrderType' }),
+      element('324', 'Purchase Order Number', 'AN', 1, 22, 'M'),
+      element('328', 'Release Number', 'AN', 1, 30),
+      element('373', 'Date', 'DT', 8, 8, 'M'),
+      element('367', 'Contract Number', 'AN', 1, 30)
+    ]
+  },
+  BAK: {
+    name: 'Beginning Segment for Purchase Order Acknowledgment',
+    elements: [
+      element('353', 'Transaction Set Purpose Code', 'ID', 2, 2, 'M', { codes: 'transactionSetPurpose' }),
+      element('587', 'Acknowledgment Type', 'ID', 2, 2, 'M', { codes: 'acknowledgmentType' }),
+      element('324', 'Purchase Order Number', 'AN', 1, 22, 'M'),
+      element('373', 'Date', 'DT', 8, 8, 'M'),
+      element('328', 'Release Number', 'AN', 1, 30),
+      element('326', 'Request Reference Number', 'AN', 1, 45),
+      element('367', 'Contract Number', 'AN', 1, 30),
+      element('127', 'Reference Identification', 'AN', 1, 50),
+      element('373', 'Date', 'DT', 8, 8)
+    ]
+  },
+  BSN: {
+    name: 'Beginning Segment for Ship Notice',
+    elements: [
+      element('353', 'Transaction Set Purpose Code', 'ID', 2, 2, 'M', { codes: 'transactionSetPurpose' }),
+      element('396', 'Shipment Identification', 'AN', 2, 30, 'M'),
+      element('373', 'Date', 'DT', 8, 8, 'M'),
+      element('337', 'Time', 'TM', 4, 8, 'M'),
+      element('1005', 'Hierarchical Structure Code', 'ID', 4, 4, 'O', { codes: 'hierarchicalStructure' }),
+      element('640', 'Transaction Type Code', 'ID', 2, 2, 'X'),
+      element('641', 'Status Reason Code', 'ID', 3, 3)
+    ]
+  },
+  BIG: {
+    name: 'Beginning Segment for Invoice',
+    elements: [
+      element('373', 'Invoice Date', 'DT', 8, 8, 'M'),
+      element('76', 'Invoice Number', 'AN', 1, 22, 'M'),
+      element('373', 'Purchase Order Date', 'DT', 8, 8),
+      element('324', 'Purchase Order Number', 'AN', 1, 22),
+      element('328', 'Release Number', 'AN', 1, 30),
+      element('327', 'Change Order Sequence Number', 'AN', 1, 8),
+      element('640', 'Transaction Type Code', 'ID', 2, 2),
+      element('353', 'Transaction Set Purpose Code', 'ID', 2, 2, 'O', { codes: 'transactionSetPurpose' })
+    ]
+  },
+  PO1: {
+    name: 'Baseline Item Data',
+    elements: [
+      element('350', 'Assigned Identification', 'AN', 1, 20),
+      element('330', 'Quantity Ordered', 'R', 1, 15, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'O', { codes: 'unitOfMeasure' }),
+      element('212', 'Unit Price', 'R', 1, 17, 'X'),
+      element('639', 'Basis of Unit Price Code', 'ID', 2, 2),
+      ...productIdPairs(6, 10)
+    ]
+  },
+  ACK: {
+    name: 'Line Item Acknowledgment',
+    elements: [
+      element('668', 'Line Item Status Code', 'ID', 2, 2, 'M', { codes: 'lineItemStatus' }),
+      element('380', 'Quantity', 'R', 1, 15, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('374', 'Date/Time Qualifier', 'ID', 3, 3, 'O', { codes: 'dateTimeQualifier' }),
+      element('373', 'Date', 'DT', 8, 8, 'X'),
+      element('326', 'Request Reference Number', 'AN', 1, 45),
+      ...productIdPairs(7, 10)
+    ]
+  },
+  IT1: {
+    name: 'Baseline Item Data (Invoice)',
+    elements: [
+      element('350', 'Assigned Identification', 'AN', 1, 20),
+      element('358', 'Quantity Invoiced', 'R', 1, 10, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('212', 'Unit Price', 'R', 1, 17, 'X'),
+      element('639', 'Basis of Unit Price Code', 'ID', 2, 2),
+      ...productIdPairs(6, 10)
+    ]
+  },
+  LIN: {
+    name: 'Item Identification',
+    elements: [
+      element('350', 'Assigned Identification', 'AN', 1, 20),
+      ...productIdPairs(2, 15)
+    ]
+  },
+  SN1: {
+    name: 'Item Detail (Shipment)',
+    elements: [
+      element('350', 'Assigned Identification', 'AN', 1, 20),
+      element('382', 'Number of Units Shipped', 'R', 1, 10, 'M'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'M', { codes: 'unitOfMeasure' }),
+      element('646', 'Quantity Shipped to Date', 'R', 1, 15),
+      element('330', 'Quantity Ordered', 'R', 1, 15, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('728', 'Returnable Container Load Make-Up Code', 'ID', 1, 2),
+      element('668', 'Line Item Status Code', 'ID', 2, 2, 'O', { codes: 'lineItemStatus' })
+    ]
+  },
+  PID: {
+    name: 'Product/Item Description',
+    elements: [
+      element('349', 'Item Description Type', 'ID', 1, 1, 'M'),
+      element('750', 'Product/Process Characteristic Code', 'ID', 2, 3),
+      element('559', 'Agency Qualifier Code', 'ID', 2, 2, 'X'),
+      element('751', 'Product Description Code', 'AN', 1, 12, 'X'),
+      element('352', 'Description', 'AN', 1, 80, 'X')
+    ]
+  },
+  TD1: {
+    name: 'Carrier Details (Quantity and Weight)',
+    elements: [
+      element('103', 'Packaging Code', 'AN', 3, 5),
+      element('80', 'Lading Quantity', 'N0', 1, 7, 'X'),
+      element('23', 'Commodity Code Qualifier', 'ID', 1, 1),
+      element('22', 'Commodity Code', 'AN', 1, 30, 'X'),
+      element('79', 'Lading Description', 'AN', 1, 50),
+      element('187', 'Weight Qualifier', 'ID', 1, 2),
+      element('81', 'Weight', 'R', 1, 10, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('183', 'Volume', 'R', 1, 8, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' })
+    ]
+  },
+  TD5: {
+    name: 'Carrier Details (Routing Sequence/Transit Time)',
+    elements: [
+      element('133', 'Routing Sequence Code', 'ID', 1, 2),
+      element('66', 'Identification Code Qualifier', 'ID', 1, 2, 'X', { codes: 'identificationCodeQualifier' }),
+      element('67', 'Identification Code', 'AN', 2, 80, 'X'),
+      element('91', 'Transportation Method/Type Code', 'ID', 1, 2, 'X'),
+      element('387', 'Routing', 'AN', 1, 35, 'X'),
+      element('368', 'Shipment/Order Status Code', 'ID', 2, 2, 'X')
+    ]
+  },
+  CTT: {
+    name: 'Transaction Totals',
+    elements: [
+      element('354', 'Number of Line Items', 'N0', 1, 6, 'M'),
+      element('347', 'Hash Total', 'R', 1, 10),
+      element('81', 'Weight', 'R', 1, 10),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('183', 'Volume', 'R', 1, 8, 'X'),
+      element('355', 'Unit or Basis for Measurement Code', 'ID', 2, 2, 'X', { codes: 'unitOfMeasure' }),
+      element('352', 'Description', 'AN', 1, 80)
+    ]
+  },
+  CUR: {
+    name: 'Currency',
+    elements: [
+      element('98', 'Entity Identifier Code', 'ID', 2, 3, 'M', { codes: 'entityIdentifier' }),
+      element('100', 'Currency Code', 'ID', 3, 3, 'M'),
+      element('280', 'Exchange Rate', 'R', 4, 10)
+    ]
+  }
+};
+
+// Releases. X12_SEGMENTS follows 005010; 004010 differs in the elements below.
+
+export type X12Release = '004010' | '005010';
+
+export const DEFAULT_X12_RELEASE: X12Release = '005010';
+
+// 004010 lengths by data element number
+const ELEMENT_CHANGES_004010: Record<string, Partial<X12ElementDefinition>> = {
+  '127': { max: 30 },
+  '364': { max: 80 },
+  '1035': { max: 35 },
+  '1036': { max: 25 }
+};
+
+// 004010 segments whose layout changed: ISA11 was the standards identifier rather than the
+// repetition separator, ST had no ST03, and DMG05 was a single race code rather than C056
+const SEGMENT_CHANGES_004010: Record<string, (elements: X12ElementDefinition[]) => X12ElementDefinition[]> = {
+  ISA: elements => elements.map((definition, index) =>
+    index === 10 ? element('I10', 'Interchange Control Standards Identifier', 'ID', 1, 1, 'M', { field: 'controlStandards' }) : definition
+  ),
+  ST: elements => elements.slice(0, 2),
+  DMG: elements => elements.slice(0, 4).concat(
+    element('1109', 'Race or Ethnicity Code', 'ID', 1, 1, 'O', { field: 'raceEthnicity' }),
+    elements.slice(5, 9)
+  )
+};
+
+function applyElementChanges(definition: X12ElementDefinition): X12ElementDefinition {
+  const changed = { ...definition, ...ELEMENT_CHANGES_004010[definition.id] };
+  return definition.components ? { ...changed, components: definition.components.map(applyElementChanges) } : changed;
+}
+
+const X12_SEGMENTS_004010: Record<string, X12SegmentDefinition> = Object.fromEntries(
+  Object.entries(X12_SEGMENTS).map(([tag, definition]) => {
+    const elements = definition.elements.map(applyElementChanges);
+    return [tag, { ...definition, elements: SEGMENT_CHANGES_004010[tag]?.(elements) || elements }];
+  })
+);
+
+export const X12_DICTIONARIES: Record<X12Release, Record<string, X12SegmentDefinition>> = {
+  '004010': X12_SEGMENTS_004010,
+  '005010': X12_SEGMENTS
+};
+
+// Release of a version code such as GS08 "004010X095A1", ISA12 "00401" or "005010"
+export function releaseOf(version: string | undefined): X12Release | undefined {
+  const digits = version?.trim().slice(0, 6) || '';
+  if (digits.startsWith('00401')) return '004010';
+  if (digits.startsWith('00501')) return '005010';
+  return undefined;
+}
+
+// Lookups
+
+export function getSegmentDefinition(tag: string, release: X12Release = DEFAULT_X12_RELEASE): X12SegmentDefinition | undefined {
+  return X12_DICTIONARIES[release][tag];
+}
+
+// Definition of an element by position (1-based, as in NM103)
+export function getElementDefinition(tag: string, position: number, release: X12Release = DEFAULT_X12_RELEASE): X12ElementDefinition | undefined {
+  return getSegmentDefinition(tag, release)?.elements[position - 1];
+}
+
+export function elementReference(tag: string, position: number): string {
+  return `${tag}${String(position).padStart(2, '0')}`;
+}
+
+export function getCodeList(name: X12CodeListName): X12CodeList {
+  return X12_CODE_LISTS[name];
+}
+
+// Description of a code in the element's code list
+export function describeCode(definition: X12ElementDefinition | undefined, value: string): string | undefined {
+  if (!definition?.codes || !value) return undefined;
+  return getCodeList(definition.codes).codes[value];
+}
+
+// "NM103 Name Last or Organization Name" with the code meaning when there is one
+export function describeElement(tag: string, position: number, value = '', release: X12Release = DEFAULT_X12_RELEASE): string {
+  const definition = getElementDefinition(tag, position, release);
+  const reference = elementReference(tag, position);
+  if (!definition) return reference;
+
+  const meaning = describeCode(definition, value);
+  return `${reference} ${definition.name}${meaning ? `: ${meaning}` : ''}`;
+}
+
+// "Member Level Detail - Member Indicator: Y (Yes), Individual Relationship Code: 18 (Self)"
+export function decodeX12Segment(segment: { tag: string; elements: string[] }, release: X12Release = DEFAULT_X12_RELEASE): string {
+  const definition = getSegmentDefinition(segment.tag, release);
+  if (!definition) return `${segment.tag} Segment - ${segment.elements.slice(1).join(', ')}`;
+
+  const parts = segment.elements.slice(1).flatMap((value, index) => {
+    if (!value.trim()) return [];
+    const element = definition.elements[index];
+    if (!element) return [`${elementReference(segment.tag, index + 1)}: ${value}`];
+    const meaning = describeCode(element, value);
+    return [`${element.name}: ${value}${meaning ? ` (${meaning})` : ''}`];
+  });
+  return parts.length ? `${definition.name} - ${parts.join(', ')}` : definition.name;
+}
+
+// Business JSON fields of a segment, keyed by each element's `field`
+export function segmentFields<T = Record<string, string | undefined>>(segment: { tag: string; elements: string[] }): T {
+  const fields: Record<string, string | undefined> = {};
+  X12_SEGMENTS[segment.tag]?.elements.forEach((definition, index) => {
+    if (definition.field) fields[definition.field] = segment.elements[index + 1];
+  });
+  return fields as T;
+}
+
+// The reverse: element values (tag first) from business JSON fields
+export function fieldsToElements(tag: string, fields: object): string[] {
+  const values = fields as Record<string, unknown>;
+  return [tag, ...(X12_SEGMENTS[tag]?.elements || []).map(definition => {
+    const value = definition.field ? values[definition.field] : undefined;
+    return value === undefined || value === null ? '' : String(value);
+  })];
+}
+
+// Validation
+
+export type X12ElementIssueKind =
+  | 'required'
+  | 'too-many'
+  | 'too-short'
+  | 'too-long'
+  | 'invalid-character'
+  | 'invalid-code'
+  | 'invalid-date'
+  | 'invalid-time'
+  | 'too-many-repetitions'
+  | 'too-many-components';
+
+export interface X12ElementIssue {
+  kind: X12ElementIssueKind;
+  // 1-based element position
+  position: number;
+  // A missing mandatory element rejects the segment; everything else is a warning
+  severity: 'critical' | 'warning';
+  message: string;
+  description: string;
+  suggestion?: string;
+}
+
+type ReportElementIssue = (kind: X12ElementIssueKind, position: number, severity: X12ElementIssue['severity'], message: string, description: string, suggestion?: string) => void;
+
+// Check a segment's elements against the dictionary: usage, repetitions, components, length,
+// type and closed code lists. The ISA is fixed width and holds the delimiters, so callers check it on its own.
+export function checkSegmentElements(segment: EDISegment, release: X12Release = DEFAULT_X12_RELEASE): X12ElementIssue[] {
+  const definition = getSegmentDefinition(segment.tag, release);
+  if (!definition) return [];
+
+  const issues: X12ElementIssue[] = [];
+  const push: ReportElementIssue = (kind, position, severity, message, description, suggestion) => {
+    issues.push({ kind, position, severity, message, description, suggestion });
+  };
+
+  const extra = segment.elements.length - 1 - definition.elements.length;
+  if (extra > 0) {
+    const position = definition.elements.length + 1;
+    push('too-many', position, 'warning', `Too many elements in ${segment.tag}`,
+      `${segment.tag} defines ${definition.elements.length} elements but has ${segment.elements.length - 1}`,
+      `Remove the elements after ${elementReference(segment.tag, definition.elements.length)}`);
+  }
+
+  definition.elements.forEach((element, index) => {
+    const position = index + 1;
+    const reference = elementReference(segment.tag, position);
+    const value = segment.elements[position] || '';
+
+    if (!value) {
+      if (element.usage === 'M') {
+        push('required', position, 'critical', `Missing required element ${reference}`,
+          `${reference} (${element.name}) is mandatory in ${definition.name}`, `Provide a value for ${element.name}`);
+      }
+      return;
+    }
+
+    const repetitions = getRepetitions(segment, position);
+    if (repetitions.length > (element.repeat || 1)) {
+      push('too-many-repetitions', position, 'warning', `Too many repetitions of ${reference}`,
+        `${reference} allows ${element.repeat || 1} but has ${repetitions.length}`);
+    }
+
+    repetitions.forEach(components => {
+      if (!element.components) {
+        if (components.length > 1) {
+          push('too-many-components', position, 'warning', `${reference} is not a composite`,
+            `${reference} (${element.name}) contains the component separator`, 'Remove the component separator from the value');
+        } else {
+          checkValue(element, reference, components[0], position, push);
+        }
+        return;
+      }
+
+      if (components.length > element.components.length) {
+        push('too-many-components', position, 'warning', `Too many components in ${reference}`,
+          `${reference} (${element.name}) defines ${element.components.length} components but has ${components.length}`);
+      }
+      element.components.forEach((component, componentIndex) => {
+        const componentReference = `${reference}-${componentIndex + 1}`;
+        const componentValue = components[componentIndex] || '';
+        if (componentValue) {
+          checkValue(component, componentReference, componentValue, position, push);
+        } else if (component.usage === 'M') {
+          push('required', position, 'critical', `Missing required component ${componentReference}`,
+            `${componentReference} (${component.name}) is mandatory in ${element.name}`, `Provide a value for ${component.name}`);
+        }
+      });
+    });
+  });
+
+  return issues;
+}
+
+function checkValue(
+  element: X12ElementDefinition,
+  reference: string,
+  value: string,
+  position: number,
+  push: ReportElementIssue
+): void {
+  // Numeric lengths count digits only, not the sign or decimal point
+  const numeric = element.type === 'N0' || element.type === 'N2' || element.type === 'R';
+  const length = numeric ? value.replace(/[-.]/g, '').length : value.length;
+
+  if (numeric && !(element.type === 'R' ? /^-?(\d+\.?\d*|\.\d+)$/ : /^-?\d+$/).test(value)) {
+    push('invalid-character', position, 'warning', `Invalid number in ${reference}`,
+      `"${value}" is not a valid ${element.type === 'R' ? 'decimal' : 'integer'} for ${element.name}`);
+    return;
+  }
+  if (element.type === 'DT' && !isValidDate(value)) {
+    push('invalid-date', position, 'warning', `Invalid date in ${reference}`,
+      `"${value}" is not a valid ${element.max === 6 ? 'YYMMDD' : 'CCYYMMDD'} date for ${element.name}`);
+    return;
+  }
+  if (element.type === 'TM' && !/^([01]\d|2[0-3])[0-5]\d([0-5]\d(\d{1,2})?)?$/.test(value)) {
+    push('invalid-time', position, 'warning', `Invalid time in ${reference}`,
+      `"${value}" is not a valid HHMM[SS[dd]] time for ${element.name}`);
+    return;
+  }
+
+  if (length < element.min) {
+    push('too-short', position, 'warning', `${reference} is too short`,
+      `${element.name} must be at least ${element.min} characters; "${value}" has ${length}`);
+  } else if (length > element.max) {
+    push('too-long', position, 'warning', `${reference} is too long`,
+      `${element.name} allows at most ${element.max} characters; "${value}" has ${length}`);
+  }
+
+  const list = element.codes ? getCodeList(element.codes) : undefined;
+  if (list?.closed && !(value in list.codes)) {
+    push('invalid-code', position, 'warning', `Invalid code in ${reference}`,
+      `"${value}" is not a valid ${list.name}`, `Use one of: ${Object.keys(list.codes).join(', ')}`);
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^(\d{6}|\d{8})$/.test(value)) return false;
+  const year = value.length === 6 ? 2000 + Number(value.slice(0, 2)) : Number(value.slice(0, 4));
+  const month = Number(value.slice(-4, -2));
+  const day = Number(value.slice(-2));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
@@ -0,0 +1,85 @@
+import type { EDISegment } from './universalEDIParser';
+import type { X12Delimiters } from './x12Tokenizer';
+
+// A single element: each repetition (ISA11) holds its components (ISA16).
+// Simple elements have one repetition with one component.
+export interface EDIElement {
+  value: string;
+  repetitions: string[][];
+}
+
+export interface ElementReference {
+  tag: string;
+  position: number;
+  component?: number;
+  repetition?: number;
+}
+
+// Segments whose elements must never be split, because they declare the separators
+const UNSPLIT_SEGMENTS = new Set(['ISA']);
+
+export function splitElement(value: string, delimiters: X12Delimiters, splittable = true): EDIElement {
+  if (!splittable) {
+    return { value, repetitions: [[value]] };
+  }
+
+  const repetitions = delimiters.repetition ? value.split(delimiters.repetition) : [value];
+  return {
+    value,
+    repetitions: repetitions.map(repetition => repetition.split(delimiters.component))
+  };
+}
+
+// Build the structured model for a tokenized segment; index 0 holds the tag, like `elements`
+export function buildElements(tag: string, elements: string[], delimiters: X12Delimiters): EDIElement[] {
+  const splittable = !UNSPLIT_SEGMENTS.has(tag);
+  return elements.map((value, index) => splitElement(value, delimiters, splittable && index > 0));
+}
+
+// Parse references such as "SV1-01-2", "SV101-2", "HI01" or "EB03" (1-based, X12 notation)
+export function parseElementReference(reference: string): ElementReference | null {
+  const match = reference.trim().toUpperCase().match(/^([A-Z][A-Z0-9]{1,2}?)-?(\d{2})(?:-(\d+))?(?:\[(\d+)\])?$/);
+  if (!match) return null;
+
+  return {
+    tag: match[1],
+    position: parseInt(match[2], 10),
+    component: match[3] ? parseInt(match[3], 10) : undefined,
+    repetition: match[4] ? parseInt(match[4], 10) : undefined
+  };
+}
+
+function elementAt(segment: EDISegment, position: number): EDIElement | undefined {
+  if (segment.parsedElements) return segment.parsedElements[position];
+
+  // Segments built without delimiter information keep the element opaque
+  const value = segment.elements[position];
+  return value === undefined ? undefined : { value, repetitions: [[value]] };
+}
+
+// All repetitions of an element, each as its list of components
+export function getRepetitions(segment: EDISegment, position: number): string[][] {
+  return elementAt(segment, position)?.repetitions || [];
+}
+
+// Components of one repetition (1-based) of an element
+export function getComponents(segment: EDISegment, position: number, repetition = 1): string[] {
+  return getRepetitions(segment, position)[repetition - 1] || [];
+}
+
+// A single component value, e.g. getComponent(sv1, 1, 2) for SV1-01-2
+export function getComponent(segment: EDISegment, position: number, component = 1, repetition = 1): string | undefined {
+  return getComponents(segment, position, repetition)[component - 1];
+}
+
+// Resolve a reference string against a segment; undefined when the tag does not match
+export function getElementValue(segment: EDISegment, reference: string): string | undefined {
+  const parsed = parseElementReference(reference);
+  if (!parsed || parsed.tag !== segment.tag) return undefined;
+
+  if (parsed.component === undefined && parsed.repetition === undefined) {
+    return elementAt(segment, parsed.position)?.value;
+  }
+
+  return getComponent(segment, parsed.position, parsed.component || 1, parsed.repetition || 1);
+}
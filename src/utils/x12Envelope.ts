@@ -0,0 +1,332 @@
+import { buildEDITransaction, type EDISegment, type EDITransaction } from './universalEDIParser';
+import { tokenizeEDI, DEFAULT_X12_DELIMITERS, type X12Delimiters } from './x12Tokenizer';
+import { getComponent, getComponents } from './x12Elements';
+import { detectLayout, serializeX12, type X12Layout } from './x12Serializer';
+
+// One ST/SE set. `segments` keeps its enclosing ISA/GS and GE/IEA so every
+// transaction-level helper (converters, validators) works on it unchanged.
+export interface EDITransactionSet extends EDITransaction {
+  controlNumber: string;
+  implementationReference?: string;
+  header: EDISegment;
+  trailer?: EDISegment;
+}
+
+export interface EDIFunctionalGroup {
+  functionalCode: string;
+  sender: string;
+  receiver: string;
+  date: string;
+  time: string;
+  controlNumber: string;
+  version: string;
+  header?: EDISegment;
+  trailer?: EDISegment;
+  transactionSets: EDITransactionSet[];
+}
+
+export interface EDIInterchange {
+  sender: string;
+  receiver: string;
+  date: string;
+  time: string;
+  controlNumber: string;
+  version: string;
+  testIndicator: string;
+  // EDIFACT UNA, which declares the delimiters ahead of UNB
+  serviceStringAdvice?: EDISegment;
+  header?: EDISegment;
+  trailer?: EDISegment;
+  groups: EDIFunctionalGroup[];
+}
+
+export interface EDIDocument {
+  delimiters: X12Delimiters;
+  layout: X12Layout;
+  segments: EDISegment[];
+  interchanges: EDIInterchange[];
+  transactionSets: EDITransactionSet[];
+  statistics: {
+    totalSegments: number;
+    interchangeCount: number;
+    groupCount: number;
+    transactionSetCount: number;
+    processingTime: number;
+  };
+}
+
+interface PendingSet {
+  header: EDISegment;
+  body: EDISegment[];
+  trailer?: EDISegment;
+}
+
+interface PendingGroup {
+  group: EDIFunctionalGroup;
+  sets: PendingSet[];
+}
+
+interface PendingInterchange {
+  interchange: EDIInterchange;
+  groups: PendingGroup[];
+}
+
+// EDIFACT envelopes play the same roles as their X12 counterparts
+const ENVELOPE_ROLES: Record<string, string> = {
+  UNB: 'ISA',
+  UNG: 'GS',
+  UNH: 'ST',
+  UNT: 'SE',
+  UNE: 'GE',
+  UNZ: 'IEA'
+};
+
+// UNB: S001 syntax, S002 sender, S003 recipient, S004 date:time, 0020 reference, ..., 0035 test indicator
+function openEDIFACTInterchange(unb: EDISegment, una?: EDISegment): PendingInterchange {
+  return {
+    interchange: {
+      sender: getComponent(unb, 2)?.trim() || '',
+      receiver: getComponent(unb, 3)?.trim() || '',
+      date: getComponent(unb, 4, 1) || '',
+      time: getComponent(unb, 4, 2) || '',
+      controlNumber: unb.elements[5] || '',
+      version: getComponents(unb, 1).filter(Boolean).join(':'),
+      testIndicator: unb.elements[11] === '1' ? 'T' : 'P',
+      serviceStringAdvice: una,
+      header: unb,
+      groups: []
+    },
+    groups: []
+  };
+}
+
+// UNG: 0038 group ID, S006 sender, S007 recipient, S004 date:time, 0048 reference, 0051 agency, S008 version
+function openEDIFACTGroup(ung: EDISegment): PendingGroup {
+  return {
+    group: {
+      functionalCode: ung.elements[1] || '',
+      sender: getComponent(ung, 2) || '',
+      receiver: getComponent(ung, 3) || '',
+      date: getComponent(ung, 4, 1) || '',
+      time: getComponent(ung, 4, 2) || '',
+      controlNumber: ung.elements[5] || '',
+      version: getComponents(ung, 7).filter(Boolean).join(':'),
+      header: ung,
+      transactionSets: []
+    },
+    sets: []
+  };
+}
+
+function openInterchange(isa?: EDISegment): PendingInterchange {
+  const elements = isa?.elements || [];
+  return {
+    interchange: {
+      sender: elements[6]?.trim() || '',
+      receiver: elements[8]?.trim() || '',
+      date: elements[9] || '',
+      time: elements[10] || '',
+      controlNumber: elements[13] || '',
+      version: elements[12] || '',
+      testIndicator: elements[15] || '',
+      header: isa,
+      groups: []
+    },
+    groups: []
+  };
+}
+
+function openGroup(gs?: EDISegment): PendingGroup {
+  const elements = gs?.elements || [];
+  return {
+    group: {
+      functionalCode: elements[1] || '',
+      sender: elements[2] || '',
+      receiver: elements[3] || '',
+      date: elements[4] || '',
+      time: elements[5] || '',
+      controlNumber: elements[6] || '',
+      version: elements[8] || '',
+      header: gs,
+      transactionSets: []
+    },
+    sets: []
+  };
+}
+
+// Wrap enveloped ST..SE (or UNH..UNT) segments as a transaction set
+export function createTransactionSet(segments: EDISegment[], delimiters?: X12Delimiters, startTime = Date.now()): EDITransactionSet {
+  const transaction = buildEDITransaction(segments, delimiters, startTime);
+
+  const unh = segments.find(segment => segment.tag === 'UNH');
+  if (unh) {
+    // UNH02 (S009) is type:version:release:agency:association code, e.g. INVOIC:D:96A:UN:EAN008
+    return {
+      ...transaction,
+      controlNumber: unh.elements[1] || '',
+      implementationReference: getComponents(unh, 2).slice(1).filter(Boolean).join(':') || undefined,
+      header: unh,
+      trailer: segments.find(segment => segment.tag === 'UNT')
+    };
+  }
+
+  const header = segments.find(segment => segment.tag === 'ST');
+  const trailer = segments.find(segment => segment.tag === 'SE');
+
+  return {
+    ...transaction,
+    controlNumber: header?.elements[2] || '',
+    implementationReference: header?.elements[3] || undefined,
+    header,
+    trailer
+  };
+}
+
+function buildTransactionSet(
+  pending: PendingSet,
+  group: EDIFunctionalGroup,
+  interchange: EDIInterchange,
+  delimiters: X12Delimiters
+): EDITransactionSet {
+  const envelope = [
+    interchange.serviceStringAdvice,
+    interchange.header,
+    group.header,
+    pending.header,
+    ...pending.body,
+    pending.trailer,
+    group.trailer,
+    interchange.trailer
+  ].filter((segment): segment is EDISegment => Boolean(segment));
+
+  return createTransactionSet(envelope, delimiters);
+}
+
+// Group tokenized segments into Interchange → FunctionalGroup → TransactionSet.
+// Segments outside an expected envelope (e.g. a bare ST/SE snippet) get an implicit parent.
+export function buildEnvelopeTree(segments: EDISegment[], delimiters: X12Delimiters = DEFAULT_X12_DELIMITERS): EDIInterchange[] {
+  const interchanges: PendingInterchange[] = [];
+  let currentInterchange: PendingInterchange | null = null;
+  let currentGroup: PendingGroup | null = null;
+  let currentSet: PendingSet | null = null;
+  let serviceStringAdvice: EDISegment | undefined;
+
+  const ensureInterchange = (): PendingInterchange => {
+    if (!currentInterchange) {
+      currentInterchange = openInterchange();
+      interchanges.push(currentInterchange);
+    }
+    return currentInterchange;
+  };
+
+  const ensureGroup = (): PendingGroup => {
+    if (!currentGroup) {
+      currentGroup = openGroup();
+      ensureInterchange().groups.push(currentGroup);
+    }
+    return currentGroup;
+  };
+
+  for (const segment of segments) {
+    const edifact = segment.tag in ENVELOPE_ROLES;
+    switch (ENVELOPE_ROLES[segment.tag] || segment.tag) {
+      case 'UNA':
+        serviceStringAdvice = segment;
+        break;
+      case 'ISA':
+        currentInterchange = edifact
+          ? openEDIFACTInterchange(segment, serviceStringAdvice)
+          : openInterchange(segment);
+        interchanges.push(currentInterchange);
+        serviceStringAdvice = undefined;
+        currentGroup = null;
+        currentSet = null;
+        break;
+      case 'GS':
+        currentGroup = edifact ? openEDIFACTGroup(segment) : openGroup(segment);
+        ensureInterchange().groups.push(currentGroup);
+        currentSet = null;
+        break;
+      case 'ST':
+        currentSet = { header: segment, body: [] };
+        ensureGroup().sets.push(currentSet);
+        break;
+      case 'SE':
+        if (currentSet) {
+          currentSet.trailer = segment;
+          currentSet = null;
+        }
+        break;
+      case 'GE':
+        if (currentGroup) {
+          currentGroup.group.trailer = segment;
+          currentGroup = null;
+        }
+        currentSet = null;
+        break;
+      case 'IEA':
+        if (currentInterchange) {
+          currentInterchange.interchange.trailer = segment;
+          currentInterchange = null;
+        }
+        currentGroup = null;
+        currentSet = null;
+        break;
+      default:
+        if (currentSet) currentSet.body.push(segment);
+        break;
+    }
+  }
+
+  // Build sets once trailers are known so each carries its full envelope
+  return interchanges.map(({ interchange, groups }) => {
+    interchange.groups = groups.map(({ group, sets }) => {
+      group.transactionSets = sets.map(set => buildTransactionSet(set, group, interchange, delimiters));
+      return group;
+    });
+    return interchange;
+  });
+}
+
+// Parse a file that may hold several interchanges, groups and mixed transaction sets
+export function parseEDIDocument(content: string): EDIDocument {
+  const startTime = Date.now();
+  const { delimiters, segments } = tokenizeEDI(content);
+  const interchanges = buildEnvelopeTree(segments, delimiters);
+  const groups = interchanges.flatMap(interchange => interchange.groups);
+  const transactionSets = groups.flatMap(group => group.transactionSets);
+
+  return {
+    delimiters,
+    layout: detectLayout(content, delimiters),
+    segments,
+    interchanges,
+    transactionSets,
+    statistics: {
+      totalSegments: segments.length,
+      interchangeCount: interchanges.length,
+      groupCount: groups.length,
+      transactionSetCount: transactionSets.length,
+      processingTime: Date.now() - startTime
+    }
+  };
+}
+
+// Standalone X12 or EDIFACT text for one transaction set, enclosed in its original envelope.
+// The envelope now holds a single set and group, so the trailer counts are rewritten to match.
+export function transactionSetToContent(set: EDITransactionSet): string {
+  const delimiters = set.delimiters || DEFAULT_X12_DELIMITERS;
+  if (set.header.tag === 'ST') {
+    return serializeX12({ segments: set.segments, delimiters });
+  }
+
+  // UNE01 counts the group's messages and UNZ01 the interchange's messages or groups
+  const terminator = delimiters.segment;
+  const lineBreak = terminator === '\n' ? '' : '\n';
+  return set.segments.map(segment => {
+    const raw = (segment.tag === 'UNE' || segment.tag === 'UNZ') && segment.elements[1] !== '1'
+      ? [segment.tag, '1', ...segment.elements.slice(2)].join(delimiters.element)
+      : segment.raw;
+    return `${raw}${terminator}${lineBreak}`;
+  }).join('');
+}
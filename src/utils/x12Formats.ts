@@ -1,4 +1,6 @@
 // Comprehensive X12 EDI Format Library
+import { X12_SEGMENTS } from './x12Dictionary';
+
 export const X12_FORMATS = {
   // Healthcare - Primary Focus
   '834': {
@@ -6,6 +8,8 @@ export const X12_FORMATS = {
     description: 'Member enrollment, changes, and terminations',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BGN', 'N1', 'INS', 'NM1', 'SE', 'GE', 'IEA'],
+    // GS01 functional identifier code
+    functionalGroup: 'BE',
     businessContext: 'enrollment'
   },
   '820': {
@@ -13,6 +17,7 @@ export const X12_FORMATS = {
     description: 'Premium payments and remittance information',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BPR', 'N1', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'RA',
     businessContext: 'payment'
   },
   '837': {
@@ -20,6 +25,7 @@ export const X12_FORMATS = {
     description: 'Professional, institutional, and dental claims',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BHT', 'NM1', 'CLM', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'HC',
     businessContext: 'claims'
   },
   '835': {
@@ -27,6 +33,7 @@ export const X12_FORMATS = {
     description: 'Payment and remittance advice for claims',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BPR', 'N1', 'CLP', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'HP',
     businessContext: 'payment'
   },
   '270': {
@@ -34,6 +41,7 @@ export const X12_FORMATS = {
     description: 'Request for member eligibility and benefits',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BHT', 'HL', 'NM1', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'HS',
     businessContext: 'eligibility'
   },
   '271': {
@@ -41,6 +49,7 @@ export const X12_FORMATS = {
     description: 'Response to eligibility and benefit inquiries',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BHT', 'HL', 'NM1', 'EB', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'HB',
     businessContext: 'eligibility'
   },
   '278': {
@@ -48,6 +57,7 @@ export const X12_FORMATS = {
     description: 'Prior authorization requests and responses',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'BHT', 'HL', 'NM1', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'HI',
     businessContext: 'authorization'
   },
   '999': {
@@ -55,6 +65,7 @@ export const X12_FORMATS = {
     description: 'Functional acknowledgment for received transactions',
     category: 'healthcare',
     requiredSegments: ['ISA', 'GS', 'ST', 'AK1', 'AK9', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'FA',
     businessContext: 'acknowledgment'
   },
 
@@ -64,6 +75,7 @@ export const X12_FORMATS = {
     description: 'Electronic purchase orders',
     category: 'supply_chain',
     requiredSegments: ['ISA', 'GS', 'ST', 'BEG', 'N1', 'PO1', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'PO',
     businessContext: 'procurement'
   },
   '855': {
@@ -71,6 +83,7 @@ export const X12_FORMATS = {
     description: 'Acknowledgment of purchase orders',
     category: 'supply_chain',
     requiredSegments: ['ISA', 'GS', 'ST', 'BAK', 'N1', 'PO1', 'ACK', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'PR',
     businessContext: 'procurement'
   },
   '856': {
@@ -78,6 +91,7 @@ export const X12_FORMATS = {
     description: 'Advance shipping notifications',
     category: 'supply_chain',
     requiredSegments: ['ISA', 'GS', 'ST', 'BSN', 'HL', 'TD1', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'SH',
     businessContext: 'shipping'
   },
   '810': {
@@ -85,10 +99,389 @@ export const X12_FORMATS = {
     description: 'Electronic invoices',
     category: 'financial',
     requiredSegments: ['ISA', 'GS', 'ST', 'BIG', 'N1', 'IT1', 'SE', 'GE', 'IEA'],
+    functionalGroup: 'IN',
     businessContext: 'billing'
   }
 } as const;
 
+// Implementation-guide loop structure. A loop starts at its trigger segment
+// (optionally qualified by one element) and may contain nested loops.
+export interface LoopSchema {
+  id: string;
+  name: string;
+  trigger: {
+    tag: string;
+    position?: number;
+    values?: readonly string[];
+  };
+  loops?: readonly LoopSchema[];
+}
+
+export interface TransactionLoopSchema {
+  loops: readonly LoopSchema[];
+  // Segments that close the detail area and belong back at the transaction level
+  summarySegments?: readonly string[];
+}
+
+const COB_LOOP_834: LoopSchema = {
+  id: '2320', name: 'Coordination of Benefits', trigger: { tag: 'COB' },
+  loops: [
+    { id: '2330', name: 'Coordination of Benefits Related Entity', trigger: { tag: 'NM1', position: 1, values: ['36', 'GW', 'IN'] } }
+  ]
+};
+
+export type ClaimVariant = 'professional' | 'institutional' | 'dental';
+
+// 837 implementation references (GS08/ST03) per claim variant
+export const CLAIM_837_VARIANTS: Record<string, ClaimVariant> = {
+  '005010X222A1': 'professional',
+  '005010X222A2': 'professional',
+  '004010X098A1': 'professional',
+  '005010X223A1': 'institutional',
+  '005010X223A2': 'institutional',
+  '005010X223A3': 'institutional',
+  '004010X096A1': 'institutional',
+  '005010X224A1': 'dental',
+  '005010X224A2': 'dental',
+  '005010X224A3': 'dental',
+  '004010X097A1': 'dental'
+};
+
+const providerLoop = (id: string, name: string, ...qualifiers: string[]): LoopSchema => ({
+  id, name, trigger: { tag: 'NM1', position: 1, values: qualifiers }
+});
+
+const CLAIM_PROVIDER_LOOPS_837: Record<ClaimVariant, { claim: LoopSchema[]; line: LoopSchema[] }> = {
+  professional: {
+    claim: [
+      providerLoop('2310A', 'Referring Provider Name', 'DN', 'P3'),
+      providerLoop('2310B', 'Rendering Provider Name', '82'),
+      providerLoop('2310C', 'Service Facility Location Name', '77'),
+      providerLoop('2310D', 'Supervising Provider Name', 'DQ'),
+      providerLoop('2310E', 'Ambulance Pick-up Location', 'PW'),
+      providerLoop('2310F', 'Ambulance Drop-off Location', '45')
+    ],
+    line: [
+      providerLoop('2420A', 'Rendering Provider Name', '82'),
+      providerLoop('2420B', 'Purchased Service Provider Name', 'QB'),
+      providerLoop('2420C', 'Service Facility Location Name', '77'),
+      providerLoop('2420D', 'Supervising Provider Name', 'DQ'),
+      providerLoop('2420E', 'Ordering Provider Name', 'DK'),
+      providerLoop('2420F', 'Referring Provider Name', 'DN', 'P3')
+    ]
+  },
+  institutional: {
+    claim: [
+      providerLoop('2310A', 'Attending Provider Name', '71'),
+      providerLoop('2310B', 'Operating Physician Name', '72'),
+      providerLoop('2310C', 'Other Operating Physician Name', 'ZZ'),
+      providerLoop('2310D', 'Rendering Provider Name', '82'),
+      providerLoop('2310E', 'Service Facility Location Name', '77'),
+      providerLoop('2310F', 'Referring Provider Name', 'DN')
+    ],
+    line: [
+      providerLoop('2420A', 'Operating Physician Name', '72'),
+      providerLoop('2420B', 'Other Operating Physician Name', 'ZZ'),
+      providerLoop('2420C', 'Rendering Provider Name', '82'),
+      providerLoop('2420D', 'Referring Provider Name', 'DN')
+    ]
+  },
+  dental: {
+    claim: [
+      providerLoop('2310A', 'Referring Provider Name', 'DN', 'P3'),
+      providerLoop('2310B', 'Rendering Provider Name', '82'),
+      providerLoop('2310C', 'Service Facility Location Name', '77'),
+      providerLoop('2310D', 'Assistant Surgeon Name', 'DD')
+    ],
+    line: [
+      providerLoop('2420A', 'Rendering Provider Name', '82'),
+      providerLoop('2420B', 'Assistant Surgeon Name', 'DD'),
+      providerLoop('2420C', 'Supervising Provider Name', 'DQ'),
+      providerLoop('2420D', 'Service Facility Location Name', '77')
+    ]
+  }
+};
+
+function claimLoop837(variant: ClaimVariant): LoopSchema {
+  const providers = CLAIM_PROVIDER_LOOPS_837[variant];
+  return {
+    id: '2300', name: 'Claim Information', trigger: { tag: 'CLM' },
+    loops: [
+      ...providers.claim,
+      {
+        id: '2320', name: 'Other Subscriber Information', trigger: { tag: 'SBR' },
+        loops: [
+          providerLoop('2330A', 'Other Subscriber Name', 'IL'),
+          providerLoop('2330B', 'Other Payer Name', 'PR')
+        ]
+      },
+      {
+        id: '2400', name: 'Service Line Number', trigger: { tag: 'LX' },
+        loops: [
+          { id: '2410', name: 'Drug Identification', trigger: { tag: 'LIN' } },
+          ...providers.line,
+          { id: '2430', name: 'Line Adjudication Information', trigger: { tag: 'SVD' } },
+          { id: '2440', name: 'Form Identification Code', trigger: { tag: 'LQ' } }
+        ]
+      }
+    ]
+  };
+}
+
+function claimSchema837(variant: ClaimVariant): TransactionLoopSchema {
+  const claimLoop = claimLoop837(variant);
+  return {
+    loops: [
+      providerLoop('1000A', 'Submitter Name', '41'),
+      providerLoop('1000B', 'Receiver Name', '40'),
+      {
+        id: '2000A', name: 'Billing Provider Hierarchical Level', trigger: { tag: 'HL', position: 3, values: ['20'] },
+        loops: [
+          providerLoop('2010AA', 'Billing Provider Name', '85'),
+          providerLoop('2010AB', 'Pay-to Address Name', '87'),
+          providerLoop('2010AC', 'Pay-to Plan Name', 'PE'),
+          {
+            id: '2000B', name: 'Subscriber Hierarchical Level', trigger: { tag: 'HL', position: 3, values: ['22'] },
+            loops: [
+              providerLoop('2010BA', 'Subscriber Name', 'IL'),
+              providerLoop('2010BB', 'Payer Name', 'PR'),
+              claimLoop,
+              {
+                id: '2000C', name: 'Patient Hierarchical Level', trigger: { tag: 'HL', position: 3, values: ['23'] },
+                loops: [
+                  providerLoop('2010CA', 'Patient Name', 'QC'),
+                  claimLoop
+                ]
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  };
+}
+
+export const CLAIM_LOOP_SCHEMAS_837: Record<ClaimVariant, TransactionLoopSchema> = {
+  professional: claimSchema837('professional'),
+  institutional: claimSchema837('institutional'),
+  dental: claimSchema837('dental')
+};
+
+// 270/271 share the HL hierarchy; the 2110 loops open at EQ in inquiries and EB in responses
+function eligibilityPersonLoop(level: 'C' | 'D', benefitTag: 'EQ' | 'EB'): LoopSchema {
+  const person = level === 'C' ? 'Subscriber' : 'Dependent';
+  return {
+    id: `2100${level}`, name: `${person} Name`, trigger: { tag: 'NM1' },
+    loops: [{
+      id: `2110${level}`,
+      name: benefitTag === 'EQ' ? `${person} Eligibility or Benefit Inquiry` : `${person} Eligibility or Benefit Information`,
+      trigger: { tag: benefitTag },
+      loops: benefitTag === 'EB'
+        ? [{ id: `2120${level}`, name: `${person} Benefit Related Entity Name`, trigger: { tag: 'NM1' } }]
+        : undefined
+    }]
+  };
+}
+
+function eligibilitySchema(benefitTag: 'EQ' | 'EB'): TransactionLoopSchema {
+  return {
+    loops: [{
+      id: '2000A', name: 'Information Source Level', trigger: { tag: 'HL', position: 3, values: ['20'] },
+      loops: [
+        { id: '2100A', name: 'Information Source Name', trigger: { tag: 'NM1' } },
+        {
+          id: '2000B', name: 'Information Receiver Level', trigger: { tag: 'HL', position: 3, values: ['21'] },
+          loops: [
+            { id: '2100B', name: 'Information Receiver Name', trigger: { tag: 'NM1' } },
+            {
+              id: '2000C', name: 'Subscriber Level', trigger: { tag: 'HL', position: 3, values: ['22'] },
+              loops: [
+                eligibilityPersonLoop('C', benefitTag),
+                {
+                  id: '2000D', name: 'Dependent Level', trigger: { tag: 'HL', position: 3, values: ['23'] },
+                  loops: [eligibilityPersonLoop('D', benefitTag)]
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    }]
+  };
+}
+
+// 278 patient event (HL*EV) and service (HL*SS) levels sit under either the subscriber or the dependent
+const AUTHORIZATION_EVENT_LOOP_278: LoopSchema = {
+  id: '2000E', name: 'Patient Event Level', trigger: { tag: 'HL', position: 3, values: ['EV'] },
+  loops: [
+    { id: '2010E', name: 'Patient Event Provider Name', trigger: { tag: 'NM1' } },
+    {
+      id: '2000F', name: 'Service Level', trigger: { tag: 'HL', position: 3, values: ['SS'] },
+      loops: [
+        { id: '2010F', name: 'Service Provider Name', trigger: { tag: 'NM1' } }
+      ]
+    }
+  ]
+};
+
+// Supply-chain loops are named after their leading segment, as in the X12 standard
+const PARTY_LOOP: LoopSchema = { id: 'N1', name: 'Party Identification', trigger: { tag: 'N1' } };
+
+function orderLineLoop(extraLoops: LoopSchema[] = []): LoopSchema {
+  return {
+    id: 'PO1', name: 'Baseline Item Data', trigger: { tag: 'PO1' },
+    loops: [
+      { id: 'PO1/PID', name: 'Product/Item Description', trigger: { tag: 'PID' } },
+      ...extraLoops,
+      { id: 'PO1/SCH', name: 'Line Item Schedule', trigger: { tag: 'SCH' } },
+      { id: 'PO1/N1', name: 'Line Party Identification', trigger: { tag: 'N1' } }
+    ]
+  };
+}
+
+// Loop schemas per transaction type, following the HIPAA implementation guides
+export const LOOP_SCHEMAS: Partial<Record<X12FormatType, TransactionLoopSchema>> = {
+  '834': {
+    loops: [
+      { id: '1000A', name: 'Sponsor Name', trigger: { tag: 'N1', position: 1, values: ['P5'] } },
+      { id: '1000B', name: 'Payer', trigger: { tag: 'N1', position: 1, values: ['IN'] } },
+      { id: '1000C', name: 'TPA/Broker Name', trigger: { tag: 'N1', position: 1, values: ['BO', 'TV'] } },
+      {
+        id: '2000', name: 'Member Level Detail', trigger: { tag: 'INS' },
+        loops: [
+          { id: '2100A', name: 'Member Name', trigger: { tag: 'NM1', position: 1, values: ['IL', '74'] } },
+          { id: '2100B', name: 'Incorrect Member Name', trigger: { tag: 'NM1', position: 1, values: ['70'] } },
+          { id: '2100C', name: 'Member Mailing Address', trigger: { tag: 'NM1', position: 1, values: ['31'] } },
+          { id: '2100D', name: 'Member Employer', trigger: { tag: 'NM1', position: 1, values: ['36'] } },
+          { id: '2100E', name: 'Member School', trigger: { tag: 'NM1', position: 1, values: ['M8'] } },
+          { id: '2100F', name: 'Custodial Parent', trigger: { tag: 'NM1', position: 1, values: ['S3'] } },
+          {
+            id: '2100G', name: 'Responsible Person',
+            trigger: { tag: 'NM1', position: 1, values: ['6Y', '9K', 'E1', 'EXS', 'FD', 'GD', 'J6', 'LR', 'QD', 'S1', 'TZ', 'X4'] }
+          },
+          { id: '2100H', name: 'Drop Off Location', trigger: { tag: 'NM1', position: 1, values: ['45'] } },
+          { id: '2200', name: 'Disability Information', trigger: { tag: 'DSB' } },
+          {
+            id: '2300', name: 'Health Coverage', trigger: { tag: 'HD' },
+            loops: [
+              { id: '2310', name: 'Provider Information', trigger: { tag: 'LX' } },
+              COB_LOOP_834
+            ]
+          },
+          {
+            id: '2700', name: 'Additional Reporting Categories', trigger: { tag: 'LS' },
+            loops: [
+              {
+                id: '2710', name: 'Member Reporting Categories', trigger: { tag: 'LX' },
+                loops: [
+                  { id: '2750', name: 'Reporting Category', trigger: { tag: 'N1', position: 1, values: ['75'] } }
+                ]
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  },
+  '820': {
+    loops: [
+      { id: '1000A', name: 'Premium Receiver Name', trigger: { tag: 'N1', position: 1, values: ['PE'] } },
+      { id: '1000B', name: 'Premium Payer Name', trigger: { tag: 'N1', position: 1, values: ['PR', 'RM'] } },
+      {
+        id: '2000', name: 'Remittance Information', trigger: { tag: 'ENT' },
+        loops: [
+          { id: '2100', name: 'Individual Name', trigger: { tag: 'NM1' } },
+          {
+            id: '2300', name: 'Remittance Detail', trigger: { tag: 'RMR' },
+            loops: [
+              { id: '2320', name: 'Adjustment', trigger: { tag: 'ADX' } }
+            ]
+          }
+        ]
+      }
+    ]
+  },
+  '837': CLAIM_LOOP_SCHEMAS_837.professional,
+  '270': eligibilitySchema('EQ'),
+  '271': eligibilitySchema('EB'),
+  '278': {
+    loops: [{
+      id: '2000A', name: 'Utilization Management Organization Level', trigger: { tag: 'HL', position: 3, values: ['20'] },
+      loops: [
+        { id: '2010A', name: 'Utilization Management Organization Name', trigger: { tag: 'NM1' } },
+        {
+          id: '2000B', name: 'Requester Level', trigger: { tag: 'HL', position: 3, values: ['21'] },
+          loops: [
+            { id: '2010B', name: 'Requester Name', trigger: { tag: 'NM1' } },
+            {
+              id: '2000C', name: 'Subscriber Level', trigger: { tag: 'HL', position: 3, values: ['22'] },
+              loops: [
+                { id: '2010C', name: 'Subscriber Name', trigger: { tag: 'NM1' } },
+                {
+                  id: '2000D', name: 'Dependent Level', trigger: { tag: 'HL', position: 3, values: ['23'] },
+                  loops: [
+                    { id: '2010D', name: 'Dependent Name', trigger: { tag: 'NM1' } },
+                    AUTHORIZATION_EVENT_LOOP_278
+                  ]
+                },
+                AUTHORIZATION_EVENT_LOOP_278
+              ]
+            }
+          ]
+        }
+      ]
+    }]
+  },
+  '835': {
+    loops: [
+      { id: '1000A', name: 'Payer Identification', trigger: { tag: 'N1', position: 1, values: ['PR'] } },
+      { id: '1000B', name: 'Payee Identification', trigger: { tag: 'N1', position: 1, values: ['PE'] } },
+      {
+        id: '2000', name: 'Header Number', trigger: { tag: 'LX' },
+        loops: [
+          {
+            id: '2100', name: 'Claim Payment Information', trigger: { tag: 'CLP' },
+            loops: [
+              { id: '2110', name: 'Service Payment Information', trigger: { tag: 'SVC' } }
+            ]
+          }
+        ]
+      }
+    ],
+    summarySegments: ['PLB']
+  },
+  '850': {
+    loops: [PARTY_LOOP, orderLineLoop()],
+    summarySegments: ['CTT']
+  },
+  '855': {
+    loops: [PARTY_LOOP, orderLineLoop([{ id: 'PO1/ACK', name: 'Line Item Acknowledgment', trigger: { tag: 'ACK' } }])],
+    summarySegments: ['CTT']
+  },
+  // 856 levels are flat here; the shipment/order/pack/item tree is rebuilt from HL01/HL02
+  '856': {
+    loops: [{
+      id: 'HL', name: 'Hierarchical Level', trigger: { tag: 'HL' },
+      loops: [PARTY_LOOP]
+    }],
+    summarySegments: ['CTT']
+  },
+  '810': {
+    loops: [
+      PARTY_LOOP,
+      {
+        id: 'IT1', name: 'Baseline Item Data (Invoice)', trigger: { tag: 'IT1' },
+        loops: [
+          { id: 'IT1/PID', name: 'Product/Item Description', trigger: { tag: 'PID' } },
+          { id: 'IT1/SAC', name: 'Line Service, Promotion, Allowance, or Charge', trigger: { tag: 'SAC' } },
+          { id: 'IT1/N1', name: 'Line Party Identification', trigger: { tag: 'N1' } }
+        ]
+      }
+    ],
+    summarySegments: ['TDS', 'CTT']
+  }
+};
+
 // Major Payer Database with specific requirements
 export const PAYER_DATABASE = {
   'AETNA': {
@@ -156,58 +549,34 @@ export const PAYER_DATABASE = {
   }
 } as const;
 
-// Segment definitions for all X12 formats
-export const SEGMENT_DEFINITIONS = {
-  // Control Segments
-  'ISA': 'Interchange Control Header',
-  'IEA': 'Interchange Control Trailer',
-  'GS': 'Functional Group Header',
-  'GE': 'Functional Group Trailer',
-  'ST': 'Transaction Set Header',
-  'SE': 'Transaction Set Trailer',
-
-  // Healthcare Specific
-  'BGN': 'Beginning Segment',
-  'BHT': 'Beginning of Hierarchical Transaction',
-  'INS': 'Member Level Detail',
-  'NM1': 'Individual Name',
-  'N1': 'Entity Name',
-  'N3': 'Address Information',
-  'N4': 'Geographic Location',
-  'DMG': 'Demographic Information',
-  'HD': 'Health Coverage',
-  'DTP': 'Date/Time Period',
-  'REF': 'Reference Information',
-  'PER': 'Administrative Communications Contact',
-  'EB': 'Eligibility or Benefit Information',
-  'CLP': 'Claim Level Data',
-  'BPR': 'Financial Information',
-  'TRN': 'Trace',
-  'QTY': 'Quantity',
-  'AMT': 'Monetary Amount',
-  'HL': 'Hierarchical Level',
-
-  // Acknowledgment
-  'AK1': 'Functional Group Response Header',
-  'AK9': 'Functional Group Response Trailer',
-  'TA1': 'Interchange Acknowledgment',
-
-  // Supply Chain
-  'BEG': 'Beginning Segment for Purchase Order',
-  'BAK': 'Beginning Segment for Purchase Order Acknowledgment',
-  'BSN': 'Beginning Segment for Ship Notice',
-  'BIG': 'Beginning Segment for Invoice',
-  'PO1': 'Baseline Item Data',
-  'ACK': 'Line Item Acknowledgment',
-  'IT1': 'Baseline Item Data (Invoice)',
-  'TD1': 'Carrier Details (Quantity and Weight)',
-
-  // Financial
-  'RMR': 'Remittance Advice',
-  'DTM': 'Date/Time Reference',
-  'ENT': 'Entity'
-} as const;
+// Segment names for all X12 formats; elements and code lists live in the X12 dictionary
+export const SEGMENT_DEFINITIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(X12_SEGMENTS).map(([tag, definition]) => [tag, definition.name])
+);
 
 export type X12FormatType = keyof typeof X12_FORMATS;
 export type PayerType = keyof typeof PAYER_DATABASE;
-export type SegmentType = keyof typeof SEGMENT_DEFINITIONS;
\ No newline at end of file
+
+// Companion guide requirements a payer places on one transaction type
+export interface PayerRequirements {
+  // Member IDs (REF*0F, or NM109 of NM1*IL under ZZ)
+  memberIdFormat?: RegExp;
+  // TAG or TAG*qualifier entries each subscriber's member loop must carry; INS*Y only needs one subscriber
+  requiredElements?: readonly string[];
+  // Prose rules from the companion guide, shown but not checked
+  businessRules?: readonly string[];
+  paymentFormat?: RegExp;
+  routingNumberRequired?: boolean;
+  traceNumberRequired?: boolean;
+  eftDetailsRequired?: boolean;
+  bankAccountValidation?: boolean;
+  reconciliationRequired?: boolean;
+  // TRN02 pattern, e.g. AETNA-YYYYMMDD-NNNN
+  controlNumberSequence?: string;
+}
+
+export function getPayerRequirements(payerId: string | undefined, type: string): PayerRequirements | undefined {
+  const requirements: Readonly<Record<string, PayerRequirements>> | undefined = PAYER_DATABASE[payerId as PayerType]?.specialRequirements;
+  return requirements?.[type];
+}
+export type SegmentType = keyof typeof X12_SEGMENTS;
\ No newline at end of file
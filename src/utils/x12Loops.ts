@@ -0,0 +1,122 @@
+import type { EDISegment } from './universalEDIParser';
+import type { LoopSchema, TransactionLoopSchema, X12FormatType } from './x12Formats';
+import { getGuideLoopSchema, readImplementationReference } from './implementationGuides';
+
+export interface EDILoop {
+  id: string;
+  name: string;
+  segments: EDISegment[];
+  loops: EDILoop[];
+}
+
+export const ROOT_LOOP_ID = 'ROOT';
+
+// Envelope trailers always return to the transaction level
+const ENVELOPE_TRAILERS = new Set(['SE', 'GE', 'IEA']);
+
+interface LoopFrame {
+  loop: EDILoop;
+  children: readonly LoopSchema[];
+}
+
+function matchesTrigger(schema: LoopSchema, segment: EDISegment): boolean {
+  const { tag, position, values } = schema.trigger;
+  if (segment.tag !== tag) return false;
+  if (position === undefined || !values) return true;
+  return values.includes(segment.elements[position]?.trim() || '');
+}
+
+// Loop schema for a transaction type, under the implementation guide named in GS08/ST03 when given
+export function getLoopSchema(type: X12FormatType | 'unknown' | string, reference?: string): TransactionLoopSchema | undefined {
+  return getGuideLoopSchema(type, reference);
+}
+
+// Turn a transaction's flat segment list into a loop tree. A segment that
+// triggers a loop opens it under the nearest enclosing loop whose schema
+// allows it; any other segment belongs to the innermost open loop.
+export function buildLoopTree(
+  transaction: { type: string; segments: EDISegment[] },
+  schema: TransactionLoopSchema | undefined = getLoopSchema(transaction.type, readImplementationReference(transaction.segments))
+): EDILoop {
+  const root: EDILoop = { id: ROOT_LOOP_ID, name: 'Transaction', segments: [], loops: [] };
+  const stack: LoopFrame[] = [{ loop: root, children: schema?.loops || [] }];
+  const summarySegments = new Set(schema?.summarySegments || []);
+
+  for (const segment of transaction.segments) {
+    if (ENVELOPE_TRAILERS.has(segment.tag) || summarySegments.has(segment.tag)) {
+      stack.length = 1;
+      root.segments.push(segment);
+      continue;
+    }
+
+    let opened = false;
+    for (let depth = stack.length - 1; depth >= 0; depth--) {
+      const loopSchema = stack[depth].children.find(child => matchesTrigger(child, segment));
+      if (!loopSchema) continue;
+
+      const loop: EDILoop = { id: loopSchema.id, name: loopSchema.name, segments: [segment], loops: [] };
+      stack.length = depth + 1;
+      stack[depth].loop.loops.push(loop);
+      stack.push({ loop, children: loopSchema.loops || [] });
+      opened = true;
+      break;
+    }
+
+    if (!opened) {
+      stack[stack.length - 1].loop.segments.push(segment);
+    }
+  }
+
+  return root;
+}
+
+// All loops with the given ID anywhere below `loop`, in document order
+export function findLoops(loop: EDILoop, id: string): EDILoop[] {
+  const found: EDILoop[] = [];
+  for (const child of loop.loops) {
+    if (child.id === id) found.push(child);
+    found.push(...findLoops(child, id));
+  }
+  return found;
+}
+
+// Direct child loops with the given ID
+export function childLoops(loop: EDILoop, id: string): EDILoop[] {
+  return loop.loops.filter(child => child.id === id);
+}
+
+// Segments directly in this loop, optionally filtered by a qualifier in element 1
+export function loopSegments(loop: EDILoop | undefined, tag: string, qualifier?: string): EDISegment[] {
+  if (!loop) return [];
+  return loop.segments.filter(segment =>
+    segment.tag === tag && (qualifier === undefined || segment.elements[1] === qualifier)
+  );
+}
+
+export function loopSegment(loop: EDILoop | undefined, tag: string, qualifier?: string): EDISegment | undefined {
+  return loopSegments(loop, tag, qualifier)[0];
+}
+
+// Every segment in the loop and its nested loops, in document order
+export function flattenLoop(loop: EDILoop): EDISegment[] {
+  const segments = [...loop.segments, ...loop.loops.flatMap(flattenLoop)];
+  return segments.sort((a, b) => a.lineNumber - b.lineNumber);
+}
+
+// Split a segment list holding several ST/SE sets so each gets its own loop tree.
+// Envelope segments stay with the set they precede or follow.
+export function splitTransactionSets(segments: EDISegment[]): EDISegment[][] {
+  const sets: EDISegment[][] = [];
+  let current: EDISegment[] = [];
+
+  for (const segment of segments) {
+    if (segment.tag === 'ST' && current.some(s => s.tag === 'ST')) {
+      sets.push(current);
+      current = [];
+    }
+    current.push(segment);
+  }
+  sets.push(current);
+
+  return sets;
+}
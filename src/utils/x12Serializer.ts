@@ -0,0 +1,227 @@
+import type { EDISegment } from './universalEDIParser';
+import { DEFAULT_X12_DELIMITERS, type X12Delimiters } from './x12Tokenizer';
+
+// How segments sit in the file around their terminators. Detected from the
+// original content so an unedited parse serializes back to the same bytes.
+export interface X12Layout {
+  // Whitespace before the first segment
+  leading: string;
+  // Written after each segment terminator, e.g. '\n' for one segment per line
+  lineBreak: string;
+  // Written as the terminator when it is a line break ('\n' or '\r\n')
+  newlineTerminator?: string;
+  // Whether the last segment carries a terminator, and anything after it
+  terminateLast: boolean;
+  trailing: string;
+  // Fixed-width records (e.g. 80 columns) that wrap regardless of segment boundaries
+  wrap?: { width: number; lineBreak: string };
+}
+
+export interface X12Serializable {
+  segments: EDISegment[];
+  delimiters?: X12Delimiters;
+  layout?: X12Layout;
+}
+
+export interface SerializeOptions {
+  // Replace some or all of the delimiters the segments were parsed with
+  delimiters?: Partial<X12Delimiters>;
+  // Override the detected layout, e.g. { lineBreak: '', wrap: undefined } for a single line
+  layout?: Partial<X12Layout>;
+  // Recompute SE01, GE01 and IEA01 from the segments (default true). Counts that are
+  // already right keep their text, but a file whose counts are wrong comes out
+  // corrected rather than byte for byte; pass false for a pure re-layout.
+  recount?: boolean;
+}
+
+export const DEFAULT_X12_LAYOUT: X12Layout = {
+  leading: '',
+  lineBreak: '\n',
+  terminateLast: true,
+  trailing: ''
+};
+
+// Line styles offered when writing files out
+export const LINE_STYLES: Record<string, Partial<X12Layout>> = {
+  original: {},
+  segment: { lineBreak: '\n', wrap: undefined },
+  crlf: { lineBreak: '\r\n', wrap: undefined },
+  single: { lineBreak: '', wrap: undefined },
+  wrap80: { lineBreak: '', wrap: { width: 80, lineBreak: '\n' } }
+};
+
+// Read the layout of X12 content tokenized with `delimiters`
+export function detectLayout(content: string, delimiters: X12Delimiters): X12Layout {
+  const leading = /^\s*/.exec(content)?.[0] || '';
+  const body = content.substring(leading.length).replace(/\s+$/, '');
+  const tail = content.substring(leading.length + body.length);
+
+  if (delimiters.segment === '\n') {
+    const newlineTerminator = content.includes('\r\n') ? '\r\n' : '\n';
+    const terminateLast = tail.startsWith(newlineTerminator);
+    return {
+      leading,
+      lineBreak: '',
+      newlineTerminator,
+      terminateLast,
+      trailing: terminateLast ? tail.substring(newlineTerminator.length) : tail
+    };
+  }
+
+  const first = body.indexOf(delimiters.segment);
+  const afterFirst = first === -1 || first === body.length - 1 ? '' : /^\s*/.exec(body.substring(first + 1))?.[0] || '';
+  const layout: X12Layout = {
+    leading,
+    lineBreak: afterFirst,
+    terminateLast: body.endsWith(delimiters.segment),
+    trailing: tail
+  };
+
+  // No break after terminators but breaks elsewhere: fixed-width records
+  const lines = body.split(/\r?\n/);
+  if (!afterFirst && lines.length > 1) {
+    const width = lines[0].length;
+    const fixed = lines.slice(0, -1).every(line => line.length === width) && lines[lines.length - 1].length <= width;
+    if (fixed) layout.wrap = { width, lineBreak: body.includes('\r\n') ? '\r\n' : '\n' };
+  }
+
+  return layout;
+}
+
+const elementReference = (tag: string, index: number) => `${tag}${String(index).padStart(2, '0')}`;
+
+// X12 has no escape character, so a value holding a delimiter cannot be written
+function checkValue(value: string, tag: string, index: number, delimiters: [string, string | null][]): void {
+  const clash = delimiters.find(([, delimiter]) => delimiter && value.includes(delimiter));
+  if (clash) {
+    throw new Error(`${elementReference(tag, index)} value "${value}" contains the ${clash[0]} "${clash[1]}"; choose other delimiters`);
+  }
+}
+
+function checkDelimiters(target: X12Delimiters): void {
+  const used = [target.element, target.component, target.segment, target.repetition].filter(Boolean);
+  if (new Set(used).size !== used.length) {
+    throw new Error(`Delimiters must all differ: element "${target.element}", component "${target.component}", repetition "${target.repetition ?? ''}", segment "${target.segment}"`);
+  }
+}
+
+// Element text for the target delimiters. Components and repetitions are rejoined
+// from parsedElements unless the element was edited through `elements` directly.
+function elementText(segment: EDISegment, index: number, source: X12Delimiters, target: X12Delimiters): string {
+  const value = segment.elements[index] ?? '';
+  const parsed = segment.parsedElements?.[index];
+  const changed = source.component !== target.component || source.repetition !== target.repetition;
+  if (index === 0 || !changed || !parsed || parsed.value !== value) return value;
+
+  if (parsed.repetitions.length > 1 && !target.repetition) {
+    throw new Error(`${elementReference(segment.tag, index)} repeats but the delimiter set has no repetition separator`);
+  }
+  parsed.repetitions.flat().forEach(component => {
+    checkValue(component, segment.tag, index, [['component separator', target.component], ['repetition separator', target.repetition]]);
+  });
+  return parsed.repetitions.map(components => components.join(target.component)).join(target.repetition || '');
+}
+
+// ISA11 and ISA16 declare the separators, so they follow the target set
+function isaElements(segment: EDISegment, source: X12Delimiters, target: X12Delimiters): string[] {
+  const elements = [...segment.elements];
+  if (source.repetition && elements[11] === source.repetition) {
+    elements[11] = target.repetition || 'U';
+  } else if (!source.repetition && target.repetition && elements[11] === 'U') {
+    elements[11] = target.repetition;
+  }
+  if (elements.length > 16) elements[16] = target.component;
+  return elements;
+}
+
+// Throws when a value holds one of the target delimiters
+export function serializeSegment(segment: EDISegment, source: X12Delimiters, target: X12Delimiters = source): string {
+  if (segment.tag === 'ISA') return isaElements(segment, source, target).join(target.element);
+
+  const elements = segment.elements.map((_, index) => elementText(segment, index, source, target));
+  const breaks: [string, string][] = target.segment === '\n' ? [['line break', '\r']] : [];
+  elements.forEach((text, index) => {
+    if (index) checkValue(text, segment.tag, index, [['element separator', target.element], ['segment terminator', target.segment], ...breaks]);
+  });
+  return elements.join(target.element);
+}
+
+// SE01 counts ST..SE, GE01 counts the group's ST segments and IEA01 the interchange's GS segments.
+// Values that already hold the right number keep their original text.
+export function recountControlSegments(segments: EDISegment[]): EDISegment[] {
+  let setSegments = 0;
+  let sets = 0;
+  let groups = 0;
+
+  const withCount = (segment: EDISegment, count: number): EDISegment => {
+    if (Number(segment.elements[1]) === count && segment.elements[1] !== '') return segment;
+    const elements = [...segment.elements];
+    elements[1] = String(count);
+    const parsedElements = segment.parsedElements && [...segment.parsedElements];
+    if (parsedElements) parsedElements[1] = { value: elements[1], repetitions: [[elements[1]]] };
+    return { ...segment, elements, parsedElements };
+  };
+
+  return segments.map(segment => {
+    if (setSegments) setSegments++;
+    switch (segment.tag) {
+      case 'ISA':
+        groups = 0;
+        return segment;
+      case 'GS':
+        groups++;
+        sets = 0;
+        return segment;
+      case 'ST':
+        sets++;
+        setSegments = 1;
+        return segment;
+      case 'SE': {
+        const count = setSegments;
+        setSegments = 0;
+        return count ? withCount(segment, count) : segment;
+      }
+      case 'GE':
+        return withCount(segment, sets);
+      case 'IEA':
+        return withCount(segment, groups);
+      default:
+        return segment;
+    }
+  });
+}
+
+function wrapText(text: string, wrap: NonNullable<X12Layout['wrap']>): string {
+  if (wrap.width <= 0) return text;
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += wrap.width) {
+    lines.push(text.substring(i, i + wrap.width));
+  }
+  return lines.join(wrap.lineBreak);
+}
+
+// Write segments out as X12 with their own or a chosen delimiter set and layout.
+// An unedited parse with default options gives back the original bytes.
+export function serializeX12(input: X12Serializable, options: SerializeOptions = {}): string {
+  const source = input.delimiters || DEFAULT_X12_DELIMITERS;
+  const target: X12Delimiters = { ...source, ...options.delimiters };
+  const layout: X12Layout = { ...(input.layout || DEFAULT_X12_LAYOUT), ...options.layout };
+  checkDelimiters(target);
+  const segments = options.recount === false ? input.segments : recountControlSegments(input.segments);
+
+  const terminator = target.segment === '\n'
+    ? (layout.newlineTerminator || '\n')
+    : target.segment;
+  // A newline terminator already ends the line
+  const lineBreak = target.segment === '\n' ? '' : layout.lineBreak;
+  // Retargeting e.g. '~\n' to '\n': the final terminator now ends the last line itself
+  const trailing = target.segment !== source.segment && layout.terminateLast && layout.trailing === terminator
+    ? ''
+    : layout.trailing;
+
+  const body = segments
+    .map(segment => serializeSegment(segment, source, target))
+    .join(terminator + lineBreak) + (segments.length && layout.terminateLast ? terminator : '');
+
+  return layout.leading + (layout.wrap ? wrapText(body, layout.wrap) : body) + trailing;
+}
@@ -0,0 +1,380 @@
+import type { EDISegment } from './universalEDIParser';
+import { X12_FORMATS, type X12FormatType } from './x12Formats';
+import { readDelimiters, inferDelimiters, tokenizeSegment, type X12Delimiters } from './x12Tokenizer';
+import { createTransactionSet, type EDITransactionSet } from './x12Envelope';
+
+export interface StreamProgress {
+  bytesRead: number;
+  totalBytes?: number;
+  segmentsParsed: number;
+  transactionSetsParsed: number;
+}
+
+export interface StreamOptions {
+  onProgress?: (progress: StreamProgress) => void;
+  // Called once the delimiter set has been read from the ISA (or inferred)
+  onDelimiters?: (delimiters: X12Delimiters) => void;
+  signal?: AbortSignal;
+}
+
+export interface StreamedTransactionSetSummary {
+  type: X12FormatType | 'unknown';
+  controlNumber: string;
+  implementationReference?: string;
+  segmentCount: number;
+  memberCount: number;
+}
+
+// A byte range of the source small enough to parse on the main thread. `header` and
+// `trailer` hold the envelope segments that make the range a complete interchange.
+export interface StreamPage {
+  start: number;
+  end: number;
+  header: string[];
+  trailer: string[];
+  // Trailers inside the range whose counts are rewritten for the page
+  patches: Array<{ start: number; end: number; raw: string }>;
+}
+
+export interface EDIStreamSummary {
+  type: X12FormatType | 'unknown';
+  delimiters?: X12Delimiters;
+  sender: string;
+  receiver: string;
+  controlNumber: string;
+  totalSegments: number;
+  segmentCounts: Record<string, number>;
+  transactionSets: StreamedTransactionSetSummary[];
+  pages: StreamPage[];
+  bytesRead: number;
+  processingTime: number;
+}
+
+// Delimiters cannot be read until the whole ISA has arrived; give up on finding
+// one once this much text has been buffered
+const ISA_SEARCH_LIMIT = 1024;
+
+// Pages close at the first loop boundary past this size
+const PAGE_BYTES = 4 * 1024 * 1024;
+
+// Member-level loops a page may start at; other sets only break between sets
+const PAGE_LOOP_TAGS: Partial<Record<X12FormatType, string>> = {
+  '834': 'INS',
+  '820': 'ENT',
+  '835': 'CLP'
+};
+
+type ByteSource = Blob | ReadableStream<Uint8Array>;
+
+interface PositionedSegment {
+  segment: EDISegment;
+  // Byte range of the segment's text in the source, from its leading whitespace
+  // through its terminator
+  start: number;
+  end: number;
+}
+
+// UTF-8 length of decoded text, so segment offsets line up with Blob.slice
+const utf8Length = (text: string) => {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) length += 1;
+    else if (code < 0x800) length += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      length += 4;
+      i++;
+    } else length += 3;
+  }
+  return length;
+};
+
+async function* readPositionedSegments(source: ByteSource, options: StreamOptions): AsyncGenerator<PositionedSegment> {
+  const stream = source instanceof Blob ? source.stream() : source;
+  const totalBytes = source instanceof Blob ? source.size : undefined;
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  let buffer = '';
+  let delimiters: X12Delimiters | null = null;
+  let bytesRead = 0;
+  let segmentsParsed = 0;
+  let transactionSetsParsed = 0;
+  // TextDecoder drops a UTF-8 byte order mark, so offsets start past it
+  let offset: number | undefined;
+
+  const drain = function* (final: boolean): Generator<PositionedSegment> {
+    if (!delimiters) {
+      delimiters = readDelimiters(buffer, final);
+      if (!delimiters && (final || buffer.length > ISA_SEARCH_LIMIT)) {
+        delimiters = inferDelimiters(buffer);
+      }
+      if (!delimiters) return;
+      options.onDelimiters?.(delimiters);
+    }
+
+    const pieces = buffer.split(delimiters.segment);
+    // The last piece may be a partial segment until the next chunk arrives
+    buffer = final ? '' : pieces.pop() || '';
+    const terminatorLength = utf8Length(delimiters.segment);
+
+    for (const piece of pieces) {
+      const start = offset || 0;
+      offset = start + utf8Length(piece) + terminatorLength;
+      const segment = tokenizeSegment(piece, delimiters, segmentsParsed + 1);
+      if (!segment) continue;
+
+      segmentsParsed++;
+      if (segment.tag === 'SE') transactionSetsParsed++;
+      yield { segment, start, end: offset };
+    }
+  };
+
+  try {
+    while (true) {
+      if (options.signal?.aborted) throw new DOMException('Parsing aborted', 'AbortError');
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (offset === undefined) offset = value[0] === 0xef && value[1] === 0xbb && value[2] === 0xbf ? 3 : 0;
+      bytesRead += value.byteLength;
+      buffer += decoder.decode(value, { stream: true });
+      yield* drain(false);
+
+      options.onProgress?.({ bytesRead, totalBytes, segmentsParsed, transactionSetsParsed });
+    }
+
+    buffer += decoder.decode();
+    yield* drain(true);
+    options.onProgress?.({ bytesRead, totalBytes, segmentsParsed, transactionSetsParsed });
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yield segments one at a time from a Blob/File or byte stream without
+// holding the whole file in memory
+export async function* streamX12Segments(source: ByteSource, options: StreamOptions = {}): AsyncGenerator<EDISegment> {
+  for await (const { segment } of readPositionedSegments(source, options)) yield segment;
+}
+
+// Yield each ST/SE set as soon as its SE arrives. Sets carry their ISA/GS
+// header; GE/IEA trailers are not attached since they have not been read yet.
+export async function* streamTransactionSets(source: ByteSource, options: StreamOptions = {}): AsyncGenerator<EDITransactionSet> {
+  let isa: EDISegment | undefined;
+  let gs: EDISegment | undefined;
+  let current: EDISegment[] | null = null;
+  let delimiters: X12Delimiters | undefined;
+  const onDelimiters = (resolved: X12Delimiters) => {
+    delimiters = resolved;
+    options.onDelimiters?.(resolved);
+  };
+
+  for await (const segment of streamX12Segments(source, { ...options, onDelimiters })) {
+    switch (segment.tag) {
+      case 'ISA':
+        isa = segment;
+        gs = undefined;
+        break;
+      case 'GS':
+        gs = segment;
+        break;
+      case 'ST':
+        current = [isa, gs, segment].filter((s): s is EDISegment => Boolean(s));
+        break;
+      case 'SE':
+        if (current) {
+          current.push(segment);
+          yield createTransactionSet(current, delimiters);
+          current = null;
+        }
+        break;
+      default:
+        current?.push(segment);
+        break;
+    }
+  }
+}
+
+// Split a streamed file into pages as its segments go by. A page opens with the
+// envelope (and set header) it starts inside, and closes with trailers counted
+// over the segments it actually holds.
+const createPager = (pages: StreamPage[]) => {
+  let isa: EDISegment | null = null;
+  let gs: EDISegment | null = null;
+  let st: EDISegment | null = null;
+  let setHeader: string[] = [];
+  let inSetBody = false;
+  let page: Omit<StreamPage, 'end' | 'trailer'> | null = null;
+  let pageGroups = 0;
+  let pageSets = 0;
+  let pageSetSegments = 0;
+  // Whether the open interchange, group and set began on an earlier page
+  let carried = { isa: false, gs: false, st: false };
+
+  const close = (end: number, element: string) => {
+    if (!page) return;
+    const trailer: string[] = [];
+    if (st) trailer.push(['SE', pageSetSegments + 1, st.elements[2] || ''].join(element));
+    if (gs) trailer.push(['GE', pageSets, gs.elements[6] || ''].join(element));
+    if (isa) trailer.push(['IEA', pageGroups, isa.elements[13] || ''].join(element));
+    pages.push({ ...page, end, trailer });
+  };
+
+  const patch = (start: number, end: number, raw: string) => page?.patches.push({ start, end, raw });
+
+  const add = ({ segment, start, end }: PositionedSegment, element: string) => {
+    const setType = st?.elements[1]?.trim() as X12FormatType | undefined;
+    const loopStart = !!st && !!setType && segment.tag === PAGE_LOOP_TAGS[setType];
+
+    if (!page) {
+      page = { start: 0, header: [], patches: [] };
+    } else if (start - page.start >= PAGE_BYTES && (loopStart || ['ISA', 'GS', 'ST'].includes(segment.tag))) {
+      close(start, element);
+      const envelope = segment.tag === 'ISA' ? [] : segment.tag === 'GS' ? [isa] : [isa, gs];
+      page = {
+        start,
+        header: [...envelope.filter((s): s is EDISegment => Boolean(s)).map(s => s.raw), ...(loopStart ? setHeader : [])],
+        patches: []
+      };
+      carried = { isa: !!isa, gs: !!gs && segment.tag !== 'GS', st: loopStart };
+      pageGroups = gs && segment.tag !== 'GS' ? 1 : 0;
+      pageSets = loopStart ? 1 : 0;
+      pageSetSegments = loopStart ? setHeader.length : 0;
+    }
+
+    switch (segment.tag) {
+      case 'ISA':
+        isa = segment;
+        gs = st = null;
+        pageGroups = 0;
+        carried = { isa: false, gs: false, st: false };
+        break;
+      case 'GS':
+        gs = segment;
+        st = null;
+        pageGroups++;
+        pageSets = 0;
+        carried = { ...carried, gs: false, st: false };
+        break;
+      case 'ST':
+        st = segment;
+        setHeader = [segment.raw];
+        inSetBody = false;
+        pageSets++;
+        pageSetSegments = 1;
+        carried = { ...carried, st: false };
+        break;
+      case 'SE':
+        if (carried.st) patch(start, end, ['SE', pageSetSegments + 1, segment.elements[2] || ''].join(element));
+        st = null;
+        break;
+      case 'GE':
+        if (carried.gs) patch(start, end, ['GE', pageSets, segment.elements[2] || ''].join(element));
+        gs = null;
+        break;
+      case 'IEA':
+        if (carried.isa) patch(start, end, ['IEA', pageGroups, segment.elements[2] || ''].join(element));
+        isa = null;
+        break;
+      default:
+        if (!st) break;
+        pageSetSegments++;
+        if (loopStart) inSetBody = true;
+        if (!inSetBody) setHeader.push(segment.raw);
+        break;
+    }
+  };
+
+  return { add, close };
+};
+
+// Aggregate a streamed file into counts and a page index, for files too large to keep as segments
+export async function summarizeX12Stream(source: ByteSource, options: StreamOptions = {}): Promise<EDIStreamSummary> {
+  const startTime = Date.now();
+  let bytesRead = 0;
+  const summary: EDIStreamSummary = {
+    type: 'unknown',
+    sender: '',
+    receiver: '',
+    controlNumber: '',
+    totalSegments: 0,
+    segmentCounts: {},
+    transactionSets: [],
+    pages: [],
+    bytesRead: 0,
+    processingTime: 0
+  };
+  let currentSet: StreamedTransactionSetSummary | null = null;
+  const pager = createPager(summary.pages);
+
+  const onProgress = (progress: StreamProgress) => {
+    bytesRead = progress.bytesRead;
+    options.onProgress?.(progress);
+  };
+  const onDelimiters = (delimiters: X12Delimiters) => {
+    summary.delimiters = delimiters;
+    options.onDelimiters?.(delimiters);
+  };
+
+  for await (const positioned of readPositionedSegments(source, { ...options, onProgress, onDelimiters })) {
+    const { segment } = positioned;
+    pager.add(positioned, summary.delimiters?.element || '*');
+    summary.totalSegments++;
+    summary.segmentCounts[segment.tag] = (summary.segmentCounts[segment.tag] || 0) + 1;
+
+    switch (segment.tag) {
+      case 'ISA':
+        if (!summary.controlNumber) {
+          summary.sender = segment.elements[6]?.trim() || '';
+          summary.receiver = segment.elements[8]?.trim() || '';
+          summary.controlNumber = segment.elements[13] || '';
+        }
+        break;
+      case 'ST': {
+        const code = segment.elements[1]?.trim();
+        const type = code && code in X12_FORMATS ? code as X12FormatType : 'unknown';
+        if (summary.type === 'unknown') summary.type = type;
+        currentSet = {
+          type,
+          controlNumber: segment.elements[2] || '',
+          implementationReference: segment.elements[3] || undefined,
+          segmentCount: 0,
+          memberCount: 0
+        };
+        summary.transactionSets.push(currentSet);
+        break;
+      }
+      case 'INS':
+        if (currentSet) currentSet.memberCount++;
+        break;
+    }
+
+    if (currentSet) currentSet.segmentCount++;
+    if (segment.tag === 'SE') currentSet = null;
+  }
+
+  pager.close(bytesRead, summary.delimiters?.element || '*');
+  summary.bytesRead = bytesRead;
+  summary.processingTime = Date.now() - startTime;
+  return summary;
+}
+
+// Read one page of a summarized file back as a standalone interchange
+export async function readStreamPage(source: Blob, page: StreamPage, delimiters?: X12Delimiters): Promise<string> {
+  const terminator = delimiters?.segment || '~';
+  const lineBreak = terminator === '\n' ? '' : '\n';
+  const parts: BlobPart[] = [];
+  let position = page.start;
+  for (const { start, end, raw } of page.patches) {
+    parts.push(source.slice(position, start), `${lineBreak}${raw}${terminator}`);
+    position = end;
+  }
+  parts.push(source.slice(position, page.end));
+  const body = await new Blob(parts).text();
+
+  return page.header.map(raw => `${raw}${terminator}${lineBreak}`).join('') +
+    body.replace(/^\s+/, '') +
+    page.trailer.map(raw => `${lineBreak}${raw}${terminator}`).join('');
+}
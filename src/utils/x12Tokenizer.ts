@@ -0,0 +1,109 @@
+import type { EDISegment } from './universalEDIParser';
+import { buildElements } from './x12Elements';
+import { isEDIFACT, tokenizeEDIFACT } from './edifactTokenizer';
+
+export interface X12Delimiters {
+  element: string;
+  repetition: string | null;
+  component: string;
+  segment: string;
+}
+
+export interface X12TokenizeResult {
+  delimiters: X12Delimiters;
+  segments: EDISegment[];
+}
+
+// Used when the content has no ISA header to read delimiters from
+export const DEFAULT_X12_DELIMITERS: X12Delimiters = {
+  element: '*',
+  repetition: '^',
+  component: ':',
+  segment: '~'
+};
+
+const ISA_ELEMENT_COUNT = 16;
+
+// Read the delimiter set from the ISA header. The element separator is the
+// character right after "ISA", ISA11 carries the repetition separator (5010),
+// ISA16 is the component separator and the next character terminates the segment.
+// `complete` is false while content is still arriving: a buffer ending right after
+// ISA16 has not shown its terminator yet, so no delimiters are decided.
+export function readDelimiters(content: string, complete = true): X12Delimiters | null {
+  const start = content.search(/\S/);
+  if (start === -1 || content.substring(start, start + 3) !== 'ISA') return null;
+
+  const element = content.charAt(start + 3);
+  if (!element || /[A-Za-z0-9\s]/.test(element)) return null;
+
+  // Walk the separators rather than trusting the fixed 106-character width,
+  // so an ISA with badly padded fields still yields the right delimiters
+  const values: string[] = [];
+  let cursor = start + 4;
+  for (let i = 1; i < ISA_ELEMENT_COUNT; i++) {
+    const next = content.indexOf(element, cursor);
+    if (next === -1) return null;
+    values.push(content.substring(cursor, next));
+    cursor = next + 1;
+  }
+
+  const component = content.charAt(cursor);
+  let segment = content.charAt(cursor + 1);
+  if (!component) return null;
+  if (segment === '' && !complete) return null;
+
+  // Some senders terminate segments with a bare line break
+  if (segment === '\r' || segment === '') segment = '\n';
+
+  const isa11 = values[10];
+  const repetition = isa11 && isa11.length === 1 && !/[A-Za-z0-9\s]/.test(isa11) ? isa11 : null;
+
+  return { element, repetition, component, segment };
+}
+
+// Files without an ISA (snippets, single transaction sets) are either
+// "~"-terminated or one segment per line
+export function inferDelimiters(content: string): X12Delimiters {
+  return {
+    ...DEFAULT_X12_DELIMITERS,
+    segment: content.includes(DEFAULT_X12_DELIMITERS.segment) ? DEFAULT_X12_DELIMITERS.segment : '\n'
+  };
+}
+
+// Build one segment from the text between two terminators; null for blank pieces
+export function tokenizeSegment(piece: string, delimiters: X12Delimiters, ordinal: number): EDISegment | null {
+  // Fixed-width (e.g. 80-column) files break lines inside segments
+  const text = delimiters.segment === '\n' ? piece : piece.replace(/[\r\n]/g, '');
+  const raw = text.replace(/^\s+|[\r\n]+$/g, '');
+  if (!raw.trim()) return null;
+
+  const elements = raw.split(delimiters.element);
+  elements[0] = elements[0].trim();
+
+  return {
+    tag: elements[0],
+    elements,
+    parsedElements: buildElements(elements[0], elements, delimiters),
+    raw,
+    lineNumber: ordinal
+  };
+}
+
+// Split X12 content into segments using the delimiters declared in its ISA header.
+// lineNumber holds the 1-based segment ordinal, not the physical line.
+export function tokenizeX12(content: string, delimiters?: X12Delimiters): X12TokenizeResult {
+  const resolved = delimiters || readDelimiters(content) || inferDelimiters(content);
+  const segments: EDISegment[] = [];
+
+  for (const piece of content.split(resolved.segment)) {
+    const segment = tokenizeSegment(piece, resolved, segments.length + 1);
+    if (segment) segments.push(segment);
+  }
+
+  return { delimiters: resolved, segments };
+}
+
+// Tokenize either syntax: UN/EDIFACT when the content opens with UNA or UNB, X12 otherwise
+export function tokenizeEDI(content: string): X12TokenizeResult {
+  return isEDIFACT(content) ? tokenizeEDIFACT(content) : tokenizeX12(content);
+}
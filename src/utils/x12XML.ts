@@ -0,0 +1,288 @@
+import type { EDIDocument } from './x12Envelope';
+import { convertEDIToLosslessJSON } from './losslessJSON';
+import { ROOT_LOOP_ID } from './x12Loops';
+import { JSONValidationError, validateConversionJSON, type LosslessElement, type LosslessJSONDocument, type LosslessLoop, type LosslessSegment } from './jsonSchemas';
+import type { X12Layout } from './x12Serializer';
+
+// XML form of the parsed transaction tree, for partners that take XML. The naming is
+// stable: envelopes are <Interchange>, <FunctionalGroup> and <TransactionSet>, loops are
+// <Loop id="2000">, segments are elements named by their ID and each element is a child
+// named by its reference (<NM103>). Composite components are <SV101-1>; a repeated
+// element appears once per repetition. Empty elements are kept so positions survive.
+//
+//   <Loop id="2100A" name="Member Name">
+//     <NM1><NM101>IL</NM101><NM102>1</NM102><NM103>DOE</NM103></NM1>
+//   </Loop>
+//
+// Edge functions write XML through this module too (supabase/functions/_shared/x12XML.ts).
+// The Convert tab reads it back with parseX12XML to edit and write out as X12.
+
+export const X12_XML_NAMESPACE = 'urn:x12:edi-compare-decode:1';
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Attribute values also keep line breaks and tabs, which XML would otherwise normalize
+function escapeAttribute(value: string): string {
+  return escapeText(value)
+    .replace(/"/g, '&quot;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\t/g, '&#9;');
+}
+
+function elementName(tag: string, position: number): string {
+  return `${tag}${String(position).padStart(2, '0')}`;
+}
+
+function elementXML(name: string, element: LosslessElement): string[] {
+  const component = (components: string[]) => components.length === 1
+    ? components[0] ? `<${name}>${escapeText(components[0])}</${name}>` : `<${name}/>`
+    : `<${name}>${components.map((value, index) => value ? `<${name}-${index + 1}>${escapeText(value)}</${name}-${index + 1}>` : `<${name}-${index + 1}/>`).join('')}</${name}>`;
+
+  if (typeof element === 'string') return [component([element])];
+  if (element.every(item => Array.isArray(item))) return (element as string[][]).map(component);
+  return [component(element as string[])];
+}
+
+function segmentXML(segment: LosslessSegment, indent: string): string {
+  const elements = segment.elements.flatMap((element, index) => elementXML(elementName(segment.tag, index + 1), element));
+  return `${indent}<${segment.tag}>${elements.join('')}</${segment.tag}>`;
+}
+
+function loopXML(loop: LosslessLoop, indent: string): string[] {
+  return [
+    `${indent}<Loop id="${escapeAttribute(loop.id)}" name="${escapeAttribute(loop.name)}">`,
+    ...loop.segments.map(segment => segmentXML(segment, `${indent}  `)),
+    ...loop.loops.flatMap(child => loopXML(child, `${indent}  `)),
+    `${indent}</Loop>`
+  ];
+}
+
+function layoutAttributes(layout?: X12Layout): string {
+  if (!layout) return '';
+  const attributes: Record<string, string | undefined> = {
+    leading: layout.leading || undefined,
+    lineBreak: layout.lineBreak,
+    newlineTerminator: layout.newlineTerminator,
+    terminateLast: String(layout.terminateLast),
+    trailing: layout.trailing || undefined,
+    wrapWidth: layout.wrap ? String(layout.wrap.width) : undefined,
+    wrapLineBreak: layout.wrap?.lineBreak
+  };
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value || '')}"`)
+    .join('');
+}
+
+// Write lossless JSON as XML
+export function convertLosslessToXML(document: LosslessJSONDocument): string {
+  const { delimiters } = document;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<X12 xmlns="${X12_XML_NAMESPACE}" elementSeparator="${escapeAttribute(delimiters.element)}" componentSeparator="${escapeAttribute(delimiters.component)}"` +
+      `${delimiters.repetition ? ` repetitionSeparator="${escapeAttribute(delimiters.repetition)}"` : ''} segmentTerminator="${escapeAttribute(delimiters.segment)}"` +
+      `${layoutAttributes(document.layout as X12Layout | undefined)}>`
+  ];
+
+  for (const interchange of document.interchanges) {
+    lines.push('  <Interchange>');
+    if (interchange.header) lines.push(segmentXML(interchange.header, '    '));
+    for (const group of interchange.groups) {
+      lines.push('    <FunctionalGroup>');
+      if (group.header) lines.push(segmentXML(group.header, '      '));
+      for (const set of group.transactionSets) {
+        lines.push(`      <TransactionSet type="${escapeAttribute(set.type)}">`);
+        lines.push(...set.loop.segments.map(segment => segmentXML(segment, '        ')));
+        lines.push(...set.loop.loops.flatMap(loop => loopXML(loop, '        ')));
+        lines.push(...set.summary.map(segment => segmentXML(segment, '        ')));
+        lines.push('      </TransactionSet>');
+      }
+      if (group.trailer) lines.push(segmentXML(group.trailer, '      '));
+      lines.push('    </FunctionalGroup>');
+    }
+    if (interchange.trailer) lines.push(segmentXML(interchange.trailer, '    '));
+    lines.push('  </Interchange>');
+  }
+
+  lines.push('</X12>');
+  return lines.join('\n') + '\n';
+}
+
+export function convertEDIToXML(document: EDIDocument): string {
+  return convertLosslessToXML(convertEDIToLosslessJSON(document));
+}
+
+// Reading
+
+interface XMLNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLNode[];
+  text: string;
+}
+
+function unescapeXML(value: string): string {
+  return value
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// A small XML reader for this format: elements, attributes, text and CDATA.
+// Namespace prefixes are dropped.
+function parseXMLTree(xml: string): XMLNode {
+  const root: XMLNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XMLNode[] = [root];
+  const tokens = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const localName = (name: string) => name.substring(name.indexOf(':') + 1);
+
+  for (const match of xml.matchAll(tokens)) {
+    const current = stack[stack.length - 1];
+    if (match[1] !== undefined) {
+      current.text += match[1];
+    } else if (match[2]) {
+      if (localName(match[2]) !== current.name) {
+        throw new Error(`XML closes <${match[2]}> inside <${current.name}>`);
+      }
+      stack.pop();
+    } else if (match[3]) {
+      const attributes: Record<string, string> = {};
+      for (const attribute of (match[4] || '').matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[localName(attribute[1])] = unescapeXML(attribute[2] ?? attribute[3]);
+      }
+      const node: XMLNode = { name: localName(match[3]), attributes, children: [], text: '' };
+      current.children.push(node);
+      if (!match[5]) stack.push(node);
+    } else if (match[6] !== undefined) {
+      current.text += unescapeXML(match[6]);
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`XML ends inside <${stack[stack.length - 1].name}>`);
+  return root;
+}
+
+function readElements(node: XMLNode, path: string): LosslessElement[] {
+  const elements: LosslessElement[] = [];
+
+  for (const child of node.children) {
+    const match = /^([A-Z][A-Z0-9]{1,2})(\d{2})$/.exec(child.name);
+    if (!match || match[1] !== node.name) {
+      throw new Error(`${path}: <${child.name}> is not an element of ${node.name}`);
+    }
+
+    const index = Number(match[2]) - 1;
+    const components = child.children.length
+      ? child.children.map(component => component.text)
+      : [child.text];
+    const value: LosslessElement = components.length === 1 && !child.children.length ? components[0] : components;
+
+    if (index < elements.length - 1) {
+      throw new Error(`${path}: <${child.name}> is out of order`);
+    }
+    if (index === elements.length - 1) {
+      // Another occurrence of the same element is a repetition
+      const previous = elements[index];
+      const repetitions = Array.isArray(previous) && previous.every(item => Array.isArray(item))
+        ? previous as string[][]
+        : [typeof previous === 'string' ? [previous] : previous as string[]];
+      elements[index] = [...repetitions, typeof value === 'string' ? [value] : value as string[]];
+      continue;
+    }
+
+    while (elements.length < index) elements.push('');
+    elements.push(value);
+  }
+
+  return elements;
+}
+
+function readSegment(node: XMLNode, path: string): LosslessSegment {
+  return { tag: node.name, elements: readElements(node, `${path}/${node.name}`) };
+}
+
+function readLoop(node: XMLNode, path: string): LosslessLoop {
+  const loopPath = `${path}/Loop[${node.attributes.id || ''}]`;
+  return {
+    id: node.attributes.id || '',
+    name: node.attributes.name || '',
+    segments: node.children.filter(child => child.name !== 'Loop').map(child => readSegment(child, loopPath)),
+    loops: node.children.filter(child => child.name === 'Loop').map(child => readLoop(child, loopPath))
+  };
+}
+
+function readLayout(attributes: Record<string, string>): X12Layout | undefined {
+  if (attributes.lineBreak === undefined && attributes.terminateLast === undefined) return undefined;
+  return {
+    leading: attributes.leading || '',
+    lineBreak: attributes.lineBreak || '',
+    newlineTerminator: attributes.newlineTerminator,
+    terminateLast: attributes.terminateLast !== 'false',
+    trailing: attributes.trailing || '',
+    wrap: attributes.wrapWidth ? { width: Number(attributes.wrapWidth), lineBreak: attributes.wrapLineBreak || '\n' } : undefined
+  };
+}
+
+// Read XML written by convertLosslessToXML back into lossless JSON. The result is
+// checked against the lossless schema, so it converts straight back to X12.
+export function parseX12XML(xml: string): LosslessJSONDocument {
+  const root = parseXMLTree(xml).children.find(child => child.name === 'X12');
+  if (!root) throw new Error('Expected an <X12> document element');
+
+  const { attributes } = root;
+  const document = {
+    mode: 'lossless' as const,
+    delimiters: {
+      element: attributes.elementSeparator || '*',
+      repetition: attributes.repetitionSeparator || null,
+      component: attributes.componentSeparator || ':',
+      segment: attributes.segmentTerminator || '~'
+    },
+    layout: readLayout(attributes),
+    interchanges: root.children.filter(child => child.name === 'Interchange').map((interchange, i) => {
+      const path = `X12/Interchange[${i + 1}]`;
+      const isa = interchange.children.find(child => child.name === 'ISA');
+      const iea = interchange.children.find(child => child.name === 'IEA');
+      return {
+        header: isa && readSegment(isa, path),
+        groups: interchange.children.filter(child => child.name === 'FunctionalGroup').map((group, g) => {
+          const groupPath = `${path}/FunctionalGroup[${g + 1}]`;
+          const gs = group.children.find(child => child.name === 'GS');
+          const ge = group.children.find(child => child.name === 'GE');
+          return {
+            header: gs && readSegment(gs, groupPath),
+            transactionSets: group.children.filter(child => child.name === 'TransactionSet').map((set, s) => {
+              const setPath = `${groupPath}/TransactionSet[${s + 1}]`;
+              // Segments after the last loop are the summary; without loops everything is heading
+              const lastLoop = set.children.map(child => child.name).lastIndexOf('Loop');
+              const heading = set.children.slice(0, lastLoop === -1 ? set.children.length : set.children.findIndex(child => child.name === 'Loop'));
+              return {
+                type: set.attributes.type || '',
+                loop: {
+                  id: ROOT_LOOP_ID,
+                  name: 'Transaction',
+                  segments: heading.map(child => readSegment(child, setPath)),
+                  loops: set.children.filter(child => child.name === 'Loop').map(child => readLoop(child, setPath))
+                },
+                summary: lastLoop === -1 ? [] : set.children.slice(lastLoop + 1).map(child => readSegment(child, setPath))
+              };
+            }),
+            trailer: ge && readSegment(ge, groupPath)
+          };
+        }),
+        trailer: iea && readSegment(iea, path)
+      };
+    })
+  };
+
+  const issues = validateConversionJSON(document);
+  if (issues.length) throw new JSONValidationError(issues);
+  return document as LosslessJSONDocument;
+}
@@ -0,0 +1,33 @@
+import { summarizeX12Stream, type EDIStreamSummary, type StreamProgress } from '@/utils/x12Stream';
+
+export type X12StreamWorkerRequest = {
+  file: Blob;
+};
+
+export type X12StreamWorkerMessage =
+  | { type: 'progress'; progress: StreamProgress }
+  | { type: 'complete'; summary: EDIStreamSummary }
+  | { type: 'error'; message: string };
+
+// Posting every chunk would flood the main thread on 200 MB files
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: X12StreamWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<X12StreamWorkerRequest>) => {
+  let lastProgressAt = 0;
+
+  try {
+    const summary = await summarizeX12Stream(event.data.file, {
+      onProgress: progress => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+        lastProgressAt = now;
+        post({ type: 'progress', progress });
+      }
+    });
+    post({ type: 'complete', summary });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,35 @@
+import type { EDIStreamSummary, StreamProgress } from '@/utils/x12Stream';
+import type { X12StreamWorkerMessage } from './x12Stream.worker';
+
+// Summarize a large file in a Web Worker so the UI thread stays responsive
+export function summarizeInWorker(
+  file: Blob,
+  onProgress?: (progress: StreamProgress) => void
+): Promise<EDIStreamSummary> {
+  const worker = new Worker(new URL('./x12Stream.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<EDIStreamSummary>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<X12StreamWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'complete':
+          resolve(message.summary);
+          worker.terminate();
+          break;
+        case 'error':
+          reject(new Error(message.message));
+          worker.terminate();
+          break;
+      }
+    };
+    worker.onerror = event => {
+      reject(new Error(event.message || 'EDI worker failed'));
+      worker.terminate();
+    };
+
+    worker.postMessage({ file });
+  });
+}
@@ -0,0 +1,36 @@
+// TA1/999 handling for edge functions through the client modules (src/utils/x12Acknowledgment.ts
+// and ediValidator.ts), so process-edi-file acknowledges a file exactly as the UI does:
+// dictionary and validator findings, loop IDs and IK3/IK4 segment and element errors.
+import { parseEDIContent } from '../../../src/utils/universalEDIParser.ts';
+import { validateEDITransaction, validationPartnerId, type ValidationRuleOverrides, type ValidationSeverity } from '../../../src/utils/ediValidator.ts';
+import { generateAcknowledgments, type InterchangeAcknowledgment } from '../../../src/utils/x12Acknowledgment.ts';
+
+export {
+  readAcknowledgments,
+  type ReceivedAcknowledgments,
+  type ReceivedGroupAcknowledgment,
+  type ReceivedSetAcknowledgment,
+  type ReceivedTA1
+} from '../../../src/utils/x12Acknowledgment.ts';
+export type { InterchangeAcknowledgment };
+
+// A partner's rows from edi_validation_overrides
+export interface SavedOverride {
+  rule_id: string;
+  enabled: boolean;
+  severity: string | null;
+}
+
+// Validate with the sender's saved rule overrides, then acknowledge every interchange in the file
+export async function buildAcknowledgments(
+  content: string,
+  loadOverrides: (partnerId: string) => Promise<SavedOverride[]>
+): Promise<InterchangeAcknowledgment[]> {
+  const transaction = parseEDIContent(content);
+  const partnerId = validationPartnerId(transaction.segments);
+  const overrides: ValidationRuleOverrides = {};
+  for (const row of partnerId ? await loadOverrides(partnerId) : []) {
+    overrides[row.rule_id] = { enabled: row.enabled, severity: (row.severity as ValidationSeverity | null) || undefined };
+  }
+  return generateAcknowledgments(content, validateEDITransaction(transaction, { overrides }));
+}
@@ -0,0 +1,18 @@
+// Edge functions run the client mapping engine (src/utils/mappingEngine.ts) itself, so a
+// definition maps the same here as in the Convert tab. ../deno.json resolves the client
+// modules' extensionless imports and zod.
+import { parseEDIDocument } from '../../../src/utils/x12Envelope.ts';
+import { convertEDIToLosslessJSON } from '../../../src/utils/losslessJSON.ts';
+import type { LosslessJSONDocument } from '../../../src/utils/jsonSchemas.ts';
+
+export {
+  runMapping,
+  validateMappingDefinition as checkMappingDefinition,
+  type MappingDefinition
+} from '../../../src/utils/mappingEngine.ts';
+export type { LosslessJSONDocument };
+
+// The lossless JSON a stored X12 file is mapped from
+export function fileToLosslessJSON(content: string): LosslessJSONDocument {
+  return convertEDIToLosslessJSON(parseEDIDocument(content));
+}
@@ -0,0 +1,9 @@
+// XML output for edge functions: the client's loop-aware serializer (src/utils/x12XML.ts),
+// so process-edi-file returns the same <Loop> structure and element names as the Convert
+// tab's export and parseX12XML reads it back.
+import { parseEDIDocument } from '../../../src/utils/x12Envelope.ts';
+import { convertEDIToXML } from '../../../src/utils/x12XML.ts';
+
+export function buildX12XML(content: string): string {
+  return convertEDIToXML(parseEDIDocument(content));
+}
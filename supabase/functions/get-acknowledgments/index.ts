@@ -0,0 +1,81 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_MAX_AGE_HOURS = 24;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const maxAgeHours = body.max_age_hours === undefined ? DEFAULT_MAX_AGE_HOURS : Number(body.max_age_hours);
+    // outstanding_acknowledgments takes an INTEGER
+    if (!Number.isInteger(maxAgeHours) || maxAgeHours <= 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'max_age_hours must be a positive integer' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    // Outbound files still waiting on a 999 or TA1 after max_age_hours
+    const { data: outstanding, error: outstandingError } = await supabase
+      .rpc('outstanding_acknowledgments', { max_age_hours: maxAgeHours });
+
+    if (outstandingError) throw outstandingError;
+
+    // Per-set statuses of the most recently acknowledged outbound files
+    const { data: acknowledged, error: ackError } = await supabase
+      .from('edi_files')
+      .select('id, file_name, file_type, interchange_control_number, acknowledgment_status, acknowledged_at, edi_transactions!edi_transactions_file_id_fkey(transaction_type, group_control_number, control_number, acknowledgment_status, acknowledgment_type, acknowledgment_errors)')
+      .eq('direction', 'outbound')
+      .not('acknowledgment_status', 'is', null)
+      .order('acknowledged_at', { ascending: false })
+      .limit(50);
+
+    if (ackError) throw ackError;
+
+    const statusCounts = (acknowledged || []).reduce((counts: Record<string, number>, file) => {
+      counts[file.acknowledgment_status] = (counts[file.acknowledgment_status] || 0) + 1;
+      return counts;
+    }, {});
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        maxAgeHours,
+        outstanding: outstanding || [],
+        acknowledged: acknowledged || [],
+        statusCounts,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error('Error fetching acknowledgments:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
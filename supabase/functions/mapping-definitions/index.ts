@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkMappingDefinition, type MappingDefinition } from "../_shared/mapping.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// List, save or delete a partner's mapping definitions:
+//   { action: 'list', partner_id, transaction_type? }
+//   { action: 'save', partner_id, definition }   (upserts on partner and name)
+//   { action: 'delete', id }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body.action || 'list';
+    let result: unknown;
+
+    if (action === 'list') {
+      let query = supabase
+        .from('edi_mapping_definitions')
+        .select('*')
+        .order('name');
+      if (body.partner_id) query = query.eq('partner_id', body.partner_id);
+      if (body.transaction_type) query = query.eq('transaction_type', body.transaction_type);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      result = { definitions: data || [] };
+    } else if (action === 'save') {
+      const definition = body.definition as MappingDefinition;
+      const problems = checkMappingDefinition(definition);
+      if (!body.partner_id) problems.unshift('partner_id: Required');
+      if (problems.length) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid mapping definition', problems }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('edi_mapping_definitions')
+        .upsert({
+          partner_id: body.partner_id,
+          name: definition.name,
+          transaction_type: definition.transactionType,
+          description: definition.description || null,
+          definition
+        }, { onConflict: 'partner_id,name' })
+        .select()
+        .single();
+      if (error) throw error;
+      result = { definition: data };
+    } else if (action === 'delete') {
+      const { error } = await supabase
+        .from('edi_mapping_definitions')
+        .delete()
+        .eq('id', body.id);
+      if (error) throw error;
+      result = { deleted: body.id };
+    } else {
+      throw new Error(`Unknown action ${action}`);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...(result as object) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error('Error managing mapping definitions:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
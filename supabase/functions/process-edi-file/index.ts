@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildAcknowledgments, readAcknowledgments } from "../_shared/acknowledgment.ts";
+import { buildX12XML } from "../_shared/x12XML.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,6 +30,32 @@ function parseEDI(content: string): Segment[] {
   return segments;
 }
 
+interface TransactionSet {
+  groupControlNumber: string;
+  segments: Segment[];
+}
+
+// ST..SE runs with the GS06 of their enclosing group
+function splitTransactionSets(segments: Segment[]): TransactionSet[] {
+  const sets: TransactionSet[] = [];
+  let groupControlNumber = '';
+  let current: TransactionSet | null = null;
+
+  for (const seg of segments) {
+    if (seg.type === 'GS') {
+      groupControlNumber = seg.elements[5] || '';
+    } else if (seg.type === 'ST') {
+      current = { groupControlNumber, segments: [seg] };
+      sets.push(current);
+    } else if (current) {
+      current.segments.push(seg);
+      if (seg.type === 'SE') current = null;
+    }
+  }
+
+  return sets;
+}
+
 function extractControlInfo(segments: Segment[]) {
   const st = segments.find(s => s.type === 'ST');
   const gs = segments.find(s => s.type === 'GS');
@@ -36,6 +64,7 @@ function extractControlInfo(segments: Segment[]) {
   return {
     transactionType: st?.elements[0] || '',
     controlNumber: st?.elements[1] || '',
+    interchangeControlNumber: isa?.elements[12] || '',
     senderId: isa?.elements[5]?.trim() || '',
     receiverId: isa?.elements[7]?.trim() || '',
     transactionDate: gs?.elements[3] ? parseEDIDate(gs.elements[3], gs.elements[4]) : null
@@ -153,6 +182,122 @@ async function process820(segments: Segment[], transactionId: string, supabase:
   return { paymentsProcessed: payments.length };
 }
 
+const ACK_STATUS: Record<string, string> = {
+  A: 'accepted',
+  E: 'accepted_with_errors'
+};
+
+// Roll a file's per-set statuses up to one file-level status
+function rollUpStatus(statuses: string[]): string {
+  if (statuses.every(status => status === 'accepted')) return 'accepted';
+  if (statuses.every(status => status === 'rejected')) return 'rejected';
+  if (statuses.includes('rejected')) return 'partially_accepted';
+  return 'accepted_with_errors';
+}
+
+// Match a received 999/TA1 back to the outbound files it answers: TA1 by ISA13,
+// 999 by the GS06 (AK102) and ST02 (AK202) of each acknowledged set
+async function reconcileAcknowledgments(content: string, ackFileId: string, supabase: ReturnType<typeof createClient>) {
+  const { ta1s, groups } = readAcknowledgments(content);
+  const acknowledgedAt = new Date().toISOString();
+  const touchedFiles = new Set<string>();
+  const unmatched: string[] = [];
+  let interchangesAcknowledged = 0;
+  let setsAcknowledged = 0;
+
+  for (const ta1 of ta1s) {
+    const { data: files, error } = await supabase
+      .from('edi_files')
+      .select('id, acknowledgment_status')
+      .eq('direction', 'outbound')
+      .eq('interchange_control_number', ta1.interchangeControlNumber)
+      .order('created_at', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    if (!files?.length) {
+      unmatched.push(`TA1 ${ta1.interchangeControlNumber}`);
+      continue;
+    }
+
+    const status = ACK_STATUS[ta1.acknowledgmentCode] || 'rejected';
+    interchangesAcknowledged++;
+    // Only a rejection outranks a status already rolled up from the file's 999/997
+    if (status === 'rejected' || !files[0].acknowledgment_status) {
+      await supabase
+        .from('edi_files')
+        .update({ acknowledgment_status: status, acknowledged_at: acknowledgedAt })
+        .eq('id', files[0].id);
+    }
+
+    // A rejected interchange rejects every set in it; an accepted one still awaits its 999
+    if (status === 'rejected') {
+      await supabase
+        .from('edi_transactions')
+        .update({
+          acknowledgment_status: 'rejected',
+          acknowledgment_type: 'TA1',
+          acknowledgment_file_id: ackFileId,
+          acknowledgment_errors: [{ noteCode: ta1.noteCode }],
+          acknowledged_at: acknowledgedAt
+        })
+        .eq('file_id', files[0].id);
+    }
+  }
+
+  for (const group of groups) {
+    for (const set of group.sets) {
+      const { data: transactions, error } = await supabase
+        .from('edi_transactions')
+        .select('id, file_id, edi_files!edi_transactions_file_id_fkey!inner(direction)')
+        .eq('edi_files.direction', 'outbound')
+        .eq('group_control_number', group.groupControlNumber)
+        .eq('control_number', set.controlNumber)
+        .eq('transaction_type', set.transactionType)
+        .order('created_at', { ascending: false })
+        .limit(1);
+      if (error) throw error;
+      if (!transactions?.length) {
+        unmatched.push(`${set.transactionType} ${group.groupControlNumber}/${set.controlNumber}`);
+        continue;
+      }
+
+      await supabase
+        .from('edi_transactions')
+        .update({
+          acknowledgment_status: ACK_STATUS[set.status] || 'rejected',
+          acknowledgment_type: '999',
+          acknowledgment_file_id: ackFileId,
+          acknowledgment_errors: set.errors.length || set.syntaxErrorCodes.length
+            ? { syntaxErrorCodes: set.syntaxErrorCodes, segments: set.errors }
+            : null,
+          acknowledged_at: acknowledgedAt
+        })
+        .eq('id', transactions[0].id);
+      touchedFiles.add(transactions[0].file_id);
+      setsAcknowledged++;
+    }
+  }
+
+  for (const fileId of touchedFiles) {
+    const { data: transactions, error } = await supabase
+      .from('edi_transactions')
+      .select('acknowledgment_status')
+      .eq('file_id', fileId)
+      .not('acknowledgment_status', 'is', null);
+    if (error) throw error;
+
+    await supabase
+      .from('edi_files')
+      .update({
+        acknowledgment_status: rollUpStatus((transactions || []).map((t: { acknowledgment_status: string }) => t.acknowledgment_status)),
+        acknowledged_at: acknowledgedAt
+      })
+      .eq('id', fileId);
+  }
+
+  return { interchangesAcknowledged, setsAcknowledged, unmatched };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -163,7 +308,13 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { file_id } = await req.json();
+    // output: 'xml' also returns the file as XML (see _shared/x12XML.ts).
+    // direction: 'outbound' registers a file we generated or sent, so the 999/TA1
+    // that later answers it can be reconciled against it.
+    const { file_id, output, direction } = await req.json();
+    if (direction !== undefined && direction !== 'inbound' && direction !== 'outbound') {
+      throw new Error(`Invalid direction: ${direction}`);
+    }
     
     // Get file
     const { data: file, error: fileError } = await supabase
@@ -183,36 +334,74 @@ serve(async (req) => {
     // Parse EDI
     const segments = parseEDI(file.file_content);
     const controlInfo = extractControlInfo(segments);
-    
-    // Create transaction record
-    const { data: transaction, error: txError } = await supabase
-      .from('edi_transactions')
-      .insert({
+
+    // One transaction record per ST/SE set so acknowledgments can be tracked per set.
+    // A bare TA1 interchange has no sets and gets a single record.
+    const sets = splitTransactionSets(segments);
+    // A TA1-only interchange has no ST to detect a type from, so it arrives as 'unknown'
+    const isAcknowledgment = file.file_type === '999' || (!sets.length && segments.some(s => s.type === 'TA1'));
+    const records = (sets.length ? sets : [{ groupControlNumber: '', segments }]).map(set => {
+      const st = set.segments[0]?.type === 'ST' ? set.segments[0] : undefined;
+      return {
         file_id: file.id,
-        transaction_type: controlInfo.transactionType,
-        control_number: controlInfo.controlNumber,
+        transaction_type: st?.elements[0] || (isAcknowledgment ? 'TA1' : file.file_type),
+        control_number: st?.elements[1] || controlInfo.interchangeControlNumber,
+        group_control_number: set.groupControlNumber || null,
         sender_id: controlInfo.senderId,
         receiver_id: controlInfo.receiverId,
         transaction_date: controlInfo.transactionDate,
-        segment_count: segments.length,
-        raw_segments: segments,
+        segment_count: set.segments.length,
+        raw_segments: set.segments,
         parsed_data: controlInfo
-      })
-      .select()
-      .single();
+      };
+    });
+
+    const { data: transactions, error: txError } = await supabase
+      .from('edi_transactions')
+      .insert(records)
+      .select();
     
     if (txError) throw txError;
+
+    await supabase
+      .from('edi_files')
+      .update({
+        interchange_control_number: controlInfo.interchangeControlNumber || null,
+        ...(direction && { direction })
+      })
+      .eq('id', file_id);
+    const fileDirection = direction || file.direction;
     
     // Process based on type
     let result;
-    if (file.file_type === '834') {
-      result = await process834(segments, transaction.id, supabase);
-    } else if (file.file_type === '820') {
-      result = await process820(segments, transaction.id, supabase);
+    if (file.file_type === '834' || file.file_type === '820') {
+      const processSet = file.file_type === '834' ? process834 : process820;
+      const counts = await Promise.all(
+        records.map((record, index) => processSet(record.raw_segments, transactions[index].id, supabase))
+      );
+      result = counts.reduce((total: Record<string, number>, count: Record<string, number>) => {
+        for (const [key, value] of Object.entries(count)) total[key] = (total[key] || 0) + value;
+        return total;
+      }, {});
+    } else if (isAcknowledgment) {
+      result = await reconcileAcknowledgments(file.file_content, file.id, supabase);
     } else {
       result = { message: 'Transaction type not fully implemented yet' };
     }
     
+    // TA1/999 for the sender, validated with the partner's rule overrides as in the UI.
+    // Acknowledgments and files we sent ourselves are never acknowledged.
+    const acknowledgments = !isAcknowledgment && fileDirection !== 'outbound'
+      ? await buildAcknowledgments(file.file_content, async partnerId => {
+          const { data, error } = await supabase
+            .from('edi_validation_overrides')
+            .select('rule_id, enabled, severity')
+            .eq('partner_id', partnerId);
+          if (error) throw error;
+          return data || [];
+        })
+      : [];
+
     // Update file status
     await supabase
       .from('edi_files')
@@ -223,8 +412,11 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         file_id,
-        transaction_id: transaction.id,
-        result
+        transaction_id: transactions[0].id,
+        transaction_ids: transactions.map((t: { id: string }) => t.id),
+        result,
+        acknowledgments,
+        ...(output === 'xml' && { xml: buildX12XML(file.file_content) })
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkMappingDefinition, fileToLosslessJSON, runMapping, type LosslessJSONDocument, type MappingDefinition } from "../_shared/mapping.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Run a mapping over a stored file (file_id) or a lossless JSON document (the Convert
+// tab's lossless download). The definition is inline, a saved definition_id, or a
+// partner_id with name or transaction type picking one of that partner's saved definitions.
+interface RunMappingRequest {
+  file_id?: string;
+  document?: LosslessJSONDocument;
+  definition?: MappingDefinition;
+  definition_id?: string;
+  partner_id?: string;
+  name?: string;
+  transaction_type?: string;
+}
+
+async function loadDocument(supabase: ReturnType<typeof createClient>, body: RunMappingRequest): Promise<LosslessJSONDocument> {
+  if (!body.file_id) {
+    if (body.document?.mode !== 'lossless') {
+      throw new Error('Provide file_id or a lossless JSON document (mode "lossless")');
+    }
+    return body.document;
+  }
+
+  const { data: file, error } = await supabase
+    .from('edi_files')
+    .select('file_content')
+    .eq('id', body.file_id)
+    .single();
+  if (error || !file) throw new Error('File not found');
+  return fileToLosslessJSON(file.file_content);
+}
+
+async function loadDefinition(supabase: ReturnType<typeof createClient>, body: RunMappingRequest): Promise<MappingDefinition> {
+  if (body.definition) return body.definition;
+
+  let query = supabase.from('edi_mapping_definitions').select('definition');
+  if (body.definition_id) {
+    query = query.eq('id', body.definition_id);
+  } else if (body.partner_id) {
+    query = query.eq('partner_id', body.partner_id);
+    if (body.name) query = query.eq('name', body.name);
+    if (body.transaction_type) query = query.eq('transaction_type', body.transaction_type);
+  } else {
+    throw new Error('Provide definition, definition_id or partner_id');
+  }
+
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(1);
+  if (error) throw error;
+  if (!data?.length) throw new Error('No matching mapping definition');
+  return data[0].definition as MappingDefinition;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body: RunMappingRequest = await req.json();
+    const definition = await loadDefinition(supabase, body);
+    const problems = checkMappingDefinition(definition);
+    if (problems.length) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid mapping definition', problems }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const document = await loadDocument(supabase, body);
+    const { records, issues } = runMapping(definition, document);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        mapping: definition.name,
+        transactionType: definition.transactionType,
+        records: records.map(record => record.target),
+        issues,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error('Error running mapping:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
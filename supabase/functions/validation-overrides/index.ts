@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SEVERITIES = ['critical', 'warning', 'info'];
+
+// List, save or delete per-partner validation rule overrides:
+//   { action: 'list', partner_id? }
+//   { action: 'save', partner_id, rule_id, enabled?, severity?, note? }   (upserts on partner and rule;
+//     fields left out keep their saved values, null clears severity or note)
+//   { action: 'delete', id }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json().catch(() => ({}));
+    const action = body.action || 'list';
+    let result: unknown;
+
+    if (action === 'list') {
+      let query = supabase
+        .from('edi_validation_overrides')
+        .select('*')
+        .order('partner_id')
+        .order('rule_id');
+      if (body.partner_id) query = query.eq('partner_id', body.partner_id);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      result = { overrides: data || [] };
+    } else if (action === 'save') {
+      const problems: string[] = [];
+      if (!body.partner_id) problems.push('partner_id: Required');
+      if (!body.rule_id) problems.push('rule_id: Required');
+      if (body.severity && !SEVERITIES.includes(body.severity)) problems.push(`severity: Expected one of ${SEVERITIES.join(', ')}`);
+      if (problems.length) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid validation override', problems }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+      }
+
+      // Only the columns sent are written, so toggling a rule keeps its severity re-grade
+      const row: Record<string, unknown> = { partner_id: body.partner_id, rule_id: body.rule_id };
+      if ('enabled' in body) row.enabled = body.enabled !== false;
+      if ('severity' in body) row.severity = body.severity || null;
+      if ('note' in body) row.note = body.note || null;
+
+      const { data, error } = await supabase
+        .from('edi_validation_overrides')
+        .upsert(row, { onConflict: 'partner_id,rule_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      result = { override: data };
+    } else if (action === 'delete') {
+      const { error } = await supabase
+        .from('edi_validation_overrides')
+        .delete()
+        .eq('id', body.id);
+      if (error) throw error;
+      result = { deleted: body.id };
+    } else {
+      throw new Error(`Unknown action ${action}`);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...(result as object) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error('Error managing validation overrides:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
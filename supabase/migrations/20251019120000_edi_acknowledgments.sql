@@ -0,0 +1,58 @@
+-- Acknowledgment reconciliation: received 999/TA1 files are matched back to the
+-- outbound interchanges they answer and recorded per transaction set
+
+-- TA1 acknowledgments arrive as their own interchange
+ALTER TABLE public.edi_files DROP CONSTRAINT IF EXISTS edi_files_file_type_check;
+ALTER TABLE public.edi_files ADD CONSTRAINT edi_files_file_type_check
+  CHECK (file_type IN ('834', '820', '837', '835', '270', '271', '278', '999', 'TA1', '850', '855', '856', '810'));
+
+-- Whether we sent or received the file, and its ISA13 for TA1 matching
+ALTER TABLE public.edi_files
+  ADD COLUMN direction TEXT NOT NULL DEFAULT 'inbound' CHECK (direction IN ('inbound', 'outbound')),
+  ADD COLUMN interchange_control_number TEXT,
+  ADD COLUMN acknowledgment_status TEXT CHECK (acknowledgment_status IN ('accepted', 'accepted_with_errors', 'partially_accepted', 'rejected')),
+  ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE;
+
+-- GS06 alongside the existing ST02 lets a 999 AK1/AK2 pair find its transaction set
+ALTER TABLE public.edi_transactions
+  ADD COLUMN group_control_number TEXT,
+  ADD COLUMN acknowledgment_status TEXT CHECK (acknowledgment_status IN ('accepted', 'accepted_with_errors', 'rejected')),
+  ADD COLUMN acknowledgment_type TEXT CHECK (acknowledgment_type IN ('999', 'TA1')),
+  ADD COLUMN acknowledgment_file_id UUID REFERENCES public.edi_files(id) ON DELETE SET NULL,
+  ADD COLUMN acknowledgment_errors JSONB,
+  ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_edi_files_direction ON public.edi_files(direction);
+CREATE INDEX idx_edi_files_interchange_control ON public.edi_files(interchange_control_number);
+CREATE INDEX idx_edi_transactions_control ON public.edi_transactions(group_control_number, control_number);
+CREATE INDEX idx_edi_transactions_ack_status ON public.edi_transactions(acknowledgment_status);
+
+-- Outbound files older than max_age_hours with transaction sets no 999 or TA1 has answered
+CREATE OR REPLACE FUNCTION public.outstanding_acknowledgments(max_age_hours INTEGER DEFAULT 24)
+RETURNS TABLE (
+  file_id UUID,
+  file_name TEXT,
+  file_type TEXT,
+  interchange_control_number TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  hours_outstanding NUMERIC,
+  unacknowledged_sets INTEGER
+) AS $$
+  SELECT
+    f.id,
+    f.file_name,
+    f.file_type,
+    f.interchange_control_number,
+    f.created_at,
+    ROUND(EXTRACT(EPOCH FROM (now() - f.created_at)) / 3600, 1),
+    COUNT(t.id) FILTER (WHERE t.acknowledgment_status IS NULL)::INTEGER
+  FROM public.edi_files f
+  LEFT JOIN public.edi_transactions t ON t.file_id = f.id
+  WHERE f.direction = 'outbound'
+    AND f.file_type NOT IN ('999', 'TA1')
+    AND f.created_at < now() - make_interval(hours => max_age_hours)
+    AND (f.acknowledgment_status IS DISTINCT FROM 'rejected')
+  GROUP BY f.id
+  HAVING (COUNT(t.id) = 0 AND f.acknowledgment_status IS NULL) OR COUNT(t.id) FILTER (WHERE t.acknowledgment_status IS NULL) > 0
+  ORDER BY f.created_at;
+$$ LANGUAGE sql STABLE;
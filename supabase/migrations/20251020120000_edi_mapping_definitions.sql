@@ -0,0 +1,25 @@
+-- Declarative EDI-to-target mappings, saved per trading partner. The definition
+-- JSON is documented in src/utils/mappingEngine.ts.
+CREATE TABLE public.edi_mapping_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- ISA sender/receiver ID or payer ID the mapping is used for
+  partner_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  transaction_type TEXT NOT NULL,
+  description TEXT,
+  definition JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(partner_id, name)
+);
+
+CREATE INDEX idx_edi_mapping_definitions_partner ON public.edi_mapping_definitions(partner_id, transaction_type);
+
+ALTER TABLE public.edi_mapping_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to edi_mapping_definitions" ON public.edi_mapping_definitions FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_edi_mapping_definitions_updated_at
+BEFORE UPDATE ON public.edi_mapping_definitions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,26 @@
+-- Per-partner changes to the validation rule registry in src/utils/ediValidator.ts.
+-- A row turns a rule off for the partner or re-grades everything it reports.
+CREATE TABLE public.edi_validation_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Interchange sender ID (ISA06 or UNB02) the override is used for
+  partner_id TEXT NOT NULL,
+  rule_id TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- critical, warning or info; NULL keeps the rule's own severity
+  severity TEXT CHECK (severity IN ('critical', 'warning', 'info')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(partner_id, rule_id)
+);
+
+CREATE INDEX idx_edi_validation_overrides_partner ON public.edi_validation_overrides(partner_id);
+
+ALTER TABLE public.edi_validation_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to edi_validation_overrides" ON public.edi_validation_overrides FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_edi_validation_overrides_updated_at
+BEFORE UPDATE ON public.edi_validation_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();